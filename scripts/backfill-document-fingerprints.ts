@@ -0,0 +1,84 @@
+/**
+ * Backfill Document Fingerprints
+ * Computes identifier keys and MinHash signatures for documents stored before
+ * duplicate detection, so new extractions are compared against them
+ *
+ * Run with: pnpm backfill:fingerprints [--all]
+ *   --all  Recompute every document, not only those without a fingerprint
+ */
+
+import { createOptimizedAdminClient } from '../src/lib/supabase/server';
+import { fingerprintDocument } from '../src/lib/rag/storage/duplicateDetection';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const PAGE_SIZE = 200;
+
+async function backfillFingerprints() {
+  const all = process.argv.includes('--all');
+  console.log(`🔄 Computing document fingerprints (${all ? 'all documents' : 'missing only'})...\n`);
+
+  const supabase = createOptimizedAdminClient();
+
+  // Collect IDs first: updating rows while paging a filtered query would shift the pages
+  const ids: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from('docs').select('id');
+    if (!all) {
+      query = query.is('minhash', null).eq('identifier_keys', '{}');
+    }
+
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching docs:', error);
+      process.exit(1);
+    }
+
+    ids.push(...(data || []).map((doc) => doc.id));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  console.log(`📋 Found ${ids.length} document(s)\n`);
+
+  let updated = 0;
+  let errors = 0;
+
+  for (const id of ids) {
+    const { data: doc, error } = await supabase
+      .from('docs')
+      .select('raw_content')
+      .eq('id', id)
+      .single();
+
+    if (error || !doc) {
+      console.error(`❌ ${id}: ${error?.message || 'not found'}`);
+      errors++;
+      continue;
+    }
+
+    const fingerprint = fingerprintDocument(doc.raw_content || '');
+    const { error: updateError } = await supabase
+      .from('docs')
+      .update({
+        identifier_keys: fingerprint.identifierKeys,
+        minhash: fingerprint.minhash,
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error(`❌ ${id}: ${updateError.message}`);
+      errors++;
+    } else {
+      updated++;
+    }
+  }
+
+  console.log(`\n✅ Updated ${updated} document(s)${errors > 0 ? `, ${errors} failed` : ''}`);
+}
+
+backfillFingerprints().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Backfill Knowledge Graph
+ * Extracts entities, aliases and edges for documents ingested before the
+ * graph step existed (or for every document with --all)
+ *
+ * Run with: pnpm backfill:graph [--all]
+ *   --all  Rebuild every document's edges, not only documents without any
+ *
+ * Citation edges need patent_relations; documents stored before patent
+ * relations were extracted get them on their next re-extraction.
+ */
+
+import { createOptimizedAdminClient } from '../src/lib/supabase/server';
+import { syncDocumentGraph } from '../src/lib/rag/storage/knowledgeGraph';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const PAGE_SIZE = 200;
+
+async function backfillKnowledgeGraph() {
+  const all = process.argv.includes('--all');
+  console.log(`🔄 Building knowledge graph (${all ? 'all documents' : 'documents without edges'})...\n`);
+
+  const supabase = createOptimizedAdminClient();
+
+  const ids: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('docs')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching docs:', error);
+      process.exit(1);
+    }
+
+    ids.push(...(data || []).map((doc) => doc.id));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  let pending = ids;
+  if (!all) {
+    const withEdges = new Set<string>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('edges')
+        .select('evidence_doc_id')
+        .not('evidence_doc_id', 'is', null)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching edges:', error);
+        process.exit(1);
+      }
+
+      for (const edge of data || []) withEdges.add(edge.evidence_doc_id);
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    pending = ids.filter((id) => !withEdges.has(id));
+  }
+
+  console.log(`📋 Found ${pending.length} document(s)\n`);
+
+  let entities = 0;
+  let edges = 0;
+  let errors = 0;
+
+  for (const id of pending) {
+    const { data: doc, error } = await supabase
+      .from('docs')
+      .select('raw_content, personas')
+      .eq('id', id)
+      .single();
+
+    if (error || !doc) {
+      console.error(`❌ ${id}: ${error?.message || 'not found'}`);
+      errors++;
+      continue;
+    }
+
+    const result = await syncDocumentGraph(supabase, id, doc.raw_content || '', doc.personas || []);
+    console.log(`  ${id}: ${result.entities} entities, ${result.edges} edges`);
+    entities += result.entities;
+    edges += result.edges;
+  }
+
+  console.log(`\n✅ ${pending.length - errors} document(s): ${entities} entity links, ${edges} edges${errors > 0 ? `, ${errors} failed` : ''}`);
+}
+
+backfillKnowledgeGraph().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
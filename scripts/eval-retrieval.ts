@@ -0,0 +1,218 @@
+#!/usr/bin/env tsx
+/**
+ * Retrieval evaluation against a persona's golden question set
+ * Usage: pnpm eval:retrieval <persona-slug> [options]
+ */
+
+import { config } from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import {
+  loadGoldenSet,
+  runEvaluation,
+  renderJsonReport,
+  renderMarkdownReport,
+  DEFAULT_EVAL_CONFIGURATIONS,
+  type EvalConfiguration,
+  type EvaluationReport,
+} from '../src/lib/rag/evaluation';
+
+// Load .env.local
+config({ path: path.join(process.cwd(), '.env.local') });
+
+const LOCAL_SUPABASE_URL = 'http://127.0.0.1:54321';
+
+interface EvalCliOptions {
+  personaSlug: string;
+  offline: boolean;
+  ks?: number[];
+  configFile?: string;
+  only?: string[];
+  outDir: string;
+  compareFile?: string;
+}
+
+function printHelp(): void {
+  console.log(`
+Usage: pnpm eval:retrieval <persona-slug> [options]
+
+Runs personas/<slug>/golden-set.json through performSearch under several search
+configurations and reports recall@k, MRR and nDCG@k.
+
+Options:
+  --offline              Use fake embeddings against a local Supabase (Postgres + pgvector)
+                         at ${LOCAL_SUPABASE_URL}; reranking falls back to the heuristic and
+                         query expansion is disabled, so no OpenAI calls are made
+  --k <list>             Cutoffs for recall/nDCG (default: 1,3,5,10)
+  --config <file>        JSON array of configurations: [{ "name", "description", "options" }]
+  --only <names>         Comma-separated configuration names to run
+  --out <dir>            Report directory (default: eval-reports)
+  --compare <file>       Previous JSON report to diff against
+                         (default: the existing <out>/<slug>.json, if any)
+  --help, -h             Show this help message
+
+Offline setup (Docker and the Supabase CLI; no API keys):
+  supabase init           # once per checkout: writes supabase/config.toml
+  supabase start          # local Postgres + pgvector + PostgREST; applies supabase/migrations
+  supabase db reset       # re-apply the migrations to an existing local database
+  export EVAL_SUPABASE_KEY=<service_role key from \`supabase status\`>
+  pnpm eval:setup david   # persona row + personas/david/eval-docs with fake embeddings
+  pnpm eval:retrieval david --offline
+
+Environment:
+  EVAL_SUPABASE_URL      Override the database URL (offline default: ${LOCAL_SUPABASE_URL})
+  EVAL_SUPABASE_KEY      Override the service role key
+  `);
+}
+
+function parseArgs(args: string[]): EvalCliOptions {
+  const options: EvalCliOptions = {
+    personaSlug: args[0],
+    offline: false,
+    outDir: 'eval-reports',
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    switch (args[i]) {
+      case '--offline':
+        options.offline = true;
+        break;
+      case '--k':
+        options.ks = args[++i]?.split(',').map(Number).filter(k => Number.isInteger(k) && k > 0);
+        break;
+      case '--config':
+        options.configFile = args[++i];
+        break;
+      case '--only':
+        options.only = args[++i]?.split(',').map(name => name.trim());
+        break;
+      case '--out':
+        options.outDir = args[++i];
+        break;
+      case '--compare':
+        options.compareFile = args[++i];
+        break;
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+async function loadConfigurations(options: EvalCliOptions): Promise<EvalConfiguration[]> {
+  let configurations = DEFAULT_EVAL_CONFIGURATIONS;
+
+  if (options.configFile) {
+    const parsed = JSON.parse(await fs.readFile(options.configFile, 'utf-8'));
+    if (!Array.isArray(parsed) || parsed.some(c => typeof c?.name !== 'string' || typeof c?.options !== 'object')) {
+      throw new Error(`${options.configFile} must be an array of { name, options } objects`);
+    }
+    configurations = parsed;
+  }
+
+  if (options.only) {
+    const unknown = options.only.filter(name => !configurations.some(c => c.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown configuration(s): ${unknown.join(', ')}`);
+    }
+    configurations = configurations.filter(c => options.only!.includes(c.name));
+  }
+
+  return configurations;
+}
+
+async function loadPreviousReport(filePath: string): Promise<EvaluationReport | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const options = parseArgs(args);
+
+  if (options.offline) {
+    process.env.EMBEDDING_PROVIDER = 'fake';
+  }
+
+  // Offline runs never fall back to the project database: fake query embeddings
+  // are meaningless against real stored embeddings
+  const supabaseUrl = process.env.EVAL_SUPABASE_URL ||
+    (options.offline ? LOCAL_SUPABASE_URL : process.env.NEXT_PUBLIC_SUPABASE_URL);
+  const supabaseKey = process.env.EVAL_SUPABASE_KEY ||
+    (options.offline ? undefined : process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error(options.offline
+      ? '❌ Missing EVAL_SUPABASE_KEY for the local database (see `supabase status`)'
+      : '❌ Missing Supabase credentials');
+    process.exit(1);
+  }
+
+  if (!options.offline && !process.env.OPENAI_API_KEY) {
+    console.error('❌ Missing OpenAI API key (use --offline for fake embeddings)');
+    process.exit(1);
+  }
+
+  const supabase: ReturnType<typeof createClient> = createClient(supabaseUrl, supabaseKey);
+  const goldenSet = await loadGoldenSet(options.personaSlug);
+  const configurations = await loadConfigurations(options);
+
+  console.log(`\n=== Retrieval evaluation: ${goldenSet.persona} ===`);
+  console.log(`Golden set: v${goldenSet.version}, ${goldenSet.questions.length} questions`);
+  console.log(`Configurations: ${configurations.map(c => c.name).join(', ')}`);
+  console.log(`Database: ${supabaseUrl}${options.offline ? ' (offline, fake embeddings)' : ''}\n`);
+
+  // Silence per-search logging so progress stays readable
+  const log = console.log;
+  console.log = () => {};
+  let report: EvaluationReport;
+  try {
+    report = await runEvaluation(goldenSet, configurations, supabase, {
+      ks: options.ks,
+      baseOptions: options.offline
+        ? { expansion: { mode: 'off' }, reranker: { method: 'heuristic' } }
+        : undefined,
+      onProgress: (name, completed, total) => {
+        process.stdout.write(`\r  ${name}: ${completed}/${total}`);
+        if (completed === total) process.stdout.write('\n');
+      },
+    });
+  } finally {
+    console.log = log;
+  }
+
+  const jsonPath = path.join(options.outDir, `${goldenSet.persona}.json`);
+  const markdownPath = path.join(options.outDir, `${goldenSet.persona}.md`);
+  const previous = await loadPreviousReport(options.compareFile ?? jsonPath);
+
+  await fs.mkdir(options.outDir, { recursive: true });
+  await fs.writeFile(jsonPath, renderJsonReport(report));
+  await fs.writeFile(markdownPath, renderMarkdownReport(report, previous));
+
+  console.log('\n=== Summary ===');
+  for (const config of report.configurations) {
+    const recall = report.ks.map(k => `R@${k}=${config.aggregate.recall[k].toFixed(3)}`).join(' ');
+    console.log(`  ${config.name.padEnd(18)} ${recall} MRR=${config.aggregate.mrr.toFixed(3)}${config.aggregate.failed > 0 ? ` (${config.aggregate.failed} failed)` : ''}`);
+  }
+  console.log(`\n✓ Reports written to ${jsonPath} and ${markdownPath}`);
+  if (previous) {
+    console.log(`  Compared against run from ${previous.generatedAt}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,145 @@
+#!/usr/bin/env tsx
+/**
+ * Seed a local database for offline retrieval evaluation
+ * Usage: pnpm eval:setup <persona-slug>
+ *
+ * Upserts the persona row from personas/<slug>/persona.config.json and ingests
+ * personas/<slug>/eval-docs with fake embeddings, so `pnpm eval:retrieval <slug>
+ * --offline` runs without API keys. The schema comes from supabase/migrations
+ * (applied by `supabase start` / `supabase db reset`).
+ */
+
+import { config } from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import matter from 'gray-matter';
+import { createClient } from '@supabase/supabase-js';
+import { DatabaseIngestor, type DocumentToIngest } from '../src/lib/rag/ingestion/databaseIngestor';
+
+// Load .env.local
+config({ path: path.join(process.cwd(), '.env.local') });
+
+const LOCAL_SUPABASE_URL = 'http://127.0.0.1:54321';
+
+function printHelp(): void {
+  console.log(`
+Usage: pnpm eval:setup <persona-slug>
+
+Seeds a local Supabase for \`pnpm eval:retrieval <persona-slug> --offline\`:
+  - upserts the persona row from personas/<slug>/persona.config.json and Persona.md
+  - ingests personas/<slug>/eval-docs/*.md with fake embeddings (re-running replaces them)
+
+Only local databases are accepted: fake embeddings must never reach the project database.
+
+Environment:
+  EVAL_SUPABASE_URL      Local API URL (default: ${LOCAL_SUPABASE_URL})
+  EVAL_SUPABASE_KEY      Local service role key (see \`supabase status\`)
+  `);
+}
+
+function isLocalUrl(url: string): boolean {
+  const { hostname } = new URL(url);
+  return hostname === '127.0.0.1' || hostname === 'localhost' || hostname === '::1';
+}
+
+async function loadEvalDocuments(docsDir: string): Promise<DocumentToIngest[]> {
+  const entries = await fs.readdir(docsDir);
+  const documents: DocumentToIngest[] = [];
+
+  for (const name of entries.sort()) {
+    if (!name.endsWith('.md') || name === 'README.md') continue;
+    const filePath = path.join(docsDir, name);
+    documents.push({ filePath, content: await fs.readFile(filePath, 'utf-8') });
+  }
+
+  return documents;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const personaSlug = args[0];
+  const personaDir = path.join(process.cwd(), 'personas', personaSlug);
+  const supabaseUrl = process.env.EVAL_SUPABASE_URL || LOCAL_SUPABASE_URL;
+  const supabaseKey = process.env.EVAL_SUPABASE_KEY;
+
+  if (!supabaseKey) {
+    console.error('❌ Missing EVAL_SUPABASE_KEY for the local database (see `supabase status`)');
+    process.exit(1);
+  }
+
+  if (!isLocalUrl(supabaseUrl)) {
+    console.error(`❌ Refusing to seed ${supabaseUrl}: only local databases are accepted`);
+    process.exit(1);
+  }
+
+  // Same settings as offline evaluation: no OpenAI calls at ingestion
+  process.env.EMBEDDING_PROVIDER = 'fake';
+  process.env.DISABLE_CONTEXTUAL_RETRIEVAL = 'true';
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  // Persona row
+  const personaConfig = JSON.parse(await fs.readFile(path.join(personaDir, 'persona.config.json'), 'utf-8'));
+  const { data: personaFrontmatter, content: personaContent } = matter(
+    await fs.readFile(path.join(personaDir, 'Persona.md'), 'utf-8').catch(() => '')
+  );
+
+  const { error: personaError } = await supabase
+    .from('personas')
+    .upsert(
+      {
+        slug: personaSlug,
+        name: personaConfig.display_name || personaSlug,
+        expertise: personaFrontmatter.description || '',
+        content: personaContent.trim(),
+        config_json: personaConfig,
+        is_active: true,
+      },
+      { onConflict: 'slug' }
+    );
+
+  if (personaError) {
+    console.error(`❌ Failed to upsert persona ${personaSlug}: ${personaError.message}`);
+    console.error('   Is the schema applied? Run `supabase db reset` to apply supabase/migrations.');
+    process.exit(1);
+  }
+  console.log(`✓ Persona: ${personaSlug}`);
+
+  // Evaluation documents
+  const docsDir = path.join(personaDir, 'eval-docs');
+  const documents = await loadEvalDocuments(docsDir);
+  if (documents.length === 0) {
+    console.error(`❌ No documents in ${docsDir}`);
+    process.exit(1);
+  }
+
+  console.log(`Ingesting ${documents.length} document(s) from ${docsDir} (fake embeddings)...`);
+
+  // Per-document ingestion logging is noisy; keep the summary readable
+  const log = console.log;
+  console.log = () => {};
+  let stats;
+  try {
+    stats = await new DatabaseIngestor(supabaseUrl, supabaseKey).ingestDocuments(documents, true);
+  } finally {
+    console.log = log;
+  }
+
+  for (const result of stats.results) {
+    console.log(`  ${result.error ? '✗' : '✓'} ${result.docId || result.title}${result.error ? `: ${result.error}` : ''}`);
+  }
+  console.log(`\n✓ ${stats.documentsIngested}/${stats.documentsProcessed} document(s), ${stats.chunksCreated} chunks`);
+
+  process.exit(stats.documentsFailed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Setup failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+/**
+ * Context packing test
+ * Packs hand-built search results and checks which chunks are dropped as
+ * low-value: reranked results are cut on their rerank score, fused (RRF-only)
+ * results are never cut on score. No API keys or database are needed.
+ *
+ * Usage:
+ *   pnpm test:context-packing
+ */
+
+import { packContext, type DropReason } from '../src/lib/rag/contextPacker';
+import type { SearchResult } from '../src/lib/rag/search';
+
+interface PackingCase {
+  name: string;
+  results: SearchResult[];
+  expectDropped: Partial<Record<DropReason, string[]>>; // Chunk IDs per reason
+}
+
+const TOKEN_BUDGET = 12000;
+const RRF_K = 60;
+
+const TOPICS = [
+  'The switchable liquid crystal lens turns the 3D effect off for full-resolution 2D content.',
+  'Eye tracking lets the weaver render only the two views that reach the viewer.',
+  'Windowed weaving keeps the 3D effect while a window is dragged across the screen.',
+  'The diffractive backlight couples out directional light beams from a light guide.',
+  'Immersity converts 2D photos into 3D with a learned depth estimate.',
+];
+
+function result(index: number, scores: Pick<SearchResult, 'score' | 'fusionScore' | 'rerankScore'>): SearchResult {
+  return {
+    chunkId: `chunk-${index + 1}`,
+    docId: `doc-${index + 1}`,
+    sectionPath: 'Overview',
+    text: TOPICS[index],
+    ...scores,
+  };
+}
+
+// Fused scores as hybrid search produces them: 1/(k + rank) from each of two lists
+function rrf(rank: number): number {
+  return 2 / (RRF_K + rank);
+}
+
+const CASES: PackingCase[] = [
+  {
+    // RRF scores sit within a few percent of each other: a ratio cut would never fire
+    name: 'RRF-only results are not cut on score',
+    results: TOPICS.map((_, i) => result(i, { score: rrf(i + 1), fusionScore: rrf(i + 1) })),
+    expectDropped: {},
+  },
+  {
+    name: 'reranked results below the ratio of the best rerank score are dropped',
+    results: [0.92, 0.71, 0.15, 0.4, 0.05].map((rerankScore, i) =>
+      result(i, { score: 0.3 * (rrf(i + 1) / rrf(1)) + 0.7 * rerankScore, fusionScore: rrf(i + 1), rerankScore })
+    ),
+    expectDropped: { low_score: ['chunk-3', 'chunk-5'] },
+  },
+  {
+    // Candidates past the rerank window keep their fused score and have no rerank score to judge
+    name: 'results outside the rerank window are kept',
+    results: [
+      ...[0.88, 0.6, 0.1].map((rerankScore, i) =>
+        result(i, { score: 0.3 * (rrf(i + 1) / rrf(1)) + 0.7 * rerankScore, fusionScore: rrf(i + 1), rerankScore })
+      ),
+      result(3, { score: rrf(4), fusionScore: rrf(4) }),
+      result(4, { score: rrf(5), fusionScore: rrf(5) }),
+    ],
+    expectDropped: { low_score: ['chunk-3'] },
+  },
+  {
+    name: 'the best chunk is kept even when every rerank score is low',
+    results: [0.04, 0.005].map((rerankScore, i) =>
+      result(i, { score: rerankScore, fusionScore: rrf(i + 1), rerankScore })
+    ),
+    expectDropped: { low_score: ['chunk-2'] },
+  },
+];
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().every((id, i) => id === [...b].sort()[i]);
+}
+
+function main() {
+  let failures = 0;
+
+  console.log('🧪 Context packing\n');
+
+  for (const testCase of CASES) {
+    const packed = packContext(testCase.results, { tokenBudget: TOKEN_BUDGET });
+    const reasons = new Set<DropReason>([
+      ...packed.dropped.map(d => d.reason),
+      ...(Object.keys(testCase.expectDropped) as DropReason[]),
+    ]);
+
+    const mismatches = [...reasons].flatMap(reason => {
+      const actual = packed.dropped.filter(d => d.reason === reason).map(d => d.chunkId);
+      const expected = testCase.expectDropped[reason] ?? [];
+      return sameIds(actual, expected) ? [] : [`${reason}: got [${actual.join(', ')}], expected [${expected.join(', ')}]`];
+    });
+
+    const passed = mismatches.length === 0;
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${packed.included.length} included, ${packed.dropped.length} dropped`);
+    mismatches.forEach(m => console.log(`   ${m}`));
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} case(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\nAll cases passed');
+}
+
+main();
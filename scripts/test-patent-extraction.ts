@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/**
+ * Patent relations extraction test
+ * Runs family, priority, citation and CPC extraction against saved Google
+ * Patents pages in scripts/fixtures/patents and compares the result (and the
+ * frontmatter it produces) with the .expected.json next to each page.
+ *
+ * Usage:
+ *   pnpm test:patent-extraction            # Compare against expected output
+ *   pnpm test:patent-extraction --update   # Rewrite expected output after an intended change
+ */
+
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import {
+  extractPatentRelations,
+  formatPatentRelationsFrontmatter,
+} from '../src/lib/rag/extraction/patentRelations';
+import { patentRelationRows } from '../src/lib/rag/storage/patentRelations';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'patents');
+
+// Fixture page → patent number it was saved for
+const FIXTURES: Record<string, string> = {
+  'sample-us-grant.html': 'US99999999B2',
+  'sample-wo-publication.html': 'WO2021990000A1',
+};
+
+function extract(file: string, patentNumber: string) {
+  const html = fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8');
+  const relations = extractPatentRelations(html, patentNumber);
+  const frontmatter = formatPatentRelationsFrontmatter(relations);
+
+  // The frontmatter must parse back to the same relations rows
+  const { data } = matter(['---', 'identifiers:', '  patent_family:',
+    ...relations.familyMembers.map(ref => `    - "${ref}"`), ...frontmatter, '---', ''].join('\n'));
+  const rows = patentRelationRows(patentNumber.toLowerCase(), data);
+
+  return {
+    relations,
+    frontmatter,
+    relationCounts: rows.reduce<Record<string, number>>((counts, row) => {
+      counts[row.relation] = (counts[row.relation] ?? 0) + 1;
+      return counts;
+    }, {}),
+  };
+}
+
+function main() {
+  const update = process.argv.includes('--update');
+  let failures = 0;
+
+  console.log('🧪 Patent relations extraction\n');
+
+  for (const [file, patentNumber] of Object.entries(FIXTURES)) {
+    const expectedPath = path.join(FIXTURES_DIR, file.replace(/\.html$/, '.expected.json'));
+    const actual = extract(file, patentNumber);
+
+    if (update) {
+      fs.writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + '\n');
+      console.log(`📝 ${file}: expected output updated`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedPath)) {
+      console.log(`❌ ${file}: missing ${path.basename(expectedPath)} (run with --update)`);
+      failures++;
+      continue;
+    }
+
+    const expected = JSON.parse(fs.readFileSync(expectedPath, 'utf-8'));
+    const mismatches = (Object.keys(expected) as Array<keyof typeof actual>).filter(
+      key => JSON.stringify(actual[key]) !== JSON.stringify(expected[key])
+    );
+
+    if (mismatches.length === 0) {
+      const { relations } = actual;
+      console.log(
+        `✅ ${file}: ${relations.familyMembers.length} family members, ${relations.priorityClaims.length} priority claims, ` +
+        `${relations.backwardCitations.length} cites, ${relations.forwardCitations.length} cited by, ` +
+        `${relations.cpcClassifications.length} CPC codes`
+      );
+    } else {
+      failures++;
+      console.log(`❌ ${file}: ${mismatches.join(', ')} differ`);
+      for (const key of mismatches) {
+        console.log(`   expected ${key}: ${JSON.stringify(expected[key])}`);
+        console.log(`   actual   ${key}: ${JSON.stringify(actual[key])}`);
+      }
+    }
+  }
+
+  if (update) return;
+
+  if (failures > 0) {
+    console.log(`\n${failures} fixture(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\nAll fixtures passed');
+}
+
+main();
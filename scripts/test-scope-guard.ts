@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+/**
+ * Scope guard test
+ * Judges first questions and follow-ups against a persona's in/out-of-scope
+ * examples (personas/<slug>/persona.config.json) with deterministic fake
+ * embeddings, so no API keys or database are needed.
+ *
+ * Usage:
+ *   pnpm test:scope-guard
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { buildScopeQuery, judgeScope, type PersonaScope, type ScopeGuardMessage } from '../src/lib/chat/scopeGuard';
+import { resolvePersonaModels } from '../src/lib/llm/models';
+
+interface ScopeCase {
+  name: string;
+  question: string;
+  history?: ScopeGuardMessage[];
+  margin?: number; // Override the persona's margin
+  expectInScope: boolean;
+}
+
+const PERSONA_SLUG = 'david';
+
+const ODYSSEY_EXCHANGE: ScopeGuardMessage[] = [
+  { role: 'user', content: 'Summarize the Samsung Odyssey 3D monitor collaboration status and timeline.' },
+  { role: 'assistant', content: 'The Samsung Odyssey 3D monitor uses Leia\'s switchable LC lens and eye tracking; the collaboration is shipping on the 27" model with a wider rollout planned.' },
+];
+
+const CASES: ScopeCase[] = [
+  {
+    name: 'in-scope first question',
+    question: 'How does Immersity convert 2D photos to 3D?',
+    expectInScope: true,
+  },
+  {
+    name: 'off-topic first question',
+    question: 'Any world news today?',
+    expectInScope: false,
+  },
+  {
+    name: 'follow-up in an in-scope thread',
+    question: 'Any news on that?',
+    history: [...ODYSSEY_EXCHANGE, { role: 'user', content: 'Any news on that?' }],
+    margin: 0.01,
+    expectInScope: true,
+  },
+  {
+    // What the guard saw before follow-ups carried the thread: "news" matches "World news ..."
+    name: 'same follow-up judged alone',
+    question: 'Any news on that?',
+    margin: 0.01,
+    expectInScope: false,
+  },
+  {
+    name: 'off-topic opening message (history holds only the question)',
+    question: 'Any world news today?',
+    history: [{ role: 'user', content: 'Any world news today?' }],
+    expectInScope: false,
+  },
+];
+
+function loadScope(slug: string): PersonaScope {
+  const configPath = path.join(process.cwd(), 'personas', slug, 'persona.config.json');
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  return {
+    name: config.display_name || slug,
+    expertise: '',
+    personaType: 'real_person',
+    inScopeExamples: config.in_scope_examples || [],
+    outOfScopeExamples: config.out_of_scope_examples || [],
+    config: { ...config.scope_guard, llm_fallback: false },
+  };
+}
+
+async function main() {
+  process.env.EMBEDDING_PROVIDER = 'fake';
+  const scope = loadScope(PERSONA_SLUG);
+  let failures = 0;
+
+  console.log(`🧪 Scope guard (${PERSONA_SLUG}, fake embeddings)\n`);
+
+  for (const testCase of CASES) {
+    const text = buildScopeQuery(testCase.question, testCase.history);
+    const caseScope = testCase.margin === undefined
+      ? scope
+      : { ...scope, config: { ...scope.config, margin: testCase.margin } };
+    const decision = await judgeScope(PERSONA_SLUG, caseScope, text, resolvePersonaModels().reformulation);
+
+    if (!decision) {
+      failures++;
+      console.log(`❌ ${testCase.name}: guard did not run`);
+      continue;
+    }
+
+    const passed = decision.inScope === testCase.expectInScope;
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${decision.inScope ? 'in scope' : 'off-topic'} (in ${decision.inScopeSimilarity}, out ${decision.outOfScopeSimilarity})`);
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} case(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\nAll cases passed');
+}
+
+main().catch((error) => {
+  console.error('Scope guard test failed:', error);
+  process.exit(1);
+});
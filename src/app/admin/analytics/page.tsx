@@ -42,6 +42,19 @@ interface AnalyticsData {
     low_rag_messages: number;
     total_assistant_messages: number;
     citation_rate: number;
+    avg_faithfulness: number | null;
+    faithfulness_scored_messages: number;
+    supported_claims: number;
+    unsupported_claims: number;
+    contradicted_claims: number;
+    avg_history_tokens: number | null;
+    max_history_tokens: number | null;
+    summarized_conversations: number;
+    off_topic_questions: number;
+    helpful_feedback: number;
+    negative_feedback: number;
+    feedback_reasons: Record<string, number>;
+    reported_missing_sources: number;
   };
   conversations: any[];
   documents: {
@@ -203,7 +216,7 @@ export default function AnalyticsPage() {
 
             {/* Failed Queries Table */}
             <div>
-              <h2 className="text-xl font-semibold mb-4">Low RAG Weight Conversations</h2>
+              <h2 className="text-xl font-semibold mb-4">Failed Conversations</h2>
               <FailedQueriesTable conversations={analyticsData.conversations} />
             </div>
 
@@ -1,12 +1,14 @@
 /**
  * Gap Analysis API
  * Uses Gemini 2.5 Pro to analyze failed queries and suggest document ingestion priorities
+ * Answers users downvoted are the strongest signal; low RAG weight fills in the rest.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { describeFeedback } from '@/lib/chat/feedback';
 
-// Helper function to detect off-topic queries
+// Small talk and vague queries (off-topic questions are tagged by the chat scope guard)
 function isOffTopic(query: string): boolean {
   const lowerQuery = query.toLowerCase().trim();
 
@@ -94,20 +96,39 @@ export async function POST(request: NextRequest) {
       types: [...new Set(docs?.map((d: any) => d.type) || [])],
     };
 
-    // Extract failed user queries from conversations
-    const allQueries = failed_conversations.flatMap((conv: any) =>
-      (conv.messages || [])
+    // Extract failed user queries from conversations, with the feedback on their answers
+    // (a regenerated question has several answers; a downvote on any of them counts)
+    const allQueries = failed_conversations.flatMap((conv: any) => {
+      const messages = conv.messages || [];
+      return messages
         .filter((m: any) => m.role === 'user')
-        .map((m: any) => ({
-          content: m.content,
-          rag_weight: conv.avg_rag_weight,
-          conversation_id: conv.id,
-        }))
-    );
+        .map((m: any) => {
+          const answerFeedback = messages
+            .filter((a: any) => a.role === 'assistant' && a.parent_id === m.id && a.feedback)
+            .map((a: any) => a.feedback);
+          return {
+            content: m.content,
+            off_topic: m.off_topic === true,
+            rag_weight: conv.avg_rag_weight,
+            conversation_id: conv.id,
+            feedback: answerFeedback.find((f: any) => f.rating < 0) ?? answerFeedback[0] ?? null,
+          };
+        });
+    });
 
-    // Filter out off-topic queries
-    const relevantQueries = allQueries.filter((q: any) => !isOffTopic(q.content));
-    const offTopicCount = allQueries.length - relevantQueries.length;
+    // Downvoted answers are reported failures, whatever the query looks like; answers
+    // marked helpful are not gaps. Otherwise filter out off-topic queries (scope guard
+    // verdicts, plus small talk)
+    const isReported = (q: any) => q.feedback?.rating < 0;
+    const helpfulCount = allQueries.filter((q: any) => q.feedback?.rating > 0).length;
+    const relevantQueries = allQueries
+      .filter((q: any) => isReported(q) || (!q.feedback && !q.off_topic && !isOffTopic(q.content)))
+      .sort((a: any, b: any) => Number(isReported(b)) - Number(isReported(a)));
+    const reportedQueries = relevantQueries.filter(isReported);
+    const offTopicCount = allQueries.length - relevantQueries.length - helpfulCount;
+    const missingSources = [
+      ...new Set<string>(reportedQueries.map((q: any) => q.feedback.missing_source_url).filter(Boolean)),
+    ];
 
     if (relevantQueries.length === 0) {
       return NextResponse.json({
@@ -116,6 +137,7 @@ export async function POST(request: NextRequest) {
           gaps: [],
           overall_assessment: 'No relevant failed queries to analyze. All queries were either off-topic or too vague.',
           off_topic_query_count: offTopicCount,
+          helpful_query_count: helpfulCount,
           total_queries_analyzed: allQueries.length,
         },
       });
@@ -128,8 +150,14 @@ export async function POST(request: NextRequest) {
       ? JSON.stringify(topics, null, 2)
       : 'No specific topics configured';
 
-    const queriesStr = relevantQueries
-      .slice(0, 50) // Limit to 50 queries to avoid token limits
+    // Limit to 50 queries to avoid token limits (reported failures first)
+    const promptQueries = relevantQueries.slice(0, 50);
+    const reportedStr = promptQueries
+      .filter(isReported)
+      .map((q: any, i: number) => `${i + 1}. "${q.content}" (user feedback: ${describeFeedback(q.feedback)})`)
+      .join('\n');
+    const queriesStr = promptQueries
+      .filter((q: any) => !isReported(q))
       .map((q: any, i: number) => `${i + 1}. "${q.content}" (RAG weight: ${q.rag_weight?.toFixed(2) || 'N/A'})`)
       .join('\n');
 
@@ -143,11 +171,15 @@ Topics: ${topicsStr}
 Document Count: ${documentStats.count}
 Document Types: ${documentStats.types.join(', ') || 'None'}
 
+USER-REPORTED FAILURES (answers users marked as wrong, with their reason, correction and any source the answer should have used; the strongest evidence of a gap):
+${reportedStr || 'None'}
+
 FAILED QUERIES (low RAG weight < 0.4, indicating knowledge gaps):
-${queriesStr}
+${queriesStr || 'None'}
 
 TASK:
 Analyze these failed queries in the context of this persona's expertise. Identify 3-5 major knowledge gaps causing these failures.
+Weigh user-reported failures above low RAG weight queries; corrections show what the knowledge base is missing or has wrong. Where users named a missing source, include its URL in the matching suggested document.
 
 For each gap, suggest specific document types to ingest:
 - Research papers (specify topics/keywords for search)
@@ -172,12 +204,14 @@ Return ONLY valid JSON (no markdown, no extra text):
       "topic": "string",
       "description": "string (explain what's missing)",
       "failed_query_count": number,
+      "reported_query_count": number (how many of them are user-reported failures),
       "priority": "high" | "medium" | "low",
       "suggested_documents": [
         {
           "type": "paper" | "patent" | "blog" | "technical_doc",
           "keywords": ["keyword1", "keyword2", "keyword3"],
-          "rationale": "string (why this document type)"
+          "rationale": "string (why this document type)",
+          "urls": ["string (missing source URLs users reported, if any)"]
         }
       ]
     }
@@ -261,6 +295,9 @@ Return ONLY valid JSON (no markdown, no extra text):
     // Add metadata
     analysisResult.total_queries_analyzed = allQueries.length;
     analysisResult.relevant_queries_count = relevantQueries.length;
+    analysisResult.reported_queries_count = reportedQueries.length;
+    analysisResult.helpful_query_count = helpfulCount;
+    analysisResult.missing_sources = missingSources;
 
     return NextResponse.json({
       success: true,
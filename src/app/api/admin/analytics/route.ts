@@ -110,7 +110,71 @@ export async function GET(request: NextRequest) {
       stats = statsData;
     }
 
-    // Get low RAG weight conversations
+    // Faithfulness of cited answers (scored per assistant message, stored next to rag_weight)
+    const { data: scoredMessages, error: faithfulnessError } = await supabase
+      .from('messages')
+      .select('faithfulness_score, faithfulness_breakdown, conversations!inner(persona_id)')
+      .eq('conversations.persona_id', persona.id)
+      .not('faithfulness_score', 'is', null);
+
+    if (faithfulnessError) {
+      console.warn('Could not load faithfulness scores:', faithfulnessError.message);
+    }
+
+    const faithfulnessScores = (scoredMessages || []).map((m: any) => Number(m.faithfulness_score));
+    const claimTotals = (scoredMessages || []).reduce(
+      (totals: { supported: number; unsupported: number; contradicted: number }, m: any) => ({
+        supported: totals.supported + (m.faithfulness_breakdown?.supported || 0),
+        unsupported: totals.unsupported + (m.faithfulness_breakdown?.unsupported || 0),
+        contradicted: totals.contradicted + (m.faithfulness_breakdown?.contradicted || 0),
+      }),
+      { supported: 0, unsupported: 0, contradicted: 0 }
+    );
+
+    // Full-history token cost of each thread (recorded per turn; long threads send a summary instead)
+    const { data: threadCosts, error: threadCostError } = await supabase
+      .from('conversations')
+      .select('history_tokens, context_summary_message_count')
+      .eq('persona_id', persona.id)
+      .not('history_tokens', 'is', null);
+
+    if (threadCostError) {
+      console.warn('Could not load conversation token costs:', threadCostError.message);
+    }
+
+    const historyTokens = (threadCosts || []).map((c: any) => Number(c.history_tokens));
+    const summarizedConversations = (threadCosts || []).filter((c: any) => c.context_summary_message_count > 0).length;
+
+    // Questions the scope guard turned away (answered with a refusal, no retrieval)
+    const { count: offTopicCount, error: offTopicError } = await supabase
+      .from('messages')
+      .select('id, conversations!inner(persona_id)', { count: 'exact', head: true })
+      .eq('conversations.persona_id', persona.id)
+      .eq('role', 'user')
+      .eq('off_topic', true);
+
+    if (offTopicError) {
+      console.warn('Could not count off-topic questions:', offTopicError.message);
+    }
+
+    // User feedback on answers (thumbs up/down, reasons, reported missing sources)
+    const { data: feedbackRows, error: feedbackError } = await supabase
+      .from('message_feedback')
+      .select('rating, reason, missing_source_url, messages!inner(conversations!inner(persona_id))')
+      .eq('messages.conversations.persona_id', persona.id);
+
+    if (feedbackError) {
+      console.warn('Could not load message feedback:', feedbackError.message);
+    }
+
+    const negativeFeedback = (feedbackRows || []).filter((f: any) => f.rating < 0);
+    const feedbackReasons = negativeFeedback.reduce((counts: Record<string, number>, f: any) => {
+      const reason = f.reason || 'unspecified';
+      counts[reason] = (counts[reason] || 0) + 1;
+      return counts;
+    }, {});
+
+    // Get low RAG weight and downvoted conversations
     const { data: lowRagConversations, error: conversationsError } = await supabase
       .from('conversations')
       .select(`
@@ -121,9 +185,13 @@ export async function GET(request: NextRequest) {
           id,
           role,
           content,
+          parent_id,
           rag_weight,
+          faithfulness_score,
+          off_topic,
           created_at,
-          message_citations (id)
+          message_citations (id),
+          message_feedback (rating, reason, correction, missing_source_url)
         )
       `)
       .eq('persona_id', persona.id)
@@ -138,7 +206,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Filter conversations that have at least one low RAG weight message
+    // Filter conversations that have at least one low RAG weight or downvoted answer
     const filteredConversations = (lowRagConversations || [])
       .map((conv: any) => {
         const messages = conv.messages || [];
@@ -157,6 +225,9 @@ export async function GET(request: NextRequest) {
         );
 
         const hasLowRagWeight = ragWeights.some((w: number) => w < 0.4);
+        const negativeFeedbackCount = assistantMessages.filter(
+          (m: any) => (m.message_feedback || []).some((f: any) => f.rating < 0)
+        ).length;
 
         return {
           id: conv.id,
@@ -166,17 +237,26 @@ export async function GET(request: NextRequest) {
             id: m.id,
             role: m.role,
             content: m.content,
+            parent_id: m.parent_id,
             rag_weight: m.rag_weight,
+            faithfulness_score: m.faithfulness_score,
+            off_topic: m.off_topic,
             created_at: m.created_at,
             citation_count: m.message_citations?.length || 0,
+            feedback: m.message_feedback?.[0] ?? null,
           })),
           avg_rag_weight: avgRagWeight,
           total_citations: totalCitations,
           has_low_rag_weight: hasLowRagWeight,
+          negative_feedback_count: negativeFeedbackCount,
         };
       })
-      .filter((conv: any) => conv.has_low_rag_weight)
+      .filter((conv: any) => conv.has_low_rag_weight || conv.negative_feedback_count > 0)
       .sort((a: any, b: any) => {
+        // Downvoted conversations first (failures reported by users)
+        if ((a.negative_feedback_count > 0) !== (b.negative_feedback_count > 0)) {
+          return a.negative_feedback_count > 0 ? -1 : 1;
+        }
         // Sort by avg_rag_weight ascending (lowest first)
         if (a.avg_rag_weight === null && b.avg_rag_weight === null) return 0;
         if (a.avg_rag_weight === null) return 1;
@@ -222,6 +302,23 @@ export async function GET(request: NextRequest) {
           citation_rate: stats.total_assistant_messages > 0
             ? (stats.total_citations / stats.total_assistant_messages) * 100
             : 0,
+          avg_faithfulness: faithfulnessScores.length > 0
+            ? faithfulnessScores.reduce((sum: number, f: number) => sum + f, 0) / faithfulnessScores.length
+            : null,
+          faithfulness_scored_messages: faithfulnessScores.length,
+          supported_claims: claimTotals.supported,
+          unsupported_claims: claimTotals.unsupported,
+          contradicted_claims: claimTotals.contradicted,
+          avg_history_tokens: historyTokens.length > 0
+            ? Math.round(historyTokens.reduce((sum: number, t: number) => sum + t, 0) / historyTokens.length)
+            : null,
+          max_history_tokens: historyTokens.length > 0 ? Math.max(...historyTokens) : null,
+          summarized_conversations: summarizedConversations,
+          off_topic_questions: offTopicCount || 0,
+          helpful_feedback: (feedbackRows || []).length - negativeFeedback.length,
+          negative_feedback: negativeFeedback.length,
+          feedback_reasons: feedbackReasons,
+          reported_missing_sources: negativeFeedback.filter((f: any) => f.missing_source_url).length,
         },
         conversations: filteredConversations,
         documents: documentStats,
@@ -0,0 +1,280 @@
+/**
+ * API route for resolving a flagged duplicate
+ * POST /api/admin/documents/[id]/duplicates
+ *
+ * [id] is the newly extracted document; duplicateOf is the existing document
+ * it was matched to at extraction.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import matter from 'gray-matter';
+import crypto from 'crypto';
+import { invalidatePersonaCache } from '@/lib/rag/search';
+import { createExtractionJob } from '@/lib/queue/jobQueue';
+import type { ReingestJobData } from '@/lib/queue/types';
+import { recordDocumentVersion, docFieldsFromContent } from '@/lib/rag/storage/documentVersions';
+import { fingerprintDocument, type DuplicateAction } from '@/lib/rag/storage/duplicateDetection';
+
+interface ResolveDuplicateRequest {
+  duplicateOf: string;
+  action: DuplicateAction;
+}
+
+interface ResolveDuplicateResponse {
+  success: boolean;
+  docId?: string; // Document remaining after the resolution
+  jobId?: string; // Reingest job, for merge and replace
+  message?: string;
+  error?: string;
+}
+
+interface DocRecord {
+  id: string;
+  title: string;
+  raw_content: string;
+  personas: string[] | null;
+  document_files: Array<{ storage_path: string; persona_slug: string }> | null;
+}
+
+const ACTIONS: DuplicateAction[] = ['merge', 'replace', 'keep'];
+
+/**
+ * POST /api/admin/documents/[id]/duplicates
+ * Resolve a pending duplicate:
+ * - merge: keep the existing document, adding the new one's personas and any
+ *   identifiers it lacks, then delete the new document and re-ingest (async)
+ * - replace: give the existing document (and its ID) the new content, delete
+ *   the new document and re-ingest (async)
+ * - keep: keep both; the pair is not flagged again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ResolveDuplicateResponse>> {
+  const supabase = await createClient();
+  const { id } = await params;
+
+  // Check authentication and admin role
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { duplicateOf, action }: ResolveDuplicateRequest = await request.json();
+
+    if (!duplicateOf || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'duplicateOf and action (merge, replace or keep) are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: duplicate } = await supabase
+      .from('document_duplicates')
+      .select('id')
+      .eq('doc_id', id)
+      .eq('duplicate_of', duplicateOf)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (!duplicate) {
+      return NextResponse.json({ success: false, error: 'Pending duplicate not found' }, { status: 404 });
+    }
+
+    if (action === 'keep') {
+      const { error: updateError } = await supabase
+        .from('document_duplicates')
+        .update({ status: 'kept', resolved_by: user.id, resolved_at: new Date().toISOString() })
+        .eq('id', duplicate.id);
+
+      if (updateError) {
+        console.error('Database update error:', updateError);
+        return NextResponse.json(
+          { success: false, error: `Update failed: ${updateError.message}` },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ success: true, docId: id, message: 'Kept both documents' });
+    }
+
+    const select = 'id, title, raw_content, personas, document_files!fk_doc_id (storage_path, persona_slug)';
+    const [{ data: newDoc }, { data: existing }] = await Promise.all([
+      supabase.from('docs').select(select).eq('id', id).maybeSingle(),
+      supabase.from('docs').select(select).eq('id', duplicateOf).maybeSingle(),
+    ]);
+
+    if (!newDoc || !existing) {
+      return NextResponse.json({ success: false, error: 'Document not found' }, { status: 404 });
+    }
+
+    const personaSlugs = [...new Set([...(existing.personas || []), ...(newDoc.personas || [])])];
+    const { data: existingMeta, content: existingBody } = matter(existing.raw_content);
+    const { data: newMeta, content: newBody } = matter(newDoc.raw_content);
+
+    let rawContent: string;
+    if (action === 'merge') {
+      existingMeta.identifiers = { ...(newMeta.identifiers || {}), ...(existingMeta.identifiers || {}) };
+      existingMeta.personas = personaSlugs;
+      rawContent = matter.stringify(existingBody, existingMeta);
+    } else {
+      // The existing document keeps its ID so citations and history stay attached
+      newMeta.id = existing.id;
+      newMeta.personas = personaSlugs;
+      rawContent = matter.stringify(newBody, newMeta);
+    }
+
+    const fingerprint = fingerprintDocument(rawContent);
+    const { error: updateError } = await supabase
+      .from('docs')
+      .update({
+        ...(action === 'replace'
+          ? { ...docFieldsFromContent(rawContent), ingestion_status: 'extracted' }
+          : { identifiers: existingMeta.identifiers }),
+        identifier_keys: fingerprint.identifierKeys,
+        minhash: fingerprint.minhash,
+        raw_content: rawContent,
+        personas: personaSlugs,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id);
+
+    if (updateError) {
+      console.error('Database update error:', updateError);
+      return NextResponse.json(
+        { success: false, error: `Update failed: ${updateError.message}` },
+        { status: 500 }
+      );
+    }
+
+    await removeDocument(supabase, newDoc, existing);
+    await syncStorageFile(supabase, existing, newDoc, rawContent, user.id);
+    await invalidatePersonaCache(personaSlugs);
+
+    await recordDocumentVersion(
+      supabase,
+      existing.id,
+      { raw_content: rawContent, personas: personaSlugs },
+      {
+        changeType: 'edit',
+        createdBy: user.id,
+        previous: { raw_content: existing.raw_content, personas: existing.personas || [] },
+      }
+    );
+
+    // Chunks and entity links are built from the frontmatter, so a merge re-ingests too
+    const jobData: ReingestJobData = {
+      docId: existing.id,
+      personaSlugs,
+      userId: user.id,
+    };
+
+    const jobId = await createExtractionJob({
+      jobType: 'reingest',
+      inputData: jobData,
+      userId: user.id,
+    });
+
+    if (action === 'merge') {
+      console.log(`🔗 Merged duplicate ${id} into ${existing.id} (reingest job ${jobId})`);
+    } else {
+      console.log(`🔁 Replaced ${existing.id} with duplicate ${id} (reingest job ${jobId})`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      docId: existing.id,
+      jobId,
+      message: action === 'merge'
+        ? `Merged into "${existing.title}". Re-ingestion queued.`
+        : `Replaced "${existing.title}". Re-ingestion queued.`,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/documents/[id]/duplicates:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete the new document, keeping its storage file if the existing document shares it
+ */
+async function removeDocument(supabase: SupabaseClient, doc: DocRecord, existing: DocRecord) {
+  const storagePath = doc.document_files?.[0]?.storage_path;
+  const sharedPath = existing.document_files?.some(file => file.storage_path === storagePath);
+
+  if (storagePath && !sharedPath) {
+    const { error: storageError } = await supabase.storage
+      .from('formatted-documents')
+      .remove([storagePath]);
+
+    if (storageError) {
+      console.error('Storage deletion error:', storageError);
+      // Continue anyway - database is source of truth
+    }
+  }
+
+  // Cascades to chunks, document_files and its duplicate rows
+  const { error: deleteError } = await supabase.from('docs').delete().eq('id', doc.id);
+  if (deleteError) throw deleteError;
+}
+
+/**
+ * Write the surviving content to the existing document's storage file
+ * Extraction upserts document_files by storage path, so when both documents
+ * were stored under the same path the row may have moved to the deleted
+ * document; upserting restores it for the existing one.
+ */
+async function syncStorageFile(
+  supabase: SupabaseClient,
+  existing: DocRecord,
+  newDoc: DocRecord,
+  rawContent: string,
+  userId: string
+) {
+  const file = existing.document_files?.[0] || newDoc.document_files?.[0];
+  if (!file) return;
+
+  const { error: storageError } = await supabase.storage
+    .from('formatted-documents')
+    .upload(file.storage_path, rawContent, {
+      contentType: 'text/markdown',
+      upsert: true,
+    });
+
+  if (storageError) {
+    console.error('Storage update error:', storageError);
+    // Continue anyway - database is source of truth
+  }
+
+  await supabase.from('document_files').upsert(
+    {
+      doc_id: existing.id,
+      persona_slug: file.persona_slug,
+      storage_path: file.storage_path,
+      file_size: new Blob([rawContent]).size,
+      content_hash: crypto.createHash('sha256').update(rawContent).digest('hex'),
+      uploaded_by: userId,
+    },
+    { onConflict: 'storage_path' }
+  );
+}
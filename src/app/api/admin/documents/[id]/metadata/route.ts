@@ -7,6 +7,8 @@ import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import matter from 'gray-matter';
 import crypto from 'crypto';
+import { invalidatePersonaCache } from '@/lib/rag/search';
+import { recordDocumentVersion } from '@/lib/rag/storage/documentVersions';
 
 interface MetadataUpdate {
   title?: string;
@@ -236,6 +238,20 @@ export async function PATCH(
       );
     }
 
+    // Cached search results carry titles and types and were filtered on the old metadata
+    await invalidatePersonaCache(doc.personas);
+
+    await recordDocumentVersion(
+      supabase,
+      id,
+      { raw_content: updatedContent, personas: doc.personas || [] },
+      {
+        changeType: 'edit',
+        createdBy: user.id,
+        previous: { raw_content: doc.raw_content, personas: doc.personas || [] },
+      }
+    );
+
     // Update file in storage
     const { error: storageError } = await supabase.storage
       .from('formatted-documents')
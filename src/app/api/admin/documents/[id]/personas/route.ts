@@ -9,6 +9,8 @@ import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import matter from 'gray-matter';
 import crypto from 'crypto';
+import { invalidatePersonaCache } from '@/lib/rag/search';
+import { recordDocumentVersion } from '@/lib/rag/storage/documentVersions';
 
 export async function PATCH(
   request: NextRequest,
@@ -84,6 +86,20 @@ export async function PATCH(
       );
     }
 
+    // Both the personas losing and gaining the document have stale cached searches
+    await invalidatePersonaCache([...(doc.personas || []), ...personaSlugs]);
+
+    await recordDocumentVersion(
+      supabase,
+      docId,
+      { raw_content: updatedMarkdown, personas: personaSlugs },
+      {
+        changeType: 'personas',
+        createdBy: user.id,
+        previous: { raw_content: doc.raw_content, personas: doc.personas || [] },
+      }
+    );
+
     // Update storage file frontmatter
     // Note: We only update the primary storage file (first persona in original assignment)
     const { data: fileRecord } = await supabase
@@ -6,6 +6,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { invalidatePersonaCache } from '@/lib/rag/search';
 
 export interface DocumentDetails {
   id: string;
@@ -158,6 +159,7 @@ export async function DELETE(
       .select(`
         id,
         title,
+        personas,
         document_files!fk_doc_id (storage_path)
       `)
       .eq('id', id)
@@ -198,6 +200,8 @@ export async function DELETE(
       );
     }
 
+    await invalidatePersonaCache(doc.personas);
+
     console.log(`✅ Deleted document: ${id} (${doc.title})`);
 
     return NextResponse.json({
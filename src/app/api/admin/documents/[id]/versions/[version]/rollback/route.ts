@@ -0,0 +1,171 @@
+/**
+ * API route for rolling a document back to an earlier version
+ * POST /api/admin/documents/[id]/versions/[version]/rollback
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { invalidatePersonaCache } from '@/lib/rag/search';
+import { createExtractionJob } from '@/lib/queue/jobQueue';
+import type { ReingestJobData } from '@/lib/queue/types';
+import { recordDocumentVersion, docFieldsFromContent } from '@/lib/rag/storage/documentVersions';
+
+interface RollbackResponse {
+  success: boolean;
+  version?: number; // New version recording the rollback
+  jobId?: string;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * POST /api/admin/documents/[id]/versions/[version]/rollback
+ * Restore a version's content and persona assignments, then re-ingest (async)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+): Promise<NextResponse<RollbackResponse>> {
+  const supabase = await createClient();
+  const { id, version: versionParam } = await params;
+
+  // Check authentication and admin role
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const versionNumber = parseInt(versionParam, 10);
+
+    const [{ data: version }, { data: doc }] = await Promise.all([
+      supabase
+        .from('document_versions')
+        .select('version, raw_content, personas')
+        .eq('doc_id', id)
+        .eq('version', versionNumber)
+        .maybeSingle(),
+      supabase
+        .from('docs')
+        .select('id, raw_content, personas, document_files!fk_doc_id (storage_path)')
+        .eq('id', id)
+        .maybeSingle(),
+    ]);
+
+    if (!doc) {
+      return NextResponse.json({ success: false, error: 'Document not found' }, { status: 404 });
+    }
+    if (!version) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    const personaSlugs: string[] = version.personas || [];
+    if (personaSlugs.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Version has no associated personas' },
+        { status: 400 }
+      );
+    }
+
+    // Restore content, derived metadata and personas; search picks it up after re-ingestion
+    const { error: updateError } = await supabase
+      .from('docs')
+      .update({
+        ...docFieldsFromContent(version.raw_content),
+        raw_content: version.raw_content,
+        personas: personaSlugs,
+        ingestion_status: 'extracted',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error('Database update error:', updateError);
+      return NextResponse.json(
+        { success: false, error: `Rollback failed: ${updateError.message}` },
+        { status: 500 }
+      );
+    }
+
+    // Personas losing or regaining the document have stale cached searches
+    await invalidatePersonaCache([...(doc.personas || []), ...personaSlugs]);
+
+    // Keep the storage file in sync
+    const storagePath = doc.document_files?.[0]?.storage_path;
+    if (storagePath) {
+      const { error: storageError } = await supabase.storage
+        .from('formatted-documents')
+        .update(storagePath, version.raw_content, {
+          contentType: 'text/markdown',
+          upsert: true,
+        });
+
+      if (storageError) {
+        console.error('Storage update error:', storageError);
+        // Continue anyway - database is source of truth
+      }
+
+      await supabase
+        .from('document_files')
+        .update({
+          content_hash: crypto.createHash('sha256').update(version.raw_content).digest('hex'),
+          file_size: new Blob([version.raw_content]).size,
+        })
+        .eq('storage_path', storagePath);
+    }
+
+    const newVersion = await recordDocumentVersion(
+      supabase,
+      id,
+      { raw_content: version.raw_content, personas: personaSlugs },
+      {
+        changeType: 'rollback',
+        createdBy: user.id,
+        restoredFrom: versionNumber,
+        previous: { raw_content: doc.raw_content, personas: doc.personas || [] },
+      }
+    );
+
+    const jobData: ReingestJobData = {
+      docId: id,
+      personaSlugs,
+      userId: user.id,
+    };
+
+    const jobId = await createExtractionJob({
+      jobType: 'reingest',
+      inputData: jobData,
+      userId: user.id,
+    });
+
+    console.log(`⏪ Rolled back document ${id} to version ${versionNumber} (reingest job ${jobId})`);
+
+    return NextResponse.json({
+      success: true,
+      version: newVersion ?? undefined,
+      jobId,
+      message: `Restored version ${versionNumber}. Re-ingestion queued.`,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/documents/[id]/versions/[version]/rollback:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
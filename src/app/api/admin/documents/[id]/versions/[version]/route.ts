@@ -0,0 +1,93 @@
+/**
+ * API route for a single document version
+ * GET /api/admin/documents/[id]/versions/[version]?compare=current|previous
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { diffLines } from '@/lib/rag/storage/documentVersions';
+
+/**
+ * GET /api/admin/documents/[id]/versions/[version]
+ * Version content and a line diff from it to the current document
+ * (compare=current, default) or from the previous version to it (compare=previous)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  const supabase = await createClient();
+  const { id, version: versionParam } = await params;
+
+  // Check authentication and admin role
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const versionNumber = parseInt(versionParam, 10);
+  const compare = request.nextUrl.searchParams.get('compare') || 'current';
+  if (!Number.isInteger(versionNumber) || (compare !== 'current' && compare !== 'previous')) {
+    return NextResponse.json({ error: 'Invalid version or compare mode' }, { status: 400 });
+  }
+
+  try {
+    const { data: version, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('doc_id', id)
+      .eq('version', versionNumber)
+      .single();
+
+    if (error || !version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    let diff;
+    if (compare === 'previous') {
+      const { data: previous } = await supabase
+        .from('document_versions')
+        .select('raw_content')
+        .eq('doc_id', id)
+        .lt('version', versionNumber)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      diff = diffLines(previous?.raw_content ?? '', version.raw_content);
+    } else {
+      const { data: doc } = await supabase
+        .from('docs')
+        .select('raw_content')
+        .eq('id', id)
+        .single();
+
+      diff = diffLines(version.raw_content, doc?.raw_content ?? '');
+    }
+
+    return NextResponse.json({ version, compare, diff });
+  } catch (error) {
+    console.error('Error in GET /api/admin/documents/[id]/versions/[version]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API route for document version history
+ * GET /api/admin/documents/[id]/versions - List versions (without content)
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { DocumentVersionSummary } from '@/lib/rag/storage/documentVersions';
+
+/**
+ * GET /api/admin/documents/[id]/versions
+ * Versions newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await params;
+
+  // Check authentication and admin role
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { data: versions, error } = await supabase
+      .from('document_versions')
+      .select('version, change_type, restored_from, frontmatter, personas, raw_content, created_by, created_at')
+      .eq('doc_id', id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch document versions:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch versions' },
+        { status: 500 }
+      );
+    }
+
+    const summaries: DocumentVersionSummary[] = (versions || []).map((v: any) => ({
+      version: v.version,
+      change_type: v.change_type,
+      restored_from: v.restored_from,
+      title: v.frontmatter?.title ?? null,
+      personas: v.personas || [],
+      size: v.raw_content.length,
+      created_by: v.created_by,
+      created_at: v.created_at,
+    }));
+
+    return NextResponse.json({ versions: summaries });
+  } catch (error) {
+    console.error('Error in GET /api/admin/documents/[id]/versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import type { DuplicateMatch } from '@/lib/rag/storage/duplicateDetection';
 
 export interface DocumentListItem {
   id: string;
@@ -20,6 +21,7 @@ export interface DocumentListItem {
   file_size: number | null;
   updated_at: string;
   storage_path: string | null;
+  duplicates: DuplicateMatch[]; // Existing documents this one may duplicate, pending review
 }
 
 /**
@@ -80,7 +82,15 @@ export async function GET(request: NextRequest) {
           storage_path,
           file_size
         ),
-        chunks (count)
+        chunks (count),
+        document_duplicates!document_duplicates_doc_id_fkey (
+          duplicate_of,
+          reason,
+          similarity,
+          matched_identifiers,
+          status,
+          existing:docs!document_duplicates_duplicate_of_fkey (title)
+        )
       `);
 
     // Apply filters
@@ -135,6 +145,15 @@ export async function GET(request: NextRequest) {
         file_size: fileInfo?.file_size || null,
         updated_at: doc.updated_at,
         storage_path: fileInfo?.storage_path || null,
+        duplicates: (doc.document_duplicates || [])
+          .filter((dup: any) => dup.status === 'pending')
+          .map((dup: any) => ({
+            duplicateOf: dup.duplicate_of,
+            title: dup.existing?.title || dup.duplicate_of,
+            reason: dup.reason,
+            similarity: dup.similarity,
+            matchedIdentifiers: dup.matched_identifiers || [],
+          })),
       };
     });
 
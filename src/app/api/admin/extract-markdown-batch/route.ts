@@ -8,6 +8,7 @@ import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatBatchRawMarkdown, RawMarkdownInput } from '@/lib/rag/extraction/rawMarkdownFormatter';
 import { storeBatchExtractedDocuments } from '@/lib/rag/storage/documentStorage';
+import type { DuplicateMatch } from '@/lib/rag/storage/duplicateDetection';
 
 interface StoredDocument {
   docId: string;
@@ -15,6 +16,7 @@ interface StoredDocument {
   storagePath: string;
   filename: string;
   success: boolean;
+  duplicates?: DuplicateMatch[]; // Existing documents this one appears to duplicate
   error?: string;
 }
 
@@ -170,6 +172,7 @@ export async function POST(
       storagePath: storeResult.storagePath || '',
       filename: documentsToStore[idx].filename,
       success: storeResult.success,
+      duplicates: storeResult.duplicates,
       error: storeResult.error,
     }));
 
@@ -11,6 +11,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { invalidatePersonaCache } from '@/lib/rag/search';
 
 interface RouteContext {
   params: Promise<{ slug: string }>;
@@ -75,6 +76,8 @@ export async function GET(
       search: {
         vector_threshold: configJson.search?.vector_threshold ?? configJson.router?.vector_threshold ?? 0.35,
       },
+      agent: configJson.agent || { enabled: false },
+      models: configJson.models || {},
       frontmatter: configJson.frontmatter || {
         title: `${persona.name} - AI Assistant`,
         version: configJson.version || '1.0.0',
@@ -157,14 +160,64 @@ export async function PATCH(
       );
     }
 
+    // Validate agent config if provided
+    if (body.agent !== undefined && (typeof body.agent !== 'object' || body.agent === null)) {
+      return NextResponse.json(
+        { error: 'Invalid agent configuration' },
+        { status: 400 }
+      );
+    }
+
+    // Validate model config if provided
+    if (body.models !== undefined) {
+      const models = body.models;
+      if (typeof models !== 'object' || models === null) {
+        return NextResponse.json(
+          { error: 'Invalid model configuration' },
+          { status: 400 }
+        );
+      }
+      if (models.provider !== undefined && !['openai', 'gemini', 'local'].includes(models.provider)) {
+        return NextResponse.json(
+          { error: 'Model provider must be one of: openai, gemini, local' },
+          { status: 400 }
+        );
+      }
+      if (models.temperature !== undefined && (typeof models.temperature !== 'number' || models.temperature < 0 || models.temperature > 2)) {
+        return NextResponse.json(
+          { error: 'Temperature must be a number between 0 and 2' },
+          { status: 400 }
+        );
+      }
+      if (models.max_output_tokens !== undefined && (!Number.isInteger(models.max_output_tokens) || models.max_output_tokens <= 0)) {
+        return NextResponse.json(
+          { error: 'max_output_tokens must be a positive integer' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Keep config blocks this endpoint doesn't edit (e.g. scope examples)
+    const { data: existingPersona } = await supabase
+      .from('personas')
+      .select('config_json')
+      .eq('slug', slug)
+      .single();
+    const existingConfig = typeof existingPersona?.config_json === 'string'
+      ? JSON.parse(existingPersona.config_json)
+      : (existingPersona?.config_json || {});
+
     // Build config_json from body (excluding DB-level fields)
     const configJson = {
+      ...existingConfig,
       slug: body.slug,
       display_name: body.display_name,
       version: body.version,
       last_updated: body.last_updated,
       topics: body.topics || [],
       search: body.search || { vector_threshold: 0.35 },
+      agent: body.agent ?? existingConfig.agent,
+      models: body.models ?? existingConfig.models,
     };
 
     // Prepare update object with all fields
@@ -204,6 +257,9 @@ export async function PATCH(
       throw updateError;
     }
 
+    // Search settings and topic aliases shape cached results
+    await invalidatePersonaCache(slug);
+
     return NextResponse.json({
       success: true,
       persona: updatedPersona,
@@ -1,21 +1,81 @@
-import { NextRequest, NextResponse } from "next/server";
-import { openai } from "@ai-sdk/openai";
+import { NextRequest, NextResponse, after } from "next/server";
 import { streamText, CoreMessage } from "ai";
 import { createClient, createOptimizedAdminClient } from "@/lib/supabase/server";
 import { cookies } from "next/headers";
 import { ChatMessage } from "@/lib/types";
-import { performSearch } from "@/lib/rag/search";
+import {
+  performSearch,
+  extractFiltersFromQuery,
+  hasFilters,
+  getPersonaRetrievalConfig,
+  type SearchOptions,
+  type SearchResult,
+} from "@/lib/rag/search";
+import { packContext, getContextTokenBudget, type DroppedChunk } from "@/lib/rag/contextPacker";
 import { reformulateQuery } from "@/lib/rag/queryReformulation";
 import { createMathNormalizingStream } from "@/lib/rag/mathStreamProcessor";
 import { stripFrontmatter } from "@/lib/rag/ingestion/markdownProcessor";
+import {
+  getPersistableConversation,
+  saveUserMessage,
+  saveAssistantMessage,
+  scoreMessageFaithfulness,
+} from "@/lib/chat/messagePersistence";
+import {
+  encodeChatEvent,
+  createCitationDetector,
+  CHAT_EVENT_STREAM_HEADERS,
+  type ChatStreamEvent,
+  type RetrievedSource,
+} from "@/lib/chat/streamProtocol";
+import { formatRagContext, type RagContextData } from "@/lib/chat/ragContext";
+import { createAgentSession, getAgentInstructions, getPersonaAgentConfig, type AgentSession } from "@/lib/chat/agentTools";
+import {
+  loadConversationMemory,
+  applyConversationMemory,
+  updateConversationMemory,
+  formatSummaryForPrompt,
+} from "@/lib/chat/conversationMemory";
+import { checkScope } from "@/lib/chat/scopeGuard";
+import { resolveBranchPosition, type BranchRequest, type BranchPosition } from "@/lib/chat/branching";
+import { classifyTurn, getTurnInstructions, type TurnClassification } from "@/lib/chat/turnClassifier";
+import {
+  loadPreviousTurnContext,
+  expandQueryFromGraph,
+  getModeSearchOptions,
+  searchPerEntity,
+  toContextChunkRefs,
+} from "@/lib/chat/turnRetrieval";
+import { getLanguageModel, isProviderConfigured, formatModelSpec, resolvePersonaModels } from "@/lib/llm/models";
+
+// Allow streaming responses up to 60 seconds (agent mode runs several tool rounds)
+export const maxDuration = 60;
+
+// Candidates retrieved before token-budgeted packing trims them to fit the model context
+const RAG_CANDIDATE_LIMIT = 30;
+
+const CITATION_RULES = `**CRITICAL Citation Rules**:
+- Every factual statement that depends on the context MUST include a citation in this EXACT format: [^doc_id:section]
+- The citation MUST have BOTH parts separated by a colon:
+  * doc_id: The document reference (e.g., "doc_1", "doc_2", etc.)
+  * section: The section heading from the context (e.g., "Introduction", "Background", "Claims")
+- CORRECT examples: [^doc_1:Introduction], [^doc_2:Background > History], [^doc_3:Claims]
+- INCORRECT examples: [^doc_1], [^1], [doc_1], [^Introduction]
+- If the context is insufficient to answer the question, say so clearly and suggest what documentation might be needed
+- Do not make up information not present in the context
+- When multiple sources support a claim, cite all relevant sources`;
 
-// Allow streaming responses up to 30 seconds
-export const maxDuration = 30;
+interface SystemPromptOptions {
+  ragContext?: string;
+  agentInstructions?: string; // Agent mode: tool usage instructions
+  conversationSummary?: string; // Long threads: summary of the earlier messages
+  turn?: TurnClassification | null; // Turn type and response mode
+}
 
 async function getPersonaSystemPrompt(
   personaId: string,
   supabase: Awaited<ReturnType<typeof createClient>>,
-  ragContext?: string
+  { ragContext, agentInstructions, conversationSummary, turn }: SystemPromptOptions = {}
 ): Promise<string> {
 
   const { data: persona } = await supabase
@@ -89,26 +149,37 @@ Format all responses using proper Markdown syntax for better readability:
 - Use > for important quotes or callouts
 - Use tables when comparing multiple items`;
 
+  // Long threads: the summarized start of the conversation
+  const memoryInstructions = conversationSummary ? formatSummaryForPrompt(conversationSummary) : '';
+
+  // How to answer this turn (response mode, comparison, follow-up)
+  const turnInstructions = turn ? getTurnInstructions(turn) : '';
+
+  // Agent mode: context arrives through tool results, cited the same way
+  if (agentInstructions) {
+    return `${basePrompt}
+${identityInstructions}
+${formattingInstructions}${memoryInstructions}${turnInstructions}
+${agentInstructions}
+
+## RAG Context Usage Instructions
+
+You are ${displayName}. Use ONLY the tool results for persona-specific facts.
+
+${CITATION_RULES}`;
+  }
+
   // If RAG context is provided, enhance the system prompt with citation instructions
   if (ragContext) {
     return `${basePrompt}
 ${identityInstructions}
-${formattingInstructions}
+${formattingInstructions}${memoryInstructions}${turnInstructions}
 
 ## RAG Context Usage Instructions
 
 You are ${displayName}. Use ONLY the provided context below for persona-specific facts.
 
-**CRITICAL Citation Rules**:
-- Every factual statement that depends on the context MUST include a citation in this EXACT format: [^doc_id:section]
-- The citation MUST have BOTH parts separated by a colon:
-  * doc_id: The document reference (e.g., "doc_1", "doc_2", etc.)
-  * section: The section heading from the context (e.g., "Introduction", "Background", "Claims")
-- CORRECT examples: [^doc_1:Introduction], [^doc_2:Background > History], [^doc_3:Claims]
-- INCORRECT examples: [^doc_1], [^1], [doc_1], [^Introduction]
-- If the context is insufficient to answer the question, say so clearly and suggest what documentation might be needed
-- Do not make up information not present in the context
-- When multiple sources support a claim, cite all relevant sources
+${CITATION_RULES}
 
 **Context Documents**:
 ${ragContext}
@@ -116,78 +187,30 @@ ${ragContext}
 **Remember**: ALWAYS use the complete citation format [^doc_id:section] with BOTH the document ID and section path for any factual claims based on the context above.`;
   }
 
-  return basePrompt + identityInstructions + formattingInstructions;
-}
-
-interface RagContextData {
-  context: string;
-  metadata: Map<string, { sourceUrl?: string; docTitle?: string; docId: string }>;
+  return basePrompt + identityInstructions + formattingInstructions + memoryInstructions + turnInstructions;
 }
 
 /**
- * Generate Google Patents URL from patent ID
- * Supports US patents, WO (PCT), EP, etc.
+ * Respond with a fixed sequence of chat events (no generation)
  */
-function generatePatentUrl(docId: string): string | undefined {
-  // Match patent number patterns like us10838134, wo2024145265a1, etc.
-  const patentMatch = docId.match(/^([a-z]{2})(\d+[a-z]?\d*)$/i);
-  if (!patentMatch) return undefined;
-
-  const countryCode = patentMatch[1].toUpperCase();
-  const number = patentMatch[2].toUpperCase();
-
-  return `https://patents.google.com/patent/${countryCode}${number}`;
-}
-
-/**
- * Format RAG search results as context for LLM and return metadata for citation mapping
- */
-function formatRagContext(results: Awaited<ReturnType<typeof performSearch>>): RagContextData {
-  if (results.length === 0) {
-    return { context: '', metadata: new Map() };
-  }
-
-  const metadata = new Map<string, { sourceUrl?: string; docTitle?: string; docId: string }>();
-
-  const contextBlocks = results.map((result, index) => {
-    const docRef = `doc_${index + 1}`;
-
-    // Normalize section path: use 'Main Content' if missing or identical to title
-    const docTitle = result.docTitle || result.docId;
-    const normalizedSection = (!result.sectionPath || result.sectionPath === docTitle)
-      ? 'Main Content'
-      : result.sectionPath;
-
-    // Generate source URL from patent ID if missing
-    const sourceUrl = result.sourceUrl || generatePatentUrl(result.docId);
-
-    // Store metadata for citation mapping
-    metadata.set(docRef, {
-      sourceUrl,
-      docTitle,
-      docId: result.docId,
-    });
-
-    return `[Reference: ^${docRef}:${normalizedSection}]
-Document: ${docTitle}
-Section: ${normalizedSection}
-Source: ${result.sourceUrl || 'N/A'}
-
-${result.text}
-
----`;
+function createEventResponse(events: ChatStreamEvent[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(encodeChatEvent(event)));
+      }
+      controller.close();
+    },
   });
-
-  return {
-    context: contextBlocks.join('\n\n'),
-    metadata,
-  };
+  return new Response(body, { headers: CHAT_EVENT_STREAM_HEADERS });
 }
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     const { messages, conversationId, personaId, useRag = true } = body;
+    const branch: BranchRequest | undefined = body.branch;
 
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return NextResponse.json(
@@ -196,15 +219,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("Missing OPENAI_API_KEY environment variable");
-      return NextResponse.json(
-        { error: "AI service unavailable" },
-        { status: 500 }
-      );
-    }
-
     // Create Supabase client for RAG
     // Check if request has authentication (cookies)
     const cookieStore = await cookies();
@@ -264,18 +278,120 @@ export async function POST(req: NextRequest) {
 
     console.log('✅ Final persona selected:', persona);
 
+    // Persona retrieval and model settings (provider, models, temperature, output limit)
+    const personaConfig = await getPersonaRetrievalConfig(persona, supabase);
+    const models = resolvePersonaModels(personaConfig.models);
+
+    // Validate the chat provider's credentials
+    if (!isProviderConfigured(models.chat.provider)) {
+      console.error(`Missing API key for LLM provider "${models.chat.provider}"`);
+      return NextResponse.json(
+        { error: "AI service unavailable" },
+        { status: 500 }
+      );
+    }
+
+    const lastUserMessage = messages
+      .slice()
+      .reverse()
+      .find((msg: ChatMessage) => msg.role === 'user');
+
+    // Scope guard: compare the question (with the previous exchange on follow-ups) to the persona's in/out-of-scope examples
+    const scope = lastUserMessage
+      ? await checkScope(persona, lastUserMessage.content, supabase, models.reformulation, messages)
+      : null;
+
+    // Step 0: Persist the user message up front (authenticated owners only)
+    const persistConversationId = hasCookies
+      ? await getPersistableConversation(conversationId, supabase)
+      : null;
+
+    // Regenerate / edit-and-resend: the turn starts a branch beside the message it replaces
+    let branchPosition: BranchPosition | null = null;
+    if (persistConversationId && branch) {
+      branchPosition = await resolveBranchPosition(persistConversationId, branch, supabase);
+      if (!branchPosition) {
+        return NextResponse.json(
+          { error: "Message to branch from not found" },
+          { status: 404 }
+        );
+      }
+    }
+    const answerBranch = branch?.action === 'regenerate' ? branchPosition ?? undefined : undefined;
+
+    // A regenerated answer replies to the stored question instead of a new one
+    let questionId: string | null = answerBranch?.parentId ?? null;
+    if (persistConversationId && lastUserMessage && !answerBranch) {
+      questionId = await saveUserMessage(persistConversationId, lastUserMessage.content, supabase, {
+        scope,
+        branch: branchPosition ?? undefined,
+      });
+    }
+
+    // Off-topic: reply with the persona's refusal, skipping retrieval and generation
+    if (scope && !scope.inScope && scope.refusal) {
+      const messageId = persistConversationId
+        ? await saveAssistantMessage({
+            conversationId: persistConversationId,
+            content: scope.refusal,
+            citationMetadata: [],
+            scope,
+            branch: answerBranch,
+          }, supabase)
+        : null;
+      return createEventResponse([
+        { type: 'retrieval', sources: [], dropped: [] },
+        { type: 'token', text: scope.refusal },
+        { type: 'done', finishReason: 'off-topic', messageId },
+      ]);
+    }
+
+    // Long threads: older messages are replaced by the stored rolling summary
+    const transcript = messages.map((msg: ChatMessage) => ({
+      role: msg.role as "user" | "assistant",
+      content: msg.content,
+    }));
+    const memory = await loadConversationMemory(persistConversationId, supabase);
+    const history = applyConversationMemory(transcript, memory);
+    if (history.summary) {
+      console.log(`🧠 Using conversation summary for ${history.summarizedCount} messages (${history.historyTokens} → ${history.sentTokens} history tokens)`);
+    }
+
+    // Agent mode (per persona): the model searches with tools instead of one search up front
+    const agentConfig = useRag && lastUserMessage
+      ? await getPersonaAgentConfig(persona, supabase)
+      : {};
+    const agentSession: AgentSession | null = agentConfig.enabled
+      ? createAgentSession({ personaSlug: persona, conversationId, config: agentConfig, supabase })
+      : null;
+    if (agentSession) {
+      console.log(`🤖 Agent mode enabled (max ${agentSession.maxSteps} steps)`);
+    }
+
+    // Turn classification options (the turn itself is classified after query reformulation)
+    const classifyOptions = {
+      hasHistory: transcript.length > 1,
+      classifier: personaConfig.search.turn_classifier,
+      model: models.reformulation,
+    };
+    let turn: TurnClassification | null = null;
+    let previousContext: SearchResult[] = [];
+
     // Step 1: Perform RAG search if enabled
     let ragContext = '';
+    let retrievalQuery: string | undefined;
+    let retrievedSources: RetrievedSource[] = [];
     let citationMetadata: RagContextData['metadata'] | null = null;
-    let searchResults: Awaited<ReturnType<typeof performSearch>> = [];
-    if (useRag) {
+    let searchResults: SearchResult[] = [];
+    let droppedChunks: DroppedChunk[] = [];
+    if (agentSession) {
+      // Filled in by the tools while the answer is generated
+      citationMetadata = agentSession.metadata;
+      retrievedSources = agentSession.sources;
+      searchResults = agentSession.searchResults;
+    } else if (useRag) {
       try {
-        // Get the last user message as the query
-        const lastUserMessage = messages
-          .slice()
-          .reverse()
-          .find((msg: ChatMessage) => msg.role === 'user');
-
+        // The last user message is the query
         if (lastUserMessage) {
           // Step 1a: Query reformulation with conversation context
           let searchQuery = lastUserMessage.content;
@@ -293,7 +409,9 @@ export async function POST(req: NextRequest) {
           if (conversationHistory.length > 0) {
             const reformulationResult = await reformulateQuery(
               lastUserMessage.content,
-              conversationHistory
+              conversationHistory,
+              models.reformulation,
+              history.summary
             );
 
             if (reformulationResult.needsReformulation) {
@@ -302,23 +420,87 @@ export async function POST(req: NextRequest) {
             }
           }
 
-          console.log(`\n🔍 RAG search triggered for query: "${searchQuery}"`);
+          // Step 1b: Classify the turn (turn type and response mode steer retrieval and prompting)
+          const classified = await classifyTurn(lastUserMessage.content, {
+            ...classifyOptions,
+            reformulatedQuery: searchQuery,
+          });
+          turn = classified;
+
+          // same-sources: reuse the previous answer's chunks instead of searching
+          if (classified.turnType === 'same-sources' && persistConversationId && questionId) {
+            previousContext = await loadPreviousTurnContext(persistConversationId, questionId, supabase);
+          }
+          if (classified.turnType === 'same-sources' && previousContext.length === 0) {
+            console.log('ℹ No stored context from the previous answer, searching instead');
+            turn = { ...classified, turnType: 'drill-down' };
+          }
+
+          if (previousContext.length > 0) {
+            console.log(`♻️ Reusing ${previousContext.length} chunks from the previous answer`);
+            searchResults = previousContext;
+          } else {
+            console.log(`\n🔍 RAG search triggered for query: "${searchQuery}"`);
+
+            // Extract metadata filters from the query (e.g. "recent patents" → type=patent, date>=...)
+            const { filters, matched: filterCues } = extractFiltersFromQuery(searchQuery);
+            if (hasFilters(filters)) {
+              console.log(`🏷️ Metadata filters from query (${filterCues.join(', ')}):`, filters);
+            }
 
-          // Perform hybrid search with reformulated query and citation boosting
-          searchResults = await performSearch(
-            searchQuery,
-            {
+            const searchOptions: SearchOptions = {
               personaSlug: persona,
-              limit: 12,
-              conversationId, // Enable citation-based boosting
-            },
-            supabase
-          );
+              limit: RAG_CANDIDATE_LIMIT,
+              // Citation boosting favours earlier answers' sources, which a new topic doesn't want
+              conversationId: classified.turnType === 'new-topic' ? undefined : conversationId,
+              ...getModeSearchOptions(classified),
+            };
+            // who / which-products: search for the entities the knowledge graph relates to the subject
+            const { query: expandedQuery } = await expandQueryFromGraph(searchQuery, classified, persona, supabase);
+            retrievalQuery = expandedQuery;
+
+            // compare: one search per entity so each side gets its own sources
+            const search = (options: SearchOptions) => classified.turnType === 'compare'
+              ? searchPerEntity(classified, options, supabase)
+              : performSearch(expandedQuery, options, supabase);
+
+            // Perform hybrid search with reformulated query and citation boosting
+            searchResults = await search({
+              ...searchOptions,
+              filters: hasFilters(filters) ? filters : undefined,
+            });
+
+            // Inferred filters can be too strict - retry unfiltered rather than answer without context
+            if (searchResults.length === 0 && hasFilters(filters)) {
+              console.log('ℹ No results with inferred filters, retrying without filters');
+              searchResults = await search(searchOptions);
+            }
+          }
+
+          // Pack candidates into the model's context budget (score order, no near-duplicates)
+          // A reused context was packed for the previous answer already
+          if (searchResults.length > 0 && previousContext.length === 0) {
+            const packed = packContext(searchResults, {
+              tokenBudget: getContextTokenBudget(models.chat.model, personaConfig.search.context_token_budget),
+            });
+            searchResults = packed.included;
+            droppedChunks = packed.dropped;
+            if (droppedChunks.length > 0) {
+              console.log('🗑️ Dropped chunks:', droppedChunks.map(d => ({
+                chunkId: d.chunkId.substring(0, 20),
+                docId: d.docId,
+                score: d.score.toFixed(4),
+                tokens: d.tokens,
+                reason: d.reason,
+              })));
+            }
+          }
 
           if (searchResults.length > 0) {
             const ragData = formatRagContext(searchResults);
             ragContext = ragData.context;
             citationMetadata = ragData.metadata;
+            retrievedSources = ragData.sources;
             console.log(`✓ RAG context generated: ${searchResults.length} chunks`);
 
             // Log top 3 chunk IDs and scores for debugging
@@ -328,6 +510,8 @@ export async function POST(req: NextRequest) {
               score: r.score.toFixed(4),
               vectorScore: r.vectorScore?.toFixed(4),
               bm25Score: r.bm25Score?.toFixed(4),
+              rerankScore: r.rerankScore?.toFixed(4),
+              rerankReason: r.rerankReason,
             })));
           } else {
             console.log('ℹ No RAG results found, proceeding without context');
@@ -339,64 +523,187 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Agent mode and non-RAG turns are classified on the message as written
+    if (!turn && lastUserMessage) {
+      turn = await classifyTurn(lastUserMessage.content, classifyOptions);
+    }
+    if (turn) {
+      console.log(`🧭 Turn: ${turn.turnType} / ${turn.responseMode} (${turn.method})${turn.entities.length > 0 ? ` comparing ${turn.entities.join(' | ')}` : ''}`);
+    }
+
     // Step 2: Get persona system prompt (with RAG context if available)
-    const systemPrompt = await getPersonaSystemPrompt(persona, supabase, ragContext);
+    const systemPrompt = await getPersonaSystemPrompt(persona, supabase, {
+      ragContext,
+      agentInstructions: agentSession ? getAgentInstructions(agentSession.maxSteps) : undefined,
+      conversationSummary: history.summary,
+      turn,
+    });
 
-    // Step 3: Prepare messages for OpenAI
+    // Step 3: Prepare messages for the model
     const coreMessages: CoreMessage[] = [
       { role: "system", content: systemPrompt },
-      ...messages.map((msg: ChatMessage) => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-      })),
+      ...history.messages,
     ];
 
-    // Step 4: Stream response from OpenAI
-    const result = await streamText({
-      model: openai("gpt-4o"),
+    // Step 4: Generate the response with the persona's chat model
+    const result = streamText({
+      model: getLanguageModel(models.chat),
       messages: coreMessages,
-      temperature: 0.7,
-      maxOutputTokens: 2000,
+      temperature: models.temperature,
+      maxOutputTokens: models.maxOutputTokens,
+      ...(agentSession && {
+        tools: agentSession.tools,
+        stopWhen: agentSession.stopWhen,
+        prepareStep: agentSession.prepareStep,
+      }),
     });
 
-    // Step 5: Return text stream (math normalization temporarily disabled for debugging)
-    const response = result.toTextStreamResponse();
-
-    // Check if request is from MCP client (which can't handle large headers)
-    const isMcpClient = req.headers.get('X-MCP-Client') === 'true';
-
-    // Add citation metadata as a custom header (JSON stringified and Base64 encoded to handle non-ASCII)
-    // Skip for MCP clients to avoid header overflow errors (they still get inline citations)
-    if (citationMetadata && citationMetadata.size > 0 && !isMcpClient) {
-      const metadataArray = Array.from(citationMetadata.entries()).map(([docRef, meta]) => ({
-        docRef,
-        ...meta,
-      }));
-      const encodedMetadata = Buffer.from(JSON.stringify(metadataArray), 'utf-8').toString('base64');
-      response.headers.set('X-Citation-Metadata', encodedMetadata);
-    }
+    // Step 5: Stream typed events (retrieval → citation/token → usage → done) and
+    // persist the assistant turn before `done` so clients get the stored message ID
+    const encoder = new TextEncoder();
+    let clientConnected = true;
+    let faithfulnessTask: Promise<void> | undefined;
+    let memoryTask: Promise<void> | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (!clientConnected) return;
+          try {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)));
+          } catch {
+            clientConnected = false;
+          }
+        };
+
+        const generation = (async () => {
+          if (turn) {
+            send({
+              type: 'turn',
+              turnType: turn.turnType,
+              responseMode: turn.responseMode,
+              ...(turn.entities.length > 0 && { entities: turn.entities }),
+            });
+          }
+          send({
+            type: 'retrieval',
+            query: retrievalQuery,
+            sources: retrievedSources,
+            dropped: droppedChunks.map(d => ({
+              chunkId: d.chunkId,
+              docId: d.docId,
+              reason: d.reason,
+              ...(d.mergedHits && { mergedHits: d.mergedHits }),
+            })),
+          });
+
+          const detectCitations = createCitationDetector();
+          let text = '';
+          let citationCount = 0;
+          let stepCount = 0;
+          let finishReason: string | undefined;
+
+          // Generation continues after a client disconnect so the answer is still stored
+          for await (const part of result.fullStream) {
+            if (part.type === 'text-delta') {
+              text += part.text;
+              send({ type: 'token', text: part.text });
+              for (const { docRef, section } of detectCitations(text)) {
+                const meta = citationMetadata?.get(docRef);
+                send({
+                  type: 'citation',
+                  citation: { docRef, section, number: ++citationCount, ...meta },
+                });
+              }
+            } else if (part.type === 'tool-result') {
+              // Agent mode: sources accumulate as tools run
+              const input = part.input as { query?: string } | undefined;
+              send({
+                type: 'retrieval',
+                query: input?.query,
+                sources: [...retrievedSources],
+                dropped: [],
+              });
+            } else if (part.type === 'finish-step') {
+              stepCount++;
+            } else if (part.type === 'finish') {
+              finishReason = part.finishReason;
+              send({
+                type: 'usage',
+                model: formatModelSpec(models.chat),
+                inputTokens: part.totalUsage.inputTokens,
+                outputTokens: part.totalUsage.outputTokens,
+                totalTokens: part.totalUsage.totalTokens,
+              });
+            } else if (part.type === 'error') {
+              console.error('Chat generation error:', part.error);
+              send({ type: 'error', error: 'Generation failed' });
+            }
+          }
 
-    // Add RAG context and search results as custom headers for RAG weight calculation
-    // Skip for MCP clients to avoid header overflow errors
-    if (!isMcpClient) {
-      if (ragContext) {
-        const encodedRagContext = Buffer.from(ragContext, 'utf-8').toString('base64');
-        response.headers.set('X-RAG-Context', encodedRagContext);
-      }
-      if (searchResults.length > 0) {
-        const searchResultsData = searchResults.map(r => ({
-          chunkId: r.chunkId,
-          docId: r.docId,
-          score: r.score,
-          vectorScore: r.vectorScore,
-          bm25Score: r.bm25Score,
-        }));
-        const encodedSearchResults = Buffer.from(JSON.stringify(searchResultsData), 'utf-8').toString('base64');
-        response.headers.set('X-Search-Results', encodedSearchResults);
-      }
-    }
+          let messageId: string | null = null;
+          if (agentSession) {
+            ragContext = agentSession.getContext();
+          }
+          if (persistConversationId && text.trim()) {
+            const citationMetadataArray = Array.from(citationMetadata?.entries() ?? []).map(([docRef, meta]) => ({
+              docRef,
+              ...meta,
+            }));
+            messageId = await saveAssistantMessage({
+              conversationId: persistConversationId,
+              content: text,
+              citationMetadata: citationMetadataArray,
+              ragContext,
+              searchResults,
+              agent: agentSession
+                ? { steps: stepCount, toolCalls: agentSession.toolCalls }
+                : undefined,
+              turn: turn ?? undefined,
+              contextChunks: toContextChunkRefs(searchResults),
+              branch: answerBranch,
+            }, supabase);
+
+            // Faithfulness needs an LLM call; score it after the stream has closed
+            if (messageId && ragContext) {
+              faithfulnessTask = scoreMessageFaithfulness(messageId, text, ragContext, searchResults, supabase);
+            }
+
+            // Record the thread's token cost and fold older messages into the summary if needed
+            memoryTask = updateConversationMemory(
+              persistConversationId,
+              [...transcript, { role: "assistant", content: text }],
+              { summary: history.summary ?? null, summarizedCount: history.summarizedCount },
+              models.reformulation,
+              supabase
+            );
+          }
+
+          send({ type: 'done', finishReason, messageId });
+        })();
+
+        generation
+          .catch((streamError) => {
+            console.error('Chat stream failed:', streamError);
+            send({ type: 'error', error: 'Internal server error' });
+            send({ type: 'done' });
+          })
+          .finally(() => {
+            if (clientConnected) controller.close();
+          });
+
+        after(async () => {
+          await generation.catch(() => undefined);
+          await faithfulnessTask;
+          await memoryTask;
+        });
+      },
+      cancel() {
+        clientConnected = false;
+      },
+    });
 
-    return response;
+    return new Response(stream, { headers: CHAT_EVENT_STREAM_HEADERS });
   } catch (error) {
     console.error("Chat API error:", error);
     return NextResponse.json(
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { AppError, handleApiError } from "@/lib/utils";
+import {
+  buildConversationExport,
+  toMarkdownExport,
+  exportFileName,
+  type ExportFormat,
+} from "@/lib/chat/conversationExport";
+
+/**
+ * GET /api/conversations/[id]/export?format=markdown|json
+ * Download the active branch of the user's conversation with resolved citations
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const { id: conversationId } = await params;
+    const format = (req.nextUrl.searchParams.get("format") || "markdown") as ExportFormat;
+    if (format !== "markdown" && format !== "json") {
+      throw new AppError("format must be markdown or json", 400);
+    }
+
+    const { data: conversation, error: convError } = await supabase
+      .from("conversations")
+      .select("id, title, persona_id, active_message_id, created_at")
+      .eq("id", conversationId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (convError || !conversation) {
+      throw new AppError("Conversation not found", 404);
+    }
+
+    const data = await buildConversationExport(conversation, supabase);
+    const headers = {
+      "Content-Disposition": `attachment; filename="${exportFileName(data, format)}"`,
+    };
+
+    if (format === "json") {
+      return NextResponse.json(data, { headers });
+    }
+
+    return new NextResponse(toMarkdownExport(data), {
+      headers: { ...headers, "Content-Type": "text/markdown; charset=utf-8" },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { AppError, handleApiError } from "@/lib/utils";
+import {
+  toActiveBranch,
+  getActivePath,
+  findLatestLeaf,
+  countSharedMessages,
+  type BranchNode,
+} from "@/lib/chat/branching";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// All messages of a conversation (every branch), including metadata for citations and RAG weight,
+// and the user's feedback on answers
+async function loadMessageTree(conversationId: string, supabase: SupabaseServerClient) {
+  const { data: messages, error } = await supabase
+    .from("messages")
+    .select("id, conversation_id, role, content, created_at, metadata, rag_weight, rag_weight_breakdown, turn_type, response_mode, parent_id, branch_index, message_feedback (rating, reason, correction, missing_source_url)")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to fetch messages:", error);
+    throw new AppError("Failed to fetch messages", 500);
+  }
+
+  return (messages || []) as Array<BranchNode & Record<string, unknown>>;
+}
 
 export async function GET(
   req: NextRequest,
@@ -36,21 +62,12 @@ export async function GET(
       throw new AppError("Conversation not found", 404);
     }
 
-    // Fetch messages for this conversation (including metadata for citations and RAG weight)
-    const { data: messages, error: msgError } = await supabase
-      .from("messages")
-      .select("id, conversation_id, role, content, created_at, metadata, rag_weight, rag_weight_breakdown")
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: true });
-
-    if (msgError) {
-      console.error("Failed to fetch messages:", msgError);
-      throw new AppError("Failed to fetch messages", 500);
-    }
+    // Only the active branch is returned; each message lists its siblings for navigation
+    const messages = await loadMessageTree(conversationId, supabase);
 
     return NextResponse.json({
       conversation,
-      messages,
+      messages: toActiveBranch(messages, conversation.active_message_id),
     });
   } catch (error) {
     return handleApiError(error);
@@ -104,6 +121,86 @@ export async function PUT(
   }
 }
 
+/**
+ * PATCH /api/conversations/[id]
+ * Switch the active branch to the one through `messageId` (a regenerated answer
+ * or edited question), continuing down its most recent replies.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const { id: conversationId } = await params;
+    const { messageId }: { messageId: string } = await req.json();
+
+    if (!messageId) {
+      throw new AppError("messageId is required", 400);
+    }
+
+    const { data: conversation, error: convError } = await supabase
+      .from("conversations")
+      .select("*")
+      .eq("id", conversationId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (convError || !conversation) {
+      throw new AppError("Conversation not found", 404);
+    }
+
+    const messages = await loadMessageTree(conversationId, supabase);
+    if (!messages.some((m) => m.id === messageId)) {
+      throw new AppError("Message not found", 404);
+    }
+
+    const activeMessageId = findLatestLeaf(messages, messageId);
+    const update: Record<string, unknown> = { active_message_id: activeMessageId };
+
+    // The rolling summary belongs to the branch it was written on
+    const shared = countSharedMessages(
+      getActivePath(messages, conversation.active_message_id),
+      getActivePath(messages, activeMessageId)
+    );
+    if (conversation.context_summary && shared < (conversation.context_summary_message_count ?? 0)) {
+      update.context_summary = null;
+      update.context_summary_message_count = 0;
+    }
+
+    const { data: updatedConversation, error: updateError } = await supabase
+      .from("conversations")
+      .update(update)
+      .eq("id", conversationId)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (updateError || !updatedConversation) {
+      console.error("Failed to switch branch:", updateError);
+      throw new AppError("Failed to switch branch", 500);
+    }
+
+    return NextResponse.json({
+      conversation: updatedConversation,
+      messages: toActiveBranch(messages, activeMessageId),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -0,0 +1,148 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { AppError, handleApiError } from "@/lib/utils";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Share links are managed by the conversation's owner only
+async function requireOwnConversation(conversationId: string, userId: string, supabase: SupabaseServerClient) {
+  const { data: conversation, error } = await supabase
+    .from("conversations")
+    .select("id")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !conversation) {
+    throw new AppError("Conversation not found", 404);
+  }
+}
+
+async function requireUser(supabase: SupabaseServerClient) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new AppError("Authentication required", 401);
+  }
+  return user;
+}
+
+function toShareResponse(share: { id: string; token: string; created_at: string }) {
+  return { id: share.id, path: `/share/${share.token}`, created_at: share.created_at };
+}
+
+/**
+ * GET /api/conversations/[id]/shares
+ * Active (unrevoked) share links of the user's conversation
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const user = await requireUser(supabase);
+    const { id: conversationId } = await params;
+
+    await requireOwnConversation(conversationId, user.id, supabase);
+
+    const { data: shares, error } = await supabase
+      .from("conversation_shares")
+      .select("id, token, created_at")
+      .eq("conversation_id", conversationId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to fetch shares:", error);
+      throw new AppError("Failed to fetch share links", 500);
+    }
+
+    return NextResponse.json({ shares: (shares || []).map(toShareResponse) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/conversations/[id]/shares
+ * Create a read-only share link; anyone with the link can view the conversation
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const user = await requireUser(supabase);
+    const { id: conversationId } = await params;
+
+    await requireOwnConversation(conversationId, user.id, supabase);
+
+    const { data: share, error } = await supabase
+      .from("conversation_shares")
+      .insert({
+        conversation_id: conversationId,
+        token: randomBytes(24).toString("base64url"),
+        created_by: user.id,
+      })
+      .select("id, token, created_at")
+      .single();
+
+    if (error || !share) {
+      console.error("Failed to create share:", error);
+      throw new AppError("Failed to create share link", 500);
+    }
+
+    return NextResponse.json({ share: toShareResponse(share) }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]/shares?shareId=...
+ * Revoke a share link; the public page stops resolving immediately
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const user = await requireUser(supabase);
+    const { id: conversationId } = await params;
+    const shareId = req.nextUrl.searchParams.get("shareId");
+
+    if (!shareId) {
+      throw new AppError("shareId is required", 400);
+    }
+
+    await requireOwnConversation(conversationId, user.id, supabase);
+
+    const { data: share, error } = await supabase
+      .from("conversation_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", shareId)
+      .eq("conversation_id", conversationId)
+      .is("revoked_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to revoke share:", error);
+      throw new AppError("Failed to revoke share link", 500);
+    }
+    if (!share) {
+      throw new AppError("Share link not found", 404);
+    }
+
+    return NextResponse.json({ message: "Share link revoked" });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
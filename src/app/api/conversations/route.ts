@@ -100,16 +100,26 @@ export async function POST(req: NextRequest) {
     if (firstMessage) {
       console.log(`💬 Saving first message for conversation ${conversation.id}: "${firstMessage.substring(0, 50)}..."`);
 
-      const { error: messageError } = await supabase.from("messages").insert({
-        conversation_id: conversation.id,
-        role: "user",
-        content: firstMessage,
-      });
+      const { data: message, error: messageError } = await supabase
+        .from("messages")
+        .insert({
+          conversation_id: conversation.id,
+          role: "user",
+          content: firstMessage,
+        })
+        .select("id")
+        .single();
 
-      if (messageError) {
+      if (messageError || !message) {
         console.error("❌ Failed to save first message:", messageError);
         // Don't fail the conversation creation if message save fails
       } else {
+        // The first message starts the active branch
+        await supabase
+          .from("conversations")
+          .update({ active_message_id: message.id })
+          .eq("id", conversation.id);
+        conversation.active_message_id = message.id;
         console.log(`✅ First message saved successfully`);
       }
 
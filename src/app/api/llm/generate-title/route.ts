@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { streamText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { getDefaultLanguageModel } from '@/lib/llm/models';
 
 export async function POST(req: NextRequest) {
   try {
@@ -31,9 +31,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Content is required' }, { status: 400 });
     }
 
-    // Generate title using OpenAI
+    // Generate title with the default fast model
     const result = await streamText({
-      model: openai('gpt-4o-mini'),
+      model: getDefaultLanguageModel('fast'),
       messages: [
         {
           role: 'system',
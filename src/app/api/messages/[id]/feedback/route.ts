@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AppError, handleApiError } from '@/lib/utils'
+import { parseFeedbackInput } from '@/lib/chat/feedback'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// Feedback applies to assistant messages in the user's own conversations
+async function requireOwnAnswer(messageId: string, userId: string, supabase: SupabaseServerClient) {
+  const { data: message, error } = await supabase
+    .from('messages')
+    .select('id, role, conversations!inner(user_id)')
+    .eq('id', messageId)
+    .eq('conversations.user_id', userId)
+    .single()
+
+  if (error || !message) {
+    throw new AppError('Message not found', 404)
+  }
+  if (message.role !== 'assistant') {
+    throw new AppError('Feedback applies to assistant messages only', 400)
+  }
+}
+
+/**
+ * PUT /api/messages/[id]/feedback
+ * Rate an answer: { rating: 1 | -1, reason?, correction?, missing_source_url? }
+ * Replaces the user's earlier feedback on the message.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get the authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new AppError('Authentication required', 401)
+    }
+
+    const { id: messageId } = await params
+    const parsed = parseFeedbackInput(await req.json())
+    if ('error' in parsed) {
+      throw new AppError(parsed.error, 400)
+    }
+
+    await requireOwnAnswer(messageId, user.id, supabase)
+
+    const { data: feedback, error } = await supabase
+      .from('message_feedback')
+      .upsert(
+        {
+          message_id: messageId,
+          user_id: user.id,
+          ...parsed.feedback,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'message_id,user_id' }
+      )
+      .select()
+      .single()
+
+    if (error || !feedback) {
+      console.error('Failed to save feedback:', error)
+      throw new AppError('Failed to save feedback', 500)
+    }
+
+    return NextResponse.json({ feedback })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/messages/[id]/feedback
+ * Withdraw the user's feedback on an answer
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get the authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new AppError('Authentication required', 401)
+    }
+
+    const { id: messageId } = await params
+
+    const { error } = await supabase
+      .from('message_feedback')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Failed to delete feedback:', error)
+      throw new AppError('Failed to delete feedback', 500)
+    }
+
+    return NextResponse.json({ message: 'Feedback removed' })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
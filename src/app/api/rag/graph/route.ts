@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { lookupGraphEntities } from '@/lib/rag/storage/knowledgeGraph';
+import { ENTITY_KINDS, type EntityKind } from '@/lib/rag/ingestion/entityExtraction';
+
+const MAX_LIMIT = 20;
+
+/**
+ * POST /api/rag/graph
+ * Look up knowledge-graph entities (people, organizations, products,
+ * technologies) by name or alias, with their relations and the entities they
+ * share documents with. Scoped to the persona's documents and permissions.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const {
+      name,
+      personaSlug,
+      kind, // Optional: only entities of this kind
+      relatedKind, // Optional: only related entities of this kind
+      limit = 5,
+    } = body;
+
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      return NextResponse.json(
+        { error: 'name is required and must be at least 2 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (!personaSlug || typeof personaSlug !== 'string') {
+      return NextResponse.json(
+        { error: 'personaSlug is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of Object.entries({ kind, relatedKind })) {
+      if (value !== undefined && !ENTITY_KINDS.includes(value as EntityKind)) {
+        return NextResponse.json(
+          { error: `${field} must be one of: ${ENTITY_KINDS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data: persona, error: personaError } = await supabase
+      .from('personas')
+      .select('slug, name')
+      .eq('slug', personaSlug)
+      .eq('is_active', true)
+      .single();
+
+    if (personaError || !persona) {
+      return NextResponse.json(
+        { error: `Persona not found: ${personaSlug}` },
+        { status: 404 }
+      );
+    }
+
+    const entities = await lookupGraphEntities(supabase, {
+      personaSlug,
+      name: name.trim(),
+      kind,
+      relatedKind,
+      limit,
+    });
+
+    return NextResponse.json({
+      name,
+      personaSlug,
+      personaName: persona.name,
+      entities,
+      meta: {
+        resultCount: entities.length,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('RAG graph API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { performSearch } from '@/lib/rag/search';
+import { performSearchDetailed, parseSearchFilters, type QueryExpansionMode } from '@/lib/rag/search';
+
+const EXPANSION_MODES: QueryExpansionMode[] = ['off', 'multi_query', 'hyde', 'multi_query_hyde'];
 
 /**
  * POST /api/rag/search
@@ -20,6 +22,11 @@ export async function POST(req: NextRequest) {
       bm25MinScore,
       tagBoostMultiplier = 1.075,
       maxChunksPerDoc = 3,
+      rerank, // Optional: override persona reranker setting
+      filters: rawFilters, // Optional: { docTypes, dateFrom, dateTo, tags, identifiers }
+      expansionMode, // Optional: override persona query expansion mode
+      mmrLambda, // Optional: override persona MMR diversification (0-1, 1 = off)
+      cache, // Optional: false bypasses the query cache
     } = body;
 
     // Validate required fields
@@ -37,6 +44,28 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const { filters, error: filtersError } = parseSearchFilters(rawFilters);
+    if (filtersError) {
+      return NextResponse.json(
+        { error: filtersError },
+        { status: 400 }
+      );
+    }
+
+    if (expansionMode !== undefined && !EXPANSION_MODES.includes(expansionMode)) {
+      return NextResponse.json(
+        { error: `expansionMode must be one of: ${EXPANSION_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (mmrLambda !== undefined && (typeof mmrLambda !== 'number' || mmrLambda < 0 || mmrLambda > 1)) {
+      return NextResponse.json(
+        { error: 'mmrLambda must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
     // Create authenticated Supabase client
     const supabase = await createClient();
 
@@ -66,7 +95,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Perform search
-    const results = await performSearch(query, {
+    const { results, debug } = await performSearchDetailed(query, {
       personaSlug,
       limit,
       vectorLimit,
@@ -75,6 +104,11 @@ export async function POST(req: NextRequest) {
       bm25MinScore,
       tagBoostMultiplier,
       maxChunksPerDoc,
+      rerank: typeof rerank === 'boolean' ? rerank : undefined,
+      filters,
+      expansion: expansionMode ? { mode: expansionMode } : undefined,
+      mmrLambda,
+      cache: typeof cache === 'boolean' ? cache : undefined,
     }, supabase);
 
     // Format response
@@ -91,12 +125,19 @@ export async function POST(req: NextRequest) {
         vectorScore: r.vectorScore,
         bm25Score: r.bm25Score,
         tagBoostApplied: r.tagBoostApplied,
+        fusionScore: r.fusionScore,
+        rerankScore: r.rerankScore,
+        rerankReason: r.rerankReason,
+        patentFamily: r.patentFamily,
+        expandedChunkIds: r.expandedChunkIds,
         docTitle: r.docTitle,
         docType: r.docType,
         sourceUrl: r.sourceUrl,
       })),
       meta: {
         resultCount: results.length,
+        filters: filters ?? null,
+        debug,
         timestamp: new Date().toISOString(),
       },
     });
@@ -126,7 +167,14 @@ export async function GET() {
       'BM25 lexical search (PostgreSQL full-text)',
       'RRF fusion',
       'Tag boosting',
+      'Reranking (LLM or heuristic)',
+      'Metadata filters (doc type, date range, tags, identifiers)',
+      'Multi-query and HyDE expansion',
+      'Topic alias expansion for BM25',
+      'Neighbouring-chunk / parent-section context expansion',
       'Document deduplication',
+      'MMR diversification and patent-family grouping',
+      'Query cache (Redis or in-memory, exact and near-duplicate matches)',
     ],
   });
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createOptimizedAdminClient } from "@/lib/supabase/server";
+import { AppError, handleApiError } from "@/lib/utils";
+import { buildConversationExport } from "@/lib/chat/conversationExport";
+
+/**
+ * GET /api/share/[token]
+ * Public read-only view of a shared conversation. Access is granted by the
+ * share token alone, so the conversation is read with the service role once
+ * the token is known to be unrevoked.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createOptimizedAdminClient();
+
+    const { data: share, error: shareError } = await supabase
+      .from("conversation_shares")
+      .select("conversation_id")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (shareError) {
+      console.error("Failed to resolve share token:", shareError);
+      throw new AppError("Failed to load shared conversation", 500);
+    }
+    if (!share) {
+      throw new AppError("Shared conversation not found", 404);
+    }
+
+    const { data: conversation, error: convError } = await supabase
+      .from("conversations")
+      .select("id, title, persona_id, active_message_id, created_at")
+      .eq("id", share.conversation_id)
+      .single();
+
+    if (convError || !conversation) {
+      throw new AppError("Shared conversation not found", 404);
+    }
+
+    const data = await buildConversationExport(conversation, supabase);
+
+    return NextResponse.json(data, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
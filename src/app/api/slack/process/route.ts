@@ -13,6 +13,7 @@ import {
   storeMessage,
 } from '@/lib/slack';
 import { parseCitations } from '@/lib/rag/citations/parser';
+import { readChatEventStream } from '@/lib/chat/streamProtocol';
 
 // Allow up to 60 seconds for this endpoint (requires Vercel Pro)
 export const maxDuration = 60;
@@ -97,36 +98,19 @@ export async function POST(req: NextRequest) {
 
     console.log('[Slack Process] Streaming response from chat API');
 
-    // Extract citation metadata from headers
-    const citationMetadataHeader = chatResponse.headers.get('X-Citation-Metadata');
-    let citationMetadata: Array<{ docRef: string; sourceUrl?: string; docTitle?: string; docId: string }> = [];
-
-    if (citationMetadataHeader) {
-      try {
-        const decoded = Buffer.from(citationMetadataHeader, 'base64').toString('utf-8');
-        citationMetadata = JSON.parse(decoded);
-        console.log('[Slack Process] Extracted citation metadata:', citationMetadata.length, 'citations');
-      } catch (error) {
-        console.warn('[Slack Process] Failed to parse citation metadata:', error);
-      }
-    }
-
-    // Stream and buffer the response
-    const reader = chatResponse.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body from chat API');
+    // Buffer the event stream; citation metadata comes from the retrieval event
+    const result = await readChatEventStream(chatResponse);
+    if (result.error) {
+      throw new Error(`Chat generation failed: ${result.error}`);
     }
 
-    let fullResponse = '';
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      fullResponse += chunk;
-    }
+    const fullResponse = result.text;
+    const citationMetadata = result.sources.map(source => ({
+      docRef: source.docRef,
+      sourceUrl: source.sourceUrl,
+      docTitle: source.docTitle,
+      docId: source.docId,
+    }));
 
     console.log('[Slack Process] Response complete:', {
       length: fullResponse.length,
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/components/auth/auth-provider";
+import { ConversationTranscript } from "@/components/chat/conversation-transcript";
+import type { ConversationExport } from "@/lib/chat/conversationExport";
+
+/**
+ * Printable view of the user's conversation, used for "Export as PDF":
+ * opens the browser's print dialog (Save as PDF) once the transcript renders
+ */
+export default function PrintConversationPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const [conversation, setConversation] = useState<ConversationExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loading || !user) return;
+
+    const fetchConversation = async () => {
+      try {
+        const response = await fetch(`/api/conversations/${id}/export?format=json`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load conversation");
+        }
+        setConversation(data);
+      } catch (err) {
+        console.error("Failed to load conversation:", err);
+        setError(err instanceof Error ? err.message : "Failed to load conversation");
+      }
+    };
+
+    fetchConversation();
+  }, [id, user, loading]);
+
+  useEffect(() => {
+    if (!conversation) return;
+    // Let citations and math render before printing
+    const timer = setTimeout(() => window.print(), 500);
+    return () => clearTimeout(timer);
+  }, [conversation]);
+
+  if (!loading && !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Sign in to export this conversation.</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <ConversationTranscript conversation={conversation} />;
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { ConversationTranscript } from "@/components/chat/conversation-transcript";
+import type { ConversationExport } from "@/lib/chat/conversationExport";
+
+/**
+ * Public read-only view of a shared conversation (/share/<token>)
+ * No sign-in required; the share token is the only credential.
+ */
+export default function SharedConversationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [conversation, setConversation] = useState<ConversationExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSharedConversation = async () => {
+      try {
+        const response = await fetch(`/api/share/${token}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load shared conversation");
+        }
+        setConversation(data);
+      } catch (err) {
+        console.error("Failed to load shared conversation:", err);
+        setError(err instanceof Error ? err.message : "Failed to load shared conversation");
+      }
+    };
+
+    fetchSharedConversation();
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold mb-2">Conversation unavailable</h1>
+          <p className="text-muted-foreground">This link may have been revoked or is incorrect.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ConversationTranscript
+      conversation={conversation}
+      notice="Shared read-only conversation"
+    />
+  );
+}
@@ -4,7 +4,9 @@
  */
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, TrendingDown, Minus, FileText, MessageSquare, Link as LinkIcon, AlertCircle } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, FileText, MessageSquare, Link as LinkIcon, AlertCircle, ShieldCheck, Layers, Ban, ThumbsDown } from 'lucide-react';
+import { FEEDBACK_REASONS } from '@/lib/chat/feedback';
+import type { FeedbackReason } from '@/lib/types';
 
 interface AnalyticsStats {
   total_conversations: number;
@@ -13,6 +15,19 @@ interface AnalyticsStats {
   low_rag_messages: number;
   total_assistant_messages: number;
   citation_rate: number;
+  avg_faithfulness: number | null;
+  faithfulness_scored_messages: number;
+  supported_claims: number;
+  unsupported_claims: number;
+  contradicted_claims: number;
+  avg_history_tokens: number | null;
+  max_history_tokens: number | null;
+  summarized_conversations: number;
+  off_topic_questions: number;
+  helpful_feedback: number;
+  negative_feedback: number;
+  feedback_reasons: Record<string, number>;
+  reported_missing_sources: number;
 }
 
 interface AnalyticsOverviewProps {
@@ -21,6 +36,13 @@ interface AnalyticsOverviewProps {
 
 export function AnalyticsOverview({ stats }: AnalyticsOverviewProps) {
   const avgRagWeight = stats.avg_rag_weight ?? 0;
+
+  // Most common reasons for downvotes
+  const topFeedbackReasons = Object.entries(stats.feedback_reasons || {})
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 2)
+    .map(([reason, count]) => `${FEEDBACK_REASONS[reason as FeedbackReason] ?? 'No reason'} (${count})`)
+    .join(', ');
   const avgRagWeightPercent = Math.round(avgRagWeight * 100);
 
   // Determine RAG weight trend icon and color
@@ -55,8 +77,14 @@ export function AnalyticsOverview({ stats }: AnalyticsOverviewProps) {
   // Calculate knowledge gap score (inverse of avg RAG weight, 0-100 scale)
   const knowledgeGapScore = Math.round((1 - avgRagWeight) * 100);
 
+  // Faithfulness: share of cited claims backed by the chunks they cite
+  const faithfulnessPercent = stats.avg_faithfulness !== null ? Math.round(stats.avg_faithfulness * 100) : null;
+  const faithfulnessColor = faithfulnessPercent === null
+    ? 'text-muted-foreground'
+    : faithfulnessPercent >= 80 ? 'text-green-600' : faithfulnessPercent >= 60 ? 'text-yellow-600' : 'text-red-600';
+
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
       {/* Average RAG Weight */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -136,8 +164,29 @@ export function AnalyticsOverview({ stats }: AnalyticsOverviewProps) {
         </CardContent>
       </Card>
 
+      {/* Faithfulness */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Faithfulness</CardTitle>
+          <div className="p-2 bg-purple-100 rounded-lg">
+            <ShieldCheck className="h-4 w-4 text-purple-600" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">
+            {faithfulnessPercent !== null ? `${faithfulnessPercent}%` : '—'}
+          </div>
+          <p className={`text-xs ${faithfulnessColor}`}>
+            {stats.contradicted_claims} contradicted, {stats.unsupported_claims} unsupported
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Cited claims checked in {stats.faithfulness_scored_messages} messages
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Total Conversations */}
-      <Card className="md:col-span-2 lg:col-span-4">
+      <Card className="md:col-span-2 lg:col-span-5">
         <CardHeader>
           <CardTitle className="text-sm font-medium">Conversations Analyzed</CardTitle>
           <CardDescription>
@@ -145,7 +194,7 @@ export function AnalyticsOverview({ stats }: AnalyticsOverviewProps) {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="flex items-center gap-8">
+          <div className="flex flex-wrap items-center gap-8">
             <div className="flex items-center gap-2">
               <MessageSquare className="h-5 w-5 text-blue-600" />
               <div>
@@ -167,6 +216,47 @@ export function AnalyticsOverview({ stats }: AnalyticsOverviewProps) {
                 <p className="text-xs text-muted-foreground">Low RAG weight</p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-purple-600" />
+              <div>
+                <p className="text-sm font-medium">{stats.supported_claims}</p>
+                <p className="text-xs text-muted-foreground">Supported claims</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-slate-600" />
+              <div>
+                <p className="text-sm font-medium">
+                  {stats.avg_history_tokens !== null ? stats.avg_history_tokens.toLocaleString() : '—'}
+                  {stats.max_history_tokens !== null && (
+                    <span className="text-xs text-muted-foreground"> (max {stats.max_history_tokens.toLocaleString()})</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Avg full-history tokens, {stats.summarized_conversations} summarized
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Ban className="h-5 w-5 text-gray-500" />
+              <div>
+                <p className="text-sm font-medium">{stats.off_topic_questions}</p>
+                <p className="text-xs text-muted-foreground">Off-topic questions declined</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <ThumbsDown className="h-5 w-5 text-red-600" />
+              <div>
+                <p className="text-sm font-medium">
+                  {stats.negative_feedback}
+                  <span className="text-xs text-muted-foreground"> ({stats.helpful_feedback} helpful)</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Downvoted answers{topFeedbackReasons ? `: ${topFeedbackReasons}` : ''}
+                  {stats.reported_missing_sources > 0 && `, ${stats.reported_missing_sources} missing sources reported`}
+                </p>
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
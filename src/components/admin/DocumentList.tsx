@@ -9,6 +9,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { DocumentActions } from '@/components/admin/DocumentActions';
 import { InlinePersonaEditor } from '@/components/admin/InlinePersonaEditor';
 import { JobStatusChip } from '@/components/admin/JobStatusChip';
+import { DuplicateResolutionDialog } from '@/components/admin/DuplicateResolutionDialog';
 import { useActiveJobs } from '@/hooks/useActiveJobs';
 import {
   Select,
@@ -28,7 +29,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { FileText, Search } from 'lucide-react';
+import { FileText, Search, Copy } from 'lucide-react';
+import type { DuplicateMatch } from '@/lib/rag/storage/duplicateDetection';
 
 interface Document {
   id: string;
@@ -40,6 +42,7 @@ interface Document {
   file_size: number | null;
   updated_at: string;
   tags: string[];
+  duplicates: DuplicateMatch[]; // Pending review
 }
 
 interface DocumentListProps {
@@ -56,6 +59,9 @@ export function DocumentList({ refreshTrigger, defaultPersonaFilter }: DocumentL
   // Selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
+  // Document whose possible duplicates are being reviewed
+  const [duplicateDoc, setDuplicateDoc] = useState<Document | null>(null);
+
   // Fetch documents function (extracted for reuse)
   const fetchDocuments = useCallback(async () => {
     try {
@@ -501,6 +507,17 @@ export function DocumentList({ refreshTrigger, defaultPersonaFilter }: DocumentL
                         <p className="text-xs text-muted-foreground mt-1">
                           {doc.id}
                         </p>
+                        {doc.duplicates?.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setDuplicateDoc(doc)}
+                            className="inline-flex items-center gap-1 mt-2 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs rounded hover:bg-amber-200"
+                          >
+                            <Copy className="h-3 w-3" />
+                            Possible duplicate of {doc.duplicates[0].title}
+                            {doc.duplicates.length > 1 && ` +${doc.duplicates.length - 1}`}
+                          </button>
+                        )}
                         {doc.tags.length > 0 && (
                           <div className="flex gap-1 mt-2 flex-wrap">
                             {doc.tags.slice(0, 3).map((tag) => (
@@ -590,6 +607,17 @@ export function DocumentList({ refreshTrigger, defaultPersonaFilter }: DocumentL
         </div>
       )}
 
+      {/* Duplicate Resolution Dialog */}
+      {duplicateDoc && (
+        <DuplicateResolutionDialog
+          document={duplicateDoc}
+          duplicates={documents.find((doc) => doc.id === duplicateDoc.id)?.duplicates || []}
+          isOpen={!!duplicateDoc}
+          onClose={() => setDuplicateDoc(null)}
+          onResolved={fetchDocuments}
+        />
+      )}
+
       {/* Bulk Ingest Confirmation Dialog */}
       <Dialog open={showBulkIngestDialog} onOpenChange={setShowBulkIngestDialog}>
         <DialogContent>
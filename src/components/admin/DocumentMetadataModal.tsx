@@ -25,9 +25,10 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { X, Save, Zap, Edit, Eye, Code, Loader2, Trash2 } from 'lucide-react';
+import { X, Save, Zap, Edit, Eye, Code, Loader2, Trash2, History } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { useJobStatus } from '@/hooks/useJobStatus';
+import { DocumentVersionHistory } from './DocumentVersionHistory';
 import { useToast } from '@/hooks/use-toast';
 import matter from 'gray-matter';
 import yaml from 'js-yaml';
@@ -86,7 +87,7 @@ export function DocumentMetadataModal({
   const [isSaving, setIsSaving] = useState(false);
   const [isIngesting, setIsIngesting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'edit' | 'preview' | 'source'>(defaultTab);
+  const [activeTab, setActiveTab] = useState<'edit' | 'preview' | 'source' | 'history'>(defaultTab);
   const [editedContent, setEditedContent] = useState('');
   const [lastParsedContent, setLastParsedContent] = useState(''); // Track last parsed content
   const { toast } = useToast();
@@ -265,7 +266,7 @@ export function DocumentMetadataModal({
   };
 
   // Handle tab changes - bidirectional sync between Source and Edit tabs
-  const handleTabChange = (newTab: 'edit' | 'preview' | 'source') => {
+  const handleTabChange = (newTab: 'edit' | 'preview' | 'source' | 'history') => {
     // DIRECTION 1: Source → Metadata
     // If switching TO edit tab and editedContent has changed since last parse
     if (newTab === 'edit' && editedContent !== lastParsedContent) {
@@ -581,6 +582,13 @@ export function DocumentMetadataModal({
     }
   };
 
+  // A restored version is re-ingested; track the job like a manual ingest
+  const handleRollback = (jobId: string) => {
+    setIsIngesting(true);
+    setIngestionProgress('Re-ingesting restored version...');
+    setCurrentJobId(jobId);
+  };
+
   const handleDelete = async () => {
     if (!document) return;
 
@@ -652,7 +660,7 @@ export function DocumentMetadataModal({
         ) : (
           <div className="flex-1 overflow-hidden">
             <Tabs value={activeTab} onValueChange={(v) => handleTabChange(v as any)}>
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="edit">
                   <Edit className="h-4 w-4 mr-2" />
                   Edit Metadata
@@ -665,6 +673,10 @@ export function DocumentMetadataModal({
                   <Code className="h-4 w-4 mr-2" />
                   Source
                 </TabsTrigger>
+                <TabsTrigger value="history">
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </TabsTrigger>
               </TabsList>
 
               {/* Edit Metadata Tab */}
@@ -1036,6 +1048,16 @@ export function DocumentMetadataModal({
                   placeholder="Markdown content with frontmatter..."
                 />
               </TabsContent>
+
+              {/* History Tab */}
+              <TabsContent value="history" className="mt-4">
+                {document && activeTab === 'history' && (
+                  <DocumentVersionHistory
+                    documentId={document.id}
+                    onRollback={handleRollback}
+                  />
+                )}
+              </TabsContent>
             </Tabs>
 
             {/* Extraction Metadata */}
@@ -0,0 +1,286 @@
+/**
+ * Document version history with diffs and rollback
+ * Used as the History tab of DocumentMetadataModal
+ */
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DiffLine, DocumentVersionSummary } from '@/lib/rag/storage/documentVersions';
+
+interface DocumentVersionHistoryProps {
+  documentId: string;
+  onRollback: (jobId: string) => void; // Called with the queued reingest job
+}
+
+type CompareMode = 'current' | 'previous';
+
+const CHANGE_LABELS: Record<string, string> = {
+  initial: 'Original',
+  edit: 'Edited',
+  personas: 'Personas changed',
+  reingest: 'Re-ingested',
+  rollback: 'Rolled back',
+};
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'collapsed'; count: number };
+
+function collapseUnchanged(diff: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+
+  while (i < diff.length) {
+    if (diff[i].type !== 'same') {
+      rows.push(diff[i++]);
+      continue;
+    }
+
+    let end = i;
+    while (end < diff.length && diff[end].type === 'same') end++;
+
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === diff.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepBefore + keepAfter + 1) {
+      rows.push(...diff.slice(i, i + keepBefore));
+      rows.push({ type: 'collapsed', count: end - i - keepBefore - keepAfter });
+      rows.push(...diff.slice(end - keepAfter, end));
+    } else {
+      rows.push(...diff.slice(i, end));
+    }
+    i = end;
+  }
+
+  return rows;
+}
+
+export function DocumentVersionHistory({ documentId, onRollback }: DocumentVersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compare, setCompare] = useState<CompareMode>('current');
+  const [diff, setDiff] = useState<DiffLine[] | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/admin/documents/${documentId}/versions`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load versions');
+        }
+
+        setVersions(data.versions);
+        setSelected(data.versions[0]?.version ?? null);
+      } catch (err) {
+        toast({
+          title: 'Error',
+          description: err instanceof Error ? err.message : 'Failed to load versions',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [documentId, toast]);
+
+  useEffect(() => {
+    if (selected === null) return;
+
+    const loadDiff = async () => {
+      setIsDiffLoading(true);
+      try {
+        const response = await fetch(
+          `/api/admin/documents/${documentId}/versions/${selected}?compare=${compare}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load version');
+        }
+
+        setDiff(data.diff);
+      } catch (err) {
+        setDiff(null);
+        toast({
+          title: 'Error',
+          description: err instanceof Error ? err.message : 'Failed to load version',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsDiffLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [documentId, selected, compare, toast]);
+
+  const rows = useMemo(() => (diff ? collapseUnchanged(diff) : []), [diff]);
+  const hasChanges = diff?.some((line) => line.type !== 'same') ?? false;
+
+  const handleRestore = async () => {
+    if (selected === null) return;
+
+    if (!confirm(`Restore version ${selected}? The document will be re-ingested with this content.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `/api/admin/documents/${documentId}/versions/${selected}/rollback`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Rollback failed');
+      }
+
+      toast({
+        title: 'Version restored',
+        description: data.message,
+        variant: 'default',
+      });
+      onRollback(data.jobId);
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Rollback failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        No history yet. Versions are recorded when the document is edited or re-ingested.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-[220px_1fr] gap-4 max-h-[calc(90vh-300px)]">
+      {/* Version list */}
+      <div className="overflow-y-auto space-y-1 pr-1">
+        {versions.map((v) => (
+          <button
+            key={v.version}
+            type="button"
+            onClick={() => setSelected(v.version)}
+            className={`w-full text-left rounded border p-2 text-xs transition-colors ${
+              selected === v.version ? 'border-primary bg-muted' : 'hover:bg-muted/50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">v{v.version}</span>
+              <Badge variant="outline" className="text-[10px]">
+                {CHANGE_LABELS[v.change_type] || v.change_type}
+                {v.restored_from !== null && ` v${v.restored_from}`}
+              </Badge>
+            </div>
+            <div className="text-muted-foreground mt-1">
+              {new Date(v.created_at).toLocaleString()}
+            </div>
+            <div className="text-muted-foreground truncate">{v.personas.join(', ')}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Diff */}
+      <div className="flex flex-col min-h-0">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={compare === 'current' ? 'default' : 'outline'}
+              onClick={() => setCompare('current')}
+            >
+              Changes since
+            </Button>
+            <Button
+              size="sm"
+              variant={compare === 'previous' ? 'default' : 'outline'}
+              onClick={() => setCompare('previous')}
+            >
+              Changes in version
+            </Button>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRestore}
+            disabled={isRestoring || selected === versions[0]?.version}
+          >
+            {isRestoring ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Restore this version
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-auto rounded border bg-muted/20 font-mono text-xs">
+          {isDiffLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !hasChanges ? (
+            <p className="p-4 text-muted-foreground font-sans">
+              {compare === 'current'
+                ? 'This version matches the current document.'
+                : 'No content changes in this version.'}
+            </p>
+          ) : (
+            rows.map((row, index) =>
+              row.type === 'collapsed' ? (
+                <div key={index} className="px-3 py-0.5 text-muted-foreground bg-muted/50">
+                  ⋯ {row.count} unchanged lines
+                </div>
+              ) : (
+                <div
+                  key={index}
+                  className={`px-3 whitespace-pre-wrap break-words ${
+                    row.type === 'added'
+                      ? 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-100'
+                      : row.type === 'removed'
+                      ? 'bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-100'
+                      : ''
+                  }`}
+                >
+                  {row.type === 'added' ? '+ ' : row.type === 'removed' ? '- ' : '  '}
+                  {row.text}
+                </div>
+              )
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
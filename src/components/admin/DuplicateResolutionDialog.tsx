@@ -0,0 +1,141 @@
+/**
+ * Duplicate Resolution Dialog
+ * Lists the existing documents a newly extracted document was matched to and
+ * lets the admin merge, replace or keep both
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { DuplicateAction, DuplicateMatch } from '@/lib/rag/storage/duplicateDetection';
+
+interface DuplicateResolutionDialogProps {
+  document: { id: string; title: string };
+  duplicates: DuplicateMatch[];
+  isOpen: boolean;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+export function DuplicateResolutionDialog({
+  document,
+  duplicates,
+  isOpen,
+  onClose,
+  onResolved,
+}: DuplicateResolutionDialogProps) {
+  const [processing, setProcessing] = useState<string | null>(null); // `${duplicateOf}:${action}`
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = async (duplicateOf: string, action: DuplicateAction) => {
+    if (
+      action === 'replace' &&
+      !confirm('Replace the existing document with this one? It will be re-ingested with the new content.')
+    ) {
+      return;
+    }
+
+    try {
+      setProcessing(`${duplicateOf}:${action}`);
+      setError(null);
+
+      const response = await fetch(`/api/admin/documents/${document.id}/duplicates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicateOf, action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve duplicate');
+      }
+
+      onResolved();
+      // Merge and replace remove this document, so other matches go with it
+      if (action !== 'keep' || duplicates.length === 1) {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve duplicate');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate</DialogTitle>
+          <DialogDescription>
+            &quot;{document.title}&quot; ({document.id}) matches existing documents.
+            Merging keeps the existing document and adds this one&apos;s personas and
+            identifiers; replacing gives the existing document this one&apos;s content.
+            Both remove this copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {duplicates.map((dup) => (
+            <div key={dup.duplicateOf} className="rounded border p-3">
+              <p className="font-medium">{dup.title}</p>
+              <p className="text-xs text-muted-foreground mt-1">{dup.duplicateOf}</p>
+              <p className="text-sm mt-2">
+                {dup.reason === 'identifier'
+                  ? `Same identifier: ${dup.matchedIdentifiers.join(', ')}`
+                  : `${Math.round(dup.similarity * 100)}% similar content`}
+              </p>
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  onClick={() => handleResolve(dup.duplicateOf, 'merge')}
+                  disabled={processing !== null}
+                >
+                  {processing === `${dup.duplicateOf}:merge` ? 'Merging...' : 'Merge into existing'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleResolve(dup.duplicateOf, 'replace')}
+                  disabled={processing !== null}
+                >
+                  {processing === `${dup.duplicateOf}:replace` ? 'Replacing...' : 'Replace existing'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleResolve(dup.duplicateOf, 'keep')}
+                  disabled={processing !== null}
+                >
+                  {processing === `${dup.duplicateOf}:keep` ? 'Saving...' : 'Keep both'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={processing !== null}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 /**
  * Failed Queries Table Component
- * Displays conversations with low RAG weight in an expandable table
+ * Displays conversations with low RAG weight or downvoted answers in an expandable table
  */
 
 'use client';
@@ -9,7 +9,9 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ChevronDown, ChevronRight, MessageSquare, Link as LinkIcon } from 'lucide-react';
+import { ChevronDown, ChevronRight, MessageSquare, Link as LinkIcon, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { describeFeedback } from '@/lib/chat/feedback';
+import type { MessageFeedback } from '@/lib/types';
 
 interface Message {
   id: string;
@@ -18,6 +20,7 @@ interface Message {
   rag_weight: number | null;
   created_at: string;
   citation_count: number;
+  feedback?: Pick<MessageFeedback, 'rating' | 'reason' | 'correction' | 'missing_source_url'> | null;
 }
 
 interface Conversation {
@@ -27,6 +30,7 @@ interface Conversation {
   messages: Message[];
   avg_rag_weight: number | null;
   total_citations: number;
+  negative_feedback_count?: number;
 }
 
 interface FailedQueriesTableProps {
@@ -75,9 +79,9 @@ export function FailedQueriesTable({ conversations }: FailedQueriesTableProps) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Low RAG Weight Conversations</CardTitle>
+          <CardTitle>Failed Conversations</CardTitle>
           <CardDescription>
-            No conversations found with low RAG weight (&lt; 0.4)
+            No conversations found with low RAG weight (&lt; 0.4) or downvoted answers
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -94,9 +98,9 @@ export function FailedQueriesTable({ conversations }: FailedQueriesTableProps) {
       <CardHeader>
         <div className="flex items-center justify-between">
           <div>
-            <CardTitle>Low RAG Weight Conversations</CardTitle>
+            <CardTitle>Failed Conversations</CardTitle>
             <CardDescription>
-              {conversations.length} conversations with RAG weight &lt; 0.4
+              {conversations.length} conversations with RAG weight &lt; 0.4 or downvoted answers
             </CardDescription>
           </div>
           <div className="flex gap-2">
@@ -153,6 +157,12 @@ export function FailedQueriesTable({ conversations }: FailedQueriesTableProps) {
                     </div>
                   </div>
                   <div className="flex items-center gap-2 ml-4">
+                    {(conv.negative_feedback_count ?? 0) > 0 && (
+                      <div className="flex items-center gap-1 text-red-600">
+                        <ThumbsDown className="h-3 w-3" />
+                        <span className="text-xs">{conv.negative_feedback_count}</span>
+                      </div>
+                    )}
                     <div className="flex items-center gap-1">
                       <LinkIcon className="h-3 w-3 text-muted-foreground" />
                       <span className="text-xs text-muted-foreground">{conv.total_citations}</span>
@@ -188,6 +198,14 @@ export function FailedQueriesTable({ conversations }: FailedQueriesTableProps) {
                               {msg.citation_count}
                             </span>
                           )}
+                          {msg.feedback && (
+                            <span
+                              className={`text-xs flex items-center gap-1 ${msg.feedback.rating < 0 ? 'text-red-600' : 'text-green-600'}`}
+                            >
+                              {msg.feedback.rating < 0 ? <ThumbsDown className="h-3 w-3" /> : <ThumbsUp className="h-3 w-3" />}
+                              {describeFeedback(msg.feedback)}
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
                       </div>
@@ -15,12 +15,14 @@ interface SuggestedDocument {
   type: 'paper' | 'patent' | 'blog' | 'technical_doc';
   keywords: string[];
   rationale: string;
+  urls?: string[]; // Missing sources users reported
 }
 
 interface Gap {
   topic: string;
   description: string;
   failed_query_count: number;
+  reported_query_count?: number;
   priority: 'high' | 'medium' | 'low';
   suggested_documents: SuggestedDocument[];
 }
@@ -31,6 +33,9 @@ interface GapAnalysisData {
   off_topic_query_count: number;
   total_queries_analyzed?: number;
   relevant_queries_count?: number;
+  reported_queries_count?: number;
+  helpful_query_count?: number;
+  missing_sources?: string[];
 }
 
 interface GapAnalysisPanelProps {
@@ -156,10 +161,38 @@ export function GapAnalysisPanel({ personaSlug, conversations }: GapAnalysisPane
               <div className="flex gap-4 mt-3 text-xs text-purple-700">
                 <span>Total queries: {analysisData.total_queries_analyzed || 0}</span>
                 <span>Relevant: {analysisData.relevant_queries_count || 0}</span>
+                <span>User-reported: {analysisData.reported_queries_count || 0}</span>
                 <span>Off-topic filtered: {analysisData.off_topic_query_count}</span>
+                {(analysisData.helpful_query_count || 0) > 0 && (
+                  <span>Marked helpful: {analysisData.helpful_query_count}</span>
+                )}
               </div>
             </div>
 
+            {/* Sources users said answers should have used */}
+            {analysisData.missing_sources && analysisData.missing_sources.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">
+                  Sources Reported Missing ({analysisData.missing_sources.length})
+                </h3>
+                <ul className="space-y-1">
+                  {analysisData.missing_sources.map((url) => (
+                    <li key={url} className="text-sm">
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline break-all inline-flex items-center gap-1"
+                      >
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                        {url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Knowledge Gaps */}
             {analysisData.gaps.length === 0 ? (
               <div className="text-center py-8">
@@ -183,6 +216,11 @@ export function GapAnalysisPanel({ personaSlug, conversations }: GapAnalysisPane
                           <Badge variant="outline">
                             {gap.failed_query_count} failed {gap.failed_query_count === 1 ? 'query' : 'queries'}
                           </Badge>
+                          {(gap.reported_query_count || 0) > 0 && (
+                            <Badge variant="outline" className="text-red-700 border-red-200 bg-red-50">
+                              {gap.reported_query_count} user-reported
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm text-muted-foreground">{gap.description}</p>
                       </div>
@@ -210,6 +248,21 @@ export function GapAnalysisPanel({ personaSlug, conversations }: GapAnalysisPane
                               </Badge>
                             ))}
                           </div>
+                          {doc.urls && doc.urls.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                              {doc.urls.map((url) => (
+                                <a
+                                  key={url}
+                                  href={url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-primary hover:underline break-all"
+                                >
+                                  {url}
+                                </a>
+                              ))}
+                            </div>
+                          )}
                           <div className="flex gap-2 mt-2">
                             <Button
                               size="sm"
@@ -31,8 +31,31 @@ interface Topic {
   aliases: string[];
 }
 
+interface RerankerConfig {
+  enabled?: boolean;
+  method?: 'llm' | 'heuristic';
+  mode?: 'pointwise' | 'listwise';
+  top_n?: number;
+  weight?: number;
+}
+
+interface QueryExpansionConfig {
+  mode?: 'off' | 'multi_query' | 'hyde' | 'multi_query_hyde';
+  paraphrases?: number;
+  max_search_calls?: number;
+}
+
+interface DiversificationConfig {
+  mmr_lambda?: number;
+  mmr_pool_size?: number;
+  max_chunks_per_family?: number;
+}
+
 interface SearchConfig {
   vector_threshold: number;
+  reranker?: RerankerConfig;
+  query_expansion?: QueryExpansionConfig;
+  diversification?: DiversificationConfig;
 }
 
 interface PersonaConfig {
@@ -375,6 +398,150 @@ export function PersonaConfigEditor({
                   })}
                 </div>
               </div>
+
+              {/* Reranker */}
+              <div>
+                <div className="mb-3">
+                  <Label className="text-base">Reranking</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Rescore the top fused results against the query before deduplication
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={config.search?.reranker?.enabled ?? false}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          search: {
+                            ...config.search,
+                            reranker: { ...config.search?.reranker, enabled: e.target.checked },
+                          },
+                        })
+                      }
+                    />
+                    <span className="text-sm">Enable reranker</span>
+                  </label>
+                  {config.search?.reranker?.enabled && (
+                    <Select
+                      value={config.search.reranker.method ?? 'llm'}
+                      onValueChange={(value) =>
+                        setConfig({
+                          ...config,
+                          search: {
+                            ...config.search,
+                            reranker: {
+                              ...config.search?.reranker,
+                              method: value as RerankerConfig['method'],
+                            },
+                          },
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="llm">LLM scorer (falls back to heuristic)</SelectItem>
+                        <SelectItem value="heuristic">Local heuristic only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              {/* Query Expansion */}
+              <div>
+                <div className="mb-3">
+                  <Label className="text-base">Query Expansion</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Search paraphrases and a hypothetical answer (HyDE) alongside the original query
+                  </p>
+                </div>
+                <Select
+                  value={config.search?.query_expansion?.mode ?? 'off'}
+                  onValueChange={(value) =>
+                    setConfig({
+                      ...config,
+                      search: {
+                        ...config.search,
+                        query_expansion: {
+                          ...config.search?.query_expansion,
+                          mode: value as QueryExpansionConfig['mode'],
+                        },
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="multi_query">Multi-query</SelectItem>
+                    <SelectItem value="hyde">HyDE</SelectItem>
+                    <SelectItem value="multi_query_hyde">Multi-query + HyDE</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Diversification */}
+              <div>
+                <div className="mb-3">
+                  <Label className="text-base">Diversification</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Push down near-identical chunks (MMR) and cap results from one patent family
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <Select
+                    value={String(config.search?.diversification?.mmr_lambda ?? 1)}
+                    onValueChange={(value) =>
+                      setConfig({
+                        ...config,
+                        search: {
+                          ...config.search,
+                          diversification: {
+                            ...config.search?.diversification,
+                            mmr_lambda: value === '1' ? undefined : Number(value),
+                          },
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">MMR off (pure relevance)</SelectItem>
+                      <SelectItem value="0.85">Light (λ = 0.85)</SelectItem>
+                      <SelectItem value="0.7">Balanced (λ = 0.7)</SelectItem>
+                      <SelectItem value="0.5">Strong (λ = 0.5)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={config.search?.diversification?.max_chunks_per_family !== undefined}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          search: {
+                            ...config.search,
+                            diversification: {
+                              ...config.search?.diversification,
+                              max_chunks_per_family: e.target.checked ? 4 : undefined,
+                            },
+                          },
+                        })
+                      }
+                    />
+                    <span className="text-sm">Group patent families (max 4 chunks per family)</span>
+                  </label>
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -383,7 +550,7 @@ export function PersonaConfigEditor({
             <CardHeader>
               <CardTitle>Topics & Aliases</CardTitle>
               <CardDescription>
-                Topic definitions used for tag-based boosting (7.5% boost by default)
+                Topic definitions used for tag-based boosting (7.5% boost by default) and BM25 alias expansion
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
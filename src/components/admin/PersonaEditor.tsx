@@ -12,6 +12,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -39,6 +40,18 @@ interface PersonaData {
   search: {
     vector_threshold: number;
   };
+  agent: {
+    enabled?: boolean;
+    max_steps?: number;
+  };
+  models: {
+    provider?: 'openai' | 'gemini' | 'local';
+    chat_model?: string;
+    reformulation_model?: string;
+    temperature?: number;
+    max_output_tokens?: number;
+    base_url?: string;
+  };
   topics: Topic[];
   frontmatter?: {
     title: string;
@@ -91,6 +104,8 @@ export function PersonaEditor({ personaSlug, onSave, onCancel }: PersonaEditorPr
         example_questions: data.config.example_questions || [],
         avatar_url: data.config.avatar_url || null,
         search: data.config.search,
+        agent: data.config.agent || { enabled: false },
+        models: data.config.models || {},
         topics: data.config.topics,
         frontmatter: data.config.frontmatter,
       });
@@ -121,6 +136,8 @@ export function PersonaEditor({ personaSlug, onSave, onCancel }: PersonaEditorPr
           content: persona.content,
           example_questions: persona.example_questions,
           search: persona.search,
+          agent: persona.agent,
+          models: persona.models,
           topics: persona.topics,
         }),
       });
@@ -529,6 +546,176 @@ export function PersonaEditor({ personaSlug, onSave, onCancel }: PersonaEditorPr
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Agent Mode</CardTitle>
+              <CardDescription>
+                Let the model run several targeted searches and read document sections before answering,
+                instead of one search on the question
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="agent-enabled"
+                  checked={persona.agent.enabled === true}
+                  onCheckedChange={(checked) =>
+                    setPersona({
+                      ...persona,
+                      agent: { ...persona.agent, enabled: checked === true },
+                    })
+                  }
+                />
+                <Label htmlFor="agent-enabled">Enable tool-calling agent mode</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="agent-max-steps">Max steps</Label>
+                <Input
+                  id="agent-max-steps"
+                  type="number"
+                  min={2}
+                  max={10}
+                  value={persona.agent.max_steps ?? 5}
+                  disabled={persona.agent.enabled !== true}
+                  onChange={(e) =>
+                    setPersona({
+                      ...persona,
+                      agent: { ...persona.agent, max_steps: Number(e.target.value) || undefined },
+                    })
+                  }
+                  className="w-24"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Tool rounds plus the final answer (2-10). More steps handle multi-part questions but add latency.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Models</CardTitle>
+              <CardDescription>
+                Provider and models used for this persona&apos;s answers and query reformulation.
+                Leave a field empty to use the deployment default.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="models-provider">Provider</Label>
+                  <Select
+                    value={persona.models.provider ?? 'default'}
+                    onValueChange={(value) =>
+                      setPersona({
+                        ...persona,
+                        models: {
+                          ...persona.models,
+                          provider: value === 'default' ? undefined : (value as PersonaData['models']['provider']),
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger id="models-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Deployment default</SelectItem>
+                      <SelectItem value="openai">OpenAI</SelectItem>
+                      <SelectItem value="gemini">Gemini</SelectItem>
+                      <SelectItem value="local">Local (OpenAI-compatible)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {persona.models.provider === 'local' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="models-base-url">Endpoint URL</Label>
+                    <Input
+                      id="models-base-url"
+                      value={persona.models.base_url ?? ''}
+                      onChange={(e) =>
+                        setPersona({
+                          ...persona,
+                          models: { ...persona.models, base_url: e.target.value || undefined },
+                        })
+                      }
+                      placeholder="http://localhost:11434/v1"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="models-chat">Chat model</Label>
+                  <Input
+                    id="models-chat"
+                    value={persona.models.chat_model ?? ''}
+                    onChange={(e) =>
+                      setPersona({
+                        ...persona,
+                        models: { ...persona.models, chat_model: e.target.value || undefined },
+                      })
+                    }
+                    placeholder="e.g., gpt-4o"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="models-reformulation">Reformulation model</Label>
+                  <Input
+                    id="models-reformulation"
+                    value={persona.models.reformulation_model ?? ''}
+                    onChange={(e) =>
+                      setPersona({
+                        ...persona,
+                        models: { ...persona.models, reformulation_model: e.target.value || undefined },
+                      })
+                    }
+                    placeholder="e.g., gpt-4o-mini"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="models-temperature">Temperature</Label>
+                  <Input
+                    id="models-temperature"
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={persona.models.temperature ?? 0.7}
+                    onChange={(e) =>
+                      setPersona({
+                        ...persona,
+                        models: {
+                          ...persona.models,
+                          temperature: e.target.value === '' ? undefined : Number(e.target.value),
+                        },
+                      })
+                    }
+                    className="w-24"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="models-max-output">Max output tokens</Label>
+                  <Input
+                    id="models-max-output"
+                    type="number"
+                    min={100}
+                    step={100}
+                    value={persona.models.max_output_tokens ?? 2000}
+                    onChange={(e) =>
+                      setPersona({
+                        ...persona,
+                        models: { ...persona.models, max_output_tokens: Number(e.target.value) || undefined },
+                      })
+                    }
+                    className="w-32"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Models may be prefixed with a provider (e.g., &quot;gemini:gemini-2.5-pro&quot;).
+              </p>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Topics & Aliases</CardTitle>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useChat } from "@ai-sdk/react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -16,6 +16,40 @@ import { getPersonaAvatar, getPersonaInitials } from "@/lib/avatar-utils";
 import { Send, Settings, User } from "lucide-react";
 import type { Conversation } from "@/lib/types";
 import type { PersonaOption } from "./persona-selector";
+import {
+  chatEventStreamToText,
+  type ChatTurnEvent,
+  type RetrievedSource,
+  type StreamedCitation,
+} from "@/lib/chat/streamProtocol";
+
+/**
+ * Convert stored messages (the active branch) to chat hook format with per-message
+ * RAG weight, turn classification, citation metadata, sibling branches and feedback
+ */
+function toChatMessages(conversationMessages: any[]) {
+  return conversationMessages.map((msg: any) => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    createdAt: new Date(msg.created_at),
+    rag_weight: msg.rag_weight,
+    rag_weight_breakdown: msg.rag_weight_breakdown,
+    turn_type: msg.turn_type ?? undefined,
+    response_mode: msg.response_mode ?? undefined,
+    compare_entities: msg.metadata?.compareEntities,
+    branch: msg.branch,
+    feedback: msg.message_feedback?.[0] ?? null,
+    citationMetadata: msg.metadata?.citationMetadata
+      ? new Map(
+          msg.metadata.citationMetadata.map((item: any) => [
+            item.docRef,
+            { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
+          ])
+        )
+      : undefined,
+  }));
+}
 
 interface ChatInterfaceProps {
   conversation?: Conversation;
@@ -37,10 +71,10 @@ export function ChatInterface({
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [citationMetadata, setCitationMetadata] = useState<Map<string, { sourceUrl?: string; docTitle?: string }>>(new Map());
   const [citationMetadataArray, setCitationMetadataArray] = useState<any[]>([]);
+  const [retrievedSources, setRetrievedSources] = useState<RetrievedSource[]>([]);
+  const [streamingCitations, setStreamingCitations] = useState<StreamedCitation[]>([]);
+  const [streamingTurn, setStreamingTurn] = useState<ChatTurnEvent | null>(null);
   const pendingConversationIdRef = useRef<string | null>(null);
-  const pendingCitationMetadataRef = useRef<any[]>([]);
-  const pendingRagContextRef = useRef<string | undefined>(undefined);
-  const pendingSearchResultsRef = useRef<any[] | undefined>(undefined);
   const [localConversation, setLocalConversation] = useState<Conversation | undefined>(conversation);
 
   // AI SDK pattern: manage input state manually, use append
@@ -55,129 +89,75 @@ export function ChatInterface({
       conversationId: conversation?.id,
       personaId: selectedPersona?.slug,
     },
-    onResponse: async (response) => {
-      // Extract citation metadata from response headers (Base64 encoded)
-      const metadataHeader = response.headers.get('X-Citation-Metadata');
-      if (metadataHeader) {
-        const decodedMetadata = Buffer.from(metadataHeader, 'base64').toString('utf-8');
-        try {
-          const metadata = JSON.parse(decodedMetadata);
+    // /api/chat streams typed events; hand useChat the answer text and keep the rest
+    fetch: async (input, init) => {
+      const response = await fetch(input, init);
+      if (!response.ok || !response.body) return response;
+
+      const text = chatEventStreamToText(response.body, {
+        onTurn: (event) => {
+          setStreamingTurn(event);
+        },
+        onRetrieval: (event) => {
           const metadataMap = new Map<string, { sourceUrl?: string; docTitle?: string }>(
-            metadata.map((item: any) => [
-              item.docRef as string,
-              { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
+            event.sources.map((source) => [
+              source.docRef,
+              { sourceUrl: source.sourceUrl, docTitle: source.docTitle }
             ])
           );
           setCitationMetadata(metadataMap);
-          setCitationMetadataArray(metadata); // Store array for saving citations
-          pendingCitationMetadataRef.current = metadata; // Store in ref for onFinish
-          console.log('📚 Citation metadata loaded:', metadata.length, 'documents');
-        } catch (error) {
-          console.error('Failed to parse citation metadata:', error);
-        }
-      }
-
-      // Extract RAG context from response headers
-      const ragContextHeader = response.headers.get('X-RAG-Context');
-      if (ragContextHeader) {
-        try {
-          const ragContext = Buffer.from(ragContextHeader, 'base64').toString('utf-8');
-          pendingRagContextRef.current = ragContext;
-        } catch (error) {
-          console.error('Failed to parse RAG context:', error);
-        }
-      }
+          setCitationMetadataArray(event.sources);
+          setRetrievedSources(event.sources);
+          console.log('📚 Retrieved sources:', event.sources.length, 'documents');
+        },
+        onCitation: (citation) => {
+          setStreamingCitations((previous) => [...previous, citation]);
+        },
+        onUsage: (usage) => {
+          console.log(`🔢 Token usage (${usage.model}):`, usage.totalTokens ?? 'n/a');
+        },
+      });
 
-      // Extract search results from response headers
-      const searchResultsHeader = response.headers.get('X-Search-Results');
-      if (searchResultsHeader) {
-        try {
-          const searchResults = JSON.parse(Buffer.from(searchResultsHeader, 'base64').toString('utf-8'));
-          pendingSearchResultsRef.current = searchResults;
-          console.log('🔍 Search results loaded:', searchResults.length, 'chunks');
-        } catch (error) {
-          console.error('Failed to parse search results:', error);
-        }
-      }
+      return new Response(text, {
+        status: response.status,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
     },
     onFinish: async (message) => {
-      // Save the assistant's response to the database
+      // The chat API stores the assistant message (with citations and RAG weight) itself
       // Use pendingConversationIdRef for new conversations, or conversation.id for existing ones
       const conversationId = conversation?.id || pendingConversationIdRef.current;
 
       if (conversationId && message?.content) {
         try {
-          // Use refs instead of state to avoid timing issues
-          const citationMetadata = pendingCitationMetadataRef.current;
-          const ragContext = pendingRagContextRef.current;
-          const searchResults = pendingSearchResultsRef.current;
-          console.log('💾 Saving message with citation metadata:', citationMetadata?.length || 0, 'documents');
-
-          await fetch('/api/messages', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              conversationId,
-              role: 'assistant',
-              content: message.content,
-              citationMetadata: citationMetadata && citationMetadata.length > 0 ? citationMetadata : undefined,
-              ragContext,
-              searchResults,
-            }),
-          });
-
-          // Clear the refs after saving
-          pendingCitationMetadataRef.current = [];
-          pendingRagContextRef.current = undefined;
-          pendingSearchResultsRef.current = undefined;
-
-          // Reload messages to get updated RAG weight from database
-          if (conversationId) {
-            const response = await fetch(`/api/conversations/${conversationId}`);
-            if (response.ok) {
-              const { messages: conversationMessages } = await response.json();
-
-              // Extract citation metadata from the last assistant message
-              const lastAssistantMessage = conversationMessages
-                .filter((msg: any) => msg.role === 'assistant')
-                .pop();
-
-              if (lastAssistantMessage?.metadata?.citationMetadata) {
-                const metadata = lastAssistantMessage.metadata.citationMetadata;
-                const metadataMap = new Map<string, { sourceUrl?: string; docTitle?: string }>(
-                  metadata.map((item: any) => [
-                    item.docRef as string,
-                    { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
-                  ])
-                );
-                setCitationMetadata(metadataMap);
-                setCitationMetadataArray(metadata);
-              }
-
-              // Convert database messages to chat hook format with RAG weight
-              const formattedMessages = conversationMessages.map((msg: any) => ({
-                id: msg.id,
-                role: msg.role,
-                content: msg.content,
-                createdAt: new Date(msg.created_at),
-                rag_weight: msg.rag_weight,
-                rag_weight_breakdown: msg.rag_weight_breakdown,
-                citationMetadata: msg.metadata?.citationMetadata
-                  ? new Map(
-                      msg.metadata.citationMetadata.map((item: any) => [
-                        item.docRef,
-                        { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
-                      ])
-                    )
-                  : undefined,
-              }));
-
-              setMessages(formattedMessages);
-              console.log('✅ Reloaded messages with RAG weight after saving');
+          // Reload messages to get the stored IDs and RAG weight from the database
+          const response = await fetch(`/api/conversations/${conversationId}`);
+          if (response.ok) {
+            const { messages: conversationMessages } = await response.json();
+
+            // Extract citation metadata from the last assistant message
+            const lastAssistantMessage = conversationMessages
+              .filter((msg: any) => msg.role === 'assistant')
+              .pop();
+
+            if (lastAssistantMessage?.metadata?.citationMetadata) {
+              const metadata = lastAssistantMessage.metadata.citationMetadata;
+              const metadataMap = new Map<string, { sourceUrl?: string; docTitle?: string }>(
+                metadata.map((item: any) => [
+                  item.docRef as string,
+                  { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
+                ])
+              );
+              setCitationMetadata(metadataMap);
+              setCitationMetadataArray(metadata);
             }
+
+            // Convert database messages to chat hook format with RAG weight
+            setMessages(toChatMessages(conversationMessages));
+            console.log('✅ Reloaded messages with RAG weight after saving');
           }
         } catch (error) {
-          console.error("Failed to save assistant message:", error);
+          console.error("Failed to reload conversation messages:", error);
         }
       }
 
@@ -205,7 +185,75 @@ export function ChatInterface({
   });
 
   // Destructure the hook result
-  const { messages, isLoading, error, append, setMessages } = chatHook;
+  const { messages, isLoading, error, append, reload, setMessages } = chatHook;
+
+  // Latest messages for the branch actions (kept out of their dependencies so
+  // message bubbles don't re-render on every streamed token)
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const resetStreamingState = () => {
+    setRetrievedSources([]);
+    setStreamingCitations([]);
+    setStreamingTurn(null);
+  };
+
+  // Regenerate the last answer; the previous answer stays available as a sibling branch
+  const handleRegenerate = useCallback((messageId: string) => {
+    const conversationId = conversation?.id || pendingConversationIdRef.current;
+    const target: any = messagesRef.current.find((m) => m.id === messageId);
+    if (conversationId && !target?.branch) return; // Not reloaded from the database yet
+
+    resetStreamingState();
+    reload(
+      conversationId
+        ? { body: { conversationId, branch: { action: "regenerate", messageId } } }
+        : undefined
+    );
+  }, [conversation?.id, reload]);
+
+  // Edit a question and resend it from that point; the original thread stays available as a sibling branch
+  const handleEdit = useCallback((messageId: string, content: string) => {
+    const conversationId = conversation?.id || pendingConversationIdRef.current;
+    const index = messagesRef.current.findIndex((m) => m.id === messageId);
+    if (index === -1 || !content.trim()) return;
+
+    const target: any = messagesRef.current[index];
+    if (conversationId && !target.branch) return; // Not reloaded from the database yet
+
+    resetStreamingState();
+    setMessages(messagesRef.current.slice(0, index));
+    append(
+      { role: "user", content: content.trim() },
+      conversationId
+        ? { body: { conversationId, branch: { action: "edit", messageId } } }
+        : undefined
+    );
+  }, [conversation?.id, append, setMessages]);
+
+  // Show another branch (a sibling of a regenerated answer or edited question)
+  const handleSwitchBranch = useCallback(async (messageId: string) => {
+    const conversationId = conversation?.id || pendingConversationIdRef.current;
+    if (!conversationId) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId }),
+      });
+      if (!response.ok) {
+        console.error(`Failed to switch branch: ${response.status} ${response.statusText}`);
+        return;
+      }
+
+      const { conversation: updatedConversation, messages: branchMessages } = await response.json();
+      setMessages(toChatMessages(branchMessages));
+      onConversationUpdate?.(updatedConversation);
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    }
+  }, [conversation?.id, setMessages, onConversationUpdate]);
 
   // Sync local conversation state with prop
   useEffect(() => {
@@ -257,22 +305,7 @@ export function ChatInterface({
           }
 
           // Convert database messages to chat hook format with per-message citation metadata
-          const formattedMessages = conversationMessages.map((msg: any) => ({
-            id: msg.id,
-            role: msg.role,
-            content: msg.content,
-            createdAt: new Date(msg.created_at),
-            rag_weight: msg.rag_weight,
-            rag_weight_breakdown: msg.rag_weight_breakdown,
-            citationMetadata: msg.metadata?.citationMetadata
-              ? new Map(
-                  msg.metadata.citationMetadata.map((item: any) => [
-                    item.docRef,
-                    { sourceUrl: item.sourceUrl, docTitle: item.docTitle }
-                  ])
-                )
-              : undefined,
-          }));
+          const formattedMessages = toChatMessages(conversationMessages);
 
           // Update messages when switching to a different conversation
           // Only skip if we're in an active generation (isLoading) to prevent overwriting streaming messages
@@ -323,56 +356,50 @@ export function ChatInterface({
 
     const messageContent = input.trim();
     setInput(""); // Clear input immediately (v5 pattern)
+    resetStreamingState();
 
-    // Send message immediately - no blocking conversation creation
-    append({ role: "user", content: messageContent });
-
-    // Create conversation in background for authenticated users (non-blocking)
+    // New conversations for authenticated users are created first so the chat API can
+    // persist both sides of the turn (the first user message is saved on creation)
     if (!conversation && user) {
-      // Don't await - let this happen in background
-      fetch("/api/conversations", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          firstMessage: messageContent,
-          personaSlug: selectedPersona?.slug,
-        }),
-      })
-        .then(async (response) => {
-          if (response.ok) {
-            const { conversation: newConversation } = await response.json();
+      let newConversationId: string | undefined;
+      try {
+        const response = await fetch("/api/conversations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            firstMessage: messageContent,
+            personaSlug: selectedPersona?.slug,
+          }),
+        });
+
+        if (response.ok) {
+          const { conversation: newConversation } = await response.json();
+          newConversationId = newConversation.id;
 
-            // Store conversation ID for onFinish callback
-            pendingConversationIdRef.current = newConversation.id;
+          // Store conversation ID for onFinish callback
+          pendingConversationIdRef.current = newConversation.id;
 
-            onConversationUpdate?.(newConversation);
+          onConversationUpdate?.(newConversation);
 
-            // Note: Title generation is happening in the background
-            // The sidebar will automatically refresh to show the updated title
-            console.log(
-              `✅ Created conversation: ${newConversation.id} with title: "${newConversation.title}"`
-            );
-            console.log(`🔄 Triggering immediate sidebar refresh`);
-            // Note: First user message is already saved by /api/conversations endpoint
-          }
-        })
-        .catch((error) => {
-          console.error("Failed to create conversation:", error);
-        });
-    } else if (conversation?.id) {
-      // Save user message for existing conversation
-      fetch('/api/messages', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          conversationId: conversation.id,
-          role: 'user',
-          content: messageContent,
-        }),
-      }).catch((error) => {
-        console.error("Failed to save user message:", error);
-      });
+          // Note: Title generation is happening in the background
+          // The sidebar will automatically refresh to show the updated title
+          console.log(
+            `✅ Created conversation: ${newConversation.id} with title: "${newConversation.title}"`
+          );
+        }
+      } catch (error) {
+        console.error("Failed to create conversation:", error);
+      }
+
+      append(
+        { role: "user", content: messageContent },
+        newConversationId ? { body: { conversationId: newConversationId } } : undefined
+      );
+      return;
     }
+
+    // Existing conversations: the chat API stores the user message
+    append({ role: "user", content: messageContent });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -538,7 +565,7 @@ export function ChatInterface({
                   (message) =>
                     message.role === "user" || message.role === "assistant"
                 )
-                .map((message: any) => (
+                .map((message: any, index: number, visibleMessages: any[]) => (
                   <MessageBubble
                     key={message.id}
                     message={{
@@ -548,12 +575,35 @@ export function ChatInterface({
                       created_at: message.createdAt?.toISOString(),
                       rag_weight: message.rag_weight,
                       rag_weight_breakdown: message.rag_weight_breakdown,
+                      branch: message.branch,
+                      feedback: message.feedback,
+                      ...(isLoading && message.role === "assistant" && index === visibleMessages.length - 1 && streamingTurn
+                        ? {
+                            turn_type: streamingTurn.turnType,
+                            response_mode: streamingTurn.responseMode,
+                            compare_entities: streamingTurn.entities,
+                          }
+                        : {
+                            turn_type: message.turn_type,
+                            response_mode: message.response_mode,
+                            compare_entities: message.compare_entities,
+                          }),
                     }}
                     user={user}
                     persona={message.role === "assistant" ? selectedPersona : undefined}
                     citationMetadata={message.role === "assistant"
                       ? (message.citationMetadata || citationMetadata)
                       : undefined}
+                    canRate={!!user && !!message.branch}
+                    {...(!isLoading && {
+                      onSwitchBranch: handleSwitchBranch,
+                      ...(message.role === "user"
+                        ? { onEdit: handleEdit }
+                        : index === visibleMessages.length - 1 && { onRegenerate: handleRegenerate }),
+                    })}
+                    {...(isLoading && message.role === "assistant" && index === visibleMessages.length - 1
+                      ? { isStreaming: true, retrievedSources, streamingCitations }
+                      : {})}
                   />
                 ))}
 
@@ -574,7 +624,11 @@ export function ChatInterface({
                       <div className="w-2 h-2 bg-current rounded-full animate-bounce [animation-delay:-0.15s]" />
                       <div className="w-2 h-2 bg-current rounded-full animate-bounce" />
                     </div>
-                    <span className="text-sm">{selectedPersona?.name || 'AI'} is thinking...</span>
+                    <span className="text-sm">
+                      {retrievedSources.length > 0
+                        ? `${selectedPersona?.name || 'AI'} is reading ${retrievedSources.length} passages...`
+                        : `${selectedPersona?.name || 'AI'} is thinking...`}
+                    </span>
                   </div>
                 </div>
               )}
@@ -40,7 +40,11 @@ import {
   ChevronUp,
   Check,
   X,
+  FileDown,
+  Printer,
+  Share2,
 } from "lucide-react";
+import { ShareConversationDialog } from "./share-conversation-dialog";
 import type { Conversation } from "@/lib/types";
 
 interface ConversationSidebarProps {
@@ -78,6 +82,7 @@ export const ConversationSidebar = forwardRef<
   const [editingTitle, setEditingTitle] = useState("");
   const [renamingIds, setRenamingIds] = useState<Set<string>>(new Set());
   const [userRole, setUserRole] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
   const { addToast } = useToast();
   const editInputRef = useRef<HTMLInputElement>(null);
 
@@ -380,6 +385,35 @@ export const ConversationSidebar = forwardRef<
     }
   };
 
+  const handleExportConversation = async (
+    conversation: Conversation,
+    format: "markdown" | "json"
+  ) => {
+    try {
+      const response = await fetch(
+        `/api/conversations/${conversation.id}/export?format=${format}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to export conversation");
+      }
+
+      // Download under the file name chosen by the server
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName =
+        disposition.match(/filename="([^"]+)"/)?.[1] ||
+        `conversation.${format === "markdown" ? "md" : "json"}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+      addToast("Failed to export conversation", "error");
+    }
+  };
+
   const handleRenameKeyDown = (
     e: React.KeyboardEvent,
     conversationId: string
@@ -580,6 +614,48 @@ export const ConversationSidebar = forwardRef<
                         <Edit className="w-3 h-3 mr-2" />
                         Rename
                       </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSharingId(conversation.id);
+                        }}
+                      >
+                        <Share2 className="w-3 h-3 mr-2" />
+                        Share link...
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportConversation(conversation, "markdown");
+                        }}
+                      >
+                        <FileDown className="w-3 h-3 mr-2" />
+                        Export as Markdown
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportConversation(conversation, "json");
+                        }}
+                      >
+                        <FileDown className="w-3 h-3 mr-2" />
+                        Export as JSON
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          window.open(`/conversations/${conversation.id}/print`, "_blank");
+                        }}
+                      >
+                        <Printer className="w-3 h-3 mr-2" />
+                        Export as PDF
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
                       <DropdownMenuItem
                         className="text-sm text-destructive focus:text-destructive"
                         onClick={(e) => {
@@ -599,6 +675,11 @@ export const ConversationSidebar = forwardRef<
         )}
       </ScrollArea>
 
+      <ShareConversationDialog
+        conversationId={sharingId}
+        onClose={() => setSharingId(null)}
+      />
+
       {/* User Profile Dropdown */}
       {user && (
         <>
@@ -0,0 +1,62 @@
+"use client";
+
+import * as React from "react";
+import { MessageBubble } from "./message-bubble";
+import type { ConversationExport } from "@/lib/chat/conversationExport";
+
+interface ConversationTranscriptProps {
+  conversation: ConversationExport;
+  notice?: React.ReactNode; // Shown under the header (e.g. "Shared read-only conversation")
+}
+
+/**
+ * Read-only rendering of an exported conversation, used by share links and
+ * the print-to-PDF view. Citations link to the documents resolved at export.
+ */
+export function ConversationTranscript({ conversation, notice }: ConversationTranscriptProps) {
+  const persona = conversation.persona
+    ? { id: conversation.persona.slug, ...conversation.persona }
+    : undefined;
+
+  // doc_N references are per answer, so each message gets its own citation map
+  const citationMaps = React.useMemo(
+    () =>
+      new Map(
+        conversation.messages.map((message) => [
+          message.id,
+          new Map(
+            message.citations.map((citation) => [
+              citation.docRef,
+              { sourceUrl: citation.sourceUrl, docTitle: citation.title },
+            ])
+          ),
+        ])
+      ),
+    [conversation.messages]
+  );
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 py-8 print:max-w-none print:px-0 print:py-0">
+      <header className="mb-8 border-b pb-4">
+        <h1 className="text-2xl font-semibold">{conversation.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          {conversation.persona ? `Conversation with ${conversation.persona.name} · ` : ""}
+          {new Date(conversation.created_at).toLocaleDateString()}
+        </p>
+        {notice && <div className="mt-2 text-xs text-muted-foreground">{notice}</div>}
+      </header>
+
+      <div className="space-y-6">
+        {conversation.messages.map((message) => (
+          <div key={message.id} className="break-inside-avoid">
+            <MessageBubble
+              message={message}
+              persona={persona}
+              citationMetadata={citationMaps.get(message.id)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,11 +8,20 @@ import rehypeKatex from "rehype-katex";
 import rehypeRaw from "rehype-raw";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import type { User } from "@supabase/supabase-js";
-import { parseCitations } from "@/lib/rag/citations/parser";
+import type { TurnType, ResponseMode } from "@/lib/types";
+import { parseCitations, type Citation } from "@/lib/rag/citations/parser";
+import type { RetrievedSource, StreamedCitation } from "@/lib/chat/streamProtocol";
 import { CitationsList } from "./citations-list";
 import { RagWeightBadge } from "./rag-weight-badge";
+import { MessageFeedbackControls, type MessageFeedbackValue } from "./message-feedback";
 import { getPersonaAvatar, getPersonaInitials } from "@/lib/avatar-utils";
+import type { BranchInfo } from "@/lib/chat/branching";
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react";
 
 // Import KaTeX CSS
 import "katex/dist/katex.min.css";
@@ -38,11 +47,139 @@ interface MessageBubbleProps {
       token_overlap: number;
       search_quality: number;
     };
+    turn_type?: TurnType;
+    response_mode?: ResponseMode;
+    compare_entities?: string[];
+    branch?: BranchInfo; // Sibling branches (regenerated answers, edited questions)
+    feedback?: MessageFeedbackValue | null; // The user's rating of a stored answer
   };
   user?: User | null;
   persona?: Persona;
   isStreaming?: boolean;
   citationMetadata?: Map<string, { sourceUrl?: string; docTitle?: string }>;
+  retrievedSources?: RetrievedSource[]; // Sources in context for the answer being streamed
+  streamingCitations?: StreamedCitation[]; // Citations received so far while streaming
+  onEdit?: (messageId: string, content: string) => void; // User messages: edit and resend
+  onRegenerate?: (messageId: string) => void; // Latest assistant message
+  onSwitchBranch?: (messageId: string) => void;
+  canRate?: boolean; // Stored answers in the user's own conversation
+}
+
+const RESPONSE_MODE_LABELS: Record<ResponseMode, { label: string; description: string; className: string }> = {
+  FACT: {
+    label: "Fact",
+    description: "Short, direct answer from the most relevant passages",
+    className: "text-sky-700 bg-sky-50 border-sky-200",
+  },
+  EXPLAIN: {
+    label: "Explain",
+    description: "Structured explanation from the retrieved sources",
+    className: "text-violet-700 bg-violet-50 border-violet-200",
+  },
+  CONFLICTS: {
+    label: "Conflicts",
+    description: "Sources retrieved for diversity; disagreements between them are called out",
+    className: "text-amber-700 bg-amber-50 border-amber-200",
+  },
+};
+
+const TURN_TYPE_LABELS: Record<TurnType, string> = {
+  "new-topic": "New topic",
+  "drill-down": "Follow-up",
+  compare: "Comparison",
+  "same-sources": "Same sources",
+};
+
+/**
+ * Chip showing how the turn was classified (response mode, plus the turn type when it matters)
+ */
+function ResponseModeChip({
+  turnType,
+  responseMode,
+  compareEntities,
+}: {
+  turnType?: TurnType;
+  responseMode: ResponseMode;
+  compareEntities?: string[];
+}) {
+  const mode = RESPONSE_MODE_LABELS[responseMode];
+  if (!mode) return null;
+
+  const turnLabel = turnType && turnType !== "new-topic" ? TURN_TYPE_LABELS[turnType] : undefined;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`${mode.className} cursor-help`}>
+            {mode.label}
+            {turnLabel ? ` · ${turnLabel}` : ""}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-xs">
+          <div className="space-y-1 text-xs">
+            <p className="font-semibold text-sm">{mode.label} mode</p>
+            <p className="text-muted-foreground">{mode.description}</p>
+            {turnType === "compare" && compareEntities && compareEntities.length > 0 && (
+              <p className="text-muted-foreground">Searched separately: {compareEntities.join(", ")}</p>
+            )}
+            {turnType === "same-sources" && (
+              <p className="text-muted-foreground">Answered from the previous answer&apos;s sources</p>
+            )}
+            {turnType === "drill-down" && (
+              <p className="text-muted-foreground">Follow-up on the previous answer</p>
+            )}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+/**
+ * Previous/next arrows between sibling branches ("2 / 3")
+ */
+function BranchNavigator({
+  branch,
+  onSwitch,
+  className = "",
+}: {
+  branch: BranchInfo;
+  onSwitch?: (messageId: string) => void;
+  className?: string;
+}) {
+  if (branch.count < 2) return null;
+
+  const previousId = branch.siblingIds[branch.index - 1];
+  const nextId = branch.siblingIds[branch.index + 1];
+
+  return (
+    <div className={`flex items-center gap-1 text-xs text-muted-foreground ${className}`}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={!onSwitch || !previousId}
+        onClick={() => previousId && onSwitch?.(previousId)}
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span className="tabular-nums">
+        {branch.index + 1} / {branch.count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={!onSwitch || !nextId}
+        onClick={() => nextId && onSwitch?.(nextId)}
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  );
 }
 
 export const MessageBubble = React.memo(
@@ -52,8 +189,24 @@ export const MessageBubble = React.memo(
     persona,
     isStreaming = false,
     citationMetadata,
+    retrievedSources,
+    streamingCitations,
+    onEdit,
+    onRegenerate,
+    onSwitchBranch,
+    canRate = false,
   }: MessageBubbleProps) {
     const isUser = message.role === "user";
+    const [isEditing, setIsEditing] = React.useState(false);
+    const [draft, setDraft] = React.useState(message.content);
+
+    const submitEdit = () => {
+      if (!draft.trim() || !onEdit) return;
+      setIsEditing(false);
+      if (draft.trim() !== message.content.trim()) {
+        onEdit(message.id, draft);
+      }
+    };
 
     // Parse citations for assistant messages
     const parsedContent = React.useMemo(() => {
@@ -66,6 +219,21 @@ export const MessageBubble = React.memo(
 
     const textContent = parsedContent.content;
 
+    // While streaming, sources are listed as their citation events arrive
+    const citations: Citation[] = React.useMemo(() => {
+      if (!isStreaming || !streamingCitations) {
+        return parsedContent.citations;
+      }
+      return streamingCitations.map((citation) => ({
+        id: `${citation.docRef}:${citation.section}`,
+        docId: citation.docRef,
+        sectionPath: citation.section,
+        number: citation.number,
+        sourceUrl: citation.sourceUrl,
+        docTitle: citation.docTitle,
+      }));
+    }, [isStreaming, streamingCitations, parsedContent.citations]);
+
     if (isUser) {
       // Get user profile information for avatar
       const googleIdentity = user?.identities?.find(
@@ -91,16 +259,68 @@ export const MessageBubble = React.memo(
       return (
         <div className="flex w-full justify-end mb-4">
           <div className="flex items-start space-x-3 max-w-[80%]">
-            <div className="bg-primary text-primary-foreground rounded-lg shadow-sm px-3 py-2">
-              <div className="text-sm leading-relaxed break-words prose prose-sm prose-invert max-w-none">
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm, remarkMath]}
-                  rehypePlugins={[rehypeKatex]}
-                  onError={(error) => console.error('ReactMarkdown error:', error)}
-                >
-                  {textContent}
-                </ReactMarkdown>
-              </div>
+            <div className="group flex flex-col items-end gap-1 min-w-0">
+              {isEditing ? (
+                <div className="w-[32rem] max-w-full space-y-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        submitEdit();
+                      } else if (e.key === "Escape") {
+                        setIsEditing(false);
+                      }
+                    }}
+                    className="min-h-[52px] resize-none"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                      Send
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="bg-primary text-primary-foreground rounded-lg shadow-sm px-3 py-2">
+                  <div className="text-sm leading-relaxed break-words prose prose-sm prose-invert max-w-none">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm, remarkMath]}
+                      rehypePlugins={[rehypeKatex]}
+                      onError={(error) => console.error('ReactMarkdown error:', error)}
+                    >
+                      {textContent}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              )}
+
+              {/* Edit and resend, and navigation between edited versions */}
+              {!isEditing && (onEdit || (message.branch?.count ?? 0) > 1) && (
+                <div className="flex items-center gap-1">
+                  {message.branch && (
+                    <BranchNavigator branch={message.branch} onSwitch={onSwitchBranch} />
+                  )}
+                  {onEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                      onClick={() => {
+                        setDraft(message.content);
+                        setIsEditing(true);
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                      <span className="sr-only">Edit message</span>
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
             <Avatar className="w-8 h-8 ring-2 ring-background shadow-sm">
               {avatarUrl ? (
@@ -352,19 +572,57 @@ export const MessageBubble = React.memo(
               )}
             </div>
 
-            {/* RAG weight badge for assistant messages */}
-            {!isStreaming && message.rag_weight !== undefined && (
-              <div className="mt-3">
-                <RagWeightBadge
-                  ragWeight={message.rag_weight}
-                  ragWeightBreakdown={message.rag_weight_breakdown}
-                />
+            {/* Response mode chip, RAG weight badge and answer versions for assistant messages */}
+            {(message.response_mode ||
+              (!isStreaming && message.rag_weight !== undefined) ||
+              (!isStreaming && canRate) ||
+              onRegenerate ||
+              (message.branch?.count ?? 0) > 1) && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                {message.response_mode && (
+                  <ResponseModeChip
+                    turnType={message.turn_type}
+                    responseMode={message.response_mode}
+                    compareEntities={message.compare_entities}
+                  />
+                )}
+                {!isStreaming && message.rag_weight !== undefined && (
+                  <RagWeightBadge
+                    ragWeight={message.rag_weight}
+                    ragWeightBreakdown={message.rag_weight_breakdown}
+                  />
+                )}
+                {!isStreaming && canRate && (
+                  <MessageFeedbackControls messageId={message.id} feedback={message.feedback} />
+                )}
+                {!isStreaming && message.branch && (
+                  <BranchNavigator branch={message.branch} onSwitch={onSwitchBranch} />
+                )}
+                {!isStreaming && onRegenerate && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => onRegenerate(message.id)}
+                  >
+                    <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                    Regenerate
+                  </Button>
+                )}
               </div>
             )}
 
             {/* Citations list for assistant messages with citations */}
-            {!isStreaming && parsedContent.citations.length > 0 && (
-              <CitationsList citations={parsedContent.citations} />
+            {citations.length > 0 && (
+              <CitationsList citations={citations} />
+            )}
+
+            {/* Sources being consulted while the answer streams */}
+            {isStreaming && retrievedSources && retrievedSources.length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Consulting {new Set(retrievedSources.map((source) => source.docRef)).size} sources
+                {citations.length > 0 ? `, ${citations.length} cited so far` : ""}
+              </p>
             )}
           </div>
         </div>
@@ -372,14 +630,25 @@ export const MessageBubble = React.memo(
     );
   },
   (prevProps, nextProps) => {
-    // Only re-render if message content, streaming state, citation metadata, user, or persona changes
+    // Only re-render if message content, streaming state, citation metadata/events, branches, actions, user, or persona changes
     return (
       prevProps.message.id === nextProps.message.id &&
       prevProps.message.content === nextProps.message.content &&
+      prevProps.message.response_mode === nextProps.message.response_mode &&
+      prevProps.message.turn_type === nextProps.message.turn_type &&
+      prevProps.message.branch?.index === nextProps.message.branch?.index &&
+      prevProps.message.branch?.count === nextProps.message.branch?.count &&
+      prevProps.message.feedback === nextProps.message.feedback &&
+      prevProps.canRate === nextProps.canRate &&
       prevProps.isStreaming === nextProps.isStreaming &&
       prevProps.user?.id === nextProps.user?.id &&
       prevProps.persona?.id === nextProps.persona?.id &&
-      prevProps.citationMetadata === nextProps.citationMetadata
+      prevProps.citationMetadata === nextProps.citationMetadata &&
+      prevProps.retrievedSources === nextProps.retrievedSources &&
+      prevProps.streamingCitations === nextProps.streamingCitations &&
+      prevProps.onEdit === nextProps.onEdit &&
+      prevProps.onRegenerate === nextProps.onRegenerate &&
+      prevProps.onSwitchBranch === nextProps.onSwitchBranch
     );
   }
 );
@@ -0,0 +1,180 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ThumbsUp, ThumbsDown } from "lucide-react";
+import { FEEDBACK_REASONS } from "@/lib/chat/feedback";
+import type { FeedbackReason, MessageFeedback } from "@/lib/types";
+
+export type MessageFeedbackValue = Pick<MessageFeedback, "rating" | "reason" | "correction" | "missing_source_url">;
+
+interface MessageFeedbackControlsProps {
+  messageId: string;
+  feedback?: MessageFeedbackValue | null;
+}
+
+/**
+ * Thumbs up/down for an assistant answer; thumbs down asks what was wrong
+ * (reason, correction, and a source the answer should have used)
+ */
+export function MessageFeedbackControls({ messageId, feedback: initialFeedback }: MessageFeedbackControlsProps) {
+  const [feedback, setFeedback] = React.useState<MessageFeedbackValue | null>(initialFeedback ?? null);
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [reason, setReason] = React.useState<FeedbackReason | null>(initialFeedback?.reason ?? null);
+  const [correction, setCorrection] = React.useState(initialFeedback?.correction ?? "");
+  const [missingSourceUrl, setMissingSourceUrl] = React.useState(initialFeedback?.missing_source_url ?? "");
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setFeedback(initialFeedback ?? null);
+  }, [initialFeedback]);
+
+  const save = async (value: MessageFeedbackValue) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/feedback`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(value),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save feedback");
+      }
+      setFeedback(data.feedback);
+      return true;
+    } catch (err) {
+      console.error("Failed to save feedback:", err);
+      setError(err instanceof Error ? err.message : "Failed to save feedback");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const clear = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/feedback`, { method: "DELETE" });
+      if (response.ok) {
+        setFeedback(null);
+      }
+    } catch (err) {
+      console.error("Failed to remove feedback:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleHelpful = () => {
+    if (feedback?.rating === 1) {
+      clear();
+    } else {
+      save({ rating: 1 });
+    }
+  };
+
+  const handleSubmitNegative = async () => {
+    const saved = await save({
+      rating: -1,
+      reason,
+      correction: correction.trim() || null,
+      missing_source_url: missingSourceUrl.trim() || null,
+    });
+    if (saved) setIsOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-6 w-6 ${feedback?.rating === 1 ? "text-green-600" : "text-muted-foreground"}`}
+        disabled={isSaving}
+        onClick={handleHelpful}
+      >
+        <ThumbsUp className={`h-3.5 w-3.5 ${feedback?.rating === 1 ? "fill-current" : ""}`} />
+        <span className="sr-only">Helpful</span>
+      </Button>
+
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-6 w-6 ${feedback?.rating === -1 ? "text-red-600" : "text-muted-foreground"}`}
+            disabled={isSaving}
+          >
+            <ThumbsDown className={`h-3.5 w-3.5 ${feedback?.rating === -1 ? "fill-current" : ""}`} />
+            <span className="sr-only">Not helpful</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 space-y-3">
+          <div>
+            <p className="text-sm font-medium">What was wrong with this answer?</p>
+            <p className="text-xs text-muted-foreground">Your feedback helps us fill gaps in the knowledge base.</p>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(FEEDBACK_REASONS) as FeedbackReason[]).map((key) => (
+              <Button
+                key={key}
+                type="button"
+                variant={reason === key ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setReason(reason === key ? null : key)}
+              >
+                {FEEDBACK_REASONS[key]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`correction-${messageId}`} className="text-xs">Correction (optional)</Label>
+            <Textarea
+              id={`correction-${messageId}`}
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value)}
+              placeholder="What should the answer have said?"
+              className="min-h-[72px] text-sm"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`missing-source-${messageId}`} className="text-xs">Missing source URL (optional)</Label>
+            <Input
+              id={`missing-source-${messageId}`}
+              type="url"
+              value={missingSourceUrl}
+              onChange={(e) => setMissingSourceUrl(e.target.value)}
+              placeholder="https://..."
+              className="text-sm"
+            />
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex justify-between gap-2">
+            {feedback?.rating === -1 ? (
+              <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => { clear(); setIsOpen(false); }}>
+                Remove
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button size="sm" disabled={isSaving} onClick={handleSubmitNegative}>
+              {isSaving ? "Sending..." : "Send feedback"}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
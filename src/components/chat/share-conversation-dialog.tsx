@@ -0,0 +1,160 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { formatDate } from "@/lib/utils";
+import { Copy, Link2Off } from "lucide-react";
+
+interface ConversationShare {
+  id: string;
+  path: string; // /share/<token>
+  created_at: string;
+}
+
+interface ShareConversationDialogProps {
+  conversationId: string | null; // Dialog is open while set
+  onClose: () => void;
+}
+
+/**
+ * Create, copy and revoke read-only share links for a conversation
+ */
+export function ShareConversationDialog({ conversationId, onClose }: ShareConversationDialogProps) {
+  const { addToast } = useToast();
+  const [shares, setShares] = React.useState<ConversationShare[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!conversationId) return;
+
+    const fetchShares = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}/shares`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load share links");
+        }
+        setShares(data.shares);
+      } catch (error) {
+        console.error("Failed to load share links:", error);
+        addToast("Failed to load share links", "error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setShares([]);
+    fetchShares();
+  }, [conversationId, addToast]);
+
+  const toUrl = (share: ConversationShare) => `${window.location.origin}${share.path}`;
+
+  const copyLink = async (share: ConversationShare) => {
+    try {
+      await navigator.clipboard.writeText(toUrl(share));
+      addToast("Link copied", "success", 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      addToast("Failed to copy link", "error");
+    }
+  };
+
+  const createShare = async () => {
+    if (!conversationId) return;
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/shares`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create share link");
+      }
+      setShares((prev) => [data.share, ...prev]);
+      await copyLink(data.share);
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+      addToast("Failed to create share link", "error");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeShare = async (share: ConversationShare) => {
+    if (!conversationId) return;
+    try {
+      const response = await fetch(
+        `/api/conversations/${conversationId}/shares?shareId=${share.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to revoke share link");
+      }
+      setShares((prev) => prev.filter((s) => s.id !== share.id));
+      addToast("Share link revoked", "success", 2000);
+    } catch (error) {
+      console.error("Failed to revoke share link:", error);
+      addToast("Failed to revoke share link", "error");
+    }
+  };
+
+  return (
+    <Dialog open={!!conversationId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read this conversation and its sources. Revoke a
+            link to stop it working.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active share links.</p>
+          ) : (
+            shares.map((share) => (
+              <div key={share.id} className="flex items-center gap-2">
+                <Input readOnly value={toUrl(share)} className="text-xs" onFocus={(e) => e.target.select()} />
+                <Button variant="ghost" size="icon" onClick={() => copyLink(share)}>
+                  <Copy className="w-4 h-4" />
+                  <span className="sr-only">Copy link</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => revokeShare(share)}
+                >
+                  <Link2Off className="w-4 h-4" />
+                  <span className="sr-only">Revoke link created {formatDate(share.created_at)}</span>
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={createShare} disabled={isCreating || !conversationId}>
+            {isCreating ? "Creating..." : "Create link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
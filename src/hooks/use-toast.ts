@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 
 interface Toast {
   title: string;
@@ -9,7 +9,8 @@ interface Toast {
 export function useToast() {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const toast = ({ title, description, variant = "default" }: Toast) => {
+  // Stable across renders so components can list it in effect dependencies
+  const toast = useCallback(({ title, description, variant = "default" }: Toast) => {
     // Simple implementation - just log for now
     console.log(`Toast [${variant}]: ${title}`, description ? `- ${description}` : '');
 
@@ -21,7 +22,7 @@ export function useToast() {
       // Success messages can be more subtle
       console.info(`Success: ${title}${description ? ` - ${description}` : ''}`);
     }
-  };
+  }, []);
 
   return { toast, toasts };
 }
\ No newline at end of file
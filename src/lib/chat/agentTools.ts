@@ -0,0 +1,537 @@
+/**
+ * Agent mode for the chat route
+ *
+ * Instead of a single search on the last user message, the model gets retrieval
+ * tools and decides what to look up: several targeted searches, a metadata
+ * lookup, or a whole document section. Every passage a tool returns is
+ * registered under the next doc_N reference, so citations, the retrieval event,
+ * RAG weight and faithfulness work exactly as in single-search mode.
+ *
+ * Enabled per persona with the `agent` block of persona.config.json.
+ */
+
+import { tool, stepCountIs, type ToolSet, type PrepareStepFunction, type StopCondition } from 'ai';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { performSearch, hasFilters, type SearchFilters, type SearchResult } from '@/lib/rag/search';
+import { joinChunkTexts } from '@/lib/rag/search/contextExpansion';
+import { TokenCounter } from '@/lib/rag/chunking/smartChunker';
+import { findPatentCitations } from '@/lib/rag/storage/patentRelations';
+import { lookupGraphEntities } from '@/lib/rag/storage/knowledgeGraph';
+import { ENTITY_KINDS } from '@/lib/rag/ingestion/entityExtraction';
+import { formatRagContextEntry, type CitationSourceMetadata } from './ragContext';
+import type { RetrievedSource } from './streamProtocol';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface AgentModeConfig {
+  enabled?: boolean; // Default: false (single search up front)
+  max_steps?: number; // Model steps, tool rounds plus the final answer (default: 5)
+  max_results_per_search?: number; // Cap on passages per search_documents call (default: 6)
+  max_section_tokens?: number; // Cap on text returned by get_document (default: 4000)
+}
+
+export interface AgentToolCall {
+  tool: string;
+  input: unknown;
+  references: string[]; // doc_N references the call added to the context
+  summary: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentSession {
+  tools: ToolSet;
+  stopWhen: StopCondition<ToolSet>;
+  prepareStep: PrepareStepFunction<ToolSet>;
+  maxSteps: number;
+  // Registry shared with the chat route; grows as tools run
+  metadata: Map<string, CitationSourceMetadata>;
+  sources: RetrievedSource[];
+  searchResults: SearchResult[];
+  toolCalls: AgentToolCall[];
+  getContext: () => string;
+}
+
+interface AgentSessionOptions {
+  personaSlug: string;
+  conversationId?: string;
+  config: AgentModeConfig;
+  supabase: SupabaseServerClient;
+  onToolResult?: (call: AgentToolCall) => void;
+}
+
+const DEFAULT_MAX_STEPS = 5;
+const MAX_ALLOWED_STEPS = 10;
+const DEFAULT_MAX_RESULTS = 6;
+const DEFAULT_MAX_SECTION_TOKENS = 4000;
+const MAX_FIND_RESULTS = 25;
+const MAX_CITATION_RESULTS = 50;
+const MAX_GRAPH_ENTITIES = 5;
+const MAX_OUTLINE_SECTIONS = 60;
+const FIND_CANDIDATE_LIMIT = 200;
+
+/**
+ * Load the agent block of a persona's config
+ * Returns an empty (disabled) config if the persona or block is missing
+ */
+export async function getPersonaAgentConfig(
+  personaSlug: string,
+  supabase: SupabaseServerClient
+): Promise<AgentModeConfig> {
+  try {
+    const { data, error } = await supabase
+      .from('personas')
+      .select('config_json')
+      .eq('slug', personaSlug)
+      .single();
+
+    if (error || !data) return {};
+
+    const config = typeof data.config_json === 'string'
+      ? JSON.parse(data.config_json)
+      : data.config_json;
+
+    return (config?.agent as AgentModeConfig) ?? {};
+  } catch (error) {
+    console.warn('Error loading persona agent config:', error);
+    return {};
+  }
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const metadataFilterShape = {
+  doc_types: z.array(z.string()).optional().describe('Document types, e.g. ["patent"] or ["arxiv", "paper"]'),
+  date_from: isoDate.optional().describe('Earliest document date (YYYY-MM-DD)'),
+  date_to: isoDate.optional().describe('Latest document date (YYYY-MM-DD)'),
+  tags: z.array(z.string()).optional().describe('Match documents having any of these tags'),
+  identifiers: z.record(z.string()).optional().describe('Exact identifier matches, e.g. {"patent_number": "US10838134"}'),
+};
+
+type MetadataFilterInput = {
+  doc_types?: string[];
+  date_from?: string;
+  date_to?: string;
+  tags?: string[];
+  identifiers?: Record<string, string>;
+};
+
+function toSearchFilters(input: MetadataFilterInput): SearchFilters | undefined {
+  const filters: SearchFilters = {
+    docTypes: input.doc_types,
+    dateFrom: input.date_from,
+    dateTo: input.date_to,
+    tags: input.tags,
+    identifiers: input.identifiers,
+  };
+  return hasFilters(filters) ? filters : undefined;
+}
+
+/**
+ * Parent section match: "Claims" covers "Claims > Claim 3"
+ */
+function inSection(sectionPath: string, section: string): boolean {
+  return sectionPath === section || sectionPath.startsWith(`${section} > `);
+}
+
+/**
+ * Instructions appended to the system prompt in agent mode
+ */
+export function getAgentInstructions(maxSteps: number): string {
+  return `
+
+## Research Tools
+
+You have tools to research the knowledge base before answering:
+- search_documents: semantic + keyword search, optionally filtered by document type, date range, tags or identifiers
+- find_documents: list documents by metadata (type, date, tags, identifiers, title) without reading them
+- get_document: read a document by ID; without a section it returns the outline, with a section it returns that section's full text
+- patent_citations: citation links between the knowledge base's patents and other patents (by number, assignee or title), read from the patents' citation lists
+- graph_lookup: people, organizations, products and technologies by name, with the documents they relate to (inventor, author, assignee, mentions) and the entities they share documents with
+
+How to research:
+- Split multi-part questions into targeted searches (one per product, year, patent or sub-question)
+- To answer about specific documents (e.g. a patent's claims or inventors), locate them with find_documents, then read the relevant section with get_document
+- For questions about which patents cite or are cited by others (e.g. "which of our patents cite the Philips lenticular patents"), use patent_citations rather than searching text
+- For "who" and "which products" questions (e.g. "who invented our lenticular patents", "which products use eye tracking"), start with graph_lookup, then read the documents it names
+- You have at most ${maxSteps - 1} rounds of tool calls; then answer with what you found
+- If the tools return nothing relevant, say so rather than guessing
+
+Tool results are context documents. Cite them with [^doc_id:section] exactly as given in their [Reference: ^doc_id:section] header.`;
+}
+
+/**
+ * Create the tools and shared context registry for one chat turn
+ */
+export function createAgentSession({
+  personaSlug,
+  conversationId,
+  config,
+  supabase,
+  onToolResult,
+}: AgentSessionOptions): AgentSession {
+  const maxSteps = Math.min(Math.max(config.max_steps ?? DEFAULT_MAX_STEPS, 2), MAX_ALLOWED_STEPS);
+  const maxResults = config.max_results_per_search ?? DEFAULT_MAX_RESULTS;
+  const maxSectionTokens = config.max_section_tokens ?? DEFAULT_MAX_SECTION_TOKENS;
+
+  const metadata = new Map<string, CitationSourceMetadata>();
+  const sources: RetrievedSource[] = [];
+  const searchResults: SearchResult[] = [];
+  const toolCalls: AgentToolCall[] = [];
+  const blocks: string[] = [];
+  const refsByKey = new Map<string, number>(); // Registry key → index into searchResults
+
+  /**
+   * Add a passage to the context (once per key, the chunk ID by default)
+   * Returns the text to give the model: the context block, or a pointer to it
+   * if the passage was already returned by an earlier call.
+   */
+  const register = (result: SearchResult, key: string = result.chunkId): { docRef: string; output: string; isNew: boolean } => {
+    const existing = refsByKey.get(key);
+    if (existing !== undefined) {
+      const { docRef, sectionPath } = sources[existing];
+      return { docRef, output: `[Reference: ^${docRef}:${sectionPath}] (already retrieved above)`, isNew: false };
+    }
+
+    // doc_N must stay the N-th search result (faithfulness relies on it)
+    const docRef = `doc_${searchResults.length + 1}`;
+    const entry = formatRagContextEntry(result, docRef);
+    refsByKey.set(key, searchResults.length);
+    searchResults.push(result);
+    metadata.set(docRef, entry.metadata);
+    sources.push(entry.source);
+    blocks.push(entry.block);
+    return { docRef, output: entry.block, isNew: true };
+  };
+
+  /**
+   * Run a tool, log the call and turn failures into a message for the model
+   */
+  const logged = async (
+    toolName: string,
+    input: unknown,
+    run: () => Promise<{ output: string; references?: string[]; summary: string }>
+  ): Promise<string> => {
+    const startTime = Date.now();
+    let call: AgentToolCall;
+    let output: string;
+
+    try {
+      const result = await run();
+      output = result.output;
+      call = {
+        tool: toolName,
+        input,
+        references: result.references ?? [],
+        summary: result.summary,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      output = `Error: ${message}`;
+      call = { tool: toolName, input, references: [], summary: 'failed', error: message, durationMs: Date.now() - startTime };
+    }
+
+    toolCalls.push(call);
+    console.log(`🛠️ Agent tool ${toolName} (${call.durationMs}ms): ${call.summary}`, input);
+    onToolResult?.(call);
+    return output;
+  };
+
+  const tools = {
+    search_documents: tool({
+      description: 'Search the knowledge base for passages relevant to a focused query. Use one call per sub-question.',
+      inputSchema: z.object({
+        query: z.string().min(1).describe('A focused search query'),
+        ...metadataFilterShape,
+        limit: z.number().int().min(1).max(maxResults).optional().describe(`Passages to return (max ${maxResults})`),
+      }),
+      execute: async (input) => logged('search_documents', input, async () => {
+        const results = await performSearch(
+          input.query,
+          {
+            personaSlug,
+            limit: input.limit ?? maxResults,
+            conversationId,
+            filters: toSearchFilters(input),
+          },
+          supabase
+        );
+
+        if (results.length === 0) {
+          return { output: 'No matching passages.', summary: '0 results' };
+        }
+
+        const registered = results.map(result => register(result));
+        return {
+          output: registered.map(r => r.output).join('\n\n'),
+          references: registered.filter(r => r.isNew).map(r => r.docRef),
+          summary: `${results.length} results`,
+        };
+      }),
+    }),
+
+    find_documents: tool({
+      description: 'List documents matching metadata filters (type, date range, tags, identifiers, title). Returns document IDs and metadata, not content.',
+      inputSchema: z.object({
+        title_contains: z.string().optional().describe('Case-insensitive title substring'),
+        ...metadataFilterShape,
+        limit: z.number().int().min(1).max(MAX_FIND_RESULTS).optional().describe(`Documents to return (max ${MAX_FIND_RESULTS})`),
+      }),
+      execute: async (input) => logged('find_documents', input, async () => {
+        let query = supabase
+          .from('docs')
+          .select('id, title, type, date, tags, identifiers')
+          .contains('personas', [personaSlug]);
+
+        if (input.doc_types?.length) query = query.in('type', input.doc_types);
+        if (input.date_from) query = query.gte('date', input.date_from);
+        if (input.date_to) query = query.lte('date', input.date_to);
+        if (input.title_contains) {
+          query = query.ilike('title', `%${input.title_contains.replace(/[%_\\]/g, '\\$&')}%`);
+        }
+
+        const { data, error } = await query
+          .order('date', { ascending: false, nullsFirst: false })
+          .limit(FIND_CANDIDATE_LIMIT);
+
+        if (error) {
+          throw new Error(`Document lookup failed: ${error.message}`);
+        }
+
+        // Tags and identifiers match case-insensitively, as in search filters
+        const wantedTags = (input.tags ?? []).map(t => t.toLowerCase());
+        const wantedIdentifiers = Object.entries(input.identifiers ?? {});
+        const docs = (data || []).filter((doc: {
+          tags: string[] | null;
+          identifiers: Record<string, string> | null;
+        }) =>
+          (wantedTags.length === 0 || (doc.tags ?? []).some(tag => wantedTags.includes(String(tag).toLowerCase()))) &&
+          wantedIdentifiers.every(([key, value]) =>
+            String(doc.identifiers?.[key] ?? '').toLowerCase() === value.toLowerCase()
+          )
+        ).slice(0, input.limit ?? 10);
+
+        if (docs.length === 0) {
+          return { output: 'No matching documents.', summary: '0 documents' };
+        }
+
+        const output = docs.map((doc: {
+          id: string;
+          title: string | null;
+          type: string | null;
+          date: string | null;
+          tags: string[] | null;
+          identifiers: Record<string, string> | null;
+        }) => {
+          const identifiers = Object.entries(doc.identifiers ?? {}).map(([k, v]) => `${k}=${v}`).join(', ');
+          return [
+            `- id: ${doc.id}`,
+            `  title: ${doc.title || doc.id}`,
+            `  type: ${doc.type || 'unknown'}, date: ${doc.date || 'unknown'}`,
+            doc.tags?.length ? `  tags: ${doc.tags.join(', ')}` : null,
+            identifiers ? `  identifiers: ${identifiers}` : null,
+          ].filter(Boolean).join('\n');
+        }).join('\n');
+
+        return { output, summary: `${docs.length} documents` };
+      }),
+    }),
+
+    patent_citations: tool({
+      description: 'Find citation links between knowledge base patents and other patents. direction "cites": knowledge base patents citing the matching patents; "cited_by": knowledge base patents cited by them. Filters apply to the other patent. Returns document IDs and citation metadata, not content.',
+      inputSchema: z.object({
+        direction: z.enum(['cites', 'cited_by']).describe('"cites" for patents that cite the matches, "cited_by" for patents cited by the matches'),
+        patent_number: z.string().optional().describe('Publication number of the other patent, e.g. US6064424A'),
+        assignee: z.string().optional().describe('Case-insensitive substring of the other patent\'s assignee, e.g. "Philips"'),
+        title_contains: z.string().optional().describe('Case-insensitive substring of the other patent\'s title'),
+        limit: z.number().int().min(1).max(MAX_CITATION_RESULTS).optional().describe(`Citations to return (max ${MAX_CITATION_RESULTS})`),
+      }),
+      execute: async (input) => logged('patent_citations', input, async () => {
+        if (!input.patent_number && !input.assignee && !input.title_contains) {
+          return { output: 'Provide patent_number, assignee or title_contains.', summary: 'no filters' };
+        }
+
+        const citations = await findPatentCitations(supabase, {
+          personaSlug,
+          direction: input.direction,
+          patentNumber: input.patent_number,
+          assignee: input.assignee,
+          titleContains: input.title_contains,
+          limit: input.limit ?? MAX_CITATION_RESULTS,
+        });
+
+        if (citations.length === 0) {
+          return { output: 'No matching citations.', summary: '0 citations' };
+        }
+
+        const verb = input.direction === 'cites' ? 'cites' : 'is cited by';
+        const output = citations.map(c => [
+          `- ${c.docTitle} (id: ${c.docId}) ${verb} ${c.target}`,
+          c.title ? `  title: ${c.title}` : null,
+          c.assignee ? `  assignee: ${c.assignee}` : null,
+          c.examinerCited || c.familyCitation
+            ? `  ${[c.examinerCited && 'cited by examiner', c.familyCitation && 'family citation'].filter(Boolean).join(', ')}`
+            : null,
+          c.targetDocIds.length ? `  in knowledge base: ${c.targetDocIds.join(', ')}` : null,
+        ].filter(Boolean).join('\n')).join('\n');
+
+        return { output, summary: `${citations.length} citations` };
+      }),
+    }),
+
+    graph_lookup: tool({
+      description: 'Look up people, organizations, products or technologies by name or alias. Returns their relations to documents and other entities, and entities sharing documents with them (e.g. inventors of an assignee\'s patents, products mentioned alongside a technology).',
+      inputSchema: z.object({
+        name: z.string().min(2).describe('Entity name or alias, e.g. "Philips" or "eye tracking"'),
+        kind: z.enum(ENTITY_KINDS).optional().describe('Only entities of this kind'),
+        related_kind: z.enum(ENTITY_KINDS).optional().describe('Only list related entities of this kind, e.g. "person" for who questions, "product" for which-products questions'),
+      }),
+      execute: async (input) => logged('graph_lookup', input, async () => {
+        const entities = await lookupGraphEntities(supabase, {
+          personaSlug,
+          name: input.name,
+          kind: input.kind,
+          relatedKind: input.related_kind,
+          limit: MAX_GRAPH_ENTITIES,
+        });
+
+        if (entities.length === 0) {
+          return { output: `No entities matching "${input.name}".`, summary: '0 entities' };
+        }
+
+        const output = entities.map(entity => [
+          `- ${entity.name} (${entity.kind}, id: ${entity.id})`,
+          entity.aliases.length ? `  also known as: ${entity.aliases.join(', ')}` : null,
+          ...entity.relations.map(r => {
+            const target = r.type === 'document' ? `document ${r.id} "${r.name}"` : `${r.kind} ${r.name}`;
+            return r.direction === 'outgoing'
+              ? `  ${r.relationship} ${target}`
+              : `  ${target} ${r.relationship} this`;
+          }),
+          entity.related.length
+            ? `  shares documents with: ${entity.related.map(e => `${e.name} (${e.kind}, ${e.sharedDocuments})`).join(', ')}`
+            : null,
+        ].filter(Boolean).join('\n')).join('\n');
+
+        return { output, summary: `${entities.length} entities` };
+      }),
+    }),
+
+    get_document: tool({
+      description: 'Read a document by ID. Without a section, returns its outline (section paths). With a section, returns the full text of that section and its subsections.',
+      inputSchema: z.object({
+        doc_id: z.string().min(1).describe('Document ID, e.g. from find_documents or a search result'),
+        section: z.string().optional().describe('Section path from the outline, e.g. "Claims" or "Description > Background"'),
+      }),
+      execute: async (input) => logged('get_document', input, async () => {
+        // Only documents assigned to this persona are readable
+        const { data: doc, error: docError } = await supabase
+          .from('docs')
+          .select('id, title, type, source_url')
+          .eq('id', input.doc_id)
+          .contains('personas', [personaSlug])
+          .maybeSingle();
+
+        if (docError) {
+          throw new Error(`Document lookup failed: ${docError.message}`);
+        }
+        if (!doc) {
+          return { output: `Document "${input.doc_id}" not found.`, summary: 'not found' };
+        }
+
+        const { data: chunkRows, error: chunkError } = await supabase
+          .from('chunks')
+          .select('id, section_path, text, token_count, chunk_index, created_at')
+          .eq('doc_id', doc.id);
+
+        if (chunkError) {
+          throw new Error(`Failed to load document sections: ${chunkError.message}`);
+        }
+
+        const chunks = ((chunkRows || []) as Array<{
+          id: string;
+          section_path: string;
+          text: string;
+          token_count: number | null;
+          chunk_index: number | null;
+          created_at: string;
+        }>).sort((a, b) =>
+          (a.chunk_index ?? Number.MAX_SAFE_INTEGER) - (b.chunk_index ?? Number.MAX_SAFE_INTEGER) ||
+          a.created_at.localeCompare(b.created_at) ||
+          a.id.localeCompare(b.id)
+        );
+
+        if (!input.section) {
+          const outline = new Map<string, number>();
+          for (const chunk of chunks) {
+            outline.set(chunk.section_path, (outline.get(chunk.section_path) ?? 0) + (chunk.token_count ?? 0));
+          }
+          const lines = Array.from(outline.entries())
+            .slice(0, MAX_OUTLINE_SECTIONS)
+            .map(([section, tokens]) => `- ${section} (~${tokens} tokens)`);
+          const more = outline.size > MAX_OUTLINE_SECTIONS ? `\n(${outline.size - MAX_OUTLINE_SECTIONS} more sections)` : '';
+          return {
+            output: `Document: ${doc.title || doc.id} (${doc.type || 'unknown type'})\nSections:\n${lines.join('\n')}${more}`,
+            summary: `outline, ${outline.size} sections`,
+          };
+        }
+
+        const sectionChunks = chunks.filter(c => inSection(c.section_path, input.section!));
+        if (sectionChunks.length === 0) {
+          return {
+            output: `Section "${input.section}" not found in ${doc.id}. Call get_document without a section to see the outline.`,
+            summary: 'section not found',
+          };
+        }
+
+        // Join in document order until the token cap
+        const tokenCounter = new TokenCounter();
+        let text = '';
+        let tokens = 0;
+        const includedIds: string[] = [];
+        for (const chunk of sectionChunks) {
+          const chunkTokens = chunk.token_count ?? tokenCounter.count(chunk.text);
+          if (includedIds.length > 0 && tokens + chunkTokens > maxSectionTokens) break;
+          text = text ? joinChunkTexts(text, chunk.text) : chunk.text;
+          tokens += chunkTokens;
+          includedIds.push(chunk.id);
+        }
+        const truncated = includedIds.length < sectionChunks.length;
+
+        const { docRef, output, isNew } = register({
+          chunkId: includedIds[0],
+          docId: doc.id,
+          sectionPath: input.section,
+          text: truncated ? `${text}\n\n[Section truncated]` : text,
+          score: 1,
+          docTitle: doc.title ?? undefined,
+          docType: doc.type ?? undefined,
+          sourceUrl: doc.source_url ?? undefined,
+          expandedChunkIds: includedIds,
+          tokenCount: tokens,
+        }, `${doc.id}#${input.section}`);
+
+        return {
+          output,
+          references: isNew ? [docRef] : [],
+          summary: `${includedIds.length}/${sectionChunks.length} chunks, ~${tokens} tokens`,
+        };
+      }),
+    }),
+  } satisfies ToolSet;
+
+  return {
+    tools,
+    stopWhen: stepCountIs(maxSteps),
+    // The last step must produce the answer, not another tool call
+    prepareStep: ({ stepNumber }) => stepNumber >= maxSteps - 1 ? { toolChoice: 'none' } : undefined,
+    maxSteps,
+    metadata,
+    sources,
+    searchResults,
+    toolCalls,
+    getContext: () => blocks.join('\n\n'),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Branching conversations
+ *
+ * Messages form a tree: each message points at the message it replies to
+ * (`parent_id`), and regenerated answers or edited questions are added as
+ * siblings of the message they replace, numbered by `branch_index`. The
+ * conversation's `active_message_id` is the last message of the branch being
+ * viewed; the active branch is the path from it back to the first message.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Regenerate an assistant answer, or edit and resend a user question
+ * `messageId` is the message being replaced (it stays available as a sibling branch).
+ */
+export interface BranchRequest {
+  action: 'regenerate' | 'edit';
+  messageId: string;
+}
+
+/**
+ * Where a new message goes in the tree
+ */
+export interface BranchPosition {
+  parentId: string | null;
+  branchIndex: number;
+}
+
+/**
+ * Stored message fields the tree is built from
+ */
+export interface BranchNode {
+  id: string;
+  parent_id: string | null;
+  branch_index: number;
+  created_at: string;
+}
+
+/**
+ * A message's place among its siblings, for branch navigation
+ */
+export interface BranchInfo {
+  index: number; // Position among the siblings (0-based)
+  count: number;
+  siblingIds: string[]; // In branch order, including the message itself
+}
+
+function byBranchOrder(a: BranchNode, b: BranchNode): number {
+  return a.branch_index - b.branch_index || a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Messages on the branch ending at `activeMessageId`, first message first
+ * Falls back to the most recent message when no (known) active message is set.
+ */
+export function getActivePath<T extends BranchNode>(messages: T[], activeMessageId: string | null | undefined): T[] {
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const latest = messages.reduce((a, b) => (b.created_at > a.created_at ? b : a));
+
+  const path: T[] = [];
+  const seen = new Set<string>();
+  let current: T | undefined = (activeMessageId && byId.get(activeMessageId)) || latest;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Last message of the branch through `messageId`, following the most recent reply at each step
+ */
+export function findLatestLeaf(messages: BranchNode[], messageId: string): string {
+  const children = new Map<string, BranchNode[]>();
+  for (const m of messages) {
+    if (!m.parent_id) continue;
+    children.set(m.parent_id, [...(children.get(m.parent_id) ?? []), m]);
+  }
+
+  let leafId = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const replies = children.get(leafId);
+    if (!replies || replies.length === 0) break;
+    leafId = replies.reduce((a, b) => (b.created_at > a.created_at ? b : a)).id;
+  }
+
+  return leafId;
+}
+
+/**
+ * Sibling navigation info for a message
+ */
+export function getBranchInfo(messages: BranchNode[], message: BranchNode): BranchInfo {
+  const siblings = messages
+    .filter(m => m.parent_id === message.parent_id)
+    .sort(byBranchOrder);
+
+  return {
+    index: Math.max(0, siblings.findIndex(m => m.id === message.id)),
+    count: siblings.length,
+    siblingIds: siblings.map(m => m.id),
+  };
+}
+
+/**
+ * The active branch of a conversation, each message annotated with its siblings
+ */
+export function toActiveBranch<T extends BranchNode>(
+  messages: T[],
+  activeMessageId: string | null | undefined
+): Array<T & { branch: BranchInfo }> {
+  return getActivePath(messages, activeMessageId).map(m => ({ ...m, branch: getBranchInfo(messages, m) }));
+}
+
+/**
+ * Number of leading messages two branches share
+ */
+export function countSharedMessages(a: BranchNode[], b: BranchNode[]): number {
+  let shared = 0;
+  while (shared < a.length && shared < b.length && a[shared].id === b[shared].id) {
+    shared++;
+  }
+  return shared;
+}
+
+/**
+ * Last message of the conversation's active branch (what a new message replies to)
+ */
+export async function getActiveMessageId(
+  conversationId: string,
+  supabase: SupabaseServerClient
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('active_message_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Could not load the active branch:', error.message);
+    return null;
+  }
+
+  return data?.active_message_id ?? null;
+}
+
+/**
+ * Position for a new sibling of the message a regenerate or edit replaces
+ * Returns null when the message is not in the conversation or has the wrong role
+ * (regenerate replaces an assistant answer, edit a user question).
+ */
+export async function resolveBranchPosition(
+  conversationId: string,
+  branch: BranchRequest,
+  supabase: SupabaseServerClient
+): Promise<BranchPosition | null> {
+  const { data: target, error } = await supabase
+    .from('messages')
+    .select('id, role, parent_id')
+    .eq('id', branch.messageId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+
+  const expectedRole = branch.action === 'regenerate' ? 'assistant' : 'user';
+  if (error || !target || target.role !== expectedRole) return null;
+
+  let siblings = supabase
+    .from('messages')
+    .select('branch_index')
+    .eq('conversation_id', conversationId);
+  siblings = target.parent_id ? siblings.eq('parent_id', target.parent_id) : siblings.is('parent_id', null);
+
+  const { data: last } = await siblings
+    .order('branch_index', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    parentId: target.parent_id,
+    branchIndex: (last?.branch_index ?? 0) + 1,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Conversation export
+ *
+ * Builds a portable copy of a conversation's active branch, with each answer's
+ * citations resolved to documents through `message_citations`. Used for owner
+ * exports (Markdown, JSON, print-to-PDF) and for read-only share links, so it
+ * contains no user identifiers, feedback or internal scores.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { parseCitations } from '@/lib/rag/citations/parser';
+import { getActivePath, type BranchNode } from './branching';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type ExportFormat = 'markdown' | 'json';
+
+export interface ExportedCitation {
+  number: number; // Footnote number within the message (as shown in the app)
+  docRef: string; // doc_N reference in the message text
+  section: string;
+  documentId?: string;
+  title?: string;
+  sourceUrl?: string;
+}
+
+export interface ExportedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string; // As stored, with [^doc_N:section] citation markers
+  created_at: string;
+  citations: ExportedCitation[];
+}
+
+export interface ConversationExport {
+  id: string;
+  title: string;
+  persona: { slug: string; name: string; expertise?: string; avatar_url?: string } | null;
+  created_at: string;
+  exported_at: string;
+  messages: ExportedMessage[];
+}
+
+interface StoredMessage extends BranchNode {
+  role: 'user' | 'assistant';
+  content: string;
+  metadata?: { citationMetadata?: Array<{ docRef: string; docId?: string; docTitle?: string; sourceUrl?: string }> } | null;
+}
+
+const CITATION_MARKER = /\[\^([^:\]]+):([^\]]+)\]/g;
+
+/**
+ * Build the export of a conversation's active branch
+ * Access is the caller's responsibility (owner check or share token).
+ *
+ * @param conversation - Conversation row (id, title, persona_id, active_message_id, created_at)
+ */
+export async function buildConversationExport(
+  conversation: {
+    id: string;
+    title?: string | null;
+    persona_id?: string | null;
+    active_message_id?: string | null;
+    created_at: string;
+  },
+  supabase: SupabaseServerClient
+): Promise<ConversationExport> {
+  const [{ data: rows, error }, { data: persona }] = await Promise.all([
+    supabase
+      .from('messages')
+      .select('id, role, content, created_at, metadata, parent_id, branch_index')
+      .eq('conversation_id', conversation.id)
+      .order('created_at', { ascending: true }),
+    conversation.persona_id
+      ? supabase
+          .from('personas')
+          .select('slug, name, expertise, avatar_url')
+          .eq('id', conversation.persona_id)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load messages: ${error.message}`);
+  }
+
+  const messages = getActivePath((rows || []) as StoredMessage[], conversation.active_message_id);
+  const assistantIds = messages.filter(m => m.role === 'assistant').map(m => m.id);
+
+  // Citations stored per answer, and the documents they point at
+  const { data: citationRows } = assistantIds.length > 0
+    ? await supabase
+        .from('message_citations')
+        .select('message_id, document_id, marker')
+        .in('message_id', assistantIds)
+    : { data: [] };
+
+  const documentIds = [...new Set((citationRows || []).map((c: any) => c.document_id).filter(Boolean))];
+  const { data: docs } = documentIds.length > 0
+    ? await supabase
+        .from('docs')
+        .select('id, title, source_url')
+        .in('id', documentIds)
+    : { data: [] };
+
+  const docsById = new Map<string, { title?: string; source_url?: string }>(
+    (docs || []).map((d: any) => [d.id, d])
+  );
+  const documentByMarker = new Map<string, string>(
+    (citationRows || []).map((c: any) => [`${c.message_id}|${c.marker}`, c.document_id])
+  );
+
+  return {
+    id: conversation.id,
+    title: conversation.title || 'Untitled conversation',
+    persona: persona
+      ? {
+          slug: persona.slug,
+          name: persona.name,
+          expertise: persona.expertise ?? undefined,
+          avatar_url: persona.avatar_url ?? undefined,
+        }
+      : null,
+    created_at: conversation.created_at,
+    exported_at: new Date().toISOString(),
+    messages: messages.map(m => {
+      if (m.role !== 'assistant') {
+        return { id: m.id, role: m.role, content: m.content, created_at: m.created_at, citations: [] };
+      }
+
+      // Same numbering as the app; stored metadata is the fallback for unresolved markers
+      const metadata = new Map((m.metadata?.citationMetadata || []).map(item => [item.docRef, item]));
+      const { citations } = parseCitations(m.content);
+
+      return {
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        created_at: m.created_at,
+        citations: citations.map(citation => {
+          const documentId = documentByMarker.get(`${m.id}|[^${citation.id}]`) ?? metadata.get(citation.docId)?.docId;
+          const doc = documentId ? docsById.get(documentId) : undefined;
+          return {
+            number: citation.number,
+            docRef: citation.docId,
+            section: citation.sectionPath,
+            ...(documentId && { documentId }),
+            title: doc?.title ?? metadata.get(citation.docId)?.docTitle,
+            sourceUrl: doc?.source_url ?? metadata.get(citation.docId)?.sourceUrl,
+          };
+        }),
+      };
+    }),
+  };
+}
+
+function formatFootnote(citation: ExportedCitation, label: number): string {
+  const title = citation.title || citation.docRef;
+  const source = citation.sourceUrl ? `[${title}](${citation.sourceUrl})` : title;
+  return `[^${label}]: ${source}, §${citation.section}`;
+}
+
+/**
+ * Render an export as Markdown with citation footnotes
+ * Footnotes are numbered through the whole conversation so labels stay unique.
+ */
+export function toMarkdownExport(data: ConversationExport): string {
+  const assistantName = data.persona?.name || 'Assistant';
+  const lines: string[] = [
+    `# ${data.title}`,
+    '',
+    `_Conversation${data.persona ? ` with ${data.persona.name}` : ''}, ${new Date(data.created_at).toDateString()}_`,
+  ];
+
+  let footnoteOffset = 0;
+  for (const message of data.messages) {
+    lines.push('', '---', '', `**${message.role === 'user' ? 'You' : assistantName}**`, '');
+
+    if (message.role === 'user' || message.citations.length === 0) {
+      lines.push(message.content.replace(CITATION_MARKER, ''));
+      continue;
+    }
+
+    const numberById = new Map(message.citations.map(c => [`${c.docRef}:${c.section}`, c.number]));
+    lines.push(
+      message.content.replace(CITATION_MARKER, (marker, docRef: string, section: string) => {
+        const number = numberById.get(`${docRef}:${section}`);
+        return number ? `[^${footnoteOffset + number}]` : '';
+      })
+    );
+    lines.push('', ...message.citations.map(c => formatFootnote(c, footnoteOffset + c.number)));
+    footnoteOffset += message.citations.length;
+  }
+
+  lines.push('', '---', '', `_Exported ${new Date(data.exported_at).toUTCString()}_`, '');
+  return lines.join('\n');
+}
+
+/**
+ * File name for a downloaded export
+ */
+export function exportFileName(data: ConversationExport, format: ExportFormat): string {
+  const slug = data.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'conversation';
+  return `${slug}.${format === 'markdown' ? 'md' : 'json'}`;
+}
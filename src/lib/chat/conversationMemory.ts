@@ -0,0 +1,235 @@
+/**
+ * Rolling memory for long conversations
+ *
+ * Once the history sent with a turn passes SUMMARY_TRIGGER_TOKENS, the older
+ * messages are folded into `conversations.context_summary` and only the recent
+ * ones are sent verbatim. The summary goes into the system prompt and query
+ * reformulation, so constraints stated early in a thread survive.
+ *
+ * `context_summary_message_count` records how many leading messages the summary
+ * covers. `history_tokens` records what the full transcript would cost, for
+ * admin analytics.
+ */
+
+import { generateText } from 'ai';
+import { createClient } from '@/lib/supabase/server';
+import { TokenCounter } from '@/lib/rag/chunking/smartChunker';
+import { getLanguageModel, type ModelSpec } from '@/lib/llm/models';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationMemory {
+  summary: string | null;
+  summarizedCount: number; // Leading messages covered by the summary
+}
+
+export interface ConversationHistory {
+  messages: HistoryMessage[]; // Sent verbatim
+  summary?: string; // Stands in for the messages left out
+  summarizedCount: number;
+  historyTokens: number; // Full transcript
+  sentTokens: number; // Summary plus verbatim messages
+}
+
+const SUMMARY_TRIGGER_TOKENS = 6000;
+const RECENT_MESSAGES_KEPT = 6; // Always sent verbatim (3 turns)
+const MIN_MESSAGES_TO_FOLD = 4; // Don't re-summarize for a single turn
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and framing per message
+const MAX_FOLDED_MESSAGE_CHARS = 6000; // Long answers are cut before summarizing
+const SUMMARY_MAX_OUTPUT_TOKENS = 600;
+
+const EMPTY_MEMORY: ConversationMemory = { summary: null, summarizedCount: 0 };
+
+/**
+ * Estimate the tokens a list of messages costs as model input
+ */
+export function countHistoryTokens(messages: HistoryMessage[], counter: TokenCounter = new TokenCounter()): number {
+  return messages.reduce((sum, m) => sum + counter.count(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Load the stored summary for a conversation
+ */
+export async function loadConversationMemory(
+  conversationId: string | null,
+  supabase: SupabaseServerClient
+): Promise<ConversationMemory> {
+  if (!conversationId) return EMPTY_MEMORY;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('context_summary, context_summary_message_count')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Could not load conversation summary:', error.message);
+    return EMPTY_MEMORY;
+  }
+  if (!data?.context_summary) return EMPTY_MEMORY;
+
+  return {
+    summary: data.context_summary,
+    summarizedCount: data.context_summary_message_count ?? 0,
+  };
+}
+
+// A summary only applies while the thread still extends past what it covers
+// (an edited or truncated history falls back to sending everything)
+function usableMemory(memory: ConversationMemory, messageCount: number): ConversationMemory {
+  return memory.summary && memory.summarizedCount > 0 && memory.summarizedCount < messageCount
+    ? memory
+    : EMPTY_MEMORY;
+}
+
+/**
+ * Replace the summarized part of a thread with its summary
+ */
+export function applyConversationMemory(
+  messages: HistoryMessage[],
+  memory: ConversationMemory
+): ConversationHistory {
+  const counter = new TokenCounter();
+  const historyTokens = countHistoryTokens(messages, counter);
+  const { summary, summarizedCount } = usableMemory(memory, messages.length);
+
+  if (!summary) {
+    return { messages, summarizedCount: 0, historyTokens, sentTokens: historyTokens };
+  }
+
+  const recent = messages.slice(summarizedCount);
+  return {
+    messages: recent,
+    summary,
+    summarizedCount,
+    historyTokens,
+    sentTokens: counter.count(summary) + countHistoryTokens(recent, counter),
+  };
+}
+
+/**
+ * System prompt section carrying the summary
+ */
+export function formatSummaryForPrompt(summary: string): string {
+  return `
+
+## Earlier in This Conversation
+
+The start of this conversation has been summarized below; the recent messages follow in full. Keep honoring the constraints, preferences and decisions it records.
+
+${summary}`;
+}
+
+async function summarizeMessages(
+  previousSummary: string | null,
+  messages: HistoryMessage[],
+  model: ModelSpec
+): Promise<string> {
+  const transcript = messages
+    .map(m => {
+      // Citation markers refer to per-turn context, so they mean nothing later
+      const content = m.content.replace(/\[\^doc_\d+:[^\]]+\]/g, '').trim();
+      const clipped = content.length > MAX_FOLDED_MESSAGE_CHARS
+        ? `${content.slice(0, MAX_FOLDED_MESSAGE_CHARS)} [...]`
+        : content;
+      return `${m.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+    })
+    .join('\n\n');
+
+  const prompt = `You maintain the running summary of a long research conversation. Update the summary so it covers the new messages as well.
+
+# Instructions
+1. Keep every constraint, preference and scope the user stated (e.g. time ranges, technologies, what to exclude)
+2. Keep decisions, conclusions and open questions
+3. Keep the documents, patents, people and figures that were discussed, with key numbers
+4. Drop pleasantries and repetition; write compact bullet points
+5. Stay under 400 words
+
+# Current Summary
+${previousSummary || '(none yet)'}
+
+# New Messages
+${transcript}
+
+# Task
+Output ONLY the updated summary.`;
+
+  const result = await generateText({
+    model: getLanguageModel(model),
+    prompt,
+    temperature: 0.2,
+    maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+  });
+
+  return result.text.trim();
+}
+
+/**
+ * Record the thread's token cost and fold older messages into the summary when it grows too long
+ * Runs after the turn is stored; failures are logged, never thrown.
+ *
+ * @param transcript - The full thread including the new assistant reply
+ * @param memory - The memory the turn was answered with (empty when no summary was used)
+ * @param model - Summarization model (the persona's reformulation model)
+ */
+export async function updateConversationMemory(
+  conversationId: string,
+  transcript: HistoryMessage[],
+  memory: ConversationMemory,
+  model: ModelSpec,
+  supabase: SupabaseServerClient
+): Promise<void> {
+  try {
+    const counter = new TokenCounter();
+    const current = usableMemory(memory, transcript.length);
+    const historyTokens = countHistoryTokens(transcript, counter);
+    const sentTokens = current.summary
+      ? counter.count(current.summary) + countHistoryTokens(transcript.slice(current.summarizedCount), counter)
+      : historyTokens;
+
+    // No summary in use (short thread, or the stored one covers messages another
+    // branch replaced): drop the stored summary so it can't resurface later
+    const update: Record<string, unknown> = {
+      history_tokens: historyTokens,
+      ...(!current.summary && { context_summary: null, context_summary_message_count: 0 }),
+    };
+
+    // Fold everything before the recent window, starting the kept part on a user message
+    let foldEnd = transcript.length - RECENT_MESSAGES_KEPT;
+    while (foldEnd > current.summarizedCount && transcript[foldEnd]?.role !== 'user') {
+      foldEnd--;
+    }
+
+    if (sentTokens > SUMMARY_TRIGGER_TOKENS && foldEnd - current.summarizedCount >= MIN_MESSAGES_TO_FOLD) {
+      const startTime = Date.now();
+      const summary = await summarizeMessages(
+        current.summary,
+        transcript.slice(current.summarizedCount, foldEnd),
+        model
+      );
+
+      if (summary) {
+        update.context_summary = summary;
+        update.context_summary_message_count = foldEnd;
+        update.context_summary_updated_at = new Date().toISOString();
+        console.log(`🧠 Conversation summary updated in ${Date.now() - startTime}ms: ${foldEnd} messages summarized (${historyTokens} history tokens → ${counter.count(summary)} summary tokens)`);
+      }
+    }
+
+    const { error } = await supabase
+      .from('conversations')
+      .update(update)
+      .eq('id', conversationId);
+
+    if (error) {
+      console.error('Failed to store conversation memory:', error);
+    }
+  } catch (error) {
+    console.error('Conversation summarization failed:', error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Message feedback
+ *
+ * Users rate assistant answers as helpful (1) or not (-1). Negative ratings can
+ * carry a reason category, a free-text correction and the URL of a source the
+ * answer should have used. Admin analytics aggregates the ratings and gap
+ * analysis treats downvoted answers as reported failures.
+ *
+ * Shared by the feedback API and the chat UI, so it has no server imports.
+ */
+
+import type { FeedbackRating, FeedbackReason, MessageFeedback } from '@/lib/types';
+
+export const FEEDBACK_REASONS: Record<FeedbackReason, string> = {
+  incorrect: 'Incorrect',
+  incomplete: 'Incomplete',
+  outdated: 'Outdated',
+  bad_citation: 'Wrong citation',
+  missing_source: 'Missing source',
+  not_relevant: 'Not relevant',
+  other: 'Other',
+};
+
+const MAX_CORRECTION_CHARS = 4000;
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  correction?: string | null;
+  missing_source_url?: string | null;
+}
+
+function isFeedbackReason(value: unknown): value is FeedbackReason {
+  return typeof value === 'string' && Object.hasOwn(FEEDBACK_REASONS, value);
+}
+
+/**
+ * Validate and normalize feedback from a request body
+ * Returns an error message for invalid input. Reason, correction and missing
+ * source only apply to negative ratings and are dropped from positive ones.
+ */
+export function parseFeedbackInput(body: unknown): { feedback: FeedbackInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  if (input.rating !== 1 && input.rating !== -1) {
+    return { error: 'rating must be 1 (helpful) or -1 (not helpful)' };
+  }
+  if (input.rating === 1) {
+    return { feedback: { rating: 1, reason: null, correction: null, missing_source_url: null } };
+  }
+
+  if (input.reason != null && !isFeedbackReason(input.reason)) {
+    return { error: `reason must be one of: ${Object.keys(FEEDBACK_REASONS).join(', ')}` };
+  }
+
+  const correction = typeof input.correction === 'string' ? input.correction.trim() : '';
+  if (correction.length > MAX_CORRECTION_CHARS) {
+    return { error: `correction must be at most ${MAX_CORRECTION_CHARS} characters` };
+  }
+
+  const url = typeof input.missing_source_url === 'string' ? input.missing_source_url.trim() : '';
+  if (url) {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error('protocol');
+    } catch {
+      return { error: 'missing_source_url must be an http(s) URL' };
+    }
+  }
+
+  return {
+    feedback: {
+      rating: -1,
+      reason: (input.reason as FeedbackReason | undefined) ?? (url ? 'missing_source' : null),
+      correction: correction || null,
+      missing_source_url: url || null,
+    },
+  };
+}
+
+/**
+ * One-line description of feedback, for prompts and tables
+ */
+export function describeFeedback(feedback: Pick<MessageFeedback, 'rating' | 'reason' | 'correction' | 'missing_source_url'>): string {
+  if (feedback.rating > 0) return 'helpful';
+
+  const parts = [feedback.reason ? FEEDBACK_REASONS[feedback.reason] : 'not helpful'];
+  if (feedback.correction) parts.push(`correction: "${feedback.correction}"`);
+  if (feedback.missing_source_url) parts.push(`missing source: ${feedback.missing_source_url}`);
+  return parts.join('; ');
+}
@@ -0,0 +1,240 @@
+/**
+ * Server-side persistence of chat turns
+ *
+ * The chat route stores the user message before streaming and the assistant
+ * message once the stream finishes, together with its citations, RAG weight and
+ * faithfulness score. Everything is derived from the RAG context the server
+ * actually used, so analytics can't be forged by the client.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { saveCitations, type CitationMetadata } from '@/lib/rag/citations/saveCitations';
+import { calculateRagWeight } from '@/lib/rag/analytics/ragWeight';
+import { evaluateFaithfulness } from '@/lib/rag/analytics/faithfulness';
+import type { SearchResult } from '@/lib/rag/search';
+import type { AgentToolCall } from './agentTools';
+import type { TurnClassification } from './turnClassifier';
+import type { ContextChunkRef } from './turnRetrieval';
+import type { ScopeDecision } from './scopeGuard';
+import { getActiveMessageId, type BranchPosition } from './branching';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface AssistantTurn {
+  conversationId: string;
+  content: string;
+  citationMetadata: CitationMetadata[];
+  ragContext?: string;
+  searchResults?: SearchResult[];
+  agent?: { steps: number; toolCalls: AgentToolCall[] }; // Agent mode: tool calls behind the answer
+  turn?: TurnClassification;
+  contextChunks?: ContextChunkRef[]; // Chunks the answer was given, reused by same-sources turns
+  scope?: ScopeDecision | null; // Scope guard verdict (off-topic answers are refusals)
+  branch?: BranchPosition; // Regenerated answers: sibling of the answer they replace
+}
+
+export interface UserMessageOptions {
+  scope?: ScopeDecision | null; // Scope guard verdict
+  branch?: BranchPosition; // Edited questions: sibling of the question they replace
+}
+
+/**
+ * Resolve the conversation to persist into, if the caller owns it
+ * Returns null for guests, service-role callers (Slack, MCP store their own
+ * messages) and conversations belonging to someone else.
+ */
+export async function getPersistableConversation(
+  conversationId: string | undefined,
+  supabase: SupabaseServerClient
+): Promise<string | null> {
+  if (!conversationId) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('user_id', user.id)
+    .single();
+
+  return conversation?.id ?? null;
+}
+
+// The new message becomes the end of the active branch
+async function touchConversation(
+  conversationId: string,
+  messageId: string,
+  supabase: SupabaseServerClient
+): Promise<void> {
+  await supabase
+    .from('conversations')
+    .update({
+      active_message_id: messageId,
+      last_message_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', conversationId);
+}
+
+/**
+ * Store the user message for a turn, tagged with the scope guard verdict
+ * Replies to the end of the active branch, unless it is an edited question. Skipped
+ * when it already ends the active branch (the first message of a new conversation
+ * is saved when the conversation is created); only the verdict is added then.
+ * Returns the message ID (null if it could not be stored).
+ */
+export async function saveUserMessage(
+  conversationId: string,
+  content: string,
+  supabase: SupabaseServerClient,
+  options: UserMessageOptions = {}
+): Promise<string | null> {
+  const { scope, branch } = options;
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+
+  const scopeFields = scope
+    ? { off_topic: !scope.inScope, metadata: { scope: { ...scope, refusal: undefined } } }
+    : {};
+
+  let position = branch;
+  if (!position) {
+    const activeMessageId = await getActiveMessageId(conversationId, supabase);
+    const { data: latest } = activeMessageId
+      ? await supabase
+          .from('messages')
+          .select('id, role, content')
+          .eq('id', activeMessageId)
+          .maybeSingle()
+      : { data: null };
+
+    if (latest?.role === 'user' && latest.content === trimmed) {
+      console.log(`ℹ️ User message already stored for conversation ${conversationId}`);
+      if (scope) {
+        await supabase.from('messages').update(scopeFields).eq('id', latest.id);
+      }
+      return latest.id;
+    }
+
+    position = { parentId: activeMessageId, branchIndex: 0 };
+  }
+
+  const { data: message, error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      role: 'user',
+      content: trimmed,
+      parent_id: position.parentId,
+      branch_index: position.branchIndex,
+      ...scopeFields,
+    })
+    .select('id')
+    .single();
+
+  if (error || !message) {
+    console.error('Failed to store user message:', error);
+    return null;
+  }
+
+  await touchConversation(conversationId, message.id, supabase);
+  return message.id;
+}
+
+/**
+ * Store the assistant message with its RAG weight, citations and (agent mode) tool calls
+ * Returns the new message ID (null if it could not be stored).
+ */
+export async function saveAssistantMessage(
+  turn: AssistantTurn,
+  supabase: SupabaseServerClient
+): Promise<string | null> {
+  const { conversationId, content, citationMetadata, ragContext, searchResults, agent, contextChunks, scope, branch } = turn;
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+
+  const position: BranchPosition = branch ?? {
+    parentId: await getActiveMessageId(conversationId, supabase),
+    branchIndex: 0,
+  };
+
+  const ragWeight = citationMetadata.length > 0
+    ? calculateRagWeight(trimmed, citationMetadata, ragContext, searchResults)
+    : null;
+  if (ragWeight) {
+    console.log(`📊 RAG weight calculated: ${(ragWeight.rag_weight * 100).toFixed(0)}%`, ragWeight.breakdown);
+  }
+
+  const { data: message, error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      role: 'assistant',
+      content: trimmed,
+      parent_id: position.parentId,
+      branch_index: position.branchIndex,
+      rag_weight: ragWeight?.rag_weight ?? null,
+      rag_weight_breakdown: ragWeight?.breakdown ?? {},
+      turn_type: turn.turn?.turnType ?? null,
+      response_mode: turn.turn?.responseMode ?? null,
+      off_topic: scope ? !scope.inScope : false,
+      metadata: {
+        ...(citationMetadata.length > 0 && { citationMetadata }),
+        ...(agent && { agent }),
+        ...(turn.turn?.entities.length && { compareEntities: turn.turn.entities }),
+        ...(contextChunks && contextChunks.length > 0 && { contextChunks }),
+        ...(scope && !scope.inScope && { scope: { ...scope, refusal: undefined } }),
+      },
+    })
+    .select('id')
+    .single();
+
+  if (error || !message) {
+    console.error('Failed to store assistant message:', error);
+    return null;
+  }
+
+  await touchConversation(conversationId, message.id, supabase);
+
+  if (citationMetadata.length > 0) {
+    console.log(`💾 Saving citations for message ${message.id}, metadata count: ${citationMetadata.length}`);
+    await saveCitations(message.id, trimmed, citationMetadata, supabase);
+  }
+
+  return message.id;
+}
+
+/**
+ * Score and store how well the cited chunks support an assistant message
+ * Analytics only: failures are logged, never thrown.
+ */
+export async function scoreMessageFaithfulness(
+  messageId: string,
+  content: string,
+  ragContext: string,
+  searchResults: SearchResult[] | undefined,
+  supabase: SupabaseServerClient
+): Promise<void> {
+  try {
+    const faithfulness = await evaluateFaithfulness(content, ragContext, searchResults);
+    const { error } = await supabase
+      .from('messages')
+      .update({
+        faithfulness_score: faithfulness.faithfulness_score,
+        faithfulness_breakdown: faithfulness.breakdown,
+      })
+      .eq('id', messageId);
+
+    if (error) {
+      console.error('Failed to store faithfulness score:', error);
+      return;
+    }
+
+    const { supported, unsupported, contradicted, uncited } = faithfulness.breakdown;
+    console.log(`🧪 Faithfulness: ${faithfulness.faithfulness_score ?? 'n/a'} (${supported} supported, ${unsupported} unsupported, ${contradicted} contradicted, ${uncited} uncited)`);
+  } catch (error) {
+    console.error('Faithfulness evaluation failed:', error);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * RAG context formatting for chat
+ *
+ * Search results are numbered doc_1, doc_2, ... in the order they are given to
+ * the model. The same numbering is used by citations, the retrieval event, RAG
+ * weight and faithfulness (doc_N is the N-th search result).
+ */
+
+import type { SearchResult } from '@/lib/rag/search';
+import type { RetrievedSource } from './streamProtocol';
+
+export type CitationSourceMetadata = { sourceUrl?: string; docTitle?: string; docId: string };
+
+export interface RagContextData {
+  context: string;
+  metadata: Map<string, CitationSourceMetadata>;
+  sources: RetrievedSource[]; // Same references, in doc_N order, for the retrieval event
+}
+
+export interface RagContextEntry {
+  block: string;
+  metadata: CitationSourceMetadata;
+  source: RetrievedSource;
+}
+
+/**
+ * Generate Google Patents URL from patent ID
+ * Supports US patents, WO (PCT), EP, etc.
+ */
+export function generatePatentUrl(docId: string): string | undefined {
+  // Match patent number patterns like us10838134, wo2024145265a1, etc.
+  const patentMatch = docId.match(/^([a-z]{2})(\d+[a-z]?\d*)$/i);
+  if (!patentMatch) return undefined;
+
+  const countryCode = patentMatch[1].toUpperCase();
+  const number = patentMatch[2].toUpperCase();
+
+  return `https://patents.google.com/patent/${countryCode}${number}`;
+}
+
+/**
+ * Format one search result as a context block under the given reference
+ */
+export function formatRagContextEntry(result: SearchResult, docRef: string): RagContextEntry {
+  // Normalize section path: use 'Main Content' if missing or identical to title
+  const docTitle = result.docTitle || result.docId;
+  const normalizedSection = (!result.sectionPath || result.sectionPath === docTitle)
+    ? 'Main Content'
+    : result.sectionPath;
+
+  // Generate source URL from patent ID if missing
+  const sourceUrl = result.sourceUrl || generatePatentUrl(result.docId);
+
+  const block = `[Reference: ^${docRef}:${normalizedSection}]
+Document: ${docTitle}
+Section: ${normalizedSection}
+Source: ${result.sourceUrl || 'N/A'}
+
+${result.text}
+
+---`;
+
+  return {
+    block,
+    metadata: { sourceUrl, docTitle, docId: result.docId },
+    source: {
+      docRef,
+      docId: result.docId,
+      docTitle,
+      sourceUrl,
+      sectionPath: normalizedSection,
+      score: result.score,
+    },
+  };
+}
+
+/**
+ * Format RAG search results as context for LLM and return metadata for citation mapping
+ */
+export function formatRagContext(results: SearchResult[]): RagContextData {
+  const metadata = new Map<string, CitationSourceMetadata>();
+  const sources: RetrievedSource[] = [];
+
+  const contextBlocks = results.map((result, index) => {
+    const entry = formatRagContextEntry(result, `doc_${index + 1}`);
+    metadata.set(entry.source.docRef, entry.metadata);
+    sources.push(entry.source);
+    return entry.block;
+  });
+
+  return {
+    context: contextBlocks.join('\n\n'),
+    metadata,
+    sources,
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Scope guard for chat
+ *
+ * Before any retrieval, the user's question is compared with the persona's
+ * `in_scope_examples` and `out_of_scope_examples` by embedding similarity. A
+ * question clearly closer to the out-of-scope examples gets a polite,
+ * persona-specific refusal instead of a search and a generation. Close calls
+ * are in scope unless the persona enables the LLM fallback.
+ *
+ * Follow-ups are judged with the previous exchange prepended, so a short
+ * "any news on that?" inherits the topic of the thread instead of matching an
+ * out-of-scope example on its own.
+ *
+ * Settings live in the persona's `scope_guard` block; the guard is off when the
+ * persona has no examples of either kind.
+ */
+
+import { generateText } from 'ai';
+import { createClient } from '@/lib/supabase/server';
+import { createEmbeddingGenerator } from '@/lib/rag/embeddings/embeddingGenerator';
+import { getCachedEmbedding } from '@/lib/rag/search/queryCache';
+import { cosineSimilarity } from '@/lib/rag/search/diversification';
+import { getLanguageModel, isProviderConfigured, type ModelSpec } from '@/lib/llm/models';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Scope guard settings, stored per persona under `scope_guard`
+ */
+export interface ScopeGuardConfig {
+  enabled?: boolean; // Default: true when the persona has both kinds of examples
+  margin?: number; // Similarity lead needed for a confident verdict (default: 0.05)
+  llm_fallback?: boolean; // Ask the fast model about close calls (default: false)
+  refusal_message?: string; // Reply to off-topic questions (default: built from the persona's name and expertise)
+}
+
+export interface ScopeDecision {
+  inScope: boolean;
+  method: 'embedding' | 'llm';
+  inScopeSimilarity: number; // Best match among in-scope examples
+  outOfScopeSimilarity: number; // Best match among out-of-scope examples
+  refusal?: string; // Set when the question is off-topic
+}
+
+export interface ScopeGuardMessage {
+  role: string;
+  content: string;
+}
+
+export interface PersonaScope {
+  name: string;
+  expertise: string;
+  personaType: string;
+  inScopeExamples: string[];
+  outOfScopeExamples: string[];
+  config: ScopeGuardConfig;
+}
+
+const DEFAULT_MARGIN = 0.05;
+const MAX_CONTEXT_ANSWER_CHARS = 500;
+
+// Example embeddings per persona, keyed by the examples themselves so edits re-embed
+const exampleEmbeddings = new Map<string, { key: string; inScope: number[][]; outOfScope: number[][] }>();
+
+function toExamples(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((e): e is string => typeof e === 'string' && e.trim().length > 0)
+    : [];
+}
+
+/**
+ * Text the guard judges: the question, preceded by the previous exchange on follow-ups
+ * The previous answer is truncated so it adds the topic without drowning the question.
+ */
+export function buildScopeQuery(question: string, history: ScopeGuardMessage[] = []): string {
+  const lastUserIndex = history.map(m => m.role).lastIndexOf('user');
+  const earlier = lastUserIndex >= 0 ? history.slice(0, lastUserIndex) : history;
+
+  const previousQuestionIndex = earlier.map(m => m.role).lastIndexOf('user');
+  if (previousQuestionIndex < 0) return question;
+
+  const previousQuestion = earlier[previousQuestionIndex].content.trim();
+  const previousAnswer = earlier
+    .slice(previousQuestionIndex + 1)
+    .find(m => m.role === 'assistant')
+    ?.content.trim()
+    .slice(0, MAX_CONTEXT_ANSWER_CHARS);
+
+  return [previousQuestion, previousAnswer, question].filter(Boolean).join('\n');
+}
+
+async function loadPersonaScope(personaSlug: string, supabase: SupabaseServerClient): Promise<PersonaScope | null> {
+  const { data, error } = await supabase
+    .from('personas')
+    .select('name, expertise, persona_type, config_json')
+    .eq('slug', personaSlug)
+    .single();
+
+  if (error || !data) return null;
+
+  const config = typeof data.config_json === 'string' ? JSON.parse(data.config_json) : (data.config_json || {});
+  return {
+    name: data.name || personaSlug,
+    expertise: data.expertise || '',
+    personaType: data.persona_type || 'fictional_character',
+    inScopeExamples: toExamples(config.in_scope_examples),
+    outOfScopeExamples: toExamples(config.out_of_scope_examples),
+    config: config.scope_guard || {},
+  };
+}
+
+async function getExampleEmbeddings(
+  personaSlug: string,
+  scope: PersonaScope
+): Promise<{ inScope: number[][]; outOfScope: number[][] }> {
+  const key = JSON.stringify([process.env.EMBEDDING_PROVIDER ?? 'openai', scope.inScopeExamples, scope.outOfScopeExamples]);
+  const cached = exampleEmbeddings.get(personaSlug);
+  if (cached?.key === key) return cached;
+
+  // One batch for both lists
+  const { results } = await createEmbeddingGenerator().generateBatch([
+    ...scope.inScopeExamples,
+    ...scope.outOfScopeExamples,
+  ]);
+  const embeddings = results.map(r => r.embedding);
+  const entry = {
+    key,
+    inScope: embeddings.slice(0, scope.inScopeExamples.length),
+    outOfScope: embeddings.slice(scope.inScopeExamples.length),
+  };
+  exampleEmbeddings.set(personaSlug, entry);
+  return entry;
+}
+
+function maxSimilarity(query: number[], examples: number[][]): number {
+  return examples.reduce((best, example) => Math.max(best, cosineSimilarity(query, example)), 0);
+}
+
+/**
+ * Polite refusal in the persona's voice
+ */
+function buildRefusal(scope: PersonaScope): string {
+  if (scope.config.refusal_message) return scope.config.refusal_message;
+
+  const focus = scope.expertise ? ` ${scope.expertise.replace(/\.$/, '')}` : ' the topics I cover';
+  const examples = scope.inScopeExamples.slice(0, 2).map(e => `- ${e}`).join('\n');
+  const intro = scope.personaType === 'real_person'
+    ? `That's outside what I can help with here. I focus on${focus}.`
+    : `That question is outside what I can help with. As the ${scope.name} assistant, I focus on${focus}.`;
+
+  return examples
+    ? `${intro}\n\nYou could ask me something like:\n${examples}`
+    : intro;
+}
+
+async function judgeScopeWithLlm(question: string, scope: PersonaScope, model: ModelSpec): Promise<boolean> {
+  const prompt = `Decide whether a question is within the scope of an expert assistant.
+
+# Assistant
+${scope.name}${scope.expertise ? `: ${scope.expertise}` : ''}
+
+# In scope (examples)
+${scope.inScopeExamples.map(e => `- ${e}`).join('\n')}
+
+# Out of scope (examples)
+${scope.outOfScopeExamples.map(e => `- ${e}`).join('\n')}
+
+# Question
+${question}
+
+# Task
+A follow-up question is preceded by the previous question and answer; judge it in that context.
+Output ONLY "IN" if the assistant should answer it, or "OUT" if it is off-topic.`;
+
+  const result = await generateText({
+    model: getLanguageModel(model),
+    prompt,
+    temperature: 0,
+    maxOutputTokens: 5,
+  });
+
+  return !/\bOUT\b/i.test(result.text);
+}
+
+/**
+ * Decide whether a question is in the persona's scope
+ * Returns null when the guard is off for the persona or could not run (fails open).
+ *
+ * @param model - Model for the optional LLM fallback (the persona's reformulation model)
+ * @param history - Conversation so far (may end with the question itself)
+ */
+export async function checkScope(
+  personaSlug: string,
+  question: string,
+  supabase: SupabaseServerClient,
+  model: ModelSpec,
+  history: ScopeGuardMessage[] = []
+): Promise<ScopeDecision | null> {
+  try {
+    const scope = await loadPersonaScope(personaSlug, supabase);
+    if (!scope) return null;
+    return await judgeScope(personaSlug, scope, buildScopeQuery(question, history), model);
+  } catch (error) {
+    console.error('Scope check failed, treating the question as in scope:', error);
+    return null;
+  }
+}
+
+/**
+ * Scope verdict for already-built guard text (see buildScopeQuery)
+ * Returns null when the guard is off for the persona.
+ */
+export async function judgeScope(
+  personaSlug: string,
+  scope: PersonaScope,
+  text: string,
+  model: ModelSpec
+): Promise<ScopeDecision | null> {
+  if (scope.config.enabled === false) return null;
+  if (scope.inScopeExamples.length === 0 || scope.outOfScopeExamples.length === 0) return null;
+
+  const startTime = Date.now();
+  // Same cache as vector search, so a first question's embedding is reused by the search
+  const [queryEmbedding, examples] = await Promise.all([
+    getCachedEmbedding(text, async () => (await createEmbeddingGenerator().generateSingle(text)).embedding),
+    getExampleEmbeddings(personaSlug, scope),
+  ]);
+
+  const inScopeSimilarity = maxSimilarity(queryEmbedding, examples.inScope);
+  const outOfScopeSimilarity = maxSimilarity(queryEmbedding, examples.outOfScope);
+  const lead = inScopeSimilarity - outOfScopeSimilarity;
+  const margin = scope.config.margin ?? DEFAULT_MARGIN;
+
+  let inScope = lead > -margin; // Close calls stay in scope...
+  let method: ScopeDecision['method'] = 'embedding';
+
+  // ...unless the LLM fallback is on to settle them
+  if (Math.abs(lead) <= margin && scope.config.llm_fallback && isProviderConfigured(model.provider)) {
+    try {
+      inScope = await judgeScopeWithLlm(text, scope, model);
+      method = 'llm';
+    } catch (error) {
+      console.warn('LLM scope check failed, keeping the embedding verdict:', error);
+    }
+  }
+
+  console.log(`🛡️ Scope check (${method}, ${Date.now() - startTime}ms): ${inScope ? 'in scope' : 'off-topic'} (in ${inScopeSimilarity.toFixed(3)}, out ${outOfScopeSimilarity.toFixed(3)})`);
+
+  return {
+    inScope,
+    method,
+    inScopeSimilarity: Math.round(inScopeSimilarity * 1000) / 1000,
+    outOfScopeSimilarity: Math.round(outOfScopeSimilarity * 1000) / 1000,
+    ...(!inScope && { refusal: buildRefusal(scope) }),
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Chat streaming protocol
+ *
+ * POST /api/chat responds with Server-Sent Events, one JSON event per `data:` line
+ * (same framing as the title-update SSE stream):
+ * - turn: how the turn was classified (turn type and response mode, sent first)
+ * - retrieval: the sources put into the model context (sent before any tokens)
+ * - citation: a source the answer cites, sent as soon as its [^doc_N:section] marker completes
+ * - token: a piece of answer text
+ * - usage: token usage for the generation
+ * - done: end of stream, with the stored message ID when the turn was persisted
+ * - error: generation failed (followed by done)
+ *
+ * Shared by the server, the web client, Slack and MCP, so it must stay free of
+ * Node-only and React imports.
+ */
+
+import type { TurnType, ResponseMode } from '../types';
+
+export interface RetrievedSource {
+  docRef: string; // e.g. "doc_1", as used in citations
+  docId: string;
+  docTitle?: string;
+  sourceUrl?: string;
+  sectionPath: string;
+  score: number;
+}
+
+export interface DroppedSource {
+  chunkId: string;
+  docId: string;
+  reason: string;
+  mergedHits?: string[]; // Search hits covered by a dropped expanded block
+}
+
+export interface StreamedCitation {
+  docRef: string;
+  section: string;
+  number: number; // Display number, in order of first appearance
+  docId?: string;
+  docTitle?: string;
+  sourceUrl?: string;
+}
+
+export type ChatStreamEvent =
+  | { type: 'turn'; turnType: TurnType; responseMode: ResponseMode; entities?: string[] }
+  | { type: 'retrieval'; query?: string; sources: RetrievedSource[]; dropped: DroppedSource[] }
+  | { type: 'citation'; citation: StreamedCitation }
+  | { type: 'token'; text: string }
+  | { type: 'usage'; model: string; inputTokens?: number; outputTokens?: number; totalTokens?: number }
+  | { type: 'done'; finishReason?: string; messageId?: string | null }
+  | { type: 'error'; error: string };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
+
+export type ChatTurnEvent = Extract<ChatStreamEvent, { type: 'turn' }>;
+
+export const CHAT_EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+} as const;
+
+/**
+ * Serialize an event as an SSE frame
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Detect citation markers as answer text streams in
+ * Feed it the accumulated text; it returns each docRef:section the first time
+ * its marker is complete. Partial markers at the end are re-examined next call.
+ */
+export function createCitationDetector(): (text: string) => Array<{ docRef: string; section: string }> {
+  const seen = new Set<string>();
+  let scanFrom = 0;
+
+  return (text: string) => {
+    const found: Array<{ docRef: string; section: string }> = [];
+    const pattern = /\[\^(doc_\d+):([^\]]+)\]/g;
+    pattern.lastIndex = scanFrom;
+
+    let lastEnd = scanFrom;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      lastEnd = match.index + match[0].length;
+      const key = `${match[1]}:${match[2].trim()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        found.push({ docRef: match[1], section: match[2].trim() });
+      }
+    }
+
+    // Resume from an unfinished marker (or a trailing "[") if there is one
+    const open = Math.max(text.lastIndexOf('[^'), text.endsWith('[') ? text.length - 1 : -1);
+    scanFrom = open >= lastEnd && text.indexOf(']', open) === -1 ? open : text.length;
+    return found;
+  };
+}
+
+/**
+ * Parse an SSE body into chat events
+ */
+export async function* parseChatEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          yield JSON.parse(data) as ChatStreamEvent;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface ChatStreamHandlers {
+  onTurn?: (event: ChatTurnEvent) => void;
+  onRetrieval?: (event: Extract<ChatStreamEvent, { type: 'retrieval' }>) => void;
+  onCitation?: (citation: StreamedCitation) => void;
+  onToken?: (text: string) => void;
+  onUsage?: (event: Extract<ChatStreamEvent, { type: 'usage' }>) => void;
+  onDone?: (event: Extract<ChatStreamEvent, { type: 'done' }>) => void;
+  onError?: (error: string) => void;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  turn?: ChatTurnEvent;
+  sources: RetrievedSource[];
+  citations: StreamedCitation[];
+  usage?: Extract<ChatStreamEvent, { type: 'usage' }>;
+  messageId?: string | null;
+  error?: string;
+}
+
+function dispatchChatEvent(event: ChatStreamEvent, handlers: ChatStreamHandlers, result: ChatStreamResult): void {
+  switch (event.type) {
+    case 'turn':
+      result.turn = event;
+      handlers.onTurn?.(event);
+      break;
+    case 'retrieval':
+      result.sources = event.sources;
+      handlers.onRetrieval?.(event);
+      break;
+    case 'citation':
+      result.citations.push(event.citation);
+      handlers.onCitation?.(event.citation);
+      break;
+    case 'token':
+      result.text += event.text;
+      handlers.onToken?.(event.text);
+      break;
+    case 'usage':
+      result.usage = event;
+      handlers.onUsage?.(event);
+      break;
+    case 'done':
+      result.messageId = event.messageId;
+      handlers.onDone?.(event);
+      break;
+    case 'error':
+      result.error = event.error;
+      handlers.onError?.(event.error);
+      break;
+  }
+}
+
+/**
+ * Consume a chat response to completion, invoking handlers as events arrive
+ */
+export async function readChatEventStream(
+  response: Response,
+  handlers: ChatStreamHandlers = {}
+): Promise<ChatStreamResult> {
+  if (!response.body) {
+    throw new Error('Chat response has no body');
+  }
+
+  const result: ChatStreamResult = { text: '', sources: [], citations: [] };
+  for await (const event of parseChatEventStream(response.body)) {
+    dispatchChatEvent(event, handlers, result);
+  }
+  return result;
+}
+
+/**
+ * Turn a chat event stream into a plain text stream of the answer
+ * For consumers that expect text (e.g. useChat's text protocol); the other
+ * events are delivered through the handlers.
+ */
+export function chatEventStreamToText(
+  body: ReadableStream<Uint8Array>,
+  handlers: ChatStreamHandlers = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const result: ChatStreamResult = { text: '', sources: [], citations: [] };
+  const events = parseChatEventStream(body);
+
+  return new ReadableStream<Uint8Array>({
+    // Read until there is text to hand out: a pull that enqueues nothing is not repeated
+    async pull(controller) {
+      try {
+        while (true) {
+          const { done, value } = await events.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          dispatchChatEvent(value, handlers, result);
+          if (value.type === 'token') {
+            controller.enqueue(encoder.encode(value.text));
+            return;
+          }
+          if (value.type === 'error') {
+            controller.error(new Error(value.error));
+            return;
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+}
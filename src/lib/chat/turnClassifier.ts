@@ -0,0 +1,355 @@
+/**
+ * Turn classification for chat
+ *
+ * Each user turn gets a turn type and a response mode, which change how the
+ * chat route retrieves and prompts:
+ * - new-topic: fresh search, no boosting from earlier citations
+ * - drill-down: fresh search on the reformulated follow-up, answer goes deeper
+ * - same-sources: reuse the previous answer's chunks instead of searching
+ * - compare: one search per compared entity, answer structured side by side
+ * - FACT: short direct answer from fewer chunks
+ * - EXPLAIN: structured explanation (default)
+ * - CONFLICTS: diverse sources, disagreements between them surfaced explicitly
+ *
+ * "Who" and "which products" questions also get a graph query: the entity they
+ * ask about and the kind of entity that answers them, which seeds retrieval with
+ * knowledge graph lookups.
+ *
+ * Classification is heuristic by default; personas can opt into an LLM
+ * classifier with `search.turn_classifier: 'llm'` (heuristics remain the fallback).
+ */
+
+import { generateText } from 'ai';
+import type { TurnType, ResponseMode } from '@/lib/types';
+import { getLanguageModel, isProviderConfigured, type ModelSpec } from '@/lib/llm/models';
+import type { EntityKind } from '@/lib/rag/ingestion/entityExtraction';
+
+/**
+ * Knowledge graph lookup for a "who" / "which products" question
+ */
+export interface GraphQuery {
+  subject: string; // Entity the question is about ("eye tracking")
+  relatedKind: EntityKind; // Kind of entity that answers it ("product")
+}
+
+export interface TurnClassification {
+  turnType: TurnType;
+  responseMode: ResponseMode;
+  entities: string[]; // compare: the things being compared
+  aspect?: string; // compare: what they are compared on ("in terms of power consumption")
+  graphQuery?: GraphQuery; // who / which-products questions (new-topic and drill-down turns)
+  method: 'heuristic' | 'llm';
+}
+
+export interface ClassifyTurnOptions {
+  hasHistory: boolean;
+  reformulatedQuery?: string; // Follow-ups with pronouns resolved, used for compare entities
+  classifier?: 'heuristic' | 'llm';
+  model?: ModelSpec;
+}
+
+const TURN_TYPES: TurnType[] = ['new-topic', 'drill-down', 'compare', 'same-sources'];
+const RESPONSE_MODES: ResponseMode[] = ['FACT', 'EXPLAIN', 'CONFLICTS'];
+const MAX_COMPARE_ENTITIES = 4;
+const MAX_FACT_QUESTION_WORDS = 15;
+
+const COMPARE_PATTERNS = [
+  /\bcompar(e|ed|es|ing|ison)\b/i,
+  /\b(vs\.?|versus)\s/i,
+  /\bdifferences?\s+between\b/i,
+  /\bhow\s+(does|do|is|are)\s+.+\s+differ(ent)?\b/i,
+  /\b(contrast|trade-?offs?)\s+between\b/i,
+];
+
+const SAME_SOURCES_PATTERNS = [
+  /\b(these|those|the\s+same|the\s+above|the\s+previous|your|the\s+cited)\s+(sources|documents|docs|papers|patents|references|citations|results|articles)\b/i,
+  /\b(from|in|according\s+to|based\s+on)\s+(that|this|the)\s+(source|document|paper|patent|article)\b/i,
+  /\b(summari[sz]e|rephrase|simplify|shorten|reformat)\s+(that|this|it|your\s+(answer|response)|the\s+above)\b/i,
+  /\bwhat\s+else\s+(do|does|did)\s+(they|it|these|those)\s+say\b/i,
+];
+
+const DRILL_DOWN_PATTERNS = [
+  /\b(tell\s+me\s+more|more\s+(detail|details|about)|go\s+deeper|dig\s+deeper|elaborate|expand\s+on|specifically|in\s+particular)\b/i,
+  /^(and|but|so|also)\s/i,
+  /\b(what|how)\s+about\b/i,
+  /\b(it|its|that|this|these|those|them|they|he|she|his|her)\b/i,
+];
+
+const CONFLICTS_PATTERNS = [
+  /\b(conflict(s|ing)?|contradict(s|ion|ions|ory)?|disagree(s|ment|ments)?|inconsisten(t|cy|cies)|discrepanc(y|ies)|controvers(y|ial)|consensus)\b/i,
+  /\b(do|does|did)\s+(the\s+)?(sources|papers|authors|patents|studies|documents)\s+(agree|differ)\b/i,
+];
+
+const EXPLAIN_PATTERNS = [
+  /^(why|how)\b/i,
+  /\b(explain|describe|walk\s+me\s+through|overview|in\s+depth|in\s+detail|intuition|mechanism)\b/i,
+];
+
+const FACT_PATTERNS = [
+  /^(what|when|who|which|where|is|are|does|do|did|was|were|has|have|how\s+(many|much|long|old|big))\b/i,
+  /\b(list|name|number\s+of|what\s+year|what\s+date)\b/i,
+];
+
+const WHO_PATTERN = /^who\s+(?:(?:is|are|was|were)\s+)?(?:the\s+)?(?:invent(?:ed|s|or|ors)|author(?:ed|s)?|wr(?:ote|ites)|develop(?:ed|s)|creat(?:ed|es)|filed|designed|works?\s+on|worked\s+on|(?:is|are)\s+behind|behind)\s+(?:of\s+|on\s+)?(.+)$/i;
+const WHICH_PATTERN = /^(?:which|what)\s+(products?|compan(?:y|ies)|organi[sz]ations?|people|persons?|inventors?|authors?|technolog(?:y|ies))\s+(.+)$/i;
+// Verb or preposition ending the question's predicate ("products use X", "companies filed patents on X")
+const WHICH_SUBJECT_PATTERN = /^.*?\b(?:use[sd]?|using|mention(?:s|ed)?|include[sd]?|support(?:s|ed)?|implement(?:s|ed)?|feature[sd]?|rel(?:y|ies)\s+on|based\s+on|built\s+on|with|by|from|at|of|for|on|about)\s+(.+)$/i;
+// Subject before the verb ("technologies does Immersity rely on")
+const WHICH_AUX_SUBJECT_PATTERN = /^(?:does|do|did|has|have)\s+(.+?)\s+(?:use|include|support|implement|feature|rely\s+on|mention|make|sell|ship|have)$/i;
+const GRAPH_ANSWER_KINDS: Record<string, EntityKind> = {
+  product: 'product',
+  compan: 'organization',
+  organi: 'organization',
+  people: 'person',
+  person: 'person',
+  inventor: 'person',
+  author: 'person',
+  technolog: 'technology',
+};
+// Generic nouns after the subject ("our lenticular patents" → "lenticular")
+const GENERIC_SUBJECT_NOUNS = /\s+(?:patents?|papers?|documents?|publications?|articles?|products?|work|research)$/i;
+
+const matches = (patterns: RegExp[], text: string) => patterns.some(pattern => pattern.test(text));
+
+/**
+ * Pull the compared entities out of a comparison question
+ * "Compare A, B and C in terms of X" → entities [A, B, C], aspect "X"
+ */
+export function extractCompareEntities(query: string): { entities: string[]; aspect?: string } {
+  const text = query.trim().replace(/[?.!]+$/, '');
+  const patterns = [
+    /\bdifferences?\s+between\s+(.+?)\s+and\s+(.+)$/i,
+    /\bcompar(?:e|ing)\s+(.+?)\s+(?:and|with|to|against|vs\.?|versus)\s+(.+)$/i,
+    /\bhow\s+(?:does|do|is|are)\s+(.+?)\s+differ(?:ent)?\s+(?:from|to)\s+(.+)$/i,
+    /^(.+?)\s+(?:vs\.?|versus)\s+(.+)$/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    // A trailing clause names the aspect rather than another entity
+    let last = match[2];
+    let aspect: string | undefined;
+    const aspectMatch = last.match(/^(.+?)\s+(?:in\s+terms\s+of|regarding|with\s+respect\s+to|when\s+it\s+comes\s+to|for|on)\s+(.+)$/i);
+    if (aspectMatch) {
+      last = aspectMatch[1];
+      aspect = aspectMatch[2].trim();
+    }
+
+    const entities = [match[1], last]
+      .flatMap(part => part.split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s+(?:vs\.?|versus)\s+/i))
+      .map(entity => entity.replace(/^(the|a|an)\s+/i, '').trim())
+      .filter(entity => entity.length > 0);
+
+    if (entities.length >= 2) {
+      return { entities: [...new Set(entities)].slice(0, MAX_COMPARE_ENTITIES), aspect };
+    }
+  }
+
+  return { entities: [] };
+}
+
+/**
+ * Detect a "who" / "which products" question and the entity it asks about
+ * "Who invented our lenticular patents?" → subject "lenticular", related kind person
+ * "Which products use eye tracking?" → subject "eye tracking", related kind product
+ * "What technologies does Immersity use?" → subject "Immersity", related kind technology
+ */
+export function detectGraphQuery(query: string): GraphQuery | undefined {
+  const text = query.trim().replace(/[?.!]+$/, '');
+
+  let subject: string | undefined;
+  let relatedKind: EntityKind | undefined;
+  const who = text.match(WHO_PATTERN);
+  if (who) {
+    subject = who[1];
+    relatedKind = 'person';
+  } else {
+    const which = text.match(WHICH_PATTERN);
+    const predicate = which?.[2].match(WHICH_AUX_SUBJECT_PATTERN) ?? which?.[2].match(WHICH_SUBJECT_PATTERN);
+    if (which && predicate) {
+      subject = predicate[1];
+      relatedKind = Object.entries(GRAPH_ANSWER_KINDS).find(([prefix]) => which[1].toLowerCase().startsWith(prefix))?.[1];
+    }
+  }
+  if (!subject || !relatedKind) return undefined;
+
+  const cleaned = subject.replace(/^(?:the|a|an|our|their|its)\s+/i, '').trim();
+  const withoutNoun = cleaned.replace(GENERIC_SUBJECT_NOUNS, '').trim();
+  const resolved = withoutNoun.length >= 2 ? withoutNoun : cleaned;
+  return resolved.length >= 2 ? { subject: resolved, relatedKind } : undefined;
+}
+
+function classifyHeuristic(query: string, options: ClassifyTurnOptions): TurnClassification {
+  const text = query.trim();
+  const { entities, aspect } = extractCompareEntities(options.reformulatedQuery || text);
+
+  let turnType: TurnType = 'new-topic';
+  if (matches(COMPARE_PATTERNS, text) && entities.length >= 2) {
+    turnType = 'compare';
+  } else if (options.hasHistory && matches(SAME_SOURCES_PATTERNS, text)) {
+    turnType = 'same-sources';
+  } else if (options.hasHistory && matches(DRILL_DOWN_PATTERNS, text)) {
+    turnType = 'drill-down';
+  }
+
+  let responseMode: ResponseMode = 'EXPLAIN';
+  if (matches(CONFLICTS_PATTERNS, text)) {
+    responseMode = 'CONFLICTS';
+  } else if (
+    turnType !== 'compare' &&
+    !matches(EXPLAIN_PATTERNS, text) &&
+    matches(FACT_PATTERNS, text) &&
+    text.split(/\s+/).length <= MAX_FACT_QUESTION_WORDS
+  ) {
+    responseMode = 'FACT';
+  }
+
+  return {
+    turnType,
+    responseMode,
+    entities: turnType === 'compare' ? entities : [],
+    aspect: turnType === 'compare' ? aspect : undefined,
+    method: 'heuristic',
+  };
+}
+
+/**
+ * Extract the first JSON object from an LLM response (tolerates code fences and prose)
+ */
+function parseJsonObject(text: string): Record<string, unknown> {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end === -1) {
+    throw new Error('No JSON object found in turn classifier response');
+  }
+  return JSON.parse(cleaned.slice(start, end + 1));
+}
+
+async function classifyWithLlm(
+  query: string,
+  options: ClassifyTurnOptions,
+  model: ModelSpec
+): Promise<TurnClassification> {
+  const prompt = `You classify a user's turn in a research chat over a document collection.
+
+# Turn types
+- "new-topic": a question unrelated to the previous answer${options.hasHistory ? '' : ' (there is no previous answer here, so only "new-topic" or "compare" apply)'}
+- "drill-down": a follow-up that goes deeper into the previous answer's subject
+- "same-sources": a request about the sources already used (summarize, rephrase, what else they say)
+- "compare": a comparison of two or more named things
+
+# Response modes
+- "FACT": a short factual lookup (a name, date, number, yes/no)
+- "EXPLAIN": an explanation or overview
+- "CONFLICTS": asks where sources disagree, contradict or lack consensus
+
+# User Turn
+${query}
+${options.reformulatedQuery && options.reformulatedQuery !== query ? `\n# Same Turn, Self-Contained\n${options.reformulatedQuery}\n` : ''}
+# Task
+Output ONLY a JSON object: {"turn_type": "...", "response_mode": "...", "entities": ["only for compare"], "aspect": "what they are compared on, or null"}`;
+
+  const result = await generateText({
+    model: getLanguageModel(model),
+    prompt,
+    temperature: 0,
+    maxOutputTokens: 150,
+  });
+
+  const parsed = parseJsonObject(result.text);
+  const turnType = TURN_TYPES.find(t => t === parsed.turn_type);
+  const responseMode = RESPONSE_MODES.find(m => m === parsed.response_mode);
+  if (!turnType || !responseMode) {
+    throw new Error(`Unexpected turn classification: ${result.text.slice(0, 200)}`);
+  }
+
+  const entities = Array.isArray(parsed.entities)
+    ? parsed.entities.filter((e): e is string => typeof e === 'string' && e.trim().length > 0).map(e => e.trim())
+    : [];
+  // A comparison needs something to compare; same-sources needs a previous answer
+  const resolvedType = (turnType === 'compare' && entities.length < 2) || (turnType === 'same-sources' && !options.hasHistory)
+    ? (options.hasHistory ? 'drill-down' : 'new-topic')
+    : turnType;
+
+  return {
+    turnType: resolvedType,
+    responseMode,
+    entities: resolvedType === 'compare' ? entities.slice(0, MAX_COMPARE_ENTITIES) : [],
+    aspect: resolvedType === 'compare' && typeof parsed.aspect === 'string' ? parsed.aspect : undefined,
+    method: 'llm',
+  };
+}
+
+/**
+ * Classify a user turn
+ *
+ * @param query - The user's message as written
+ * @param options - Whether there is history, the reformulated query and the classifier to use
+ */
+export async function classifyTurn(query: string, options: ClassifyTurnOptions): Promise<TurnClassification> {
+  let classification: TurnClassification | undefined;
+  if (options.classifier === 'llm' && options.model && isProviderConfigured(options.model.provider)) {
+    try {
+      classification = await classifyWithLlm(query, options, options.model);
+    } catch (error) {
+      console.warn('LLM turn classifier failed, falling back to heuristic:', error);
+    }
+  }
+  classification ??= classifyHeuristic(query, options);
+
+  // Graph lookups seed a fresh search; compare and same-sources turns retrieve their own way
+  const graphQuery = classification.turnType === 'new-topic' || classification.turnType === 'drill-down'
+    ? detectGraphQuery(options.reformulatedQuery || query)
+    : undefined;
+  return graphQuery ? { ...classification, graphQuery } : classification;
+}
+
+/**
+ * System prompt section for a turn's type and response mode
+ */
+export function getTurnInstructions(classification: TurnClassification): string {
+  const sections: string[] = [];
+
+  switch (classification.turnType) {
+    case 'drill-down':
+      sections.push('This is a follow-up: go deeper into the subject of your previous answer rather than repeating it.');
+      break;
+    case 'same-sources':
+      sections.push('The context is the same set of sources your previous answer used. Answer from them only, and say so if they don\'t cover the request.');
+      break;
+    case 'compare': {
+      const subjects = classification.entities.join(', ');
+      sections.push(`The user is comparing: ${subjects}${classification.aspect ? ` (on ${classification.aspect})` : ''}. The context was retrieved separately for each of them.
+- Cover every one of them, with each point cited to a source about that entity
+- Use a comparison table when there are several dimensions, then summarize the key differences
+- If the context lacks information on one of them, say so instead of filling the gap`);
+      break;
+    }
+  }
+
+  switch (classification.responseMode) {
+    case 'FACT':
+      sections.push('Response mode FACT: give the direct answer first in one or two sentences with its citation, then at most a short supporting detail. No headings.');
+      break;
+    case 'EXPLAIN':
+      sections.push('Response mode EXPLAIN: give a structured explanation with the key concepts, how they fit together, and cited evidence.');
+      break;
+    case 'CONFLICTS':
+      sections.push(`Response mode CONFLICTS: the user wants to know where sources disagree.
+- Identify each point on which the sources differ, contradict each other or use different numbers
+- For each, present every position side by side with its own citation
+- Note dates, assumptions or scope that may explain the disagreement
+- Then state what the sources agree on
+- If the sources do not conflict, say so explicitly rather than inventing disagreement`);
+      break;
+  }
+
+  return `
+
+## This Turn
+
+${sections.join('\n\n')}`;
+}
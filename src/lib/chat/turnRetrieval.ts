@@ -0,0 +1,220 @@
+/**
+ * Retrieval for classified chat turns
+ *
+ * - same-sources: rebuild the previous answer's context from the chunk
+ *   references stored with it (`metadata.contextChunks`), in the same order
+ * - compare: one search per compared entity, merged so packing keeps each
+ *   entity's best chunks
+ * - FACT / CONFLICTS: narrower or more diverse search options
+ * - who / which-products questions: the search query is expanded with the
+ *   entities the knowledge graph relates to the question's subject
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { performSearch, type SearchOptions, type SearchResult } from '@/lib/rag/search';
+import { joinChunkTexts } from '@/lib/rag/search/contextExpansion';
+import { lookupGraphEntities } from '@/lib/rag/storage/knowledgeGraph';
+import type { TurnClassification } from './turnClassifier';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * A chunk (or expanded block) in an answer's context, stored with the answer
+ */
+export interface ContextChunkRef {
+  chunkId: string;
+  chunkIds?: string[]; // Chunks joined into the block by context expansion
+  docId: string;
+  docTitle?: string;
+  docType?: string;
+  sourceUrl?: string;
+  sectionPath: string;
+  score: number;
+}
+
+export interface GraphQueryExpansion {
+  query: string; // Search query with the graph's entity names appended
+  entities: string[]; // Names added to the query
+}
+
+const FACT_RESULT_LIMIT = 10;
+const CONFLICTS_MAX_CHUNKS_PER_DOC = 2;
+const CONFLICTS_MMR_LAMBDA = 0.5;
+const GRAPH_SEED_ENTITIES = 3;
+const MAX_GRAPH_EXPANSION_NAMES = 5;
+
+/**
+ * References to store for the chunks an answer was given, in doc_N order
+ */
+export function toContextChunkRefs(results: SearchResult[]): ContextChunkRef[] {
+  return results.map(r => ({
+    chunkId: r.chunkId,
+    ...(r.expandedChunkIds && r.expandedChunkIds.length > 1 && { chunkIds: r.expandedChunkIds }),
+    docId: r.docId,
+    docTitle: r.docTitle,
+    docType: r.docType,
+    sourceUrl: r.sourceUrl,
+    sectionPath: r.sectionPath,
+    score: r.score,
+  }));
+}
+
+/**
+ * Rebuild the context of the answer a question follows up on (its parent on the branch)
+ * Returns an empty list when there is no stored context (e.g. answers from before
+ * context references were stored) or its chunks were re-ingested since.
+ */
+export async function loadPreviousTurnContext(
+  conversationId: string,
+  questionId: string,
+  supabase: SupabaseServerClient
+): Promise<SearchResult[]> {
+  const { data: question } = await supabase
+    .from('messages')
+    .select('parent_id')
+    .eq('id', questionId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+  if (!question?.parent_id) return [];
+
+  const { data: previous, error } = await supabase
+    .from('messages')
+    .select('metadata')
+    .eq('id', question.parent_id)
+    .eq('role', 'assistant')
+    .maybeSingle();
+
+  const refs: ContextChunkRef[] = previous?.metadata?.contextChunks ?? [];
+  if (error || refs.length === 0) return [];
+
+  const ids = [...new Set(refs.flatMap(ref => ref.chunkIds ?? [ref.chunkId]))];
+  const { data: rows, error: chunkError } = await supabase
+    .from('chunks')
+    .select('id, text')
+    .in('id', ids);
+
+  if (chunkError) {
+    console.error('Failed to load previous turn chunks:', chunkError);
+    return [];
+  }
+
+  const textById = new Map<string, string>(
+    ((rows || []) as Array<{ id: string; text: string }>).map(row => [row.id, row.text])
+  );
+
+  const results: SearchResult[] = [];
+  for (const ref of refs) {
+    const text = (ref.chunkIds ?? [ref.chunkId])
+      .map(id => textById.get(id) ?? '')
+      .filter(t => t.length > 0)
+      .reduce((acc, t) => (acc ? joinChunkTexts(acc, t) : t), '');
+    if (!text) continue;
+
+    results.push({
+      chunkId: ref.chunkId,
+      docId: ref.docId,
+      docTitle: ref.docTitle,
+      docType: ref.docType,
+      sourceUrl: ref.sourceUrl,
+      sectionPath: ref.sectionPath,
+      score: ref.score,
+      text,
+      ...(ref.chunkIds && { expandedChunkIds: ref.chunkIds }),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Search option overrides for a response mode
+ */
+export function getModeSearchOptions(classification: TurnClassification): Partial<SearchOptions> {
+  switch (classification.responseMode) {
+    case 'FACT':
+      return { limit: FACT_RESULT_LIMIT };
+    case 'CONFLICTS':
+      // Disagreements only show up across documents: fewer chunks from each, more documents
+      return { maxChunksPerDoc: CONFLICTS_MAX_CHUNKS_PER_DOC, mmrLambda: CONFLICTS_MMR_LAMBDA };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Search once per compared entity and merge the results
+ * Scores are normalized per entity (best chunk = 1), so score-ordered packing
+ * alternates between entities instead of filling up with the easiest one.
+ */
+export async function searchPerEntity(
+  classification: TurnClassification,
+  options: SearchOptions,
+  supabase: SupabaseServerClient
+): Promise<SearchResult[]> {
+  const { entities, aspect } = classification;
+  const perEntityLimit = Math.max(3, Math.ceil((options.limit ?? 12) / entities.length));
+
+  const perEntity = await Promise.all(
+    entities.map(async entity => {
+      const query = aspect ? `${entity} ${aspect}` : entity;
+      const results = await performSearch(query, { ...options, limit: perEntityLimit }, supabase);
+      console.log(`⚖️ Compare search for "${query}": ${results.length} results`);
+      const topScore = results[0]?.score || 1;
+      return results.map(r => ({ ...r, score: r.score / topScore }));
+    })
+  );
+
+  const merged = new Map<string, SearchResult>();
+  for (const result of perEntity.flat()) {
+    const existing = merged.get(result.chunkId);
+    if (!existing || result.score > existing.score) {
+      merged.set(result.chunkId, result);
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Expand a who / which-products search query with knowledge graph entities
+ * Looks up the question's subject and appends the names of related entities of
+ * the answering kind (inventors of its patents, products mentioning it), so the
+ * search reaches the documents naming them. Returns the query unchanged when the
+ * turn has no graph query, the graph knows nothing about it, or the lookup fails.
+ */
+export async function expandQueryFromGraph(
+  query: string,
+  classification: TurnClassification,
+  personaSlug: string,
+  supabase: SupabaseServerClient
+): Promise<GraphQueryExpansion> {
+  const { graphQuery } = classification;
+  if (!graphQuery) return { query, entities: [] };
+
+  try {
+    const matches = await lookupGraphEntities(supabase, {
+      personaSlug,
+      name: graphQuery.subject,
+      relatedKind: graphQuery.relatedKind,
+      limit: GRAPH_SEED_ENTITIES,
+    });
+
+    const lowerQuery = query.toLowerCase();
+    const names = new Set<string>();
+    for (const entity of matches) {
+      for (const relation of entity.relations) {
+        if (relation.type === 'entity' && relation.kind === graphQuery.relatedKind) names.add(relation.name);
+      }
+      entity.related.forEach(related => names.add(related.name));
+    }
+    const entities = [...names]
+      .filter(name => !lowerQuery.includes(name.toLowerCase()))
+      .slice(0, MAX_GRAPH_EXPANSION_NAMES);
+
+    console.log(`🕸️ Graph lookup for "${graphQuery.subject}" (${graphQuery.relatedKind}): ${matches.length} entities${entities.length > 0 ? `, expanding with ${entities.join(', ')}` : ''}`);
+    return entities.length > 0 ? { query: `${query} ${entities.join(' ')}`, entities } : { query, entities };
+  } catch (error) {
+    console.warn('Graph lookup failed, searching without it:', error);
+    return { query, entities: [] };
+  }
+}
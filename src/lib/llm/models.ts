@@ -0,0 +1,197 @@
+/**
+ * LLM providers and per-persona model settings
+ *
+ * Every LLM call resolves its model here, so a deployment or a single persona can
+ * point at OpenAI, Gemini or a local OpenAI-compatible server (Ollama, vLLM,
+ * LM Studio) without code changes. With LLM_PROVIDER=local and
+ * EMBEDDING_PROVIDER=fake the whole stack runs offline.
+ *
+ * Model references are "<model>" (default provider) or "<provider>:<model>",
+ * e.g. "gpt-4o", "gemini:gemini-2.5-flash", "local:llama3.1:8b".
+ *
+ * Environment:
+ * - LLM_PROVIDER: default provider (openai | gemini | local, default: openai)
+ * - LLM_CHAT_MODEL / LLM_FAST_MODEL: default chat and utility models (default: per provider)
+ * - LOCAL_LLM_BASE_URL / LOCAL_LLM_API_KEY / LOCAL_LLM_MODEL: local endpoint settings
+ * - OPENAI_API_KEY / GEMINI_API_KEY
+ */
+
+import { openai, createOpenAI, type OpenAIProvider } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+
+export type LlmProvider = 'openai' | 'gemini' | 'local';
+
+/**
+ * chat: answers shown to users; fast: reformulation, titles, reranking, judging
+ */
+export type ModelRole = 'chat' | 'fast';
+
+/**
+ * Model settings, stored per persona under `models`
+ */
+export interface PersonaModelConfig {
+  provider?: LlmProvider; // Provider for models given without a prefix (default: LLM_PROVIDER)
+  chat_model?: string; // Default: LLM_CHAT_MODEL or the provider's chat model
+  reformulation_model?: string; // Query reformulation and expansion (default: LLM_FAST_MODEL or the provider's fast model)
+  temperature?: number; // Chat temperature (default: 0.7)
+  max_output_tokens?: number; // Chat output limit (default: 2000)
+  base_url?: string; // OpenAI-compatible endpoint for the local provider
+}
+
+export interface ModelSpec {
+  provider: LlmProvider;
+  model: string;
+  baseUrl?: string;
+}
+
+export interface ResolvedPersonaModels {
+  chat: ModelSpec;
+  reformulation: ModelSpec;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+const PROVIDERS: LlmProvider[] = ['openai', 'gemini', 'local'];
+
+const DEFAULT_MODELS: Record<LlmProvider, Record<ModelRole, string>> = {
+  openai: { chat: 'gpt-4o', fast: 'gpt-4o-mini' },
+  gemini: { chat: 'gemini-2.5-flash', fast: 'gemini-2.5-flash-lite' },
+  local: { chat: 'llama3.1', fast: 'llama3.1' },
+};
+
+const GEMINI_OPENAI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/openai/';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2000;
+
+// OpenAI-compatible provider instances, keyed by provider and base URL
+const compatibleProviders = new Map<string, OpenAIProvider>();
+
+function isProvider(value: unknown): value is LlmProvider {
+  return typeof value === 'string' && (PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Provider used when a model reference has no prefix
+ */
+export function getDefaultProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER;
+  return isProvider(provider) ? provider : 'openai';
+}
+
+/**
+ * Default model for a role on a provider
+ * Environment overrides apply to the default provider only.
+ */
+export function getDefaultModel(role: ModelRole, provider: LlmProvider = getDefaultProvider()): string {
+  if (provider === getDefaultProvider()) {
+    const override = role === 'chat' ? process.env.LLM_CHAT_MODEL : process.env.LLM_FAST_MODEL;
+    if (override) return override;
+  }
+  if (provider === 'local' && process.env.LOCAL_LLM_MODEL) {
+    return process.env.LOCAL_LLM_MODEL;
+  }
+  return DEFAULT_MODELS[provider][role];
+}
+
+/**
+ * Parse a model reference ("gpt-4o", "gemini:gemini-2.5-pro", "local:llama3.1:8b")
+ * A missing reference resolves to the default model for the role.
+ */
+export function parseModelRef(
+  ref: string | undefined,
+  role: ModelRole,
+  defaults: { provider?: LlmProvider; baseUrl?: string } = {}
+): ModelSpec {
+  let provider = defaults.provider ?? getDefaultProvider();
+  let model = ref?.trim();
+
+  // Only a known provider counts as a prefix ("llama3.1:8b" is a model name)
+  const separator = model?.indexOf(':') ?? -1;
+  if (model && separator > 0 && isProvider(model.slice(0, separator))) {
+    provider = model.slice(0, separator) as LlmProvider;
+    model = model.slice(separator + 1);
+  }
+
+  return {
+    provider,
+    model: model || getDefaultModel(role, provider),
+    baseUrl: provider === 'local' ? defaults.baseUrl : undefined,
+  };
+}
+
+/**
+ * Label for logs and usage events ("gpt-4o", "gemini:gemini-2.5-flash")
+ */
+export function formatModelSpec(spec: ModelSpec): string {
+  return spec.provider === 'openai' ? spec.model : `${spec.provider}:${spec.model}`;
+}
+
+/**
+ * Check that a provider has the credentials it needs
+ */
+export function isProviderConfigured(provider: LlmProvider): boolean {
+  switch (provider) {
+    case 'openai':
+      return Boolean(process.env.OPENAI_API_KEY);
+    case 'gemini':
+      return Boolean(process.env.GEMINI_API_KEY);
+    case 'local':
+      return true;
+  }
+}
+
+function getCompatibleProvider(name: string, baseURL: string, apiKey: string): OpenAIProvider {
+  const key = `${name}:${baseURL}`;
+  let provider = compatibleProviders.get(key);
+  if (!provider) {
+    provider = createOpenAI({ name, baseURL, apiKey });
+    compatibleProviders.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Create an AI SDK model for a spec or model reference
+ */
+export function getLanguageModel(specOrRef: ModelSpec | string, role: ModelRole = 'fast'): LanguageModel {
+  const spec = typeof specOrRef === 'string' ? parseModelRef(specOrRef, role) : specOrRef;
+
+  switch (spec.provider) {
+    case 'openai':
+      return openai(spec.model);
+    case 'gemini':
+      // Gemini's OpenAI-compatible endpoint supports chat completions (not the Responses API)
+      return getCompatibleProvider('gemini', GEMINI_OPENAI_BASE_URL, process.env.GEMINI_API_KEY ?? '').chat(spec.model);
+    case 'local':
+      return getCompatibleProvider(
+        'local',
+        spec.baseUrl || process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        process.env.LOCAL_LLM_API_KEY || 'local'
+      ).chat(spec.model);
+  }
+}
+
+/**
+ * Default model for a role, for calls that aren't tied to a persona
+ */
+export function getDefaultLanguageModel(role: ModelRole): LanguageModel {
+  return getLanguageModel(parseModelRef(undefined, role), role);
+}
+
+/**
+ * Resolve a persona's model settings, filling in defaults
+ */
+export function resolvePersonaModels(config: PersonaModelConfig = {}): ResolvedPersonaModels {
+  const defaults = {
+    provider: isProvider(config.provider) ? config.provider : undefined,
+    baseUrl: config.base_url,
+  };
+
+  return {
+    chat: parseModelRef(config.chat_model, 'chat', defaults),
+    reformulation: parseModelRef(config.reformulation_model, 'fast', defaults),
+    temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+    maxOutputTokens: config.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+  };
+}
@@ -3,6 +3,8 @@
  * Handles chat API calls with streaming support for SSE MCP server
  */
 
+import { readChatEventStream, type StreamedCitation } from '@/lib/chat/streamProtocol';
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -10,8 +12,8 @@ interface ChatMessage {
 
 interface StreamCallbacks {
   onToken?: (token: string) => void;
-  onCitation?: (citation: any) => void;
-  onComplete?: (fullResponse: string, citations: any[]) => void;
+  onCitation?: (citation: StreamedCitation) => void;
+  onComplete?: (fullResponse: string, citations: StreamedCitation[]) => void;
 }
 
 /**
@@ -42,7 +44,6 @@ export async function callChatApiStreaming(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-MCP-Client': 'true', // Skip large headers
       },
       body: JSON.stringify({
         messages,
@@ -57,51 +58,19 @@ export async function callChatApiStreaming(
       throw new Error(`Chat API returned ${response.status}: ${errorText}`);
     }
 
-    // Extract citations from headers (if available)
-    const citations: any[] = [];
-    try {
-      const citationMetadataHeader = response.headers.get('X-Citation-Metadata');
-      if (citationMetadataHeader) {
-        const decoded = Buffer.from(citationMetadataHeader, 'base64').toString('utf-8');
-        citations.push(...JSON.parse(decoded));
-      }
-    } catch (error) {
-      console.error('[MCP Chat Streaming] Failed to extract citation metadata:', error);
-    }
-
-    // Stream the response
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullResponse = '';
-
-    if (!reader) {
-      throw new Error('Response body is not readable');
-    }
-
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) {
-        break;
-      }
-
-      const chunk = decoder.decode(value, { stream: true });
-      fullResponse += chunk;
-
-      // Callback for each token/chunk
-      if (callbacks.onToken) {
-        callbacks.onToken(chunk);
-      }
-    }
+    // Tokens and citations are forwarded as their events arrive
+    const result = await readChatEventStream(response, {
+      onToken: callbacks.onToken,
+      onCitation: callbacks.onCitation,
+    });
 
-    // Notify citations (if any)
-    if (callbacks.onCitation && citations.length > 0) {
-      citations.forEach(citation => callbacks.onCitation!(citation));
+    if (result.error) {
+      throw new Error(`Chat generation failed: ${result.error}`);
     }
 
     // Final callback with complete response
     if (callbacks.onComplete) {
-      callbacks.onComplete(fullResponse, citations);
+      callbacks.onComplete(result.text, result.citations);
     }
 
   } catch (error) {
@@ -121,7 +90,7 @@ export function formatCitations(citations: any[]): string {
   const citationList = citations
     .map((c, idx) => {
       const docRef = c.docRef || `[${idx + 1}]`;
-      const title = c.title || 'Unknown source';
+      const title = c.docTitle || c.title || 'Unknown source';
       return `${docRef}: ${title}`;
     })
     .join('\n');
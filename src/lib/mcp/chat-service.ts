@@ -3,6 +3,8 @@
  * Handles chat API calls and streaming responses for MCP clients
  */
 
+import { readChatEventStream } from '@/lib/chat/streamProtocol';
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -74,13 +76,10 @@ export async function callChatApi(
   }
 
   try {
-    // Add X-MCP-Client header to tell chat API to skip citation metadata in headers
-    // This prevents header overflow errors when citations are large
     const response = await fetch(chatApiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-MCP-Client': 'true',
       },
       body: JSON.stringify({
         messages,
@@ -96,37 +95,19 @@ export async function callChatApi(
       throw new Error(`Chat API returned ${response.status}: ${errorText}`);
     }
 
-    // Try to extract citation metadata from headers
-    // Note: May fail if headers are too large (>16KB default limit)
-    let citations: CitationMetadata[] = [];
-    try {
-      const citationMetadataHeader = response.headers.get('X-Citation-Metadata');
-      if (citationMetadataHeader) {
-        const decoded = Buffer.from(citationMetadataHeader, 'base64').toString('utf-8');
-        citations = JSON.parse(decoded);
-        console.error('[MCP Chat] Extracted citation metadata:', citations.length, 'citations');
-      }
-    } catch (error) {
-      console.error('[MCP Chat] Failed to extract citation metadata (headers may be too large):', error);
-      // Continue without citation metadata - the response text still has inline citations
-    }
-
-    // Stream and buffer the response
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body from chat API');
+    // Buffer the event stream; citation metadata comes from the retrieval event
+    const result = await readChatEventStream(response);
+    if (result.error) {
+      throw new Error(`Chat generation failed: ${result.error}`);
     }
 
-    let fullResponse = '';
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      fullResponse += chunk;
-    }
+    const fullResponse = result.text;
+    const citations: CitationMetadata[] = result.sources.map(source => ({
+      docRef: source.docRef,
+      sourceUrl: source.sourceUrl,
+      docTitle: source.docTitle,
+      docId: source.docId,
+    }));
 
     console.error('[MCP Chat] Response complete:', {
       length: fullResponse.length,
@@ -106,6 +106,24 @@ export interface JobResult {
     successful: number;
     failed: number;
   };
+  // Re-ingestion: unchanged chunks are reused instead of re-embedded
+  chunks?: {
+    total: number;
+    reused: number;
+    regenerated: number;
+    removed: number;
+    cost: number;
+    costSaved: number;
+  };
+  // Extraction: stored documents matching an existing document, pending admin review
+  duplicates?: Array<{
+    docId: string;
+    duplicateOf: string;
+    title: string; // Title of the existing document
+    reason: 'identifier' | 'content';
+    similarity: number;
+    matchedIdentifiers: string[];
+  }>;
   error?: string;
 }
 
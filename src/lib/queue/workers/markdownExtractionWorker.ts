@@ -6,7 +6,7 @@
 import { Worker, Job } from 'bullmq';
 import { getRedisClient } from '../redis';
 import { updateJobStatus, publishProgress } from '../jobQueue';
-import type { MarkdownSingleJobData, MarkdownBatchJobData } from '../types';
+import type { MarkdownSingleJobData, MarkdownBatchJobData, JobResult } from '../types';
 import { formatRawMarkdown } from '@/lib/rag/extraction/rawMarkdownFormatter';
 import { storeExtractedDocument } from '@/lib/rag/storage/documentStorage';
 import { createServiceClient } from '@/lib/supabase/service';
@@ -84,6 +84,7 @@ export async function processSingleMarkdown(
           title: storeResult.title!,
           storagePath: storeResult.storagePath!,
         }],
+        duplicates: storeResult.duplicates?.map(d => ({ docId: storeResult.docId!, ...d })),
         stats: {
           total: 1,
           successful: 1,
@@ -139,6 +140,7 @@ async function processBatchMarkdown(
 
     const results: Array<{ docId: string; title: string; storagePath: string }> = [];
     const errors: string[] = [];
+    const duplicates: NonNullable<JobResult['duplicates']> = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
@@ -185,6 +187,7 @@ async function processBatchMarkdown(
             title: storeResult.title!,
             storagePath: storeResult.storagePath!,
           });
+          duplicates.push(...(storeResult.duplicates || []).map(d => ({ docId: storeResult.docId!, ...d })));
         } else {
           errors.push(`${file.filename}: ${storeResult.error}`);
         }
@@ -209,6 +212,7 @@ async function processBatchMarkdown(
         success: results.length > 0,
         docIds: results.map(r => r.docId),
         storedDocuments: results,
+        duplicates,
         stats: {
           total: files.length,
           successful: results.length,
@@ -121,6 +121,7 @@ export async function processPdfJob(job: Job, data: PdfJobData): Promise<void> {
               storagePath: storeResult.storagePath || '',
             },
           ],
+          duplicates: storeResult.duplicates?.map(d => ({ docId: storeResult.docId!, ...d })),
           stats: {
             total: 1,
             successful: 1,
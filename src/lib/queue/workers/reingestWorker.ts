@@ -8,6 +8,8 @@ import { updateJobStatus, publishProgress } from '../jobQueue';
 import type { ReingestJobData } from '../types';
 import { DatabaseIngestor } from '@/lib/rag/ingestion/databaseIngestor';
 import { createServiceClient } from '@/lib/supabase/service';
+import { invalidatePersonaCache } from '@/lib/rag/search/queryCache';
+import { recordDocumentVersion } from '@/lib/rag/storage/documentVersions';
 
 /**
  * Process reingest job
@@ -50,23 +52,12 @@ export async function processReingest(
 
     console.log(`  ✓ Found document: ${doc.title}`);
 
-    // Step 1: Delete existing chunks
+    // Step 1: Compare with existing chunks (done by the ingestor via content hashes;
+    // unchanged chunks keep their embeddings, so nothing is deleted up front)
     await updateJobStatus(jobId, {
-      progress: { current: 1, total: 6, message: 'Deleting existing chunks...' },
+      progress: { current: 1, total: 6, message: 'Comparing with existing chunks...' },
     }, true);
-    await publishProgress(jobId, { current: 1, total: 6, message: 'Deleting existing chunks...' }, 'processing');
-
-    const { error: deleteError } = await supabase
-      .from('chunks')
-      .delete()
-      .eq('doc_id', docId);
-
-    if (deleteError) {
-      console.error('Error deleting chunks:', deleteError);
-      throw new Error(`Failed to delete existing chunks: ${deleteError.message}`);
-    }
-
-    console.log(`  ✓ Deleted existing chunks`);
+    await publishProgress(jobId, { current: 1, total: 6, message: 'Comparing with existing chunks...' }, 'processing');
 
     // DEBUG: Log the raw_content to see what we're working with
     console.log(`📋 DEBUG: Document raw_content length: ${doc.raw_content?.length || 0}`);
@@ -96,17 +87,17 @@ export async function processReingest(
 
     // Step 3: Contextual context generation
     await updateJobStatus(jobId, {
-      progress: { current: 3, total: 6, message: 'Generating contextual contexts...' },
+      progress: { current: 3, total: 6, message: 'Generating contexts for new or changed chunks...' },
     }, true);
-    await publishProgress(jobId, { current: 3, total: 6, message: 'Generating contextual contexts...' }, 'processing');
+    await publishProgress(jobId, { current: 3, total: 6, message: 'Generating contexts for new or changed chunks...' }, 'processing');
 
     console.log(`  🤖 Starting contextual context generation...`);
 
     // Step 4: Embedding generation
     await updateJobStatus(jobId, {
-      progress: { current: 4, total: 6, message: 'Generating embeddings...' },
+      progress: { current: 4, total: 6, message: 'Embedding new or changed chunks...' },
     }, true);
-    await publishProgress(jobId, { current: 4, total: 6, message: 'Generating embeddings...' }, 'processing');
+    await publishProgress(jobId, { current: 4, total: 6, message: 'Embedding new or changed chunks...' }, 'processing');
 
     console.log(`  🔢 Starting embedding generation...`);
 
@@ -123,13 +114,18 @@ export async function processReingest(
       throw new Error(result.error);
     }
 
-    console.log(`  ✓ Chunks created: ${result.chunksCreated}`);
+    const reused = result.chunksReused ?? 0;
+    const regenerated = result.chunksRegenerated ?? result.chunksCreated;
+    const costSaved = result.costSaved ?? 0;
+    const chunkSummary = `${reused} chunks reused, ${regenerated} regenerated (saved ~$${costSaved.toFixed(4)})`;
 
-    // Step 5: Inserting chunks
+    console.log(`  ✓ ${chunkSummary}, ${result.chunksRemoved ?? 0} removed`);
+
+    // Step 5: Chunks saved
     await updateJobStatus(jobId, {
-      progress: { current: 5, total: 6, message: `Saving ${result.chunksCreated} chunks to database...` },
+      progress: { current: 5, total: 6, message: chunkSummary },
     }, true);
-    await publishProgress(jobId, { current: 5, total: 6, message: `Saving ${result.chunksCreated} chunks to database...` }, 'processing');
+    await publishProgress(jobId, { current: 5, total: 6, message: chunkSummary }, 'processing');
 
     // Step 6: Update ingestion status
     await updateJobStatus(jobId, {
@@ -144,11 +140,19 @@ export async function processReingest(
 
     console.log(`  ✓ Updated ingestion status`);
 
+    // Snapshot what is now live in search (no-op if unchanged since the last version)
+    await recordDocumentVersion(
+      supabase,
+      docId,
+      { raw_content: doc.raw_content, personas: doc.personas || [] },
+      { changeType: 'reingest', createdBy: userId }
+    );
+
     // Mark as completed
     await updateJobStatus(jobId, {
       status: 'completed',
       completed_at: new Date().toISOString(),
-      progress: { current: 6, total: 6, message: 'Ingestion complete' },
+      progress: { current: 6, total: 6, message: `Ingestion complete: ${chunkSummary}` },
       result_data: {
         success: true,
         docIds: [docId],
@@ -157,11 +161,19 @@ export async function processReingest(
           successful: 1,
           failed: 0,
         },
+        chunks: {
+          total: result.chunksCreated,
+          reused,
+          regenerated,
+          removed: result.chunksRemoved ?? 0,
+          cost: result.cost,
+          costSaved,
+        },
       },
     }, true);
-    await publishProgress(jobId, { current: 6, total: 6, message: 'Ingestion complete' }, 'completed');
+    await publishProgress(jobId, { current: 6, total: 6, message: `Ingestion complete: ${chunkSummary}` }, 'completed');
 
-    console.log(`✅ Re-ingested document ${docId}: ${result.chunksCreated} chunks created`);
+    console.log(`✅ Re-ingested document ${docId}: ${result.chunksCreated} chunks (${chunkSummary})`);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`❌ Job ${jobId} failed:`, errorMessage);
@@ -178,5 +190,9 @@ export async function processReingest(
     );
 
     throw error;
+  } finally {
+    // Chunks were updated (or partially by a failed run); drop cached searches for the
+    // personas the document belonged to. The ingestor covers its frontmatter personas.
+    await invalidatePersonaCache(personaSlugs);
   }
 }
@@ -7,7 +7,7 @@ import { Job, Worker } from 'bullmq';
 import { getRedisClient } from '../redis';
 import { getQueue, updateJobStatus, publishProgress } from '../jobQueue';
 import { createServiceClient } from '@/lib/supabase/service';
-import { UrlSingleJobData, UrlBatchJobData } from '../types';
+import { UrlSingleJobData, UrlBatchJobData, JobResult } from '../types';
 import { analyzeUrl, normalizeIdentifier } from '@/lib/rag/extraction/urlRouter';
 import { extractPatentWithGemini } from '@/lib/rag/extraction/patentGeminiExtractor';
 import { formatPatentMarkdown } from '@/lib/rag/extraction/patentGeminiFormatter';
@@ -187,6 +187,7 @@ export async function processSingleUrl(job: Job, data: UrlSingleJobData): Promis
               storagePath: storeResult.storagePath || '',
             },
           ],
+          duplicates: storeResult.duplicates?.map(d => ({ docId: storeResult.docId!, ...d })),
           stats: {
             total: 1,
             successful: 1,
@@ -239,6 +240,7 @@ export async function processBatchUrl(job: Job, data: UrlBatchJobData): Promise<
   const jobId = job.id!;
   const total = urls.length;
   const results: Array<{ url: string; success: boolean; docId?: string; error?: string }> = [];
+  const duplicates: NonNullable<JobResult['duplicates']> = [];
 
   try {
     await updateJobStatus(
@@ -339,6 +341,7 @@ export async function processBatchUrl(job: Job, data: UrlBatchJobData): Promise<
 
         if (storeResult.success) {
           results.push({ url, success: true, docId: storeResult.docId });
+          duplicates.push(...(storeResult.duplicates || []).map(d => ({ docId: storeResult.docId!, ...d })));
           console.log(`   ✅ Stored: ${storeResult.docId}`);
         } else {
           results.push({ url, success: false, error: storeResult.error });
@@ -364,6 +367,7 @@ export async function processBatchUrl(job: Job, data: UrlBatchJobData): Promise<
         result_data: {
           success: true,
           docIds: results.filter(r => r.success).map(r => r.docId!),
+          duplicates,
           stats: { total, successful, failed },
         },
       },
@@ -0,0 +1,290 @@
+/**
+ * Faithfulness Evaluator
+ *
+ * Checks whether the chunks an answer cites actually support what it says.
+ * The answer is split into claims (sentences and list items); each cited claim is
+ * judged against the text of the chunks behind its [^doc_N:section] citations:
+ * - supported: the cited passages state or directly imply the claim
+ * - unsupported: the passages don't back the claim (or the citation points nowhere)
+ * - contradicted: the passages state something incompatible with the claim
+ *
+ * Uncited claims are counted but not judged. Judging uses an LLM with a lexical
+ * overlap heuristic as fallback (which never reports contradictions).
+ */
+
+import { generateText } from 'ai';
+import { getLanguageModel, isProviderConfigured, parseModelRef } from '../../llm/models';
+import type { SearchResult } from '../search';
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export interface ClaimEvaluation {
+  claim: string;
+  citations: string[]; // Cited references, e.g. "doc_2:Claims"
+  chunkIds: string[]; // Chunks the citations resolved to
+  verdict?: ClaimVerdict; // Undefined for uncited claims
+  reason?: string;
+}
+
+export interface FaithfulnessBreakdown {
+  total_claims: number;
+  cited_claims: number;
+  supported: number;
+  unsupported: number;
+  contradicted: number;
+  uncited: number;
+  invalid_citations: number; // Citations to references that weren't in the context
+  method: 'llm' | 'heuristic';
+  claims: ClaimEvaluation[];
+}
+
+export interface FaithfulnessResult {
+  faithfulness_score: number | null; // Supported / cited claims (null when nothing is cited)
+  breakdown: FaithfulnessBreakdown;
+}
+
+interface ContextPassage {
+  docRef: string;
+  section: string;
+  text: string;
+  chunkId?: string;
+}
+
+const MAX_JUDGED_CLAIMS = 25;
+const MAX_PASSAGE_CHARS = 1500;
+const MAX_STORED_CLAIM_CHARS = 300;
+const MIN_CLAIM_WORDS = 4;
+const HEURISTIC_SUPPORT_THRESHOLD = 0.6;
+
+const CITATION_PATTERN = /\[\^(doc_\d+):([^\]]+)\]/g;
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'which', 'their', 'there', 'these', 'those',
+  'into', 'also', 'been', 'were', 'when', 'where', 'what', 'while', 'such', 'than',
+  'then', 'they', 'them', 'will', 'would', 'could', 'should', 'about', 'other', 'more',
+]);
+
+/**
+ * Parse the formatted RAG context into passages keyed by doc reference
+ * Context blocks look like: [Reference: ^doc_1:Section]\nDocument: ...\n\n<text>\n\n---
+ */
+export function parseContextPassages(
+  ragContext: string,
+  searchResults?: Pick<SearchResult, 'chunkId'>[]
+): Map<string, ContextPassage> {
+  const passages = new Map<string, ContextPassage>();
+  const blockPattern = /\[Reference: \^(doc_(\d+)):([^\]]*)\]\n(?:Document: .*\n)?(?:Section: .*\n)?(?:Source: .*\n)?\n([\s\S]*?)\n\n---/g;
+
+  for (const match of ragContext.matchAll(blockPattern)) {
+    const [, docRef, index, section, text] = match;
+    passages.set(docRef, {
+      docRef,
+      section,
+      text,
+      // doc_N is the N-th search result passed to formatRagContext
+      chunkId: searchResults?.[Number(index) - 1]?.chunkId,
+    });
+  }
+  return passages;
+}
+
+/**
+ * Split an answer into claims, keeping each claim's trailing citations
+ * Lines are split first (list items are separate claims), then sentences.
+ * Headings, code and fragments shorter than a few words are skipped.
+ */
+export function extractClaims(responseText: string): Array<{ claim: string; citations: string[] }> {
+  const withoutCode = responseText.replace(/```[\s\S]*?```/g, '');
+  const claims: Array<{ claim: string; citations: string[] }> = [];
+
+  for (const rawLine of withoutCode.split('\n')) {
+    const line = rawLine.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trim();
+    if (!line || line.startsWith('#') || line.startsWith('|')) continue;
+
+    // Protect citations (section paths can contain periods) while splitting sentences
+    const citations: string[] = [];
+    const masked = line.replace(CITATION_PATTERN, (match) => {
+      citations.push(match);
+      return `\u0000${citations.length - 1}\u0000`;
+    });
+
+    const sentences = masked.split(/(?<=[.!?](?:\s*\u0000\d+\u0000)*)\s+(?=[A-Z0-9*_"(])/);
+    for (const sentence of sentences) {
+      const restored = sentence.replace(/\u0000(\d+)\u0000/g, (_, i) => citations[Number(i)]);
+      const refs = Array.from(restored.matchAll(CITATION_PATTERN)).map(m => `${m[1]}:${m[2]}`);
+      const claim = restored.replace(CITATION_PATTERN, '').replace(/\*\*|__/g, '')
+        .replace(/\s+/g, ' ').replace(/\s+([.,;:!?])/g, '$1').trim();
+
+      if (claim.split(' ').length < MIN_CLAIM_WORDS || claim.endsWith('?')) continue;
+      claims.push({ claim, citations: refs });
+    }
+  }
+
+  return claims;
+}
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9-]*/g) ?? [])
+    .filter(w => (w.length > 3 || /\d/.test(w)) && !STOPWORDS.has(w));
+}
+
+/**
+ * Heuristic judge: share of the claim's content words found in the cited passages
+ */
+function judgeHeuristic(claim: string, passages: ContextPassage[]): { verdict: ClaimVerdict; reason: string } {
+  const words = contentWords(claim);
+  if (words.length === 0) return { verdict: 'supported', reason: 'no content words to verify' };
+
+  const passageWords = new Set(contentWords(passages.map(p => p.text).join(' ')));
+  const coverage = words.filter(w => passageWords.has(w)).length / words.length;
+  return coverage >= HEURISTIC_SUPPORT_THRESHOLD
+    ? { verdict: 'supported', reason: `${Math.round(coverage * 100)}% of terms found in cited passages` }
+    : { verdict: 'unsupported', reason: `only ${Math.round(coverage * 100)}% of terms found in cited passages` };
+}
+
+/**
+ * Extract the first JSON array from an LLM response (tolerates code fences and prose)
+ */
+function parseJsonArray(text: string): unknown[] {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  const start = cleaned.indexOf('[');
+  const end = cleaned.lastIndexOf(']');
+  if (start === -1 || end === -1) {
+    throw new Error('No JSON array found in faithfulness judge response');
+  }
+  const parsed = JSON.parse(cleaned.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('Faithfulness judge response is not an array');
+  }
+  return parsed;
+}
+
+/**
+ * LLM judge: one call grades every cited claim against its passages
+ */
+async function judgeWithLlm(
+  items: Array<{ claim: string; passages: ContextPassage[] }>
+): Promise<Array<{ verdict: ClaimVerdict; reason?: string }>> {
+  const passageRefs = new Map<string, ContextPassage>();
+  items.forEach(item => item.passages.forEach(p => passageRefs.set(p.docRef, p)));
+
+  const passagesText = Array.from(passageRefs.values())
+    .map(p => `[${p.docRef}] (${p.section})\n${p.text.length > MAX_PASSAGE_CHARS ? `${p.text.slice(0, MAX_PASSAGE_CHARS)}...` : p.text}`)
+    .join('\n\n');
+  const claimsText = items
+    .map((item, i) => `[${i}] ${item.claim}\n    cites: ${item.passages.map(p => p.docRef).join(', ')}`)
+    .join('\n');
+
+  const prompt = `You are a fact-checking judge. For each claim, decide whether the passages it cites support it.
+
+# Passages
+${passagesText}
+
+# Claims
+${claimsText}
+
+# Task
+Judge each claim ONLY against the passages it cites:
+- "supported": the cited passages state or directly imply the claim
+- "unsupported": the cited passages do not back the claim (missing, too vague, or about something else)
+- "contradicted": the cited passages state something incompatible with the claim
+Output ONLY a JSON array with one entry per claim: [{"index": 0, "verdict": "supported", "reason": "short justification"}]`;
+
+  const result = await generateText({
+    model: getLanguageModel(parseModelRef(undefined, 'fast')),
+    prompt,
+    temperature: 0,
+    maxOutputTokens: 60 * items.length + 100,
+  });
+
+  const verdicts: Array<{ verdict: ClaimVerdict; reason?: string }> = items.map(() => ({
+    verdict: 'unsupported',
+    reason: 'not judged',
+  }));
+  for (const entry of parseJsonArray(result.text) as Array<{ index?: unknown; verdict?: unknown; reason?: string }>) {
+    const index = Number(entry?.index);
+    const verdict = entry?.verdict;
+    if (Number.isInteger(index) && index >= 0 && index < items.length &&
+        (verdict === 'supported' || verdict === 'unsupported' || verdict === 'contradicted')) {
+      verdicts[index] = { verdict, reason: entry.reason };
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * Evaluate the faithfulness of an assistant response to the chunks it cites
+ *
+ * @param responseText - The assistant response with [^doc_N:section] citations
+ * @param ragContext - The formatted RAG context given to the model
+ * @param searchResults - The search results behind the context, in doc_N order (optional, for chunk IDs)
+ */
+export async function evaluateFaithfulness(
+  responseText: string,
+  ragContext: string,
+  searchResults?: Pick<SearchResult, 'chunkId'>[]
+): Promise<FaithfulnessResult> {
+  const passages = parseContextPassages(ragContext, searchResults);
+  const claims: ClaimEvaluation[] = extractClaims(responseText).map(({ claim, citations }) => ({
+    claim,
+    citations,
+    chunkIds: [],
+  }));
+
+  let invalidCitations = 0;
+  const toJudge: Array<{ evaluation: ClaimEvaluation; passages: ContextPassage[] }> = [];
+
+  for (const evaluation of claims) {
+    if (evaluation.citations.length === 0) continue;
+
+    const cited = evaluation.citations
+      .map(ref => passages.get(ref.split(':')[0]))
+      .filter((p): p is ContextPassage => p !== undefined);
+    invalidCitations += evaluation.citations.length - cited.length;
+    evaluation.chunkIds = [...new Set(cited.map(p => p.chunkId).filter((id): id is string => !!id))];
+
+    if (cited.length === 0) {
+      evaluation.verdict = 'unsupported';
+      evaluation.reason = 'cited reference not in retrieved context';
+    } else if (toJudge.length < MAX_JUDGED_CLAIMS) {
+      toJudge.push({ evaluation, passages: cited });
+    } else {
+      Object.assign(evaluation, judgeHeuristic(evaluation.claim, cited));
+    }
+  }
+
+  let method: FaithfulnessBreakdown['method'] = 'heuristic';
+  if (toJudge.length > 0 && isProviderConfigured(parseModelRef(undefined, 'fast').provider)) {
+    try {
+      const verdicts = await judgeWithLlm(toJudge.map(j => ({ claim: j.evaluation.claim, passages: j.passages })));
+      toJudge.forEach((j, i) => Object.assign(j.evaluation, verdicts[i]));
+      method = 'llm';
+    } catch (error) {
+      console.warn('LLM faithfulness judge failed, falling back to heuristic:', error);
+    }
+  }
+  if (method === 'heuristic') {
+    toJudge.forEach(j => Object.assign(j.evaluation, judgeHeuristic(j.evaluation.claim, j.passages)));
+  }
+
+  const count = (verdict: ClaimVerdict) => claims.filter(c => c.verdict === verdict).length;
+  const citedClaims = claims.filter(c => c.citations.length > 0).length;
+  const supported = count('supported');
+
+  return {
+    faithfulness_score: citedClaims > 0 ? Math.round((supported / citedClaims) * 100) / 100 : null,
+    breakdown: {
+      total_claims: claims.length,
+      cited_claims: citedClaims,
+      supported,
+      unsupported: count('unsupported'),
+      contradicted: count('contradicted'),
+      uncited: claims.length - citedClaims,
+      invalid_citations: invalidCitations,
+      method,
+      claims: claims.map(c => ({
+        ...c,
+        claim: c.claim.length > MAX_STORED_CLAIM_CHARS ? `${c.claim.slice(0, MAX_STORED_CLAIM_CHARS)}...` : c.claim,
+      })),
+    },
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Token-Budgeted Context Packing
+ *
+ * Fills the RAG context up to a token budget instead of a fixed chunk count:
+ * chunks are taken in score order, near-duplicates and low-value chunks are
+ * dropped, and the last chunk that doesn't fit is trimmed rather than skipped.
+ * Low value is judged on rerank scores (absolute relevance); fused RRF scores
+ * only encode rank, so without reranking no chunk is dropped as low-value.
+ * Long-document personas stay inside the context window while short-chunk
+ * personas get more coverage from the same budget.
+ */
+
+import { TokenCounter } from './chunking/smartChunker';
+import type { SearchResult } from './search';
+
+export interface ContextPackingOptions {
+  tokenBudget: number;
+  minScoreRatio?: number; // Drop reranked chunks below this fraction of the best rerank score (default: 0.2)
+  duplicateThreshold?: number; // Shingle overlap above which a chunk is a near-duplicate (default: 0.8)
+  chunkOverheadTokens?: number; // Reference/header tokens added per chunk by the prompt (default: 40)
+  minTrimTokens?: number; // Smallest useful trimmed chunk (default: 150)
+}
+
+export type DropReason = 'duplicate' | 'low_score' | 'budget';
+
+export interface DroppedChunk {
+  chunkId: string;
+  docId: string;
+  score: number;
+  tokens: number;
+  reason: DropReason;
+  duplicateOf?: string; // Chunk ID of the kept near-duplicate
+  mergedHits?: string[]; // Search hits covered by a dropped expanded block
+}
+
+export interface PackedContext {
+  included: SearchResult[];
+  dropped: DroppedChunk[];
+  trimmed: string[]; // Chunk IDs whose text was cut to fit the budget
+  usedTokens: number;
+  tokenBudget: number;
+}
+
+// Context token budgets per chat model (leaves room for system prompt, history and output)
+const MODEL_CONTEXT_BUDGETS: Record<string, number> = {
+  'gpt-4o': 24000,
+  'gpt-4o-mini': 16000,
+  'gpt-4.1': 32000,
+  'gpt-4.1-mini': 24000,
+  'gemini-2.5-pro': 32000,
+  'gemini-2.5-flash': 32000,
+  'gemini-2.5-flash-lite': 24000,
+};
+const DEFAULT_CONTEXT_BUDGET = 12000;
+
+const DEFAULT_MIN_SCORE_RATIO = 0.2;
+const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+const DEFAULT_CHUNK_OVERHEAD_TOKENS = 40;
+const DEFAULT_MIN_TRIM_TOKENS = 150;
+const SHINGLE_SIZE = 5;
+
+/**
+ * Resolve the context token budget for a chat model
+ * An explicit override (e.g. persona `search.context_token_budget`) wins.
+ */
+export function getContextTokenBudget(model: string, override?: number): number {
+  if (override && override > 0) return override;
+  return MODEL_CONTEXT_BUDGETS[model] ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * Word shingles used for near-duplicate detection
+ */
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+  const result = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Overlap between two shingle sets, relative to the smaller one
+ * (containment catches a short chunk fully repeated inside a longer one)
+ */
+function shingleOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach(s => {
+    if (larger.has(s)) shared++;
+  });
+  return shared / smaller.size;
+}
+
+/**
+ * Cut text to roughly `maxTokens`, preferring a paragraph or sentence boundary
+ */
+function trimToTokens(text: string, maxTokens: number, counter: TokenCounter): string {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (counter.count(text.slice(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const cut = text.slice(0, low);
+  const boundary = Math.max(cut.lastIndexOf('\n\n'), cut.lastIndexOf('. '));
+  const trimmed = boundary > cut.length * 0.5 ? cut.slice(0, boundary + 1) : cut;
+  return `${trimmed.trimEnd()} […]`;
+}
+
+/**
+ * Pack search results into a token budget
+ */
+export function packContext(
+  results: SearchResult[],
+  options: ContextPackingOptions
+): PackedContext {
+  const {
+    tokenBudget,
+    minScoreRatio = DEFAULT_MIN_SCORE_RATIO,
+    duplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD,
+    chunkOverheadTokens = DEFAULT_CHUNK_OVERHEAD_TOKENS,
+    minTrimTokens = DEFAULT_MIN_TRIM_TOKENS,
+  } = options;
+
+  const counter = new TokenCounter();
+  const sorted = [...results].sort((a, b) => b.score - a.score);
+  const topRerankScore = sorted.reduce<number | undefined>(
+    (best, r) => (r.rerankScore !== undefined && (best === undefined || r.rerankScore > best) ? r.rerankScore : best),
+    undefined
+  );
+
+  const included: SearchResult[] = [];
+  const includedShingles: Array<{ chunkId: string; shingles: Set<string> }> = [];
+  const dropped: DroppedChunk[] = [];
+  const trimmed: string[] = [];
+  let usedTokens = 0;
+
+  for (const result of sorted) {
+    const tokens = result.tokenCount ?? counter.count(result.text);
+    const drop = (reason: DropReason, duplicateOf?: string) =>
+      dropped.push({
+        chunkId: result.chunkId,
+        docId: result.docId,
+        score: result.score,
+        tokens,
+        reason,
+        duplicateOf,
+        mergedHits: result.mergedHits,
+      });
+
+    // Low-value: rerank score far below the best chunk's (always keep at least one chunk)
+    if (
+      included.length > 0 &&
+      topRerankScore !== undefined &&
+      result.rerankScore !== undefined &&
+      result.rerankScore < topRerankScore * minScoreRatio
+    ) {
+      drop('low_score');
+      continue;
+    }
+
+    // Near-duplicate of a chunk already packed (sibling patents, overlapping chunks)
+    const resultShingles = shingles(result.text);
+    const duplicate = includedShingles.find(s => shingleOverlap(s.shingles, resultShingles) >= duplicateThreshold);
+    if (duplicate) {
+      drop('duplicate', duplicate.chunkId);
+      continue;
+    }
+
+    const remaining = tokenBudget - usedTokens - chunkOverheadTokens;
+    if (tokens <= remaining) {
+      included.push(result);
+      includedShingles.push({ chunkId: result.chunkId, shingles: resultShingles });
+      usedTokens += tokens + chunkOverheadTokens;
+      continue;
+    }
+
+    // Doesn't fit: trim it if the remaining space is still worth using
+    if (remaining >= minTrimTokens) {
+      const text = trimToTokens(result.text, remaining, counter);
+      const trimmedTokens = counter.count(text);
+      included.push({ ...result, text, tokenCount: trimmedTokens });
+      includedShingles.push({ chunkId: result.chunkId, shingles: resultShingles });
+      trimmed.push(result.chunkId);
+      usedTokens += trimmedTokens + chunkOverheadTokens;
+      continue;
+    }
+
+    drop('budget');
+  }
+
+  const dropCounts = dropped.reduce<Record<string, number>>((acc, d) => {
+    acc[d.reason] = (acc[d.reason] ?? 0) + 1;
+    return acc;
+  }, {});
+  console.log(
+    `📦 Context packed: ${included.length}/${results.length} chunks, ${usedTokens}/${tokenBudget} tokens` +
+    (trimmed.length > 0 ? `, ${trimmed.length} trimmed` : '') +
+    (dropped.length > 0 ? `, dropped ${Object.entries(dropCounts).map(([r, n]) => `${n} ${r}`).join(', ')}` : '')
+  );
+
+  return { included, dropped, trimmed, usedTokens, tokenBudget };
+}
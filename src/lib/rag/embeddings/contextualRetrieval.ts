@@ -10,8 +10,9 @@
  * - How it relates to the broader document
  */
 
-import OpenAI from 'openai';
+import { generateText } from 'ai';
 import { execSync } from 'child_process';
+import { getDefaultLanguageModel, getDefaultProvider, isProviderConfigured } from '../../llm/models';
 
 export interface ChunkWithContext {
   originalText: string;
@@ -28,15 +29,13 @@ export interface ContextGenerationResult {
 }
 
 /**
- * Generate context using OpenAI GPT-4 Mini (server-side)
+ * Generate context with the default fast model (server-side, GPT-4o Mini unless configured otherwise)
  */
 async function generateContextWithOpenAI(
   docTitle: string,
   docSummary: string,
-  chunkText: string,
-  apiKey: string
+  chunkText: string
 ): Promise<string> {
-  const client = new OpenAI({ apiKey });
 
   const prompt = `You are a technical documentation expert. Given a document and a chunk from it, generate a brief 1-2 sentence context that situates this chunk within the document.
 
@@ -50,14 +49,14 @@ Generate a concise context (1-2 sentences) that explains what this chunk covers
 
 Context:`;
 
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [{ role: 'user', content: prompt }],
+  const result = await generateText({
+    model: getDefaultLanguageModel('fast'),
+    prompt,
     temperature: 0.3,
-    max_tokens: 100,
+    maxOutputTokens: 100,
   });
 
-  return response.choices[0].message.content?.trim() || '';
+  return result.text.trim();
 }
 
 /**
@@ -113,10 +112,10 @@ export async function generateContextualChunks(
 ): Promise<ContextGenerationResult> {
   const contextualChunks: ChunkWithContext[] = [];
   let totalTokens = 0;
-  const apiKey = process.env.OPENAI_API_KEY;
+  const provider = getDefaultProvider();
 
-  if (method === 'openai' && !apiKey) {
-    throw new Error('OPENAI_API_KEY required for server-side context generation');
+  if (method === 'openai' && !isProviderConfigured(provider)) {
+    throw new Error(`API key for LLM provider "${provider}" required for server-side context generation`);
   }
 
   console.log(`Generating contexts using ${method.toUpperCase()}...`);
@@ -128,7 +127,7 @@ export async function generateContextualChunks(
       // Generate context
       const context =
         method === 'openai'
-          ? await generateContextWithOpenAI(docTitle, docSummary, chunkText, apiKey!)
+          ? await generateContextWithOpenAI(docTitle, docSummary, chunkText)
           : generateContextWithGemini(docTitle, docSummary, chunkText);
 
       // Combine context + chunk
@@ -158,20 +157,30 @@ export async function generateContextualChunks(
     }
   }
 
-  // Calculate cost (GPT-4 Mini: $0.15 per 1M input tokens, $0.60 per 1M output tokens)
-  // Approximate: 100 tokens output per chunk context
-  const inputCost = method === 'openai' ? (totalTokens / 1_000_000) * 0.15 : 0;
-  const outputCost = method === 'openai' ? (chunks.length * 100 / 1_000_000) * 0.60 : 0;
-  const cost = inputCost + outputCost;
-
   return {
     chunks: contextualChunks,
     totalTokens: Math.ceil(totalTokens),
-    cost,
+    cost: estimateContextCost(totalTokens, chunks.length, method),
     method,
   };
 }
 
+/**
+ * Estimated cost in USD of generating contexts
+ * GPT-4 Mini: $0.15 per 1M input tokens, $0.60 per 1M output tokens.
+ * Approximate: 100 tokens output per chunk context. Gemini CLI runs locally (free).
+ */
+export function estimateContextCost(
+  totalTokens: number,
+  chunkCount: number,
+  method: 'openai' | 'gemini'
+): number {
+  if (method !== 'openai') return 0;
+  const inputCost = (totalTokens / 1_000_000) * 0.15;
+  const outputCost = (chunkCount * 100 / 1_000_000) * 0.60;
+  return inputCost + outputCost;
+}
+
 /**
  * Validate that contexts are meaningful
  */
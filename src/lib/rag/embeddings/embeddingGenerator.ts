@@ -149,6 +149,21 @@ export class EmbeddingGenerator {
     return batches;
   }
 
+  /**
+   * Identifies the embedding space (model and dimensions); embeddings are only
+   * reusable between runs with the same key
+   */
+  get modelKey(): string {
+    return `${this.config.model}:${this.config.dimensions ?? 'default'}`;
+  }
+
+  /**
+   * Estimated cost in USD of embedding the given number of tokens
+   */
+  estimateCost(tokens: number): number {
+    return this.calculateCost(tokens);
+  }
+
   /**
    * Calculate cost in USD
    */
@@ -165,6 +180,70 @@ export class EmbeddingGenerator {
   }
 }
 
+/**
+ * Deterministic offline embeddings (feature hashing of word unigrams and bigrams)
+ * Used for evaluation and tests against a local database without OpenAI access.
+ * Cosine similarity between fake embeddings approximates lexical overlap, so
+ * rankings are meaningful but not comparable to real embedding runs.
+ */
+export class FakeEmbeddingGenerator extends EmbeddingGenerator {
+  private dimensions: number;
+
+  constructor(config: Partial<EmbeddingConfig> = {}) {
+    super('fake-key', config);
+    this.dimensions = config.dimensions ?? DEFAULT_CONFIG.dimensions!;
+  }
+
+  async generateBatch(
+    texts: string[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<EmbeddingBatchResult> {
+    const results = texts.map((text) => ({
+      text,
+      embedding: this.embed(text),
+      tokenCount: Math.ceil(text.length / 4),
+    }));
+    onProgress?.(texts.length, texts.length);
+
+    return {
+      results,
+      totalTokens: results.reduce((sum, r) => sum + r.tokenCount, 0),
+      cost: 0,
+    };
+  }
+
+  get modelKey(): string {
+    return `fake:${this.dimensions}`;
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vector[hash % this.dimensions] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
  * Validate embedding dimensions
  */
@@ -198,10 +277,15 @@ export function formatEmbeddingForDB(embedding: number[]): string {
 
 /**
  * Create embedding generator from environment variables
+ * EMBEDDING_PROVIDER=fake selects deterministic offline embeddings
  */
 export function createEmbeddingGenerator(
   config: Partial<EmbeddingConfig> = {}
 ): EmbeddingGenerator {
+  if (process.env.EMBEDDING_PROVIDER === 'fake') {
+    return new FakeEmbeddingGenerator(config);
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
 
   if (!apiKey) {
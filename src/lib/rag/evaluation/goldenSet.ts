@@ -0,0 +1,98 @@
+/**
+ * Golden question sets for retrieval evaluation
+ * Stored alongside each persona as personas/<slug>/golden-set.json
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { SearchFilters } from '../search/filters';
+
+export interface GoldenExpectation {
+  doc_id: string;
+  section?: string; // Optional section path prefix, e.g. "Claims" or "Abstract"
+  relevance?: number; // Graded relevance for nDCG (default: 1)
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expected: GoldenExpectation[];
+  filters?: SearchFilters;
+  notes?: string;
+}
+
+export interface GoldenSet {
+  persona: string;
+  version: string;
+  description?: string;
+  questions: GoldenQuestion[];
+}
+
+export const GOLDEN_SET_FILENAME = 'golden-set.json';
+
+/**
+ * Validate a parsed golden set, returning every problem found
+ */
+export function validateGoldenSet(raw: unknown): { goldenSet?: GoldenSet; errors: string[] } {
+  const errors: string[] = [];
+  const set = raw as Partial<GoldenSet> | null;
+
+  if (!set || typeof set !== 'object') {
+    return { errors: ['Golden set must be a JSON object'] };
+  }
+  if (typeof set.persona !== 'string' || !set.persona) errors.push('persona is required');
+  if (typeof set.version !== 'string' || !set.version) errors.push('version is required');
+  if (!Array.isArray(set.questions) || set.questions.length === 0) {
+    errors.push('questions must be a non-empty array');
+    return { errors };
+  }
+
+  const seenIds = new Set<string>();
+  set.questions.forEach((q, index) => {
+    const label = `questions[${index}]${q?.id ? ` (${q.id})` : ''}`;
+    if (!q?.id) errors.push(`${label}: id is required`);
+    else if (seenIds.has(q.id)) errors.push(`${label}: duplicate id`);
+    else seenIds.add(q.id);
+
+    if (typeof q?.question !== 'string' || !q.question.trim()) errors.push(`${label}: question is required`);
+    if (!Array.isArray(q?.expected) || q.expected.length === 0) {
+      errors.push(`${label}: expected must list at least one document`);
+    } else {
+      q.expected.forEach((e, i) => {
+        if (!e?.doc_id) errors.push(`${label}: expected[${i}].doc_id is required`);
+        if (e?.relevance !== undefined && (typeof e.relevance !== 'number' || e.relevance <= 0)) {
+          errors.push(`${label}: expected[${i}].relevance must be a positive number`);
+        }
+      });
+    }
+  });
+
+  return errors.length > 0 ? { errors } : { goldenSet: set as GoldenSet, errors };
+}
+
+/**
+ * Load and validate the golden set for a persona
+ */
+export async function loadGoldenSet(
+  personaSlug: string,
+  personasDir: string = path.join(process.cwd(), 'personas')
+): Promise<GoldenSet> {
+  const filePath = path.join(personasDir, personaSlug, GOLDEN_SET_FILENAME);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read golden set ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { goldenSet, errors } = validateGoldenSet(raw);
+  if (!goldenSet) {
+    throw new Error(`Invalid golden set ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+  if (goldenSet.persona !== personaSlug) {
+    throw new Error(`Golden set ${filePath} is for persona "${goldenSet.persona}", expected "${personaSlug}"`);
+  }
+
+  return goldenSet;
+}
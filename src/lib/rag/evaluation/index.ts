@@ -0,0 +1,18 @@
+/**
+ * Retrieval evaluation: golden sets, ranking metrics, runner and reports
+ */
+
+export type { GoldenSet, GoldenQuestion, GoldenExpectation } from './goldenSet';
+export type { QuestionMetrics, AggregateMetrics, RetrievedChunk } from './metrics';
+export type {
+  EvalConfiguration,
+  EvalSearchOptions,
+  EvaluationReport,
+  ConfigurationEvaluation,
+  QuestionEvaluation,
+} from './runner';
+export type { MetricDelta } from './report';
+export { loadGoldenSet, validateGoldenSet, GOLDEN_SET_FILENAME } from './goldenSet';
+export { computeQuestionMetrics, aggregateMetrics } from './metrics';
+export { runEvaluation, DEFAULT_EVAL_CONFIGURATIONS } from './runner';
+export { renderJsonReport, renderMarkdownReport, compareReports } from './report';
@@ -0,0 +1,105 @@
+/**
+ * Ranking metrics for retrieval evaluation (recall@k, MRR, nDCG@k)
+ *
+ * A retrieved chunk matches an expectation when its document matches and, if the
+ * expectation names a section, its section path starts with that section. Each
+ * expectation is credited once, at the rank of its first matching chunk.
+ */
+
+import type { GoldenExpectation } from './goldenSet';
+
+export interface RetrievedChunk {
+  docId: string;
+  sectionPath: string;
+}
+
+export interface QuestionMetrics {
+  recall: Record<number, number>; // k → recall@k
+  ndcg: Record<number, number>; // k → nDCG@k
+  reciprocalRank: number; // 1 / rank of the first relevant chunk (0 if none)
+  firstRelevantRank: number | null;
+}
+
+export interface AggregateMetrics {
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  mrr: number;
+  questions: number;
+  failed: number; // Questions whose search threw
+}
+
+export function matchesExpectation(chunk: RetrievedChunk, expectation: GoldenExpectation): boolean {
+  if (chunk.docId !== expectation.doc_id) return false;
+  if (!expectation.section) return true;
+  return chunk.sectionPath.toLowerCase().startsWith(expectation.section.toLowerCase());
+}
+
+/**
+ * Relevance grade at each rank (0 for non-relevant), crediting each expectation once
+ */
+export function gradeRanking(retrieved: RetrievedChunk[], expected: GoldenExpectation[]): number[] {
+  const credited = new Set<number>();
+  return retrieved.map((chunk) => {
+    const index = expected.findIndex((e, i) => !credited.has(i) && matchesExpectation(chunk, e));
+    if (index === -1) return 0;
+    credited.add(index);
+    return expected[index].relevance ?? 1;
+  });
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+}
+
+export function computeQuestionMetrics(
+  retrieved: RetrievedChunk[],
+  expected: GoldenExpectation[],
+  ks: number[]
+): QuestionMetrics {
+  const grades = gradeRanking(retrieved, expected);
+  const idealGrades = expected.map(e => e.relevance ?? 1).sort((a, b) => b - a);
+  const firstRelevant = grades.findIndex(g => g > 0);
+
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+  for (const k of ks) {
+    const topK = grades.slice(0, k);
+    recall[k] = topK.filter(g => g > 0).length / expected.length;
+    const ideal = dcg(idealGrades.slice(0, k));
+    ndcg[k] = ideal > 0 ? dcg(topK) / ideal : 0;
+  }
+
+  return {
+    recall,
+    ndcg,
+    reciprocalRank: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+  };
+}
+
+/**
+ * Mean of per-question metrics (failed questions count as zero)
+ */
+export function aggregateMetrics(
+  perQuestion: Array<QuestionMetrics | null>,
+  ks: number[]
+): AggregateMetrics {
+  const count = perQuestion.length || 1;
+  const mean = (pick: (m: QuestionMetrics) => number) =>
+    perQuestion.reduce((sum, m) => sum + (m ? pick(m) : 0), 0) / count;
+
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+  for (const k of ks) {
+    recall[k] = mean(m => m.recall[k]);
+    ndcg[k] = mean(m => m.ndcg[k]);
+  }
+
+  return {
+    recall,
+    ndcg,
+    mrr: mean(m => m.reciprocalRank),
+    questions: perQuestion.length,
+    failed: perQuestion.filter(m => m === null).length,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Evaluation reports
+ * JSON for machine comparison, Markdown for review. Both are deterministic for a
+ * given run (apart from the timestamp) so consecutive reports diff cleanly.
+ */
+
+import type { EvaluationReport, ConfigurationEvaluation } from './runner';
+
+export interface MetricDelta {
+  configuration: string;
+  metric: string; // e.g. "recall@5", "ndcg@10", "mrr"
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+function formatScore(value: number): string {
+  return value.toFixed(3);
+}
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+}
+
+function metricEntries(config: ConfigurationEvaluation, ks: number[]): Array<[string, number]> {
+  return [
+    ...ks.map((k): [string, number] => [`recall@${k}`, config.aggregate.recall[k] ?? 0]),
+    ...ks.map((k): [string, number] => [`ndcg@${k}`, config.aggregate.ndcg[k] ?? 0]),
+    ['mrr', config.aggregate.mrr],
+  ];
+}
+
+/**
+ * Metric changes between two reports, for configurations present in both
+ */
+export function compareReports(previous: EvaluationReport, current: EvaluationReport): MetricDelta[] {
+  const deltas: MetricDelta[] = [];
+  const ks = current.ks.filter(k => previous.ks.includes(k));
+
+  for (const config of current.configurations) {
+    const before = previous.configurations.find(c => c.name === config.name);
+    if (!before) continue;
+
+    const previousMetrics = new Map(metricEntries(before, ks));
+    for (const [metric, value] of metricEntries(config, ks)) {
+      const prior = previousMetrics.get(metric) ?? 0;
+      deltas.push({ configuration: config.name, metric, previous: prior, current: value, delta: value - prior });
+    }
+  }
+
+  return deltas;
+}
+
+/**
+ * Serialize a report as stable, pretty-printed JSON
+ */
+export function renderJsonReport(report: EvaluationReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Render a report as Markdown, optionally with changes since a previous report
+ */
+export function renderMarkdownReport(report: EvaluationReport, previous?: EvaluationReport): string {
+  const { ks } = report;
+  const lines: string[] = [];
+
+  lines.push(`# Retrieval Evaluation: ${report.persona}`);
+  lines.push('');
+  lines.push(`- Golden set version: ${report.goldenSetVersion}`);
+  lines.push(`- Questions: ${report.configurations[0]?.aggregate.questions ?? 0}`);
+  lines.push(`- Embeddings: ${report.embeddingProvider}`);
+  lines.push(`- Generated: ${report.generatedAt}`);
+  lines.push('');
+
+  // Summary table
+  lines.push('## Summary');
+  lines.push('');
+  const headers = ['Configuration', ...ks.map(k => `R@${k}`), ...ks.map(k => `nDCG@${k}`), 'MRR', 'Failed'];
+  lines.push(`| ${headers.join(' | ')} |`);
+  lines.push(`| ${headers.map(() => '---').join(' | ')} |`);
+  for (const config of report.configurations) {
+    const cells = [
+      config.name,
+      ...ks.map(k => formatScore(config.aggregate.recall[k] ?? 0)),
+      ...ks.map(k => formatScore(config.aggregate.ndcg[k] ?? 0)),
+      formatScore(config.aggregate.mrr),
+      String(config.aggregate.failed),
+    ];
+    lines.push(`| ${cells.join(' | ')} |`);
+  }
+  lines.push('');
+
+  const described = report.configurations.filter(c => c.description || Object.keys(c.options).length > 0);
+  if (described.length > 0) {
+    for (const config of described) {
+      lines.push(`- **${config.name}**: ${config.description ?? ''} \`${JSON.stringify(config.options)}\``);
+    }
+    lines.push('');
+  }
+
+  // Changes since the previous run
+  if (previous) {
+    const changed = compareReports(previous, report).filter(d => Math.abs(d.delta) >= 0.0005);
+    lines.push(`## Changes since ${previous.generatedAt}`);
+    lines.push('');
+    if (changed.length === 0) {
+      lines.push('No metric changed.');
+    } else {
+      lines.push('| Configuration | Metric | Previous | Current | Δ |');
+      lines.push('| --- | --- | --- | --- | --- |');
+      for (const d of changed) {
+        lines.push(`| ${d.configuration} | ${d.metric} | ${formatScore(d.previous)} | ${formatScore(d.current)} | ${formatDelta(d.delta)} |`);
+      }
+    }
+    lines.push('');
+  }
+
+  // Per-question first relevant rank across configurations
+  const maxK = ks[ks.length - 1];
+  lines.push(`## Per-question first relevant rank (— = not in top ${maxK})`);
+  lines.push('');
+  const questionHeaders = ['Question', ...report.configurations.map(c => c.name)];
+  lines.push(`| ${questionHeaders.join(' | ')} |`);
+  lines.push(`| ${questionHeaders.map(() => '---').join(' | ')} |`);
+  const questionIds = report.configurations[0]?.questions.map(q => q.questionId) ?? [];
+  for (const questionId of questionIds) {
+    const cells = report.configurations.map(config => {
+      const evaluation = config.questions.find(q => q.questionId === questionId);
+      if (!evaluation) return '';
+      if (evaluation.error) return 'error';
+      return evaluation.metrics?.firstRelevantRank ? String(evaluation.metrics.firstRelevantRank) : '—';
+    });
+    lines.push(`| ${questionId} | ${cells.join(' | ')} |`);
+  }
+  lines.push('');
+
+  // Misses for the first (reference) configuration
+  const reference = report.configurations[0];
+  const misses = reference?.questions.filter(q => q.missing.length > 0 || q.error) ?? [];
+  if (reference && misses.length > 0) {
+    lines.push(`## Misses (${reference.name})`);
+    lines.push('');
+    for (const miss of misses) {
+      const detail = miss.error ? `error: ${miss.error}` : `missing ${miss.missing.join(', ')}`;
+      lines.push(`- **${miss.questionId}** "${miss.question}": ${detail}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,146 @@
+/**
+ * Retrieval evaluation runner
+ * Runs a persona's golden set through performSearch under several search
+ * configurations and scores each ranking against the expected documents.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { performSearch, type SearchOptions } from '../search';
+import type { GoldenSet } from './goldenSet';
+import {
+  computeQuestionMetrics,
+  aggregateMetrics,
+  matchesExpectation,
+  type QuestionMetrics,
+  type AggregateMetrics,
+} from './metrics';
+
+export type EvalSearchOptions = Partial<Omit<SearchOptions, 'personaSlug' | 'conversationId'>>;
+
+export interface EvalConfiguration {
+  name: string;
+  description?: string;
+  options: EvalSearchOptions;
+}
+
+export interface QuestionEvaluation {
+  questionId: string;
+  question: string;
+  metrics: QuestionMetrics | null;
+  retrieved: Array<{ docId: string; sectionPath: string; score: number }>;
+  missing: string[]; // Expected doc IDs (and sections) not retrieved within the largest k
+  durationMs: number;
+  error?: string;
+}
+
+export interface ConfigurationEvaluation {
+  name: string;
+  description?: string;
+  options: EvalSearchOptions;
+  aggregate: AggregateMetrics;
+  questions: QuestionEvaluation[];
+}
+
+export interface EvaluationReport {
+  persona: string;
+  goldenSetVersion: string;
+  ks: number[];
+  embeddingProvider: string;
+  generatedAt: string;
+  configurations: ConfigurationEvaluation[];
+}
+
+export interface EvaluationRunOptions {
+  ks?: number[]; // Cutoffs for recall@k and nDCG@k (default: [1, 3, 5, 10])
+  baseOptions?: EvalSearchOptions; // Applied under every configuration (e.g. offline overrides)
+  onProgress?: (configuration: string, completed: number, total: number) => void;
+}
+
+/**
+ * Configurations compared when none are supplied
+ */
+export const DEFAULT_EVAL_CONFIGURATIONS: EvalConfiguration[] = [
+  { name: 'baseline', description: 'Persona defaults', options: {} },
+  { name: 'rrf-k-20', description: 'RRF constant 20 (favours top ranks)', options: { rrfK: 20 } },
+  { name: 'no-tag-boost', description: 'Tag boosting disabled', options: { tagBoostMultiplier: 1 } },
+  { name: 'strict-threshold', description: 'Vector threshold 0.5', options: { vectorThreshold: 0.5 } },
+  { name: 'rerank-off', description: 'Reranker disabled', options: { rerank: false } },
+  { name: 'rerank-on', description: 'Reranker enabled', options: { rerank: true } },
+];
+
+const DEFAULT_KS = [1, 3, 5, 10];
+
+/**
+ * Evaluate every configuration against the golden set
+ * Questions run sequentially so configurations don't compete for rate limits.
+ */
+export async function runEvaluation(
+  goldenSet: GoldenSet,
+  configurations: EvalConfiguration[],
+  supabase: ReturnType<typeof createClient>,
+  options: EvaluationRunOptions = {}
+): Promise<EvaluationReport> {
+  const ks = [...(options.ks ?? DEFAULT_KS)].sort((a, b) => a - b);
+  const maxK = ks[ks.length - 1];
+  const evaluations: ConfigurationEvaluation[] = [];
+
+  for (const configuration of configurations) {
+    const questions: QuestionEvaluation[] = [];
+
+    for (const [index, golden] of goldenSet.questions.entries()) {
+      const startTime = Date.now();
+      try {
+        const results = await performSearch(golden.question, {
+          limit: maxK,
+          cache: false, // Measure the current pipeline, not results cached by an earlier run
+          ...options.baseOptions,
+          ...configuration.options,
+          filters: golden.filters ?? configuration.options.filters,
+          personaSlug: goldenSet.persona,
+        }, supabase);
+
+        const retrieved = results.map(r => ({ docId: r.docId, sectionPath: r.sectionPath, score: r.score }));
+        const topK = retrieved.slice(0, maxK);
+        questions.push({
+          questionId: golden.id,
+          question: golden.question,
+          metrics: computeQuestionMetrics(retrieved, golden.expected, ks),
+          retrieved,
+          missing: golden.expected
+            .filter(e => !topK.some(chunk => matchesExpectation(chunk, e)))
+            .map(e => (e.section ? `${e.doc_id}#${e.section}` : e.doc_id)),
+          durationMs: Date.now() - startTime,
+        });
+      } catch (error) {
+        questions.push({
+          questionId: golden.id,
+          question: golden.question,
+          metrics: null,
+          retrieved: [],
+          missing: golden.expected.map(e => e.doc_id),
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      options.onProgress?.(configuration.name, index + 1, goldenSet.questions.length);
+    }
+
+    evaluations.push({
+      name: configuration.name,
+      description: configuration.description,
+      options: configuration.options,
+      aggregate: aggregateMetrics(questions.map(q => q.metrics), ks),
+      questions,
+    });
+  }
+
+  return {
+    persona: goldenSet.persona,
+    goldenSetVersion: goldenSet.version,
+    ks,
+    embeddingProvider: process.env.EMBEDDING_PROVIDER === 'fake' ? 'fake' : 'openai',
+    generatedAt: new Date().toISOString(),
+    configurations: evaluations,
+  };
+}
@@ -6,11 +6,13 @@ import { FormattedChunk } from './geminiFormatter';
 import { DocumentType } from '../ingestion/geminiProcessor';
 import { extractMetadataFromContent } from './metadataExtractor';
 import { DocumentSummary } from './summaryGenerator';
+import { formatPatentRelationsFrontmatter, type PatentRelations } from './patentRelations';
 
 export interface WebMetadata {
   identifiers?: Record<string, string>;
   dates?: Record<string, string>;
   actors?: Array<{ name: string; role: string; affiliation?: string }>;
+  relations?: PatentRelations; // Patents only: family, citations and CPC codes from Google Patents
 }
 
 export interface AssembledDocument {
@@ -201,17 +203,26 @@ function generateFrontmatter(
   }
 
   // Add identifiers from web metadata
-  const identifiers = { ...(webMetadata?.identifiers || {}) };
+  const identifiers: Record<string, string | string[]> = { ...(webMetadata?.identifiers || {}) };
 
   // Ensure source_url is in identifiers for arxiv
   if (docType === 'arxiv' && identifiers.arxiv_id && !identifiers.source_url) {
     identifiers.source_url = `https://arxiv.org/abs/${identifiers.arxiv_id}`;
   }
 
+  // Patent family read from the page replaces any the metadata extractor guessed
+  const relations = webMetadata?.relations;
+  if (relations?.familyMembers.length) identifiers.patent_family = relations.familyMembers;
+  if (relations?.familyId) identifiers.family_id = relations.familyId;
+
   if (Object.keys(identifiers).length > 0) {
     lines.push('identifiers:');
     for (const [key, value] of Object.entries(identifiers)) {
-      if (value) {
+      if (Array.isArray(value)) {
+        if (value.length === 0) continue;
+        lines.push(`  ${key}:`);
+        value.forEach(item => lines.push(`    - "${item}"`));
+      } else if (value) {
         lines.push(`  ${key}: "${value}"`);
       }
     }
@@ -246,6 +257,11 @@ function generateFrontmatter(
     lines.push(`    role: "author"`);
   }
 
+  // Add priority claims, citations and CPC classifications
+  if (relations) {
+    lines.push(...formatPatentRelationsFrontmatter(relations));
+  }
+
   lines.push('---');
 
   return lines.join('\n');
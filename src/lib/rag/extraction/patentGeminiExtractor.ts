@@ -3,6 +3,8 @@
  * HTML regex for metadata + Gemini 2.5 Pro for content (with smart chunking)
  */
 
+import { extractPatentRelations, type PatentRelations } from './patentRelations';
+
 export interface PatentExtractedData {
   title: string;
   abstract: string;
@@ -25,6 +27,7 @@ export interface PatentExtractedData {
       publication_number?: string;
       application_number?: string;
       patent_family?: string[];
+      family_id?: string;
     };
     dates?: {
       priority?: string;
@@ -40,6 +43,7 @@ export interface PatentExtractedData {
     summary?: string;
     key_terms?: string;
   };
+  relations?: PatentRelations;
 }
 
 /**
@@ -173,6 +177,10 @@ export async function extractPatentWithGemini(
   const htmlMetadata = extractMetadataFromHtml(html);
   console.log(`  ✓ Extracted metadata: ${htmlMetadata.actors?.length || 0} actors, expiration: ${htmlMetadata.dates?.expiration || 'N/A'}`);
 
+  // Family, citations and classifications come from the page, not Gemini
+  const relations = extractPatentRelations(html, patentNumber);
+  console.log(`  ✓ Extracted relations: ${relations.familyMembers.length} family members, ${relations.backwardCitations.length} citations, ${relations.forwardCitations.length} cited by`);
+
   // Smart chunking for large patents
   const chunks = chunkHtmlForGemini(html);
 
@@ -307,12 +315,17 @@ ${chunk}`;
     })) || [],
     figures: [],
     metadata: {
-      identifiers: combinedData.metadata?.identifiers || {},
+      identifiers: {
+        ...(combinedData.metadata?.identifiers || {}),
+        ...(relations.familyMembers.length > 0 && { patent_family: relations.familyMembers }),
+        ...(relations.familyId && { family_id: relations.familyId }),
+      },
       dates: combinedData.metadata?.dates || {},
       actors: combinedData.metadata?.actors || [],
       summary: combinedData.metadata?.summary || '',
       key_terms: combinedData.metadata?.key_terms || ''
-    }
+    },
+    relations
   };
 
   console.log(`  ✓ Extracted: ${extractedData.claims.length} claims`);
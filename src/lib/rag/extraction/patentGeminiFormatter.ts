@@ -4,6 +4,7 @@
  */
 
 import { PatentExtractedData } from './patentGeminiExtractor';
+import { formatPatentRelationsFrontmatter } from './patentRelations';
 
 /**
  * Format patent data as markdown (summary and key terms already from Gemini)
@@ -114,6 +115,7 @@ function generateFrontmatter(
       lines.push(`  patent_family:`);
       ids.patent_family.forEach(ref => lines.push(`    - "${ref}"`));
     }
+    if (ids.family_id) lines.push(`  family_id: "${ids.family_id}"`);
   }
 
   // Dates
@@ -136,6 +138,11 @@ function generateFrontmatter(
     });
   }
 
+  // Priority claims, citations and CPC classifications
+  if (patent.relations) {
+    lines.push(...formatPatentRelationsFrontmatter(patent.relations));
+  }
+
   lines.push('---');
   return lines.join('\n');
 }
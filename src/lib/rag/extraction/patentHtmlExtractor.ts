@@ -5,6 +5,7 @@
 
 import { extractMetadataWithGemini } from './smartMetadataExtractor';
 import { WebMetadata } from './documentAssembler';
+import { extractPatentRelations } from './patentRelations';
 
 export interface PatentDocument {
   patentNumber: string;
@@ -77,15 +78,12 @@ export async function extractPatentFromHtml(
       }
       console.log(`  ✓ Derived patent_number: ${metadata.identifiers.patent_number}`);
     }
-
-    // Always extract patent family with regex (appears late in HTML, may be truncated in Gemini prompt)
-    const familyMetadata = extractPatentFamily(html, patentNumber);
-    if (familyMetadata.length > 0) {
-      metadata.identifiers.patent_family = familyMetadata;
-      console.log(`  ✓ Extracted ${familyMetadata.length} patent family members`);
-    }
   }
 
+  // Always extract family and citations with regex (appear late in HTML, may be truncated in Gemini prompt)
+  metadata.relations = extractPatentRelations(html, patentNumber);
+  console.log(`  ✓ Extracted ${metadata.relations.familyMembers.length} patent family members, ${metadata.relations.backwardCitations.length} citations`);
+
   // Extract content sections - ONLY Abstract, Description, and Claims
   console.log('  📝 Extracting content sections...');
   const title = extractTitle(html);
@@ -384,27 +382,6 @@ function extractDrawings(html: string): DrawingInfo[] {
   return drawings;
 }
 
-/**
- * Extract patent family from Worldwide applications table
- */
-function extractPatentFamily(html: string, patentNumber: string): string[] {
-  const family: string[] = [];
-
-  // Look for country status entries in the patent family table
-  const familyPattern = /<tr\s+itemprop="countryStatus"[\s\S]*?<span\s+itemprop="representativePublication">([^<]+)<\/span>/gi;
-  let match;
-
-  while ((match = familyPattern.exec(html)) !== null) {
-    const familyRef = match[1].trim();
-    // Skip the current US patent itself
-    if (!familyRef.startsWith('US11281020') && !family.includes(familyRef)) {
-      family.push(familyRef);
-    }
-  }
-
-  return family;
-}
-
 /**
  * Extract basic metadata using regex (fallback)
  */
@@ -475,9 +452,6 @@ function extractBasicMetadata(html: string, patentNumber: string): WebMetadata {
     });
   }
 
-  // Extract patent family (use the dedicated function)
-  metadata.identifiers!.patent_family = extractPatentFamily(html, patentNumber);
-
   return metadata;
 }
 
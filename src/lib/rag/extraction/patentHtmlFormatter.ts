@@ -5,6 +5,7 @@
 
 import { PatentDocument, PatentClaim } from './patentHtmlExtractor';
 import { DocumentSummary } from './summaryGenerator';
+import { formatPatentRelationsFrontmatter } from './patentRelations';
 
 /**
  * Format patent document as markdown
@@ -102,11 +103,20 @@ function generateFrontmatter(
     lines.push(`summary: ${firstSentence}`);
   }
 
-  // Identifiers
-  if (patent.metadata.identifiers && Object.keys(patent.metadata.identifiers).length > 0) {
+  // Identifiers (patent family from the page's family tables)
+  const relations = patent.metadata.relations;
+  const identifiers: Record<string, string | string[]> = { ...(patent.metadata.identifiers || {}) };
+  if (relations?.familyMembers.length) identifiers.patent_family = relations.familyMembers;
+  if (relations?.familyId) identifiers.family_id = relations.familyId;
+
+  if (Object.keys(identifiers).length > 0) {
     lines.push('identifiers:');
-    for (const [key, value] of Object.entries(patent.metadata.identifiers)) {
-      if (value) {
+    for (const [key, value] of Object.entries(identifiers)) {
+      if (Array.isArray(value)) {
+        if (value.length === 0) continue;
+        lines.push(`  ${key}:`);
+        value.forEach(item => lines.push(`    - "${item}"`));
+      } else if (value) {
         lines.push(`  ${key}: "${value}"`);
       }
     }
@@ -131,6 +141,11 @@ function generateFrontmatter(
     }
   }
 
+  // Priority claims, citations and CPC classifications
+  if (relations) {
+    lines.push(...formatPatentRelationsFrontmatter(relations));
+  }
+
   lines.push('---');
   return lines.join('\n');
 }
@@ -0,0 +1,257 @@
+/**
+ * Patent relations from Google Patents HTML
+ * Family members, priority claims, backward ("Patent Citations") and forward
+ * ("Cited By") citations and CPC classifications, read from the page's
+ * microdata. Written to frontmatter by the patent formatters and stored in
+ * patent_relations at ingestion.
+ */
+
+import { normalizePatentRef } from '../search/diversification';
+
+export interface PatentCitation {
+  publicationNumber: string;
+  title?: string;
+  assignee?: string;
+  priorityDate?: string;
+  publicationDate?: string;
+  examinerCited: boolean;
+  familyCitation: boolean; // Listed under "Family To Family Citations" / "Families Citing this family"
+}
+
+export interface PriorityClaim {
+  applicationNumber: string;
+  publicationNumber?: string;
+  priorityDate?: string;
+  filingDate?: string;
+  title?: string;
+}
+
+export interface CpcClassification {
+  code: string;
+  description?: string;
+}
+
+export interface PatentRelations {
+  familyId?: string;
+  familyMembers: string[]; // Publication numbers of other family members
+  priorityClaims: PriorityClaim[];
+  backwardCitations: PatentCitation[]; // Patents this one cites
+  forwardCitations: PatentCitation[]; // Patents citing this one
+  cpcClassifications: CpcClassification[]; // Most specific (leaf) CPC codes
+}
+
+/**
+ * Extract family, priority, citation and classification data from a patent page
+ */
+export function extractPatentRelations(html: string, patentNumber: string): PatentRelations {
+  const ownRef = normalizePatentRef(patentNumber);
+
+  return {
+    familyId: matchText(html, /itemprop="familyId"[^>]*>([^<]+)</i)
+      || html.match(/<meta[^>]*itemprop="familyId"[^>]*content="([^"]+)"/i)?.[1]
+      || html.match(/<h2>\s*ID=(\d+)\s*<\/h2>/i)?.[1],
+    familyMembers: extractFamilyMembers(html, ownRef),
+    priorityClaims: extractPriorityClaims(html),
+    backwardCitations: [
+      ...extractCitations(html, 'backwardReferencesOrig', false),
+      ...extractCitations(html, 'backwardReferencesFamily', true),
+    ],
+    forwardCitations: [
+      ...extractCitations(html, 'forwardReferencesOrig', false),
+      ...extractCitations(html, 'forwardReferencesFamily', true),
+    ],
+    cpcClassifications: extractCpcClassifications(html),
+  };
+}
+
+/**
+ * Frontmatter lines for the relations (top-level `priority_claims`, `citations`
+ * and `classifications` blocks; family members belong under `identifiers`)
+ */
+export function formatPatentRelationsFrontmatter(relations: PatentRelations): string[] {
+  const lines: string[] = [];
+
+  if (relations.priorityClaims.length > 0) {
+    lines.push('priority_claims:');
+    for (const claim of relations.priorityClaims) {
+      lines.push(`  - application_number: ${yamlString(claim.applicationNumber)}`);
+      if (claim.publicationNumber) lines.push(`    publication_number: ${yamlString(claim.publicationNumber)}`);
+      if (claim.priorityDate) lines.push(`    priority_date: ${yamlString(claim.priorityDate)}`);
+      if (claim.filingDate) lines.push(`    filing_date: ${yamlString(claim.filingDate)}`);
+      if (claim.title) lines.push(`    title: ${yamlString(claim.title)}`);
+    }
+  }
+
+  const citationLines = (key: string, citations: PatentCitation[]) => {
+    if (citations.length === 0) return;
+    lines.push(`  ${key}:`);
+    for (const citation of citations) {
+      lines.push(`    - number: ${yamlString(citation.publicationNumber)}`);
+      if (citation.title) lines.push(`      title: ${yamlString(citation.title)}`);
+      if (citation.assignee) lines.push(`      assignee: ${yamlString(citation.assignee)}`);
+      if (citation.priorityDate) lines.push(`      priority_date: ${yamlString(citation.priorityDate)}`);
+      if (citation.publicationDate) lines.push(`      publication_date: ${yamlString(citation.publicationDate)}`);
+      if (citation.examinerCited) lines.push('      examiner_cited: true');
+      if (citation.familyCitation) lines.push('      family_citation: true');
+    }
+  };
+
+  if (relations.backwardCitations.length > 0 || relations.forwardCitations.length > 0) {
+    lines.push('citations:');
+    citationLines('cites', relations.backwardCitations);
+    citationLines('cited_by', relations.forwardCitations);
+  }
+
+  if (relations.cpcClassifications.length > 0) {
+    lines.push('classifications:');
+    lines.push('  cpc:');
+    for (const cpc of relations.cpcClassifications) {
+      lines.push(`    - code: ${yamlString(cpc.code)}`);
+      if (cpc.description) lines.push(`      description: ${yamlString(cpc.description)}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Family members from "Also Published As" and the worldwide applications table
+ */
+function extractFamilyMembers(html: string, ownRef: string): string[] {
+  const members: string[] = [];
+  const add = (ref: string | undefined) => {
+    const value = ref?.trim();
+    if (value && normalizePatentRef(value) !== ownRef && !members.includes(value)) {
+      members.push(value);
+    }
+  };
+
+  for (const row of itempropBlocks(html, 'tr', 'docdbFamily')) {
+    add(matchText(row, /itemprop="publicationNumber"[^>]*>([^<]+)</i));
+  }
+  for (const row of itempropBlocks(html, 'tr', 'countryStatus')) {
+    add(matchText(row, /itemprop="representativePublication"[^>]*>([^<]+)</i));
+  }
+  // Applications claiming priority from this one are family members too
+  for (const row of itempropBlocks(html, 'tr', 'appsClaimingPriority')) {
+    add(matchText(row, /itemprop="representativePublication"[^>]*>([^<]+)</i));
+  }
+
+  return members;
+}
+
+function extractPriorityClaims(html: string): PriorityClaim[] {
+  const claims: PriorityClaim[] = [];
+
+  for (const row of itempropBlocks(html, 'tr', 'priorityApps')) {
+    const applicationNumber = matchText(row, /itemprop="applicationNumber"[^>]*>([^<]+)</i);
+    if (!applicationNumber) continue;
+
+    claims.push(omitEmpty({
+      applicationNumber,
+      publicationNumber: matchText(row, /itemprop="representativePublication"[^>]*>([^<]+)</i),
+      priorityDate: matchDate(row, 'priorityDate'),
+      filingDate: matchDate(row, 'filingDate'),
+      title: matchText(row, /itemprop="title"[^>]*>([\s\S]*?)<\/td>/i),
+    }));
+  }
+
+  return claims;
+}
+
+function extractCitations(html: string, itemprop: string, familyCitation: boolean): PatentCitation[] {
+  const citations: PatentCitation[] = [];
+
+  for (const row of itempropBlocks(html, 'tr', itemprop)) {
+    const publicationNumber = matchText(row, /itemprop="publicationNumber"[^>]*>([^<]+)</i);
+    if (!publicationNumber || citations.some(c => c.publicationNumber === publicationNumber)) continue;
+
+    citations.push(omitEmpty({
+      publicationNumber,
+      title: matchText(row, /itemprop="title"[^>]*>([\s\S]*?)<\/td>/i),
+      assignee: matchText(row, /itemprop="assigneeOriginal"[^>]*>([^<]+)</i),
+      priorityDate: matchDate(row, 'priorityDate'),
+      publicationDate: matchDate(row, 'publicationDate'),
+      examinerCited: /itemprop="examinerCited"[^>]*>\s*\*/i.test(row),
+      familyCitation,
+    }));
+  }
+
+  return citations;
+}
+
+/**
+ * Leaf CPC codes with their descriptions
+ * The classification tree nests each code's ancestors around it; only the
+ * most specific codes are kept. Pages without leaf markers keep every
+ * group-level code (those containing "/").
+ */
+function extractCpcClassifications(html: string): CpcClassification[] {
+  const entries: Array<CpcClassification & { leaf: boolean; isCpc: boolean }> = [];
+  const codePattern = /itemprop="Code"[^>]*>([^<]+)</gi;
+  const positions = [...html.matchAll(codePattern)];
+
+  positions.forEach((match, i) => {
+    // Attributes of a code sit between it and the next code
+    const end = positions[i + 1]?.index ?? Math.min(html.length, match.index! + 2000);
+    const segment = html.slice(match.index!, end);
+
+    entries.push({
+      code: match[1].trim(),
+      description: matchText(segment, /itemprop="Description"[^>]*>([^<]+)</i),
+      leaf: /itemprop="Leaf"\s+content="true"/i.test(segment),
+      isCpc: !/itemprop="IsCPC"\s+content="false"/i.test(segment),
+    });
+  });
+
+  const hasLeafMarkers = entries.some(e => e.leaf);
+  const classifications: CpcClassification[] = [];
+  for (const entry of entries) {
+    if (!entry.isCpc) continue;
+    if (hasLeafMarkers ? !entry.leaf : !entry.code.includes('/')) continue;
+    if (classifications.some(c => c.code === entry.code)) continue;
+    classifications.push(omitEmpty({ code: entry.code, description: entry.description }));
+  }
+
+  return classifications;
+}
+
+/**
+ * Inner HTML of each `<tag itemprop="name">` element (non-nesting tags such as table rows)
+ */
+function itempropBlocks(html: string, tag: string, itemprop: string): string[] {
+  const pattern = new RegExp(`<${tag}\\s[^>]*itemprop="${itemprop}"[^>]*>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...html.matchAll(pattern)].map(m => m[1]);
+}
+
+function matchText(html: string, pattern: RegExp): string | undefined {
+  const match = html.match(pattern);
+  if (!match) return undefined;
+  const text = decodeEntities(match[1].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+// Dates appear as <td itemprop="priorityDate">2018-02-12</td> or <time itemprop=... datetime="...">
+function matchDate(html: string, itemprop: string): string | undefined {
+  return html.match(new RegExp(`itemprop="${itemprop}"[^>]*datetime="([^"]+)"`, 'i'))?.[1]
+    ?? matchText(html, new RegExp(`itemprop="${itemprop}"[^>]*>([^<]+)<`, 'i'));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// JSON strings are valid double-quoted YAML scalars
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function omitEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -6,6 +6,7 @@
 import { WebMetadata } from './documentAssembler';
 import { DocumentType } from '../ingestion/geminiProcessor';
 import { extractMetadataWithGemini } from './smartMetadataExtractor';
+import { extractPatentRelations } from './patentRelations';
 
 const EXA_API_URL = 'https://api.exa.ai/search';
 
@@ -174,7 +175,7 @@ export async function fetchPatentMetadata(
           const html = await htmlResponse.text();
           const geminiMetadata = await extractMetadataWithGemini(html, url, 'patent', geminiApiKey);
           if (geminiMetadata && Object.keys(geminiMetadata.identifiers || {}).length > 0) {
-            return geminiMetadata;
+            return { ...geminiMetadata, relations: extractPatentRelations(html, patentNumber) };
           }
         }
       } catch (e) {
@@ -238,6 +239,7 @@ export async function fetchPatentMetadata(
 
     if (html) {
       // Extract from HTML meta tags and microdata
+      metadata.relations = extractPatentRelations(html, patentNumber);
 
       // Extract publication number from itemprop
       const pubMatch = html.match(/itemprop="publicationNumber">([^<]+)</i);
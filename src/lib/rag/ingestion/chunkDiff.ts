@@ -0,0 +1,76 @@
+/**
+ * Chunk-level diffing for incremental re-ingestion
+ *
+ * Each stored chunk carries a hash of what its embedding was computed from:
+ * the section path, the chunk text and the embedding variant (model, and the
+ * context method when contextual retrieval was applied). On re-ingest, chunks
+ * whose hash is unchanged keep their row, embedding and context; only new or
+ * changed chunks are embedded, and chunks no longer in the document are removed.
+ *
+ * Contexts are generated from the document title and summary, so a reused
+ * chunk keeps the context written for the title/summary at the time it was
+ * embedded. Rows without a hash (ingested before hashing) are regenerated once.
+ */
+
+import { createHash } from 'crypto';
+import type { Chunk } from '../chunking/smartChunker';
+
+export interface StoredChunkRef {
+  id: string;
+  chunk_index: number | null;
+  content_hash: string | null;
+}
+
+export interface ChunkDiff {
+  reused: Array<{ id: string; index: number; previousIndex: number | null }>; // Rows kept as-is (index may move)
+  regenerate: number[]; // Indexes of new chunks that need context and embeddings
+  staleIds: string[]; // Rows no longer produced by the document
+}
+
+/**
+ * Hash of a chunk's embedding input
+ *
+ * @param variant - Embedding model and context method (e.g. "text-embedding-3-large:3072|openai")
+ */
+export function hashChunk(chunk: Pick<Chunk, 'sectionPath' | 'text'>, variant: string): string {
+  return createHash('sha256')
+    .update(`${variant}\n${chunk.sectionPath}\n${chunk.text}`)
+    .digest('hex');
+}
+
+/**
+ * Match new chunks to stored rows by hash
+ * Identical chunks occurring several times each claim a distinct stored row.
+ */
+export function diffChunks(newHashes: string[], stored: StoredChunkRef[]): ChunkDiff {
+  const available = new Map<string, StoredChunkRef[]>();
+  const staleIds: string[] = [];
+
+  for (const row of stored) {
+    if (!row.content_hash) {
+      staleIds.push(row.id);
+      continue;
+    }
+    const rows = available.get(row.content_hash) || [];
+    rows.push(row);
+    available.set(row.content_hash, rows);
+  }
+
+  const reused: ChunkDiff['reused'] = [];
+  const regenerate: number[] = [];
+
+  newHashes.forEach((hash, index) => {
+    const match = available.get(hash)?.shift();
+    if (match) {
+      reused.push({ id: match.id, index, previousIndex: match.chunk_index });
+    } else {
+      regenerate.push(index);
+    }
+  });
+
+  for (const rows of available.values()) {
+    staleIds.push(...rows.map(row => row.id));
+  }
+
+  return { reused, regenerate, staleIds };
+}
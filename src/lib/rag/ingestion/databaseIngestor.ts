@@ -8,7 +8,12 @@ import matter from 'gray-matter';
 import { chunkDocument, type Chunk, type DocumentMetadata } from '../chunking/smartChunker';
 import { createEmbeddingGenerator } from '../embeddings/embeddingGenerator';
 import { stripFrontmatter } from './markdownProcessor';
-import { generateContextualChunks } from '../embeddings/contextualRetrieval';
+import { generateContextualChunks, estimateContextCost } from '../embeddings/contextualRetrieval';
+import { hashChunk, diffChunks, type StoredChunkRef } from './chunkDiff';
+import { fingerprintDocument } from '../storage/duplicateDetection';
+import { syncPatentRelations } from '../storage/patentRelations';
+import { syncDocumentGraph } from '../storage/knowledgeGraph';
+import { invalidatePersonaCache } from '../search/queryCache';
 
 export interface DocumentToIngest {
   filePath: string;
@@ -24,9 +29,13 @@ export interface IngestionOptions {
 export interface IngestionResult {
   docId: string;
   title: string;
-  chunksCreated: number;
+  chunksCreated: number; // Chunks in the document after ingestion (reused + regenerated)
+  chunksReused?: number; // Unchanged chunks that kept their embeddings and context
+  chunksRegenerated?: number; // New or changed chunks that were embedded
+  chunksRemoved?: number; // Stale chunks deleted
   tokensUsed: number;
   cost: number;
+  costSaved?: number; // Estimated cost of regenerating the reused chunks
   skipped?: boolean; // Document already exists and overwrite=false
   error?: string;
 }
@@ -37,8 +46,10 @@ export interface IngestionStats {
   documentsFailed: number;
   documentsSkipped?: number; // Skipped because already in DB
   chunksCreated: number; // Renamed from totalChunks
+  chunksReused: number;
   embeddingsGenerated: number; // Renamed from totalTokens
   totalCost: number;
+  costSaved: number;
   results: IngestionResult[];
 }
 
@@ -83,8 +94,8 @@ export class DatabaseIngestor {
       openaiApiKey = supabaseKeyOrOpenaiKey || process.env.OPENAI_API_KEY;
     }
 
-    // Validate OpenAI API key
-    if (!openaiApiKey) {
+    // Validate OpenAI API key (not needed for offline fake embeddings)
+    if (!openaiApiKey && process.env.EMBEDDING_PROVIDER !== 'fake') {
       throw new Error('OpenAI API key required for embedding generation');
     }
 
@@ -95,6 +106,9 @@ export class DatabaseIngestor {
    * Ingest a single document
    */
   async ingestDocument(doc: DocumentToIngest, overwrite = false): Promise<IngestionResult> {
+    // Personas whose cached search results are stale once the document record is written
+    let changedPersonas: string[] = [];
+
     try {
       console.log(`\nIngesting document: ${doc.filePath}`);
 
@@ -183,6 +197,8 @@ export class DatabaseIngestor {
                               metadata.source_url ||
                               null;
 
+      const fingerprint = fingerprintDocument(doc.content);
+
       // Insert/update document record
       const { data: docRecord, error: docError } = await this.supabase
         .from('docs')
@@ -198,6 +214,8 @@ export class DatabaseIngestor {
             personas: personas, // Pass array directly for JSONB column
             tags: allTags, // Use merged tags (manual + auto-extracted)
             identifiers: metadata.identifiers || {}, // Structured identifiers
+            identifier_keys: fingerprint.identifierKeys, // Duplicate detection
+            minhash: fingerprint.minhash,
             dates_structured: metadata.dates || {}, // Structured dates
             actors: metadata.actors || [], // Actors array
             raw_content: doc.content,
@@ -210,18 +228,24 @@ export class DatabaseIngestor {
 
       if (docError) throw docError;
       if (!docRecord) throw new Error('Failed to create document record');
+      changedPersonas = personas;
 
       console.log(`  Document record created: ${docRecord.id}`);
 
-      // Delete existing chunks for this document (for re-ingestion)
-      const { error: deleteError } = await this.supabase
+      // Family, citations and CPC codes from patent frontmatter
+      await syncPatentRelations(this.supabase, metadata.id, metadata);
+
+      // People, organizations, products and technologies for graph lookups
+      const graph = await syncDocumentGraph(this.supabase, metadata.id, doc.content, personas);
+      console.log(`  Knowledge graph: ${graph.entities} entities, ${graph.edges} edges`);
+
+      // Existing chunks of this document; unchanged ones are reused below
+      const { data: storedChunks, error: storedError } = await this.supabase
         .from('chunks')
-        .delete()
+        .select('id, chunk_index, content_hash')
         .eq('doc_id', docRecord.id);
 
-      if (deleteError) {
-        console.warn(`  Warning: Failed to delete existing chunks: ${deleteError.message}`);
-      }
+      if (storedError) throw storedError;
 
       // Strip frontmatter and chunk the content
       const cleanContent = stripFrontmatter(bodyContent);
@@ -263,69 +287,110 @@ export class DatabaseIngestor {
         };
       }
 
+      // Default to contextual retrieval unless explicitly disabled
+      const useContextual = overwrite !== false && process.env.DISABLE_CONTEXTUAL_RETRIEVAL !== 'true';
+      const contextMethod = (process.env.CONTEXT_METHOD as 'openai' | 'gemini') || 'openai';
+      const hashVariant = (contextual: boolean) =>
+        `${this.embeddingGenerator.modelKey}|${contextual ? contextMethod : 'plain'}`;
+
+      // Only new or changed chunks need contexts and embeddings
+      const diff = diffChunks(
+        chunks.map((chunk) => hashChunk(chunk, hashVariant(useContextual))),
+        (storedChunks || []) as StoredChunkRef[]
+      );
+      const pendingChunks = diff.regenerate.map((index) => chunks[index]);
+
+      console.log(
+        `  Reusing ${diff.reused.length} unchanged chunks, regenerating ${pendingChunks.length}, removing ${diff.staleIds.length}`
+      );
+
       // Apply contextual retrieval if enabled
-      let chunkTextsForEmbedding = chunks.map((c) => c.text);
+      let chunkTextsForEmbedding = pendingChunks.map((c) => c.text);
+      let contextApplied = pendingChunks.map(() => false);
       let contextCost = 0;
 
-      if (overwrite !== false) {
-        // Default to contextual retrieval unless explicitly disabled
-        const useContextual = process.env.DISABLE_CONTEXTUAL_RETRIEVAL !== 'true';
-        const contextMethod = (process.env.CONTEXT_METHOD as 'openai' | 'gemini') || 'openai';
-
-        if (useContextual) {
-          console.log(`  Generating contextual chunks using ${contextMethod.toUpperCase()}...`);
-
-          try {
-            const contextResult = await generateContextualChunks(
-              chunkTextsForEmbedding,
-              metadata.title,
-              metadata.summary || 'Technical documentation',
-              contextMethod,
-              (completed, total) => {
-                if (completed % 10 === 0 || completed === total) {
-                  console.log(`    Progress: ${completed}/${total} contexts`);
-                }
+      if (useContextual && pendingChunks.length > 0) {
+        console.log(`  Generating contextual chunks using ${contextMethod.toUpperCase()}...`);
+
+        try {
+          const contextResult = await generateContextualChunks(
+            chunkTextsForEmbedding,
+            metadata.title,
+            metadata.summary || 'Technical documentation',
+            contextMethod,
+            (completed, total) => {
+              if (completed % 10 === 0 || completed === total) {
+                console.log(`    Progress: ${completed}/${total} contexts`);
               }
-            );
-
-            // Use contextualized text for embeddings
-            chunkTextsForEmbedding = contextResult.chunks.map((c) => c.contextualizedText);
-            contextCost = contextResult.cost;
-
-            console.log(
-              `  Contexts generated. Cost: $${contextCost.toFixed(4)} (${contextResult.method})`
-            );
-          } catch (error) {
-            console.warn(`  Warning: Context generation failed, using original chunks:`, error);
-            // Fall back to original chunks
-          }
+            }
+          );
+
+          // Use contextualized text for embeddings
+          chunkTextsForEmbedding = contextResult.chunks.map((c) => c.contextualizedText);
+          contextApplied = contextResult.chunks.map((c) => c.context !== '');
+          contextCost = contextResult.cost;
+
+          console.log(
+            `  Contexts generated. Cost: $${contextCost.toFixed(4)} (${contextResult.method})`
+          );
+        } catch (error) {
+          console.warn(`  Warning: Context generation failed, using original chunks:`, error);
+          // Fall back to original chunks
         }
       }
 
-      // Generate embeddings for all chunks (with or without context)
-      console.log(`  Generating embeddings...`);
-      const embeddingResult = await this.embeddingGenerator.generateBatch(
-        chunkTextsForEmbedding,
-        (completed, total) => {
-          if (completed % 10 === 0 || completed === total) {
-            console.log(`    Progress: ${completed}/${total} embeddings`);
-          }
-        }
-      );
+      // Generate embeddings for new and changed chunks (with or without context)
+      const embeddingResult = pendingChunks.length > 0
+        ? await this.embeddingGenerator.generateBatch(
+            chunkTextsForEmbedding,
+            (completed, total) => {
+              if (completed % 10 === 0 || completed === total) {
+                console.log(`    Progress: ${completed}/${total} embeddings`);
+              }
+            }
+          )
+        : { results: [], totalTokens: 0, cost: 0 };
 
-      console.log(`  Embeddings generated. Cost: $${embeddingResult.cost.toFixed(4)}`);
+      if (pendingChunks.length > 0) {
+        console.log(`  Embeddings generated. Cost: $${embeddingResult.cost.toFixed(4)}`);
+      }
+
+      // Supabase limits request sizes, so writes are batched
+      const BATCH_SIZE = 100;
+
+      // Remove chunks the document no longer produces
+      for (let i = 0; i < diff.staleIds.length; i += BATCH_SIZE) {
+        const { error: deleteError } = await this.supabase
+          .from('chunks')
+          .delete()
+          .in('id', diff.staleIds.slice(i, i + BATCH_SIZE));
+
+        if (deleteError) throw deleteError;
+      }
+
+      // Reused chunks keep their row; only their position may have moved
+      const movedChunks = diff.reused.filter((r) => r.previousIndex !== r.index);
+      for (let i = 0; i < movedChunks.length; i += BATCH_SIZE) {
+        const results = await Promise.all(
+          movedChunks.slice(i, i + BATCH_SIZE).map((r) =>
+            this.supabase.from('chunks').update({ chunk_index: r.index }).eq('id', r.id)
+          )
+        );
+        const failed = results.find((r) => r.error);
+        if (failed?.error) throw failed.error;
+      }
 
       // Prepare chunk records (store original text, embed contextualized text)
-      const chunkRecords = chunks.map((chunk, index) => ({
+      const chunkRecords = pendingChunks.map((chunk, i) => ({
         doc_id: docRecord.id,
+        chunk_index: diff.regenerate[i], // Document order, used for neighbouring-chunk context expansion
         section_path: chunk.sectionPath,
         text: chunk.text, // Store original text for display
         token_count: chunk.tokenCount,
-        embedding: JSON.stringify(embeddingResult.results[index].embedding),
+        embedding: JSON.stringify(embeddingResult.results[i].embedding),
+        content_hash: hashChunk(chunk, hashVariant(contextApplied[i])), // Chunks without context are retried next time
       }));
 
-      // Insert chunks in batches (Supabase has a limit)
-      const BATCH_SIZE = 100;
       let insertedCount = 0;
 
       for (let i = 0; i < chunkRecords.length; i += BATCH_SIZE) {
@@ -339,6 +404,12 @@ export class DatabaseIngestor {
         console.log(`  Inserted chunks: ${insertedCount}/${chunkRecords.length}`);
       }
 
+      // What regenerating the reused chunks would have cost (approximate: context text not counted)
+      const reusedTokens = diff.reused.reduce((sum, r) => sum + chunks[r.index].tokenCount, 0);
+      const costSaved =
+        this.embeddingGenerator.estimateCost(reusedTokens) +
+        (useContextual ? estimateContextCost(reusedTokens, diff.reused.length, contextMethod) : 0);
+
       // Update document status to 'ingested' after successful chunk insertion
       const { error: statusError } = await this.supabase
         .from('docs')
@@ -355,8 +426,12 @@ export class DatabaseIngestor {
         docId: docRecord.id,
         title: metadata.title,
         chunksCreated: chunks.length,
+        chunksReused: diff.reused.length,
+        chunksRegenerated: pendingChunks.length,
+        chunksRemoved: diff.staleIds.length,
         tokensUsed: embeddingResult.totalTokens,
         cost: embeddingResult.cost + contextCost,
+        costSaved,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : JSON.stringify(error);
@@ -370,6 +445,9 @@ export class DatabaseIngestor {
         cost: 0,
         error: errorMsg,
       };
+    } finally {
+      // Also on failure: existing chunks may already have been replaced
+      await invalidatePersonaCache(changedPersonas);
     }
   }
 
@@ -381,8 +459,10 @@ export class DatabaseIngestor {
 
     const results: IngestionResult[] = [];
     let totalChunks = 0;
+    let totalReused = 0;
     let totalEmbeddings = 0;
     let totalCost = 0;
+    let totalSaved = 0;
 
     for (const doc of docs) {
       const result = await this.ingestDocument(doc, overwrite);
@@ -390,8 +470,10 @@ export class DatabaseIngestor {
 
       if (!result.error && !result.skipped) {
         totalChunks += result.chunksCreated;
+        totalReused += result.chunksReused || 0;
         totalEmbeddings += result.tokensUsed;
         totalCost += result.cost;
+        totalSaved += result.costSaved || 0;
       }
     }
 
@@ -405,8 +487,10 @@ export class DatabaseIngestor {
       documentsFailed: failed,
       documentsSkipped: skipped,
       chunksCreated: totalChunks,
+      chunksReused: totalReused,
       embeddingsGenerated: totalEmbeddings,
       totalCost,
+      costSaved: totalSaved,
       results,
     };
 
@@ -415,9 +499,9 @@ export class DatabaseIngestor {
     console.log(`  Ingested: ${stats.documentsIngested}`);
     console.log(`  Skipped: ${stats.documentsSkipped || 0}`);
     console.log(`  Failed: ${stats.documentsFailed}`);
-    console.log(`Total chunks: ${stats.chunksCreated}`);
+    console.log(`Total chunks: ${stats.chunksCreated} (${stats.chunksReused} reused unchanged)`);
     console.log(`Total embeddings: ${stats.embeddingsGenerated}`);
-    console.log(`Total cost: $${stats.totalCost.toFixed(4)}\n`);
+    console.log(`Total cost: $${stats.totalCost.toFixed(4)} (saved ~$${stats.costSaved.toFixed(4)})\n`);
 
     return stats;
   }
@@ -426,13 +510,18 @@ export class DatabaseIngestor {
    * Delete a document and its chunks
    */
   async deleteDocument(docId: string): Promise<void> {
-    const { error } = await this.supabase
+    const { data: deleted, error } = await this.supabase
       .from('docs')
       .delete()
-      .eq('id', docId);
+      .eq('id', docId)
+      .select('personas');
 
     if (error) throw error;
 
+    await invalidatePersonaCache(
+      ((deleted || []) as Array<{ personas: string[] | null }>).flatMap(d => d.personas || [])
+    );
+
     // Chunks are automatically deleted via CASCADE
     console.log(`Deleted document: ${docId}`);
   }
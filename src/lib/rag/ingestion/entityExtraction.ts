@@ -0,0 +1,198 @@
+/**
+ * Entity Extraction
+ * Derives knowledge-graph entities (people, organizations, products,
+ * technologies), their aliases and typed edges from a document's frontmatter
+ * actors, product identifiers and **Key Terms** line. No model calls: the
+ * metadata extractors have already done the reading.
+ */
+
+import type { PersonaTopic } from '../search/searchConfig';
+import { normalizeAlias } from '../search/aliasExpansion';
+
+export const ENTITY_KINDS = ['person', 'organization', 'product', 'technology'] as const;
+export const RELATIONSHIP_TYPES = ['inventor_of', 'author_of', 'assignee_of', 'cites', 'part_of', 'mentions'] as const;
+
+export type EntityKind = typeof ENTITY_KINDS[number];
+export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
+
+export type GraphNodeRef =
+  | { type: 'entity'; key: string } // Canonical key of an extracted entity
+  | { type: 'document'; id: string };
+
+export interface ExtractedEntity {
+  key: string; // Canonical key, e.g. "organization:leia"
+  kind: EntityKind;
+  name: string; // Display name (first surface form seen)
+  aliases: string[]; // All surface forms, including the name
+}
+
+export interface ExtractedEdge {
+  relationship: RelationshipType;
+  src: GraphNodeRef;
+  dst: GraphNodeRef;
+  evidenceText?: string;
+}
+
+export interface DocumentEntities {
+  entities: ExtractedEntity[];
+  edges: ExtractedEdge[];
+}
+
+const MAX_KEY_TERMS = 15;
+
+// Trailing legal forms dropped when matching organization names
+const CORPORATE_SUFFIXES = /(?:\s+(?:inc|incorporated|corp|corporation|co|company|ltd|limited|llc|plc|gmbh|ag|sa|nv|bv|kk|oy|ab|spa|srl))+$/;
+
+const PERSON_ROLES: Record<string, RelationshipType | null> = {
+  inventor: 'inventor_of',
+  author: 'author_of',
+  editor: null,
+};
+
+const ORGANIZATION_ROLES: Record<string, RelationshipType | null> = {
+  assignee: 'assignee_of',
+  current_assignee: 'assignee_of',
+  original_assignee: 'assignee_of',
+  vendor: null,
+  publisher: null,
+  manufacturer: null,
+  organization: null,
+  company: null,
+};
+
+/**
+ * Normalized form of an entity name for matching
+ * Case, punctuation and (for organizations) legal suffixes are ignored, so
+ * "Leia Inc." and "LEIA INC" are the same organization.
+ */
+export function normalizeEntityName(name: string, kind: EntityKind): string {
+  const normalized = name
+    .toLowerCase()
+    .replace(/['’.]/g, '') // "U.S." → "us", "N.V." → "nv"
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return kind === 'organization' ? normalized.replace(CORPORATE_SUFFIXES, '').trim() || normalized : normalized;
+}
+
+export function entityKey(kind: EntityKind, name: string): string {
+  return `${kind}:${normalizeEntityName(name, kind)}`;
+}
+
+/**
+ * Entities and edges for one document
+ *
+ * @param topics - Persona topics; a key term matching a topic alias becomes one
+ *   technology entity carrying all of the topic's aliases
+ */
+export function extractDocumentEntities(
+  docId: string,
+  frontmatter: Record<string, any>,
+  body: string,
+  topics: PersonaTopic[] = []
+): DocumentEntities {
+  const entities = new Map<string, ExtractedEntity>();
+  const edges = new Map<string, ExtractedEdge>();
+  const doc: GraphNodeRef = { type: 'document', id: docId };
+
+  const addEntity = (kind: EntityKind, name: unknown, aliases: string[] = []): GraphNodeRef | null => {
+    if (typeof name !== 'string') return null;
+    const trimmed = name.replace(/\s+/g, ' ').trim();
+    if (trimmed.length < 2 || !normalizeEntityName(trimmed, kind)) return null;
+
+    const key = entityKey(kind, trimmed);
+    const entity = entities.get(key) ?? { key, kind, name: trimmed, aliases: [] };
+    for (const alias of [trimmed, ...aliases]) {
+      if (!entity.aliases.includes(alias)) entity.aliases.push(alias);
+    }
+    entities.set(key, entity);
+    return { type: 'entity', key };
+  };
+
+  const addEdge = (relationship: RelationshipType, src: GraphNodeRef | null, dst: GraphNodeRef | null, evidenceText?: string) => {
+    if (!src || !dst) return;
+    const id = `${relationship}|${refId(src)}|${refId(dst)}`;
+    if (!edges.has(id)) edges.set(id, { relationship, src, dst, ...(evidenceText && { evidenceText }) });
+  };
+
+  // People and organizations from actors
+  const vendors: GraphNodeRef[] = [];
+  const actors: Array<Record<string, any>> = Array.isArray(frontmatter.actors) ? frontmatter.actors : [];
+  for (const actor of actors) {
+    const role = typeof actor?.role === 'string' ? actor.role.toLowerCase() : '';
+    const name = actor?.name;
+
+    if (role in PERSON_ROLES && !looksLikeOrganization(name)) {
+      const person = addEntity('person', name);
+      const relationship = PERSON_ROLES[role];
+      if (relationship) addEdge(relationship, person, doc, `${role}: ${name}`);
+      if (actor.affiliation) addEdge('part_of', person, addEntity('organization', actor.affiliation));
+    } else if (role in ORGANIZATION_ROLES || role in PERSON_ROLES) {
+      const organization = addEntity('organization', name);
+      const relationship = ORGANIZATION_ROLES[role];
+      if (relationship) addEdge(relationship, organization, doc, `${role}: ${name}`);
+      else if (organization) vendors.push(organization);
+    }
+  }
+
+  // Products named in identifiers belong to the document's vendors (not patent assignees)
+  const product = addEntity('product', frontmatter.identifiers?.product);
+  if (product) {
+    addEdge('mentions', doc, product);
+    for (const vendor of vendors) addEdge('part_of', product, vendor);
+  }
+
+  // Key terms not already known as another entity are technologies
+  for (const term of extractKeyTerms(body)) {
+    const known = (['organization', 'person', 'product'] as const).some(kind => entities.has(entityKey(kind, term)));
+    if (known) continue;
+
+    const topic = matchTopic(term, topics);
+    const technology = topic
+      ? addEntity('technology', topic[0], topic)
+      : addEntity('technology', term);
+    addEdge('mentions', doc, technology, `key term: ${term}`);
+  }
+
+  return { entities: [...entities.values()], edges: [...edges.values()] };
+}
+
+/**
+ * Terms from the document's "**Key Terms**: a, b, c" line
+ */
+export function extractKeyTerms(body: string): string[] {
+  const match = body.match(/\*\*Key Terms\*\*:\s*([\s\S]+?)(?:\n\n|\n\*\*|$)/);
+  if (!match) return [];
+
+  const seen = new Set<string>();
+  return match[1]
+    .split(/[,;\n]/)
+    .map(term => term.trim())
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (term.length < 2 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEY_TERMS);
+}
+
+function refId(ref: GraphNodeRef): string {
+  return ref.type === 'entity' ? ref.key : `document:${ref.id}`;
+}
+
+function looksLikeOrganization(name: unknown): boolean {
+  return typeof name === 'string' && CORPORATE_SUFFIXES.test(normalizeEntityName(name, 'person'));
+}
+
+// Aliases of the persona topic a term names, canonical alias first
+function matchTopic(term: string, topics: PersonaTopic[]): string[] | null {
+  const normalized = normalizeEntityName(term, 'technology');
+  for (const topic of topics) {
+    const aliases = topic.aliases.map(normalizeAlias).filter(alias => alias.length > 1);
+    if (aliases.some(alias => normalizeEntityName(alias, 'technology') === normalized)) {
+      return aliases;
+    }
+  }
+  return null;
+}
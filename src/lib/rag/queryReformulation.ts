@@ -3,12 +3,13 @@
  *
  * Enhances follow-up queries by incorporating conversation context,
  * resolving pronouns, and making implicit references explicit.
+ * Also provides multi-query / HyDE expansion for retrieval.
  *
  * Cost: ~$0.0001 per query (GPT-4o-mini, ~100 tokens)
  */
 
-import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
+import { getLanguageModel, parseModelRef, type ModelSpec } from '../llm/models';
 
 export interface Message {
   role: 'user' | 'assistant';
@@ -63,11 +64,15 @@ function needsReformulation(query: string, hasHistory: boolean): boolean {
  *
  * @param currentQuery - The user's current query
  * @param conversationHistory - Recent messages (last 2-4 turns recommended)
+ * @param model - Persona reformulation model (default: the default fast model)
+ * @param conversationSummary - Summary of the earlier part of a long thread, if any
  * @returns Reformulated query with context incorporated
  */
 export async function reformulateQuery(
   currentQuery: string,
-  conversationHistory: Message[]
+  conversationHistory: Message[],
+  model: ModelSpec = parseModelRef(undefined, 'fast'),
+  conversationSummary?: string
 ): Promise<ReformulationResult> {
   const startTime = Date.now();
 
@@ -101,6 +106,14 @@ export async function reformulateQuery(
       .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
       .join('\n\n');
 
+    // Long threads: constraints stated early (scope, time range, exclusions) live in the summary
+    const summarySection = conversationSummary
+      ? `# Earlier Conversation (summary)
+${conversationSummary}
+
+`
+      : '';
+
     const prompt = `You are a query reformulation assistant. Your task is to rewrite the user's current query to be self-contained by incorporating relevant context from the conversation history.
 
 # Instructions
@@ -109,8 +122,9 @@ export async function reformulateQuery(
 3. Maintain the user's original intent and question style
 4. Keep the reformulated query concise and natural
 5. If the query is already clear and self-contained, return it unchanged
+6. Carry over constraints from the earlier conversation (e.g. time range, scope) when the query relies on them
 
-# Conversation History
+${summarySection}# Conversation History
 ${conversationContext}
 
 # Current Query
@@ -120,7 +134,7 @@ ${currentQuery}
 Reformulate the current query to be self-contained. Output ONLY the reformulated query, nothing else.`;
 
     const result = await generateText({
-      model: openai('gpt-4o-mini'),
+      model: getLanguageModel(model),
       prompt,
       temperature: 0.3, // Low temperature for consistent reformulation
       maxTokens: 150,
@@ -155,6 +169,105 @@ Reformulate the current query to be self-contained. Output ONLY the reformulated
   }
 }
 
+export type QueryExpansionMode = 'off' | 'multi_query' | 'hyde' | 'multi_query_hyde';
+
+/**
+ * Query expansion settings, stored per persona under `search.query_expansion`
+ */
+export interface QueryExpansionConfig {
+  mode?: QueryExpansionMode; // Default: 'off'
+  paraphrases?: number; // Number of paraphrases to generate (default: 3)
+  max_search_calls?: number; // Cap on total vector + BM25 calls per search, including the original query (default: 8)
+  model?: string; // Model reference, e.g. "gpt-4o-mini" or "gemini:gemini-2.5-flash" (default: persona reformulation model)
+}
+
+export interface QueryExpansionResult {
+  originalQuery: string;
+  paraphrases: string[];
+  hypotheticalAnswer?: string; // HyDE passage (embedded for vector search only)
+  durationMs: number;
+}
+
+/**
+ * Expand a query into paraphrases and/or a hypothetical answer passage (HyDE)
+ *
+ * Short, jargon-heavy questions ("DLB vs 3D cell") embed poorly and miss documents
+ * that use different terminology. Paraphrases spell out acronyms and synonyms; the
+ * HyDE passage is written in the register of the corpus so its embedding lands
+ * near real answer passages.
+ *
+ * Cost: ~$0.0002 per query (GPT-4o-mini, ~300 tokens)
+ */
+export async function expandQuery(
+  query: string,
+  config: QueryExpansionConfig = {},
+  defaultModel: ModelSpec = parseModelRef(undefined, 'fast')
+): Promise<QueryExpansionResult> {
+  const { mode = 'off', paraphrases: paraphraseCount = 3 } = config;
+  const model = config.model ? parseModelRef(config.model, 'fast') : defaultModel;
+  const startTime = Date.now();
+
+  const wantParaphrases = mode === 'multi_query' || mode === 'multi_query_hyde';
+  const wantHyde = mode === 'hyde' || mode === 'multi_query_hyde';
+
+  if (!wantParaphrases && !wantHyde) {
+    return { originalQuery: query, paraphrases: [], durationMs: 0 };
+  }
+
+  const tasks: string[] = [];
+  if (wantParaphrases) {
+    tasks.push(`- "paraphrases": ${paraphraseCount} alternative phrasings of the query. Expand acronyms, use synonyms and the terminology a technical document or patent would use. Each must be a standalone search query.`);
+  }
+  if (wantHyde) {
+    tasks.push(`- "hypothetical_answer": a short passage (3-5 sentences) that plausibly answers the query, written like an excerpt from a technical paper or patent. Accuracy matters less than vocabulary.`);
+  }
+
+  const prompt = `You are a search query expansion assistant for a technical knowledge base.
+
+# Query
+${query}
+
+# Task
+Produce a JSON object with:
+${tasks.join('\n')}
+
+Output ONLY the JSON object, nothing else.`;
+
+  try {
+    const result = await generateText({
+      model: getLanguageModel(model),
+      prompt,
+      temperature: 0.5,
+      maxOutputTokens: 500,
+    });
+
+    const cleaned = result.text.replace(/```(?:json)?/g, '').trim();
+    const parsed = JSON.parse(cleaned.slice(cleaned.indexOf('{'), cleaned.lastIndexOf('}') + 1));
+
+    const paraphrases: string[] = Array.isArray(parsed.paraphrases)
+      ? parsed.paraphrases
+          .filter((p: unknown): p is string => typeof p === 'string' && p.trim().length > 0)
+          .map((p: string) => p.trim())
+          .filter((p: string) => p.toLowerCase() !== query.trim().toLowerCase())
+          .slice(0, paraphraseCount)
+      : [];
+    const hypotheticalAnswer = typeof parsed.hypothetical_answer === 'string' && parsed.hypothetical_answer.trim()
+      ? parsed.hypothetical_answer.trim()
+      : undefined;
+
+    const durationMs = Date.now() - startTime;
+    console.log(`✓ Query expanded in ${durationMs}ms: ${paraphrases.length} paraphrases${hypotheticalAnswer ? ' + HyDE passage' : ''}`);
+    paraphrases.forEach(p => console.log(`  Paraphrase: "${p}"`));
+
+    return { originalQuery: query, paraphrases, hypotheticalAnswer, durationMs };
+  } catch (error) {
+    console.error('❌ Query expansion failed:', error);
+
+    // Fallback: search with the original query only
+    return { originalQuery: query, paraphrases: [], durationMs: Date.now() - startTime };
+  }
+}
+
 /**
  * Simplified reformulation for testing/debugging
  * Returns original query without LLM call
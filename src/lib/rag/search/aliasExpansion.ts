@@ -0,0 +1,71 @@
+/**
+ * Topic alias expansion for BM25 queries
+ * When a query mentions any alias of a persona topic, the sibling aliases of that
+ * topic are OR-ed into the lexical query, so "parallax barrier" also matches
+ * documents that only say "switchable 2D/3D" or "LC lens".
+ */
+
+import type { PersonaTopic } from './searchConfig';
+
+export interface AliasExpansion {
+  query: string; // Query to send to bm25_search_chunks (websearch_to_tsquery syntax)
+  terms: string[]; // Sibling aliases added to the query
+  topics: string[]; // IDs of the topics that matched
+}
+
+const MAX_EXPANSION_TERMS = 12;
+
+/**
+ * Normalize an alias for matching and querying
+ * Drops annotations like "(legacy)" / "(current)" and characters with websearch syntax meaning
+ */
+export function normalizeAlias(alias: string): string {
+  return alias
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/["]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Expand a query with the sibling aliases of every topic it mentions
+ * Original query terms stay required; aliases are added as OR-ed phrases.
+ */
+export function expandQueryWithAliases(query: string, topics: PersonaTopic[]): AliasExpansion {
+  const queryLower = query.toLowerCase();
+  const terms: string[] = [];
+  const matchedTopics: string[] = [];
+  const seen = new Set<string>();
+
+  for (const topic of topics) {
+    const aliases = topic.aliases.map(normalizeAlias).filter(a => a.length > 1);
+
+    const matchesTopic = aliases.some(alias =>
+      new RegExp(`(^|[^a-z0-9])${escapeRegExp(alias.toLowerCase())}($|[^a-z0-9])`).test(queryLower)
+    );
+    if (!matchesTopic) continue;
+
+    matchedTopics.push(topic.id);
+    for (const alias of aliases) {
+      const aliasLower = alias.toLowerCase();
+      if (seen.has(aliasLower) || queryLower.includes(aliasLower)) continue;
+      seen.add(aliasLower);
+      terms.push(alias);
+    }
+  }
+
+  const expansionTerms = terms.slice(0, MAX_EXPANSION_TERMS);
+  if (expansionTerms.length === 0) {
+    return { query, terms: [], topics: matchedTopics };
+  }
+
+  return {
+    query: `${query} OR ${expansionTerms.map(t => `"${t}"`).join(' OR ')}`,
+    terms: expansionTerms,
+    topics: matchedTopics,
+  };
+}
@@ -4,6 +4,9 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { toRpcFilter, type SearchFilters } from './filters';
+import { expandQueryWithAliases } from './aliasExpansion';
+import type { PersonaTopic } from './searchConfig';
 
 export interface BM25SearchResult {
   chunkId: string;
@@ -20,6 +23,8 @@ export interface BM25SearchOptions {
   personaSlug: string;
   limit?: number; // Default: 20
   minScore?: number; // Minimum relevance score, default: 0.1
+  filters?: SearchFilters; // Metadata filters (doc type, date range, tags, identifiers)
+  topics?: PersonaTopic[]; // Persona topics for alias expansion (omit to search the query as-is)
 }
 
 /**
@@ -30,15 +35,25 @@ export async function bm25Search(
   options: BM25SearchOptions,
   supabase: ReturnType<typeof createClient>
 ): Promise<BM25SearchResult[]> {
-  const { personaSlug, limit = 20, minScore = 0.1 } = options;
+  const { personaSlug, limit = 20, minScore = 0.1, filters, topics } = options;
 
   try {
+    // Expand with sibling aliases of any persona topic the query mentions
+    const aliasExpansion = topics ? expandQueryWithAliases(query, topics) : null;
+    const queryText = aliasExpansion?.query ?? query;
+    if (aliasExpansion && aliasExpansion.terms.length > 0) {
+      console.log(`BM25 alias expansion (${aliasExpansion.topics.join(', ')}): +${aliasExpansion.terms.length} terms`);
+    }
+
     // Perform BM25 search using PostgreSQL full-text search
+    // Filter argument is only sent when set, so unfiltered calls keep the original RPC signature
+    const rpcFilter = toRpcFilter(filters);
     const { data, error } = await supabase.rpc('bm25_search_chunks', {
-      query_text: query,
+      query_text: queryText,
       persona_slug: personaSlug,
       min_score: minScore,
       match_count: limit,
+      ...(rpcFilter && { filter: rpcFilter }),
     });
 
     if (error) {
@@ -63,7 +78,7 @@ export async function bm25Search(
       sourceUrl: row.source_url,
     }));
 
-    console.log(`BM25 search: Found ${results.length} chunks (minScore: ${minScore})`);
+    console.log(`BM25 search: Found ${results.length} chunks (minScore: ${minScore}${rpcFilter ? `, filter: ${JSON.stringify(rpcFilter)}` : ''})`);
     return results;
   } catch (error) {
     console.error('BM25 search error:', error);
@@ -0,0 +1,253 @@
+/**
+ * Parent-document / neighbouring-chunk context expansion
+ * Widens each search hit with adjacent chunks (by chunk_index) or with its whole
+ * parent section, so claims and tables that span chunk boundaries reach the model
+ * intact. Overlapping expansions from the same document are merged into one block.
+ * Only each block is capped here; the chat context budget is applied by the
+ * context packer, so hits it can't fit show up in its dropped report.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { TokenCounter } from '../chunking/smartChunker';
+import type { SearchResult } from './index';
+
+export type ContextExpansionMode = 'none' | 'neighbors' | 'section';
+
+/**
+ * Context expansion settings, stored per persona under `search.context_expansion`
+ */
+export interface ContextExpansionConfig {
+  mode?: ContextExpansionMode; // Default: 'none'
+  window?: number; // Neighbouring chunks on each side in 'neighbors' mode (default: 1)
+  max_tokens_per_hit?: number; // Cap on a single expanded block (default: 3000)
+}
+
+interface ChunkPosition {
+  id: string;
+  docId: string;
+  sectionPath: string;
+  tokenCount: number;
+  index: number;
+}
+
+const DEFAULT_WINDOW = 1;
+const DEFAULT_MAX_TOKENS_PER_HIT = 3000;
+const OVERLAP_PROBE_CHARS = 80;
+
+/**
+ * Parent section of a section path ("Claims > Claim 3" → "Claims")
+ */
+function parentSection(sectionPath: string): string {
+  const parts = sectionPath.split(' > ');
+  return parts.length > 1 ? parts.slice(0, -1).join(' > ') : sectionPath;
+}
+
+function inSection(sectionPath: string, section: string): boolean {
+  return sectionPath === section || sectionPath.startsWith(`${section} > `);
+}
+
+/**
+ * Join consecutive chunks, dropping the overlap the chunker repeats between them
+ */
+export function joinChunkTexts(first: string, second: string): string {
+  const probe = second.slice(0, OVERLAP_PROBE_CHARS);
+  if (probe.length === OVERLAP_PROBE_CHARS) {
+    const overlapStart = first.lastIndexOf(probe);
+    if (overlapStart !== -1 && second.startsWith(first.slice(overlapStart))) {
+      return first.slice(0, overlapStart) + second;
+    }
+  }
+  return `${first}\n\n${second}`;
+}
+
+/**
+ * Load chunk positions for the given documents, ordered within each document
+ */
+async function loadChunkPositions(
+  docIds: string[],
+  supabase: ReturnType<typeof createClient>
+): Promise<Map<string, ChunkPosition[]>> {
+  const { data, error } = await supabase
+    .from('chunks')
+    .select('id, doc_id, section_path, token_count, chunk_index, created_at')
+    .in('doc_id', docIds);
+
+  if (error) {
+    throw new Error(`Failed to load chunk positions: ${error.message}`);
+  }
+
+  const rows = (data || []) as Array<{
+    id: string;
+    doc_id: string;
+    section_path: string;
+    token_count: number | null;
+    chunk_index: number | null;
+    created_at: string;
+  }>;
+
+  // chunk_index is authoritative; insertion order is the fallback for un-backfilled rows
+  rows.sort((a, b) =>
+    (a.chunk_index ?? Number.MAX_SAFE_INTEGER) - (b.chunk_index ?? Number.MAX_SAFE_INTEGER) ||
+    a.created_at.localeCompare(b.created_at) ||
+    a.id.localeCompare(b.id)
+  );
+
+  const byDoc = new Map<string, ChunkPosition[]>();
+  for (const row of rows) {
+    const positions = byDoc.get(row.doc_id) ?? [];
+    positions.push({
+      id: row.id,
+      docId: row.doc_id,
+      sectionPath: row.section_path,
+      tokenCount: row.token_count ?? 0,
+      index: positions.length,
+    });
+    byDoc.set(row.doc_id, positions);
+  }
+  return byDoc;
+}
+
+/**
+ * Pick the chunk positions to include around a hit, nearest first, within the per-hit cap
+ */
+function selectExpansion(
+  hit: ChunkPosition,
+  docChunks: ChunkPosition[],
+  mode: ContextExpansionMode,
+  window: number,
+  maxTokens: number
+): number[] {
+  let candidates: ChunkPosition[];
+  if (mode === 'section') {
+    const section = parentSection(hit.sectionPath);
+    candidates = docChunks.filter(c => inSection(c.sectionPath, section));
+  } else {
+    candidates = docChunks.filter(c => Math.abs(c.index - hit.index) <= window);
+  }
+
+  // The synthetic metadata chunk is not part of the document flow
+  candidates = candidates.filter(c => c.index === hit.index || c.sectionPath !== 'Metadata');
+
+  // Grow outward from the hit so the cap trims the farthest chunks first
+  candidates.sort((a, b) => Math.abs(a.index - hit.index) - Math.abs(b.index - hit.index));
+
+  const selected: number[] = [];
+  let tokens = 0;
+  for (const candidate of candidates) {
+    if (candidate.index !== hit.index && tokens + candidate.tokenCount > maxTokens) continue;
+    selected.push(candidate.index);
+    tokens += candidate.tokenCount;
+  }
+  return selected.sort((a, b) => a - b);
+}
+
+/**
+ * Expand search hits with neighbouring chunks or their parent section
+ *
+ * Results come back ordered by score; hits from the same document whose expansions
+ * touch or overlap become a single block carrying the best hit's score and metadata.
+ * Every hit is returned, expanded or bare; no hit is dropped for size.
+ */
+export async function expandSearchContext(
+  results: SearchResult[],
+  config: ContextExpansionConfig,
+  supabase: ReturnType<typeof createClient>
+): Promise<SearchResult[]> {
+  const {
+    mode = 'none',
+    window = DEFAULT_WINDOW,
+    max_tokens_per_hit: maxTokensPerHit = DEFAULT_MAX_TOKENS_PER_HIT,
+  } = config;
+
+  if (mode === 'none' || results.length === 0) {
+    return results;
+  }
+
+  const docIds = [...new Set(results.map(r => r.docId))];
+  const positionsByDoc = await loadChunkPositions(docIds, supabase);
+  const positionById = new Map<string, ChunkPosition>();
+  positionsByDoc.forEach(positions => positions.forEach(p => positionById.set(p.id, p)));
+
+  // Union the expansion index sets per document, remembering which hit claimed each index
+  const docIndexes = new Map<string, Map<number, SearchResult | null>>();
+  const unexpanded: SearchResult[] = [];
+
+  for (const hit of results) {
+    const position = positionById.get(hit.chunkId);
+    const docChunks = positionsByDoc.get(hit.docId);
+    if (!position || !docChunks) {
+      unexpanded.push(hit);
+      continue;
+    }
+
+    const indexes = docIndexes.get(hit.docId) ?? new Map<number, SearchResult | null>();
+    for (const index of selectExpansion(position, docChunks, mode, window, maxTokensPerHit)) {
+      if (!indexes.has(index)) indexes.set(index, null);
+    }
+    indexes.set(position.index, hit);
+    docIndexes.set(hit.docId, indexes);
+  }
+
+  // Split each document's index set into contiguous runs → one block per run
+  interface Block { docId: string; indexes: number[]; hits: SearchResult[] }
+  const blocks: Block[] = [];
+  docIndexes.forEach((indexes, docId) => {
+    const sorted = [...indexes.keys()].sort((a, b) => a - b);
+    let current: Block | null = null;
+    for (const index of sorted) {
+      if (!current || index !== current.indexes[current.indexes.length - 1] + 1) {
+        current = { docId, indexes: [], hits: [] };
+        blocks.push(current);
+      }
+      current.indexes.push(index);
+      const hit = indexes.get(index);
+      if (hit) current.hits.push(hit);
+    }
+  });
+
+  const scoredBlocks = blocks
+    .filter(b => b.hits.length > 0)
+    .map(b => ({ ...b, best: b.hits.reduce((a, h) => (h.score > a.score ? h : a)) }))
+    .sort((a, b) => b.best.score - a.best.score);
+
+  // Fetch text for every chunk that may be included
+  const neededIds = scoredBlocks.flatMap(b => b.indexes.map(i => positionsByDoc.get(b.docId)![i].id));
+  const { data: textRows, error: textError } = await supabase
+    .from('chunks')
+    .select('id, text')
+    .in('id', neededIds);
+
+  if (textError) {
+    throw new Error(`Failed to load chunk text: ${textError.message}`);
+  }
+  const textById = new Map(((textRows || []) as Array<{ id: string; text: string }>).map(r => [r.id, r.text]));
+
+  // Assemble one result per block
+  const counter = new TokenCounter();
+  const expanded: SearchResult[] = scoredBlocks.map(block => {
+    const docChunks = positionsByDoc.get(block.docId)!;
+    const chunkIds = block.indexes.map(i => docChunks[i].id);
+    const text = chunkIds
+      .map(id => textById.get(id) ?? '')
+      .filter(t => t.length > 0)
+      .reduce((acc, t) => (acc ? joinChunkTexts(acc, t) : t), '');
+    return {
+      ...block.best,
+      text,
+      expandedChunkIds: chunkIds,
+      mergedHits: block.hits.map(h => h.chunkId),
+      tokenCount: counter.count(text),
+    };
+  });
+
+  for (const hit of unexpanded) {
+    expanded.push({ ...hit, tokenCount: counter.count(hit.text) });
+  }
+
+  expanded.sort((a, b) => b.score - a.score);
+
+  const totalTokens = expanded.reduce((sum, e) => sum + (e.tokenCount ?? 0), 0);
+  console.log(`📖 Context expansion (${mode}): ${results.length} hits → ${expanded.length} blocks, ${totalTokens} tokens`);
+
+  return expanded;
+}
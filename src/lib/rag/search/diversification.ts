@@ -0,0 +1,182 @@
+/**
+ * Result diversification
+ * Maximal Marginal Relevance (MMR) over stored chunk embeddings, and patent-family
+ * grouping from docs.identifiers so sibling patents (continuations, foreign filings)
+ * don't crowd out other sources.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { FusedSearchResult } from './fusionSearch';
+
+/**
+ * Diversification settings, stored per persona under `search.diversification`
+ */
+export interface DiversificationConfig {
+  mmr_lambda?: number; // 1 = pure relevance, lower = more diverse (default: off)
+  mmr_pool_size?: number; // Top candidates re-ordered by MMR (default: 30)
+  max_chunks_per_family?: number; // Cap across all documents of one patent family (default: no cap)
+}
+
+interface PatentIdentifiers {
+  patent_number?: string;
+  publication_number?: string;
+  patent_family?: string[];
+}
+
+export const DEFAULT_MMR_POOL_SIZE = 30;
+
+/**
+ * Normalize a patent reference for family matching ("US 11,281,020 B2" → "US11281020")
+ * Kind codes are dropped so the application and grant publications match.
+ */
+export function normalizePatentRef(ref: string): string {
+  return ref
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/([0-9])[A-Z][0-9]?$/, '$1');
+}
+
+/**
+ * Group documents into patent families
+ * Two patents are in the same family when one lists the other (or a shared member)
+ * in `identifiers.patent_family`. Returns docId → family key for patent documents only.
+ */
+export async function loadPatentFamilies(
+  docIds: string[],
+  supabase: ReturnType<typeof createClient>
+): Promise<Map<string, string>> {
+  const families = new Map<string, string>();
+  if (docIds.length === 0) return families;
+
+  const { data, error } = await supabase
+    .from('docs')
+    .select('id, identifiers')
+    .in('id', docIds);
+
+  if (error || !data) {
+    console.warn('Could not load document identifiers for family grouping');
+    return families;
+  }
+
+  // Union-find over patent references
+  const parent = new Map<string, string>();
+  const find = (ref: string): string => {
+    let root = ref;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(ref, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    const [rootA, rootB] = [find(a), find(b)];
+    if (rootA !== rootB) parent.set(rootA < rootB ? rootB : rootA, rootA < rootB ? rootA : rootB);
+  };
+
+  const docRefs = new Map<string, string>();
+  for (const doc of data as Array<{ id: string; identifiers: PatentIdentifiers | string | null }>) {
+    const identifiers: PatentIdentifiers = typeof doc.identifiers === 'string'
+      ? JSON.parse(doc.identifiers)
+      : doc.identifiers ?? {};
+
+    const own = identifiers.patent_number ?? identifiers.publication_number;
+    if (!own) continue;
+
+    const ownRef = normalizePatentRef(own);
+    union(ownRef, ownRef);
+    docRefs.set(doc.id, ownRef);
+    for (const member of identifiers.patent_family ?? []) {
+      union(ownRef, normalizePatentRef(member));
+    }
+  }
+
+  docRefs.forEach((ref, docId) => families.set(docId, find(ref)));
+  return families;
+}
+
+/**
+ * Load stored embeddings for chunks (pgvector values arrive as "[0.1,0.2,...]" strings)
+ */
+export async function loadChunkEmbeddings(
+  chunkIds: string[],
+  supabase: ReturnType<typeof createClient>
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+  if (chunkIds.length === 0) return embeddings;
+
+  const { data, error } = await supabase
+    .from('chunks')
+    .select('id, embedding')
+    .in('id', chunkIds);
+
+  if (error) {
+    throw new Error(`Failed to load chunk embeddings: ${error.message}`);
+  }
+
+  for (const row of (data || []) as Array<{ id: string; embedding: string | number[] | null }>) {
+    if (!row.embedding) continue;
+    embeddings.set(row.id, typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding);
+  }
+  return embeddings;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Re-order results with Maximal Marginal Relevance
+ * MMR = λ · relevance − (1 − λ) · max similarity to already selected chunks
+ *
+ * Relevance is the fused score normalized to the pool's best. Chunks without a
+ * stored embedding are never penalised. Results beyond the pool keep their order.
+ */
+export function mmrRerank(
+  results: FusedSearchResult[],
+  embeddings: Map<string, number[]>,
+  lambda: number,
+  poolSize: number = DEFAULT_MMR_POOL_SIZE
+): FusedSearchResult[] {
+  const pool = results.slice(0, poolSize);
+  const rest = results.slice(poolSize);
+  const maxScore = Math.max(...pool.map(r => r.score), 0) || 1;
+
+  const selected: FusedSearchResult[] = [];
+  const remaining = [...pool];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestMmr = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const embedding = embeddings.get(candidate.chunkId);
+      let redundancy = 0;
+      if (embedding) {
+        for (const chosen of selected) {
+          const chosenEmbedding = embeddings.get(chosen.chunkId);
+          if (chosenEmbedding) {
+            redundancy = Math.max(redundancy, cosineSimilarity(embedding, chosenEmbedding));
+          }
+        }
+      }
+
+      const mmr = lambda * (candidate.score / maxScore) - (1 - lambda) * redundancy;
+      if (mmr > bestMmr) {
+        bestMmr = mmr;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return [...selected, ...rest];
+}
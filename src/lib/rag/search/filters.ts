@@ -0,0 +1,198 @@
+/**
+ * Metadata filters for RAG search
+ * Scopes vector and BM25 search by doc type, date range, tags and identifiers.
+ * Filters are pushed down into the search RPCs via their `filter` JSONB argument.
+ */
+
+export interface SearchFilters {
+  docTypes?: string[]; // docs.type (e.g. 'patent', 'arxiv')
+  dateFrom?: string; // Inclusive lower bound on docs.date (YYYY-MM-DD)
+  dateTo?: string; // Inclusive upper bound on docs.date (YYYY-MM-DD)
+  tags?: string[]; // Match any docs.tags entry (case-insensitive)
+  identifiers?: Record<string, string>; // Match every docs.identifiers key (case-insensitive)
+}
+
+export interface ExtractedFilters {
+  filters: SearchFilters;
+  matched: string[]; // Query phrases that produced a filter (for logging/debugging)
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check whether any filter is set
+ */
+export function hasFilters(filters?: SearchFilters): filters is SearchFilters {
+  if (!filters) return false;
+  return Boolean(
+    filters.docTypes?.length ||
+    filters.dateFrom ||
+    filters.dateTo ||
+    filters.tags?.length ||
+    (filters.identifiers && Object.keys(filters.identifiers).length > 0)
+  );
+}
+
+/**
+ * Convert filters to the JSONB shape expected by the search RPCs
+ * Returns null when no filter is set so the RPC argument can be omitted
+ */
+export function toRpcFilter(filters?: SearchFilters): Record<string, unknown> | null {
+  if (!hasFilters(filters)) return null;
+
+  const rpcFilter: Record<string, unknown> = {};
+  if (filters.docTypes?.length) rpcFilter.doc_types = filters.docTypes;
+  if (filters.dateFrom) rpcFilter.date_from = filters.dateFrom;
+  if (filters.dateTo) rpcFilter.date_to = filters.dateTo;
+  if (filters.tags?.length) rpcFilter.tags = filters.tags;
+  if (filters.identifiers && Object.keys(filters.identifiers).length > 0) {
+    rpcFilter.identifiers = filters.identifiers;
+  }
+  return rpcFilter;
+}
+
+/**
+ * Validate filters received from an API request body
+ */
+export function parseSearchFilters(input: unknown): { filters?: SearchFilters; error?: string } {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'filters must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+  if (raw.docTypes !== undefined) {
+    if (!isStringArray(raw.docTypes)) return { error: 'filters.docTypes must be an array of strings' };
+    filters.docTypes = raw.docTypes;
+  }
+
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== 'string' || !ISO_DATE.test(raw[key] as string)) {
+        return { error: `filters.${key} must be a date in YYYY-MM-DD format` };
+      }
+      filters[key] = raw[key] as string;
+    }
+  }
+
+  if (raw.tags !== undefined) {
+    if (!isStringArray(raw.tags)) return { error: 'filters.tags must be an array of strings' };
+    filters.tags = raw.tags;
+  }
+
+  if (raw.identifiers !== undefined) {
+    const identifiers = raw.identifiers;
+    if (
+      typeof identifiers !== 'object' ||
+      identifiers === null ||
+      Array.isArray(identifiers) ||
+      !Object.values(identifiers).every(v => typeof v === 'string')
+    ) {
+      return { error: 'filters.identifiers must be an object of string values' };
+    }
+    filters.identifiers = identifiers as Record<string, string>;
+  }
+
+  return { filters };
+}
+
+// Natural-language document type cues → docs.type values
+const DOC_TYPE_PATTERNS: Array<{ pattern: RegExp; types: string[] }> = [
+  { pattern: /\bpatents?\b|\bpatent (?:filings?|applications?)\b/i, types: ['patent'] },
+  { pattern: /\barxiv\b|\b(?:research |scientific )?papers?\b|\bpublications?\b/i, types: ['arxiv', 'paper'] },
+  { pattern: /\bpress releases?\b/i, types: ['press'] },
+  { pattern: /\bblog posts?\b/i, types: ['blog'] },
+];
+
+const RECENT_YEARS = 2;
+
+function yearStart(year: number): string {
+  return `${year}-01-01`;
+}
+
+function yearEnd(year: number): string {
+  return `${year}-12-31`;
+}
+
+/**
+ * Extract metadata filters from a natural-language query
+ * e.g. "recent patents about LC lens" → { docTypes: ['patent'], dateFrom: <2 years ago> }
+ *
+ * Heuristic and conservative: a doc type is only applied when exactly one type is
+ * mentioned, so comparison questions ("patents vs papers") stay unfiltered.
+ */
+export function extractFiltersFromQuery(query: string, now: Date = new Date()): ExtractedFilters {
+  const filters: SearchFilters = {};
+  const matched: string[] = [];
+
+  // Document type
+  const typeMatches = DOC_TYPE_PATTERNS
+    .map(({ pattern, types }) => ({ match: query.match(pattern), types }))
+    .filter(({ match }) => match !== null);
+
+  if (typeMatches.length === 1) {
+    filters.docTypes = typeMatches[0].types;
+    matched.push(typeMatches[0].match![0]);
+  }
+
+  // Date ranges
+  const currentYear = now.getFullYear();
+  let match: RegExpMatchArray | null;
+
+  if ((match = query.match(/\bbetween\s+((?:19|20)\d{2})\s+and\s+((?:19|20)\d{2})\b/i))) {
+    const [from, to] = [Number(match[1]), Number(match[2])].sort((a, b) => a - b);
+    filters.dateFrom = yearStart(from);
+    filters.dateTo = yearEnd(to);
+    matched.push(match[0]);
+  } else {
+    if ((match = query.match(/\b(after|since|from)\s+((?:19|20)\d{2})\b/i))) {
+      const year = Number(match[2]);
+      filters.dateFrom = yearStart(match[1].toLowerCase() === 'after' ? year + 1 : year);
+      matched.push(match[0]);
+    }
+    if ((match = query.match(/\b(before|until|prior to)\s+((?:19|20)\d{2})\b/i))) {
+      const year = Number(match[2]);
+      filters.dateTo = yearEnd(match[1].toLowerCase() === 'until' ? year : year - 1);
+      matched.push(match[0]);
+    }
+    if (!filters.dateFrom && !filters.dateTo && (match = query.match(/\b(?:in|during)\s+((?:19|20)\d{2})\b/i))) {
+      const year = Number(match[1]);
+      filters.dateFrom = yearStart(year);
+      filters.dateTo = yearEnd(year);
+      matched.push(match[0]);
+    }
+  }
+
+  if (!filters.dateFrom && (match = query.match(/\b(?:last|past)\s+(\d{1,2})\s+years?\b/i))) {
+    filters.dateFrom = yearStart(currentYear - Number(match[1]));
+    matched.push(match[0]);
+  } else if (!filters.dateFrom && (match = query.match(/\b(?:recent|latest|newest)\b/i))) {
+    filters.dateFrom = yearStart(currentYear - RECENT_YEARS);
+    matched.push(match[0]);
+  }
+
+  // Identifiers
+  const identifiers: Record<string, string> = {};
+  if ((match = query.match(/\b(US|EP|WO|CN|JP|KR)\s?(\d{7,}[A-Z]?\d?)\b/i))) {
+    identifiers.patent_number = `${match[1]}${match[2]}`.toUpperCase().replace(/[AB][12]$/, '');
+    matched.push(match[0]);
+  }
+  if ((match = query.match(/\b(?:arxiv:)?(\d{4}\.\d{4,5})(?:v\d+)?\b/i))) {
+    identifiers.arxiv_id = match[1];
+    matched.push(match[0]);
+  }
+  if ((match = query.match(/\b(10\.\d{4,9}\/[^\s"'<>]+)/))) {
+    identifiers.doi = match[1].replace(/[.,;)]+$/, '');
+    matched.push(match[0]);
+  }
+  if (Object.keys(identifiers).length > 0) {
+    filters.identifiers = identifiers;
+  }
+
+  return { filters, matched };
+}
@@ -1,11 +1,13 @@
 /**
  * Reciprocal Rank Fusion (RRF) for combining vector and BM25 search results
- * Includes tag boosting for persona-relevant documents
+ * Includes tag boosting for persona-relevant documents, optional reranking and diversification
  */
 
 import { createClient } from '@supabase/supabase-js';
 import { VectorSearchResult } from './vectorSearch';
 import { BM25SearchResult } from './bm25Search';
+import { applyRerank, type RerankerConfig } from './reranker';
+import { loadChunkEmbeddings, loadPatentFamilies, mmrRerank, DEFAULT_MMR_POOL_SIZE } from './diversification';
 
 export interface FusedSearchResult {
   chunkId: string;
@@ -16,6 +18,10 @@ export interface FusedSearchResult {
   vectorScore?: number;
   bm25Score?: number;
   tagBoostApplied?: boolean;
+  fusionScore?: number; // Score after RRF + boosts, before reranking
+  rerankScore?: number; // Reranker relevance (0-1), only set for reranked chunks
+  rerankReason?: string; // Short justification from the reranker
+  patentFamily?: string; // Family key shared by sibling patents (set when family grouping is on)
   docTitle?: string;
   docType?: string;
   sourceUrl?: string;
@@ -27,6 +33,20 @@ export interface FusionOptions {
   citationBoostMultiplier?: number; // Citation boost percentage (default: 1.15 = 15% boost)
   maxChunksPerDoc?: number; // Max chunks from same doc (default: 3)
   conversationId?: string; // Conversation ID for citation-based boosting
+  reranker?: RerankerConfig; // Reranker settings (skipped unless enabled)
+  expansionResults?: ExpansionResultList[]; // Ranked lists from expanded queries (multi-query / HyDE)
+  mmrLambda?: number; // MMR trade-off: 1 = pure relevance, lower = more diverse (default: off)
+  mmrPoolSize?: number; // Top candidates re-ordered by MMR (default: 30)
+  maxChunksPerFamily?: number; // Max chunks across a patent family (default: no family grouping)
+}
+
+/**
+ * Vector and BM25 results for one expanded query variant
+ */
+export interface ExpansionResultList {
+  query: string;
+  vectorResults: VectorSearchResult[];
+  bm25Results: BM25SearchResult[];
 }
 
 const DEFAULT_K = 60;
@@ -95,6 +115,26 @@ export function rrfFusion(
   return fusedResults;
 }
 
+/**
+ * Merge RRF-fused results from an additional query variant into the primary fusion
+ * Scores add up, so chunks retrieved by several variants rise to the top
+ */
+export function mergeFusedResults(
+  target: Map<string, FusedSearchResult>,
+  source: Map<string, FusedSearchResult>
+): void {
+  source.forEach((result, chunkId) => {
+    const existing = target.get(chunkId);
+    if (existing) {
+      existing.score += result.score;
+      existing.vectorScore = Math.max(existing.vectorScore ?? 0, result.vectorScore ?? 0) || undefined;
+      existing.bm25Score = Math.max(existing.bm25Score ?? 0, result.bm25Score ?? 0) || undefined;
+    } else {
+      target.set(chunkId, { ...result });
+    }
+  });
+}
+
 /**
  * Get recently cited document IDs from conversation
  * Returns document IDs from citations in last 2 assistant messages
@@ -270,25 +310,33 @@ export async function applyTagBoost(
 
 /**
  * Deduplicate by document, keeping top N chunks per document
+ * With `maxChunksPerFamily`, chunks sharing a `patentFamily` are also capped as a group
  */
 export function deduplicateByDoc(
   fusedResults: Map<string, FusedSearchResult>,
-  maxChunksPerDoc: number = DEFAULT_MAX_CHUNKS_PER_DOC
+  maxChunksPerDoc: number = DEFAULT_MAX_CHUNKS_PER_DOC,
+  maxChunksPerFamily?: number
 ): FusedSearchResult[] {
   // Sort all results by score descending
   const sortedResults = Array.from(fusedResults.values())
     .sort((a, b) => b.score - a.score);
 
-  // Track chunks per document
+  // Track chunks per document and per patent family
   const docChunkCount = new Map<string, number>();
+  const familyChunkCount = new Map<string, number>();
   const finalResults: FusedSearchResult[] = [];
 
   for (const result of sortedResults) {
     const currentCount = docChunkCount.get(result.docId) || 0;
+    const familyCount = result.patentFamily ? familyChunkCount.get(result.patentFamily) || 0 : 0;
 
-    if (currentCount < maxChunksPerDoc) {
+    if (currentCount < maxChunksPerDoc &&
+        (maxChunksPerFamily === undefined || familyCount < maxChunksPerFamily)) {
       finalResults.push(result);
       docChunkCount.set(result.docId, currentCount + 1);
+      if (result.patentFamily) {
+        familyChunkCount.set(result.patentFamily, familyCount + 1);
+      }
     }
   }
 
@@ -296,7 +344,55 @@ export function deduplicateByDoc(
 }
 
 /**
- * Complete hybrid search with RRF fusion, citation boosting, and tag boosting
+ * Tag each result with its patent family key (for family-aware deduplication)
+ */
+export async function applyPatentFamilies(
+  fusedResults: Map<string, FusedSearchResult>,
+  supabase: ReturnType<typeof createClient>
+): Promise<void> {
+  try {
+    const docIds = Array.from(new Set(Array.from(fusedResults.values()).map(r => r.docId)));
+    const families = await loadPatentFamilies(docIds, supabase);
+
+    fusedResults.forEach((result) => {
+      result.patentFamily = families.get(result.docId);
+    });
+
+    const familySizes = new Map<string, number>();
+    families.forEach(family => familySizes.set(family, (familySizes.get(family) || 0) + 1));
+    const multiDocFamilies = Array.from(familySizes.values()).filter(size => size > 1).length;
+    console.log(`Patent families: ${families.size} patent docs in ${familySizes.size} families (${multiDocFamilies} with siblings)`);
+  } catch (error) {
+    console.warn('Error grouping patent families:', error);
+  }
+}
+
+/**
+ * Diversify results with MMR over stored chunk embeddings
+ * Falls back to the relevance order if embeddings can't be loaded.
+ */
+export async function applyMmr(
+  results: FusedSearchResult[],
+  supabase: ReturnType<typeof createClient>,
+  lambda: number,
+  poolSize: number = DEFAULT_MMR_POOL_SIZE
+): Promise<FusedSearchResult[]> {
+  try {
+    const pool = results.slice(0, poolSize);
+    const embeddings = await loadChunkEmbeddings(pool.map(r => r.chunkId), supabase);
+    const diversified = mmrRerank(results, embeddings, lambda, poolSize);
+
+    const moved = diversified.slice(0, poolSize).filter((r, i) => r.chunkId !== pool[i].chunkId).length;
+    console.log(`MMR (λ=${lambda}): re-ordered ${moved}/${pool.length} chunks using ${embeddings.size} embeddings`);
+    return diversified;
+  } catch (error) {
+    console.warn('Error applying MMR, keeping relevance order:', error);
+    return results;
+  }
+}
+
+/**
+ * Complete hybrid search with RRF fusion, citation boosting, tag boosting, reranking, and diversification
  */
 export async function hybridSearch(
   vectorResults: VectorSearchResult[],
@@ -312,14 +408,25 @@ export async function hybridSearch(
     citationBoostMultiplier = DEFAULT_CITATION_BOOST,
     maxChunksPerDoc = DEFAULT_MAX_CHUNKS_PER_DOC,
     conversationId,
+    reranker,
+    expansionResults = [],
+    mmrLambda,
+    mmrPoolSize = DEFAULT_MMR_POOL_SIZE,
+    maxChunksPerFamily,
   } = options;
 
   console.log('\n=== Hybrid Search (RRF Fusion) ===');
   console.log(`Vector results: ${vectorResults.length}`);
   console.log(`BM25 results: ${bm25Results.length}`);
 
-  // Step 1: Apply RRF fusion
+  // Step 1: Apply RRF fusion (original query plus any expanded query variants)
   const fusedResults = rrfFusion(vectorResults, bm25Results, { k });
+  for (const expansion of expansionResults) {
+    mergeFusedResults(fusedResults, rrfFusion(expansion.vectorResults, expansion.bm25Results, { k }));
+  }
+  if (expansionResults.length > 0) {
+    console.log(`Expanded queries: ${expansionResults.length} variants fused`);
+  }
   console.log(`Fused results: ${fusedResults.size} unique chunks`);
 
   // Step 2: Apply citation-based boosting (if conversation ID provided)
@@ -330,9 +437,22 @@ export async function hybridSearch(
   // Step 3: Apply tag boosting
   await applyTagBoost(fusedResults, query, personaSlug, supabase, tagBoostMultiplier);
 
-  // Step 4: Deduplicate by document
-  const finalResults = deduplicateByDoc(fusedResults, maxChunksPerDoc);
-  console.log(`Final results: ${finalResults.length} chunks (max ${maxChunksPerDoc} per doc)`);
+  // Step 4: Rerank top candidates against the query (if enabled)
+  if (reranker?.enabled) {
+    await applyRerank(fusedResults, query, reranker);
+  }
+
+  // Step 5: Deduplicate by document (and by patent family, if enabled)
+  if (maxChunksPerFamily !== undefined) {
+    await applyPatentFamilies(fusedResults, supabase);
+  }
+  let finalResults = deduplicateByDoc(fusedResults, maxChunksPerDoc, maxChunksPerFamily);
+  console.log(`Final results: ${finalResults.length} chunks (max ${maxChunksPerDoc} per doc${maxChunksPerFamily !== undefined ? `, ${maxChunksPerFamily} per family` : ''})`);
+
+  // Step 6: Diversify with MMR to push down near-identical chunks (if enabled)
+  if (mmrLambda !== undefined && mmrLambda < 1) {
+    finalResults = await applyMmr(finalResults, supabase, mmrLambda, mmrPoolSize);
+  }
   console.log('=====================================\n');
 
   return finalResults;
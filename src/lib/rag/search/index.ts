@@ -1,12 +1,22 @@
 /**
  * Main RAG search interface
- * Combines vector search, BM25 search, and RRF fusion with tag boosting
+ * Combines vector search, BM25 search, and RRF fusion with tag boosting and reranking
  */
 
 import { createClient } from '@supabase/supabase-js';
 import { vectorSearch, getVectorThreshold } from './vectorSearch';
 import { bm25Search } from './bm25Search';
 import { hybridSearch, FusedSearchResult } from './fusionSearch';
+import { getPersonaRetrievalConfig } from './searchConfig';
+import { expandQueryWithAliases } from './aliasExpansion';
+import { expandSearchContext, type ContextExpansionConfig } from './contextExpansion';
+import { planExpansionSearches, searchExpandedQueries, countPlannedCalls } from './queryExpansion';
+import { getCachedEmbedding, getCachedResult, setCachedResult, resolveQueryCacheConfig } from './queryCache';
+import { createEmbeddingGenerator } from '../embeddings/embeddingGenerator';
+import type { SearchFilters } from './filters';
+import type { RerankerConfig } from './reranker';
+import { expandQuery, type QueryExpansionConfig } from '../queryReformulation';
+import { resolvePersonaModels } from '../../llm/models';
 
 export interface SearchOptions {
   personaSlug: string;
@@ -15,10 +25,19 @@ export interface SearchOptions {
   bm25Limit?: number; // Top-N from BM25 search (default: 20)
   vectorThreshold?: number; // Minimum similarity (default: from persona config)
   bm25MinScore?: number; // Minimum BM25 score (default: from persona config)
+  rrfK?: number; // RRF constant (default: 60)
   tagBoostMultiplier?: number; // Tag boost percentage (default: 1.075)
   citationBoostMultiplier?: number; // Citation boost percentage (default: 1.15)
   maxChunksPerDoc?: number; // Max chunks per document (default: 3)
   conversationId?: string; // Conversation ID for citation-based boosting
+  rerank?: boolean; // Enable/disable reranking (default: from persona config)
+  reranker?: Partial<RerankerConfig>; // Reranker overrides (default: from persona config)
+  filters?: SearchFilters; // Metadata filters pushed down into vector and BM25 search
+  expansion?: Partial<QueryExpansionConfig>; // Multi-query / HyDE overrides (default: from persona config)
+  contextExpansion?: Partial<ContextExpansionConfig>; // Neighbour/section expansion overrides (default: from persona config)
+  mmrLambda?: number; // MMR diversification trade-off, 1 = off (default: from persona config)
+  maxChunksPerFamily?: number; // Cap on chunks from one patent family (default: from persona config)
+  cache?: boolean; // Enable/disable the query cache (default: from persona config, on)
 }
 
 export interface SearchResult {
@@ -30,11 +49,54 @@ export interface SearchResult {
   vectorScore?: number;
   bm25Score?: number;
   tagBoostApplied?: boolean;
+  fusionScore?: number;
+  rerankScore?: number;
+  rerankReason?: string;
+  patentFamily?: string;
+  expandedChunkIds?: string[]; // Chunks merged into `text` by context expansion, in document order
+  mergedHits?: string[]; // Search hits covered by this expanded block
+  tokenCount?: number;
   docTitle?: string;
   docType?: string;
   sourceUrl?: string;
 }
 
+/**
+ * Diagnostics describing how a search was executed
+ */
+export interface SearchDebugInfo {
+  filters?: SearchFilters;
+  reranker: { enabled: boolean; method?: string };
+  aliasExpansion?: {
+    topics: string[]; // Persona topics matched by the query
+    terms: string[]; // Sibling aliases OR-ed into the BM25 query
+  };
+  expansion?: {
+    mode: string;
+    paraphrases: string[];
+    hypotheticalAnswer?: string;
+    searchCalls: number; // Total vector + BM25 calls, including the original query
+  };
+  contextExpansion?: {
+    mode: string;
+    tokens: number; // Tokens in the expanded context
+  };
+  diversification?: {
+    mmrLambda?: number;
+    maxChunksPerFamily?: number;
+  };
+  cache?: {
+    hit: boolean;
+    match?: 'exact' | 'semantic';
+    similarity?: number; // For semantic matches
+  };
+}
+
+export interface DetailedSearchResult {
+  results: SearchResult[];
+  debug: SearchDebugInfo;
+}
+
 /**
  * Perform complete hybrid RAG search
  */
@@ -43,18 +105,35 @@ export async function performSearch(
   options: SearchOptions,
   supabase: ReturnType<typeof createClient>
 ): Promise<SearchResult[]> {
+  const { results } = await performSearchDetailed(query, options, supabase);
+  return results;
+}
+
+/**
+ * Perform complete hybrid RAG search and report how it was executed
+ */
+export async function performSearchDetailed(
+  query: string,
+  options: SearchOptions,
+  supabase: ReturnType<typeof createClient>
+): Promise<DetailedSearchResult> {
   const {
     personaSlug,
     limit = 12,
     vectorLimit = 20,
     bm25Limit = 20,
+    rrfK,
     tagBoostMultiplier = 1.075,
     citationBoostMultiplier = 1.15,
     maxChunksPerDoc = 3,
     conversationId,
+    filters,
   } = options;
 
   console.log(`\n=== RAG Search for: "${query}" (persona: ${personaSlug}) ===`);
+  if (filters) {
+    console.log(`Filters: ${JSON.stringify(filters)}`);
+  }
 
   try {
     // Load persona config for vector threshold if not provided
@@ -62,12 +141,55 @@ export async function performSearch(
       await getVectorThreshold(personaSlug, supabase);
     const bm25MinScore = options.bm25MinScore ?? 0.1;
 
+    // Resolve reranker settings: request overrides take precedence over persona config
+    const { search: searchConfig, topics, models } = await getPersonaRetrievalConfig(personaSlug, supabase);
+    const bm25Topics = searchConfig.alias_expansion === false ? undefined : topics;
+    const aliasExpansion = bm25Topics ? expandQueryWithAliases(query, bm25Topics) : undefined;
+    const reranker: RerankerConfig = {
+      ...searchConfig.reranker,
+      ...options.reranker,
+      enabled: options.rerank ?? searchConfig.reranker?.enabled ?? false,
+    };
+    const expansionConfig: QueryExpansionConfig = {
+      ...searchConfig.query_expansion,
+      ...options.expansion,
+    };
+    const expansionMode = expansionConfig.mode ?? 'off';
+    const mmrLambda = options.mmrLambda ?? searchConfig.diversification?.mmr_lambda;
+    const maxChunksPerFamily = options.maxChunksPerFamily ?? searchConfig.diversification?.max_chunks_per_family;
+
+    // Step 0: Serve repeated (or near-identical) queries from the query cache
+    const cacheConfig = resolveQueryCacheConfig(searchConfig.query_cache, options.cache);
+    const cacheScope = {
+      namespace: 'search' as const,
+      personaSlug,
+      params: { ...options, personaSlug: undefined, cache: undefined, vectorThreshold },
+    };
+    const queryEmbedding = cacheConfig.enabled && cacheConfig.semantic_threshold
+      ? await getCachedEmbedding(query, async () => (await createEmbeddingGenerator().generateSingle(query)).embedding)
+      : undefined;
+    const cached = await getCachedResult<DetailedSearchResult>(query, cacheScope, cacheConfig, queryEmbedding);
+    if (cached) {
+      console.log(`✓ Query cache hit (${cached.match}${cached.similarity ? `, similarity ${cached.similarity.toFixed(3)}` : ''}): ${cached.value.results.length} results`);
+      return {
+        results: cached.value.results,
+        debug: { ...cached.value.debug, cache: { hit: true, match: cached.match, similarity: cached.similarity } },
+      };
+    }
+
+    // Query expansion runs alongside the original searches (it only needs the query text)
+    const expansionPromise = expansionMode !== 'off'
+      ? expandQuery(query, expansionConfig, resolvePersonaModels(models).reformulation)
+      : null;
+
     // Step 1: Perform vector search
     console.log('\n[1/3] Vector search...');
     const vectorResults = await vectorSearch(query, {
       personaSlug,
       limit: vectorLimit,
       threshold: vectorThreshold,
+      filters,
+      cache: cacheConfig,
     }, supabase);
 
     // Step 2: Perform BM25 search
@@ -76,10 +198,37 @@ export async function performSearch(
       personaSlug,
       limit: bm25Limit,
       minScore: bm25MinScore,
+      filters,
+      topics: bm25Topics,
     }, supabase);
 
+    // Step 2b: Search each expanded query variant (multi-query / HyDE) within the call budget
+    let expansionResults: Awaited<ReturnType<typeof searchExpandedQueries>> = [];
+    let expansionDebug: SearchDebugInfo['expansion'];
+    if (expansionPromise) {
+      const expansion = await expansionPromise;
+      const plan = planExpansionSearches(expansion, expansionConfig.max_search_calls);
+      console.log(`[2b/3] Expanded search (${expansionMode}): ${plan.length} variants, ${countPlannedCalls(plan)} extra calls`);
+      expansionResults = await searchExpandedQueries(plan, {
+        personaSlug,
+        vectorLimit,
+        bm25Limit,
+        vectorThreshold,
+        bm25MinScore,
+        filters,
+        topics: bm25Topics,
+        cache: cacheConfig,
+      }, supabase);
+      expansionDebug = {
+        mode: expansionMode,
+        paraphrases: expansion.paraphrases,
+        hypotheticalAnswer: expansion.hypotheticalAnswer,
+        searchCalls: 2 + countPlannedCalls(plan),
+      };
+    }
+
     // Step 3: Fuse results with RRF, citation boosting, and tag boosting
-    console.log('[3/3] Hybrid fusion (RRF + citation boost + tag boost)...');
+    console.log(`[3/3] Hybrid fusion (RRF + citation boost + tag boost${reranker.enabled ? ' + rerank' : ''})...`);
     const fusedResults = await hybridSearch(
       vectorResults,
       bm25Results,
@@ -87,20 +236,61 @@ export async function performSearch(
       personaSlug,
       supabase,
       {
+        k: rrfK,
         tagBoostMultiplier,
         citationBoostMultiplier,
         maxChunksPerDoc,
         conversationId,
+        reranker,
+        expansionResults,
+        mmrLambda,
+        mmrPoolSize: searchConfig.diversification?.mmr_pool_size,
+        maxChunksPerFamily,
       }
     );
 
     // Return top-N results
-    const finalResults = fusedResults.slice(0, limit);
+    let finalResults: SearchResult[] = fusedResults.slice(0, limit);
+
+    // Step 4: Expand hits with neighbouring chunks or their parent section (if enabled)
+    const contextExpansion: ContextExpansionConfig = {
+      ...searchConfig.context_expansion,
+      ...options.contextExpansion,
+    };
+    if (contextExpansion.mode && contextExpansion.mode !== 'none') {
+      try {
+        finalResults = await expandSearchContext(finalResults, contextExpansion, supabase);
+      } catch (expansionError) {
+        console.warn('Context expansion failed, returning unexpanded chunks:', expansionError);
+      }
+    }
 
     console.log(`\n✓ Search complete: ${finalResults.length} results returned`);
     console.log('='.repeat(60) + '\n');
 
-    return finalResults;
+    const detailed: DetailedSearchResult = {
+      results: finalResults,
+      debug: {
+        filters,
+        reranker: { enabled: reranker.enabled ?? false, method: reranker.enabled ? reranker.method ?? 'llm' : undefined },
+        aliasExpansion: aliasExpansion && aliasExpansion.topics.length > 0
+          ? { topics: aliasExpansion.topics, terms: aliasExpansion.terms }
+          : undefined,
+        expansion: expansionDebug,
+        contextExpansion: contextExpansion.mode && contextExpansion.mode !== 'none'
+          ? { mode: contextExpansion.mode, tokens: finalResults.reduce((sum, r) => sum + (r.tokenCount ?? 0), 0) }
+          : undefined,
+        diversification: mmrLambda !== undefined || maxChunksPerFamily !== undefined
+          ? { mmrLambda, maxChunksPerFamily }
+          : undefined,
+      },
+    };
+
+    await setCachedResult(query, cacheScope, detailed, cacheConfig, queryEmbedding);
+    return {
+      ...detailed,
+      debug: { ...detailed.debug, cache: cacheConfig.enabled ? { hit: false } : undefined },
+    };
   } catch (error) {
     console.error('Search failed:', error);
     throw error;
@@ -109,6 +299,16 @@ export async function performSearch(
 
 // Re-export types and utilities
 export type { FusedSearchResult } from './fusionSearch';
+export type { RerankerConfig } from './reranker';
+export type { SearchFilters } from './filters';
 export { vectorSearch } from './vectorSearch';
 export { bm25Search } from './bm25Search';
-export { hybridSearch } from './fusionSearch';
\ No newline at end of file
+export { hybridSearch } from './fusionSearch';
+export { applyRerank } from './reranker';
+export { getPersonaRetrievalConfig } from './searchConfig';
+export { extractFiltersFromQuery, parseSearchFilters, hasFilters } from './filters';
+export type { QueryExpansionConfig, QueryExpansionMode } from '../queryReformulation';
+export type { ContextExpansionConfig, ContextExpansionMode } from './contextExpansion';
+export type { DiversificationConfig } from './diversification';
+export type { QueryCacheConfig } from './queryCache';
+export { invalidatePersonaCache } from './queryCache';
\ No newline at end of file
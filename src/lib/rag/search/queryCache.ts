@@ -0,0 +1,322 @@
+/**
+ * Query cache for RAG searches
+ *
+ * Caches query embeddings and search results so repeated questions (across
+ * conversations, Slack and MCP) skip the embedding call and the search RPCs.
+ * - Results are keyed on the normalized query, persona and search options
+ * - Near-duplicate queries can match by embedding similarity (semantic_threshold)
+ * - Entries live in Redis when it is connected, otherwise in process memory
+ *
+ * Invalidation: every result key embeds a per-persona generation counter.
+ * Ingesting, re-ingesting or deleting a persona's documents bumps the counter,
+ * which orphans all cached results for that persona (they expire via TTL).
+ * When Redis is configured but the counter can't be read, results bypass the cache.
+ */
+
+import { createHash } from 'crypto';
+import type Redis from 'ioredis';
+import { getRedisClient, isRedisConnected } from '../../queue/redis';
+import { cosineSimilarity } from './diversification';
+
+export interface QueryCacheConfig {
+  enabled?: boolean; // Default: true
+  ttl_seconds?: number; // Result lifetime (default: 3600)
+  semantic_threshold?: number; // Cosine similarity for near-duplicate matches, e.g. 0.97 (default: exact only)
+}
+
+export interface QueryCacheScope {
+  namespace: 'search' | 'vector';
+  personaSlug: string;
+  params: unknown; // Everything besides the query that affects the results
+}
+
+export interface QueryCacheHit<T> {
+  value: T;
+  match: 'exact' | 'semantic';
+  similarity?: number;
+}
+
+const KEY_PREFIX = 'rag:qcache';
+const DEFAULT_TTL_SECONDS = 3600;
+const EMBEDDING_TTL_SECONDS = 7 * 24 * 3600;
+const REDIS_TIMEOUT_MS = 200;
+const REDIS_INVALIDATION_TIMEOUT_MS = 2000;
+const MAX_MEMORY_ENTRIES = 500;
+const MAX_SEMANTIC_ENTRIES_PER_SCOPE = 50;
+const MAX_SEMANTIC_SCOPES = 100;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+interface SemanticEntry {
+  key: string;
+  embedding: number[];
+  expiresAt: number;
+}
+
+const memoryStore = new Map<string, MemoryEntry>();
+const memoryGenerations = new Map<string, number>();
+// Semantic index is per process; the entries it points to may live in Redis
+const semanticIndex = new Map<string, SemanticEntry[]>();
+
+/**
+ * Normalize a query for cache keys: case, unicode form, whitespace and trailing punctuation
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+}
+
+/**
+ * Serialize with sorted object keys so option order doesn't change the key
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Run a Redis command if a connection is ready, bounded by a short timeout
+ * Returns undefined when Redis is unavailable so callers fall back to memory.
+ * With `waitForConnection`, a configured but not yet connected client is given
+ * the (longer) timeout to connect - used for invalidation, which must reach Redis.
+ */
+async function withRedis<T>(
+  command: (redis: Redis) => Promise<T>,
+  { waitForConnection = false, timeoutMs = REDIS_TIMEOUT_MS } = {}
+): Promise<T | undefined> {
+  if (!isRedisConnected()) {
+    if (!process.env.REDIS_URL) return undefined;
+    // Start connecting for later calls; lookups use the memory fallback meanwhile
+    getRedisClient();
+    if (!waitForConnection) return undefined;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      command(getRedisClient()),
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), timeoutMs);
+      }),
+    ]);
+  } catch (error) {
+    console.warn('Query cache: Redis command failed, using memory fallback:', error);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function memoryGet(key: string): string | null {
+  const entry = memoryStore.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    memoryStore.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+function memorySet(key: string, value: string, ttlSeconds: number): void {
+  memoryStore.delete(key);
+  memoryStore.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  // Evict oldest entries (Map keeps insertion order)
+  while (memoryStore.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memoryStore.keys().next().value;
+    if (oldest === undefined) break;
+    memoryStore.delete(oldest);
+  }
+}
+
+async function storeGet(key: string): Promise<string | null> {
+  const cached = await withRedis((redis) => redis.get(key));
+  return cached !== undefined ? cached : memoryGet(key);
+}
+
+async function storeSet(key: string, value: string, ttlSeconds: number): Promise<void> {
+  const stored = await withRedis((redis) => redis.set(key, value, 'EX', ttlSeconds));
+  if (stored === undefined) {
+    memorySet(key, value, ttlSeconds);
+  }
+}
+
+/**
+ * Current cache generation for a persona (bumped on every invalidation)
+ * With Redis configured, a failed or slow read returns undefined: the local
+ * generation may predate an invalidation from another process, so the caller
+ * must bypass the cache rather than risk serving results from before it.
+ */
+async function getGeneration(personaSlug: string): Promise<number | undefined> {
+  const generation = await withRedis((redis) => redis.get(`${KEY_PREFIX}:gen:${personaSlug}`));
+  if (generation !== undefined) {
+    return Number(generation ?? 0);
+  }
+  return process.env.REDIS_URL ? undefined : memoryGenerations.get(personaSlug) ?? 0;
+}
+
+async function resolveKeys(query: string, scope: QueryCacheScope): Promise<{ key: string; scopeKey: string } | null> {
+  const generation = await getGeneration(scope.personaSlug);
+  if (generation === undefined) return null;
+  const scopeKey = `${KEY_PREFIX}:${scope.namespace}:${scope.personaSlug}:${generation}:${hash(stableStringify(scope.params))}`;
+  return { key: `${scopeKey}:${hash(normalizeQuery(query))}`, scopeKey };
+}
+
+/**
+ * Merge persona config with a per-request override (false disables caching)
+ */
+export function resolveQueryCacheConfig(
+  config: QueryCacheConfig | undefined,
+  override?: boolean
+): QueryCacheConfig {
+  return { ...config, enabled: override ?? config?.enabled ?? true };
+}
+
+/**
+ * Look up cached results for a query
+ * Exact (normalized) matches first; then, if a threshold is configured and the
+ * query embedding is known, the most similar cached query in the same scope.
+ */
+export async function getCachedResult<T>(
+  query: string,
+  scope: QueryCacheScope,
+  config: QueryCacheConfig,
+  embedding?: number[]
+): Promise<QueryCacheHit<T> | null> {
+  if (config.enabled === false) return null;
+
+  try {
+    const keys = await resolveKeys(query, scope);
+    if (!keys) return null;
+    const { key, scopeKey } = keys;
+    const exact = await storeGet(key);
+    if (exact !== null) {
+      return { value: JSON.parse(exact) as T, match: 'exact' };
+    }
+
+    if (!config.semantic_threshold || !embedding) return null;
+
+    const now = Date.now();
+    const candidates = (semanticIndex.get(scopeKey) ?? []).filter(e => e.expiresAt > now);
+    let best: { entry: SemanticEntry; similarity: number } | null = null;
+    for (const entry of candidates) {
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= config.semantic_threshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+    if (!best) return null;
+
+    const semantic = await storeGet(best.entry.key);
+    return semantic !== null
+      ? { value: JSON.parse(semantic) as T, match: 'semantic', similarity: best.similarity }
+      : null;
+  } catch (error) {
+    console.warn('Query cache lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store results for a query (and index its embedding for near-duplicate matches)
+ */
+export async function setCachedResult<T>(
+  query: string,
+  scope: QueryCacheScope,
+  value: T,
+  config: QueryCacheConfig,
+  embedding?: number[]
+): Promise<void> {
+  if (config.enabled === false) return;
+
+  try {
+    const ttlSeconds = config.ttl_seconds ?? DEFAULT_TTL_SECONDS;
+    const keys = await resolveKeys(query, scope);
+    if (!keys) return;
+    const { key, scopeKey } = keys;
+    await storeSet(key, JSON.stringify(value), ttlSeconds);
+
+    if (config.semantic_threshold && embedding) {
+      const now = Date.now();
+      const entries = (semanticIndex.get(scopeKey) ?? []).filter(e => e.expiresAt > now && e.key !== key);
+      entries.push({ key, embedding, expiresAt: now + ttlSeconds * 1000 });
+      semanticIndex.delete(scopeKey);
+      semanticIndex.set(scopeKey, entries.slice(-MAX_SEMANTIC_ENTRIES_PER_SCOPE));
+      while (semanticIndex.size > MAX_SEMANTIC_SCOPES) {
+        const oldest = semanticIndex.keys().next().value;
+        if (oldest === undefined) break;
+        semanticIndex.delete(oldest);
+      }
+    }
+  } catch (error) {
+    console.warn('Query cache write failed:', error);
+  }
+}
+
+/**
+ * Get a query embedding, generating and caching it on a miss
+ * Embeddings don't depend on documents, so they are shared across personas.
+ */
+export async function getCachedEmbedding(
+  query: string,
+  generate: () => Promise<number[]>
+): Promise<number[]> {
+  const provider = process.env.EMBEDDING_PROVIDER === 'fake' ? 'fake' : 'openai';
+  const key = `${KEY_PREFIX}:embedding:${provider}:${hash(normalizeQuery(query))}`;
+
+  try {
+    const cached = await storeGet(key);
+    if (cached !== null) {
+      return JSON.parse(cached) as number[];
+    }
+  } catch (error) {
+    console.warn('Query cache embedding lookup failed:', error);
+  }
+
+  const embedding = await generate();
+  try {
+    await storeSet(key, JSON.stringify(embedding), EMBEDDING_TTL_SECONDS);
+  } catch (error) {
+    console.warn('Query cache embedding write failed:', error);
+  }
+  return embedding;
+}
+
+/**
+ * Invalidate cached results for personas whose documents changed
+ * Never throws: a failed invalidation must not fail ingestion or deletion.
+ */
+export async function invalidatePersonaCache(personaSlugs: string | string[] | null | undefined): Promise<void> {
+  const slugs = [...new Set((Array.isArray(personaSlugs) ? personaSlugs : [personaSlugs]).filter((s): s is string => !!s))];
+
+  for (const slug of slugs) {
+    try {
+      memoryGenerations.set(slug, (memoryGenerations.get(slug) ?? 0) + 1);
+      await withRedis((redis) => redis.incr(`${KEY_PREFIX}:gen:${slug}`), {
+        waitForConnection: true,
+        timeoutMs: REDIS_INVALIDATION_TIMEOUT_MS,
+      });
+      console.log(`🧹 Query cache invalidated for persona: ${slug}`);
+    } catch (error) {
+      console.warn(`Query cache invalidation failed for persona ${slug}:`, error);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Multi-query and HyDE retrieval
+ * Runs vector and BM25 search for each expanded query variant under a call budget.
+ * The resulting ranked lists are fused with the original query's lists via RRF.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { vectorSearch } from './vectorSearch';
+import { bm25Search } from './bm25Search';
+import type { ExpansionResultList } from './fusionSearch';
+import type { SearchFilters } from './filters';
+import type { PersonaTopic } from './searchConfig';
+import type { QueryCacheConfig } from './queryCache';
+import type { QueryExpansionResult } from '../queryReformulation';
+
+export interface ExpansionSearchPlan {
+  query: string;
+  kind: 'paraphrase' | 'hyde';
+  vector: boolean;
+  bm25: boolean;
+}
+
+export interface ExpansionSearchParams {
+  personaSlug: string;
+  vectorLimit: number;
+  bm25Limit: number;
+  vectorThreshold: number;
+  bm25MinScore: number;
+  filters?: SearchFilters;
+  topics?: PersonaTopic[]; // For BM25 alias expansion
+  cache?: QueryCacheConfig; // Vector result cache settings
+}
+
+const DEFAULT_MAX_SEARCH_CALLS = 8;
+const ORIGINAL_QUERY_CALLS = 2; // Vector + BM25 for the original query
+
+/**
+ * Plan which searches to run for each variant without exceeding the call budget
+ * The HyDE passage goes first and is vector-only (a long synthetic passage is a poor
+ * lexical query); paraphrases get vector + BM25 while budget remains.
+ */
+export function planExpansionSearches(
+  expansion: QueryExpansionResult,
+  maxSearchCalls: number = DEFAULT_MAX_SEARCH_CALLS
+): ExpansionSearchPlan[] {
+  let budget = maxSearchCalls - ORIGINAL_QUERY_CALLS;
+  const plan: ExpansionSearchPlan[] = [];
+
+  if (expansion.hypotheticalAnswer && budget >= 1) {
+    plan.push({ query: expansion.hypotheticalAnswer, kind: 'hyde', vector: true, bm25: false });
+    budget -= 1;
+  }
+
+  for (const paraphrase of expansion.paraphrases) {
+    if (budget <= 0) break;
+    const bm25 = budget >= 2;
+    plan.push({ query: paraphrase, kind: 'paraphrase', vector: true, bm25 });
+    budget -= bm25 ? 2 : 1;
+  }
+
+  return plan;
+}
+
+/**
+ * Execute planned variant searches in parallel
+ * A failing variant is dropped rather than failing the whole search.
+ */
+export async function searchExpandedQueries(
+  plan: ExpansionSearchPlan[],
+  params: ExpansionSearchParams,
+  supabase: ReturnType<typeof createClient>
+): Promise<ExpansionResultList[]> {
+  const results = await Promise.all(plan.map(async (variant) => {
+    try {
+      const [vectorResults, bm25Results] = await Promise.all([
+        variant.vector
+          ? vectorSearch(variant.query, {
+              personaSlug: params.personaSlug,
+              limit: params.vectorLimit,
+              threshold: params.vectorThreshold,
+              filters: params.filters,
+              cache: params.cache,
+            }, supabase)
+          : Promise.resolve([]),
+        variant.bm25
+          ? bm25Search(variant.query, {
+              personaSlug: params.personaSlug,
+              limit: params.bm25Limit,
+              minScore: params.bm25MinScore,
+              filters: params.filters,
+              topics: params.topics,
+            }, supabase)
+          : Promise.resolve([]),
+      ]);
+
+      return { query: variant.query, vectorResults, bm25Results };
+    } catch (error) {
+      console.warn(`Expanded ${variant.kind} search failed, skipping variant:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((r): r is ExpansionResultList => r !== null);
+}
+
+/**
+ * Count the vector + BM25 calls a plan will make
+ */
+export function countPlannedCalls(plan: ExpansionSearchPlan[]): number {
+  return plan.reduce((sum, p) => sum + (p.vector ? 1 : 0) + (p.bm25 ? 1 : 0), 0);
+}
@@ -0,0 +1,266 @@
+/**
+ * Reranking stage for fused search results
+ * Rescores the top RRF candidates directly against the query, either with an
+ * LLM (pointwise or listwise) or with a local lexical heuristic fallback
+ */
+
+import { generateText } from 'ai';
+import { getLanguageModel, isProviderConfigured, parseModelRef, type ModelSpec } from '../../llm/models';
+import type { FusedSearchResult } from './fusionSearch';
+
+export type RerankerMethod = 'llm' | 'heuristic';
+export type RerankerMode = 'pointwise' | 'listwise';
+
+/**
+ * Reranker settings, stored per persona under `search.reranker`
+ */
+export interface RerankerConfig {
+  enabled?: boolean;
+  method?: RerankerMethod; // Default: 'llm' (falls back to 'heuristic' on failure)
+  mode?: RerankerMode; // LLM scoring mode (default: 'listwise')
+  model?: string; // Model reference, e.g. "gpt-4o-mini" or "local:qwen2.5" (default: the default fast model)
+  top_n?: number; // Number of fused candidates to rescore (default: 20)
+  weight?: number; // Blend weight of rerank score vs fused score, 0-1 (default: 0.7)
+}
+
+export interface RerankScore {
+  score: number; // Relevance to the query (0-1, higher is better)
+  reason?: string;
+}
+
+const DEFAULT_TOP_N = 20;
+const DEFAULT_WEIGHT = 0.7;
+const MAX_PASSAGE_CHARS = 1200;
+const POINTWISE_CONCURRENCY = 5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'at', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those',
+  'what', 'which', 'who', 'how', 'why', 'when', 'where', 'does', 'do', 'did', 'can', 'could',
+  'about', 'vs', 'versus', 'me', 'tell', 'explain', 'describe', 'our', 'my', 'your', 'their',
+]);
+
+/**
+ * Tokenize text into lowercase terms, dropping stopwords and 1-char tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Local heuristic scorer: query term coverage, phrase matches, and section/title hits
+ * Cheap enough to run on every query and used whenever the LLM scorer is unavailable
+ */
+export function heuristicRerankScore(query: string, result: FusedSearchResult): RerankScore {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    return { score: result.vectorScore ?? 0, reason: 'no query terms' };
+  }
+
+  const textTerms = new Set(tokenize(result.text));
+  const matchedTerms = queryTerms.filter(t => textTerms.has(t));
+  const coverage = matchedTerms.length / queryTerms.length;
+
+  // Adjacent query term pairs appearing verbatim in the chunk
+  const textLower = result.text.toLowerCase();
+  const bigrams: string[] = [];
+  for (let i = 0; i < queryTerms.length - 1; i++) {
+    bigrams.push(`${queryTerms[i]} ${queryTerms[i + 1]}`);
+  }
+  const matchedPhrases = bigrams.filter(b => textLower.includes(b));
+  const phraseCoverage = bigrams.length > 0 ? matchedPhrases.length / bigrams.length : 0;
+
+  // Query terms in the section heading or document title
+  const headingTerms = new Set(tokenize(`${result.sectionPath} ${result.docTitle || ''}`));
+  const headingHit = queryTerms.some(t => headingTerms.has(t)) ? 1 : 0;
+
+  const score =
+    0.5 * coverage +
+    0.2 * phraseCoverage +
+    0.15 * headingHit +
+    0.15 * (result.vectorScore ?? 0);
+
+  return {
+    score: Math.min(1, score),
+    reason: `matched ${matchedTerms.length}/${queryTerms.length} terms, ${matchedPhrases.length} phrases${headingHit ? ', heading match' : ''}`,
+  };
+}
+
+/**
+ * Extract the first JSON value from an LLM response (tolerates code fences and prose)
+ */
+function parseJsonResponse(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) {
+    throw new Error('No JSON found in reranker response');
+  }
+  const closing = cleaned[start] === '[' ? ']' : '}';
+  const end = cleaned.lastIndexOf(closing);
+  return JSON.parse(cleaned.slice(start, end + 1));
+}
+
+function truncatePassage(text: string): string {
+  return text.length > MAX_PASSAGE_CHARS ? `${text.slice(0, MAX_PASSAGE_CHARS)}...` : text;
+}
+
+function clampScore(value: unknown): number {
+  const score = Number(value);
+  if (!Number.isFinite(score)) return 0;
+  return Math.max(0, Math.min(10, score)) / 10;
+}
+
+/**
+ * Listwise LLM scoring: a single call grades every candidate (0-10)
+ */
+async function scoreListwise(
+  query: string,
+  candidates: FusedSearchResult[],
+  model: ModelSpec
+): Promise<RerankScore[]> {
+  const passages = candidates
+    .map((c, i) => `[${i}] ${c.docTitle || c.docId} — ${c.sectionPath}\n${truncatePassage(c.text)}`)
+    .join('\n\n');
+
+  const prompt = `You are a search relevance judge. Rate how well each passage answers the query.
+
+# Query
+${query}
+
+# Passages
+${passages}
+
+# Task
+Score every passage from 0 (irrelevant) to 10 (directly answers the query). Prefer passages that contain the specific answer over passages that merely mention the same terms.
+Output ONLY a JSON array with one entry per passage: [{"index": 0, "score": 7, "reason": "short justification"}]`;
+
+  const result = await generateText({
+    model: getLanguageModel(model),
+    prompt,
+    temperature: 0,
+    maxOutputTokens: 60 * candidates.length + 100,
+  });
+
+  const parsed = parseJsonResponse(result.text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Listwise reranker response is not an array');
+  }
+
+  const scores: RerankScore[] = candidates.map(() => ({ score: 0, reason: 'not scored' }));
+  for (const entry of parsed) {
+    const index = Number(entry?.index);
+    if (Number.isInteger(index) && index >= 0 && index < candidates.length) {
+      scores[index] = { score: clampScore(entry.score), reason: entry.reason };
+    }
+  }
+  return scores;
+}
+
+/**
+ * Pointwise LLM scoring: one call per candidate (more robust, more expensive)
+ */
+async function scorePointwise(
+  query: string,
+  candidates: FusedSearchResult[],
+  model: ModelSpec
+): Promise<RerankScore[]> {
+  const scoreOne = async (candidate: FusedSearchResult): Promise<RerankScore> => {
+    const prompt = `You are a search relevance judge. Rate how well the passage answers the query.
+
+# Query
+${query}
+
+# Passage (${candidate.docTitle || candidate.docId} — ${candidate.sectionPath})
+${truncatePassage(candidate.text)}
+
+# Task
+Score from 0 (irrelevant) to 10 (directly answers the query).
+Output ONLY JSON: {"score": 7, "reason": "short justification"}`;
+
+    const result = await generateText({
+      model: getLanguageModel(model),
+      prompt,
+      temperature: 0,
+      maxOutputTokens: 80,
+    });
+
+    const parsed = parseJsonResponse(result.text) as { score?: unknown; reason?: string };
+    return { score: clampScore(parsed.score), reason: parsed.reason };
+  };
+
+  const scores: RerankScore[] = [];
+  for (let i = 0; i < candidates.length; i += POINTWISE_CONCURRENCY) {
+    const batch = candidates.slice(i, i + POINTWISE_CONCURRENCY);
+    scores.push(...await Promise.all(batch.map(scoreOne)));
+  }
+  return scores;
+}
+
+/**
+ * Rerank fused results in place
+ * Rescores the top-N candidates and blends the rerank score with the normalized
+ * fused score: score = (1 - weight) * fused/maxFused + weight * rerankScore.
+ * The pre-rerank score is kept in `fusionScore` so callers can explain the ordering.
+ */
+export async function applyRerank(
+  fusedResults: Map<string, FusedSearchResult>,
+  query: string,
+  config: RerankerConfig = {}
+): Promise<void> {
+  const {
+    method = 'llm',
+    mode = 'listwise',
+    top_n: topN = DEFAULT_TOP_N,
+    weight = DEFAULT_WEIGHT,
+  } = config;
+
+  const sorted = Array.from(fusedResults.values()).sort((a, b) => b.score - a.score);
+  if (sorted.length === 0) return;
+
+  const candidates = sorted.slice(0, topN);
+  const startTime = Date.now();
+
+  let scores: RerankScore[] | null = null;
+  let methodUsed: RerankerMethod = 'heuristic';
+  const model = parseModelRef(config.model, 'fast');
+
+  if (method === 'llm' && isProviderConfigured(model.provider)) {
+    try {
+      scores = mode === 'pointwise'
+        ? await scorePointwise(query, candidates, model)
+        : await scoreListwise(query, candidates, model);
+      methodUsed = 'llm';
+    } catch (error) {
+      console.warn('LLM reranker failed, falling back to heuristic scoring:', error);
+    }
+  }
+
+  if (!scores) {
+    scores = candidates.map(c => heuristicRerankScore(query, c));
+  }
+
+  // Blend rerank scores with normalized fused scores
+  const maxFused = sorted[0].score || 1;
+  const candidateIds = new Set(candidates.map(c => c.chunkId));
+
+  candidates.forEach((candidate, index) => {
+    candidate.fusionScore = candidate.score;
+    candidate.rerankScore = scores![index].score;
+    candidate.rerankReason = scores![index].reason;
+    candidate.score = (1 - weight) * (candidate.score / maxFused) + weight * scores![index].score;
+  });
+
+  // Candidates outside the rerank window keep their relative order below the reranked set
+  sorted.forEach((result) => {
+    if (!candidateIds.has(result.chunkId)) {
+      result.fusionScore = result.score;
+      result.score = (1 - weight) * (result.score / maxFused);
+    }
+  });
+
+  const modeLabel = methodUsed === 'llm' ? `llm/${mode}` : 'heuristic';
+  console.log(`🎯 Rerank (${modeLabel}): Rescored ${candidates.length} chunks in ${Date.now() - startTime}ms (weight: ${weight})`);
+}
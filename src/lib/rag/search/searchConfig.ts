@@ -0,0 +1,75 @@
+/**
+ * Persona retrieval configuration
+ * Loads the `search`, `topics` and `models` blocks of persona.config.json (personas.config_json)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RerankerConfig } from './reranker';
+import type { QueryExpansionConfig } from '../queryReformulation';
+import type { ContextExpansionConfig } from './contextExpansion';
+import type { DiversificationConfig } from './diversification';
+import type { QueryCacheConfig } from './queryCache';
+import type { PersonaModelConfig } from '../../llm/models';
+
+export interface PersonaSearchConfig {
+  vector_threshold?: number;
+  reranker?: RerankerConfig;
+  query_expansion?: QueryExpansionConfig;
+  alias_expansion?: boolean; // Expand BM25 queries with sibling topic aliases (default: true)
+  context_expansion?: ContextExpansionConfig;
+  diversification?: DiversificationConfig;
+  context_token_budget?: number; // Chat context token budget (default: per chat model)
+  query_cache?: QueryCacheConfig;
+  turn_classifier?: 'heuristic' | 'llm'; // How chat turns get a turn type and response mode (default: heuristic)
+}
+
+export interface PersonaTopic {
+  id: string;
+  aliases: string[];
+}
+
+export interface PersonaRetrievalConfig {
+  search: PersonaSearchConfig;
+  topics: PersonaTopic[];
+  models: PersonaModelConfig;
+}
+
+/**
+ * Load the retrieval-related configuration for a persona
+ * Returns an empty config if the persona or blocks are missing
+ */
+export async function getPersonaRetrievalConfig(
+  personaSlug: string,
+  supabase: SupabaseClient
+): Promise<PersonaRetrievalConfig> {
+  try {
+    const { data, error } = await supabase
+      .from('personas')
+      .select('config_json')
+      .eq('slug', personaSlug)
+      .single();
+
+    if (error || !data) {
+      console.warn(`Could not load persona search config for ${personaSlug}, using defaults`);
+      return { search: {}, topics: [], models: {} };
+    }
+
+    const rawConfig = (data as { config_json: unknown }).config_json;
+    const config = typeof rawConfig === 'string'
+      ? JSON.parse(rawConfig)
+      : rawConfig;
+
+    const topics: PersonaTopic[] = Array.isArray(config?.topics)
+      ? config.topics.filter((t: PersonaTopic) => t && Array.isArray(t.aliases))
+      : [];
+
+    return {
+      search: (config?.search as PersonaSearchConfig) ?? {},
+      topics,
+      models: (config?.models as PersonaModelConfig) ?? {},
+    };
+  } catch (error) {
+    console.warn('Error loading persona search config:', error);
+    return { search: {}, topics: [], models: {} };
+  }
+}
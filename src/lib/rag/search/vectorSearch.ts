@@ -5,6 +5,8 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { createEmbeddingGenerator } from '../embeddings/embeddingGenerator';
+import { toRpcFilter, type SearchFilters } from './filters';
+import { getCachedEmbedding, getCachedResult, setCachedResult, type QueryCacheConfig } from './queryCache';
 
 export interface VectorSearchResult {
   chunkId: string;
@@ -21,6 +23,8 @@ export interface VectorSearchOptions {
   personaSlug: string;
   limit?: number; // Default: 20
   threshold?: number; // Minimum similarity score (0-1), default: 0.35
+  filters?: SearchFilters; // Metadata filters (doc type, date range, tags, identifiers)
+  cache?: QueryCacheConfig; // Result cache settings (default: exact-match caching enabled)
 }
 
 /**
@@ -31,12 +35,22 @@ export async function vectorSearch(
   options: VectorSearchOptions,
   supabase: ReturnType<typeof createClient>
 ): Promise<VectorSearchResult[]> {
-  const { personaSlug, limit = 20, threshold = 0.35 } = options;
+  const { personaSlug, limit = 20, threshold = 0.35, filters, cache = {} } = options;
 
   try {
-    // Step 1: Generate query embedding
-    const embeddingGenerator = createEmbeddingGenerator();
-    const { embedding } = await embeddingGenerator.generateSingle(query);
+    // Step 1: Generate query embedding (cached across personas and conversations)
+    const embedding = await getCachedEmbedding(query, async () => {
+      const embeddingGenerator = createEmbeddingGenerator();
+      return (await embeddingGenerator.generateSingle(query)).embedding;
+    });
+
+    // Step 1b: Reuse results of an identical (or near-identical) earlier query
+    const cacheScope = { namespace: 'vector' as const, personaSlug, params: { limit, threshold, filters } };
+    const cached = await getCachedResult<VectorSearchResult[]>(query, cacheScope, cache, embedding);
+    if (cached) {
+      console.log(`Vector search: ${cached.value.length} chunks from query cache (${cached.match} match)`);
+      return cached.value;
+    }
 
     // Step 2: Convert embedding to PostgreSQL format
     const embeddingVector = `[${embedding.join(',')}]`;
@@ -44,11 +58,14 @@ export async function vectorSearch(
     // Step 3: Perform vector similarity search with pgvector
     // Note: pgvector uses <=> for cosine distance (0 = identical, 2 = opposite)
     // We convert distance to similarity: similarity = 1 - (distance / 2)
+    // Filter argument is only sent when set, so unfiltered calls keep the original RPC signature
+    const rpcFilter = toRpcFilter(filters);
     const { data, error } = await supabase.rpc('vector_search_chunks', {
       query_embedding: embeddingVector,
       persona_slug: personaSlug,
       match_threshold: threshold,
       match_count: limit,
+      ...(rpcFilter && { filter: rpcFilter }),
     });
 
     if (error) {
@@ -58,6 +75,7 @@ export async function vectorSearch(
 
     if (!data || data.length === 0) {
       console.log(`Vector search: No results found for query "${query}" (persona: ${personaSlug})`);
+      await setCachedResult(query, cacheScope, [], cache, embedding);
       return [];
     }
 
@@ -73,7 +91,8 @@ export async function vectorSearch(
       sourceUrl: row.source_url,
     }));
 
-    console.log(`Vector search: Found ${results.length} chunks (threshold: ${threshold})`);
+    console.log(`Vector search: Found ${results.length} chunks (threshold: ${threshold}${rpcFilter ? `, filter: ${JSON.stringify(rpcFilter)}` : ''})`);
+    await setCachedResult(query, cacheScope, results, cache, embedding);
     return results;
   } catch (error) {
     console.error('Vector search error:', error);
@@ -3,9 +3,11 @@
  * Handles storing extracted documents in database before ingestion
  */
 
-import { createClient } from '@/lib/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import matter from 'gray-matter';
 import crypto from 'crypto';
+import { detectDuplicates, fingerprintDocument, type DuplicateMatch } from './duplicateDetection';
+import { syncPatentRelations } from './patentRelations';
 
 export interface ExtractedDocument {
   markdown: string;
@@ -27,15 +29,18 @@ export interface StoredDocumentResult {
   docId?: string;
   title?: string;
   storagePath?: string;
+  duplicates?: DuplicateMatch[]; // Existing documents this one appears to duplicate (pending admin review)
   error?: string;
 }
 
 /**
  * Store an extracted document in the database (without ingestion)
  * Creates records in: docs, document_files, and storage bucket
+ * Documents matching an existing one by identifier or content are stored as
+ * usual and flagged in document_duplicates for review.
  */
 export async function storeExtractedDocument(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient,
   userId: string,
   document: ExtractedDocument
 ): Promise<StoredDocumentResult> {
@@ -67,6 +72,7 @@ export async function storeExtractedDocument(
       .update(markdown)
       .digest('hex');
     const fileSize = new Blob([markdown]).size;
+    const fingerprint = fingerprintDocument(markdown);
 
     // Upload to Supabase Storage (use first persona for path - backward compatible)
     const storagePath = `${personaSlugs[0]}/${filename}`;
@@ -109,6 +115,8 @@ export async function storeExtractedDocument(
         summary: frontmatter.summary || null,
         license: frontmatter.license || null,
         identifiers: frontmatter.identifiers || {},
+        identifier_keys: fingerprint.identifierKeys,
+        minhash: fingerprint.minhash,
         dates_structured: frontmatter.dates || {},
         actors: frontmatter.actors || [],
         raw_content: markdown,
@@ -150,6 +158,9 @@ export async function storeExtractedDocument(
       // Continue anyway - docs record is the source of truth
     }
 
+    await syncPatentRelations(supabase, docId, frontmatter);
+    const duplicates = await detectDuplicates(supabase, docId, fingerprint);
+
     console.log(
       `✅ Stored extracted document: ${docId} (personas: ${personaSlugs.join(', ')}, status: extracted)`
     );
@@ -159,6 +170,7 @@ export async function storeExtractedDocument(
       docId,
       title: frontmatter.title || docId,
       storagePath,
+      duplicates,
     };
   } catch (error) {
     console.error('Error storing extracted document:', error);
@@ -173,7 +185,7 @@ export async function storeExtractedDocument(
  * Store multiple extracted documents in batch
  */
 export async function storeBatchExtractedDocuments(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient,
   userId: string,
   documents: ExtractedDocument[]
 ): Promise<StoredDocumentResult[]> {
@@ -191,7 +203,7 @@ export async function storeBatchExtractedDocuments(
  * Update document ingestion status
  */
 export async function updateDocumentIngestionStatus(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient,
   docId: string,
   status: 'extracted' | 'ingested' | 'failed',
   error?: string
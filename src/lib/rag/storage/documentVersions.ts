@@ -0,0 +1,211 @@
+/**
+ * Document Version History
+ * Snapshots a document's raw markdown, frontmatter and persona assignments on
+ * every edit, persona change, re-ingest and rollback, and diffs versions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import matter from 'gray-matter';
+
+export type DocumentChangeType = 'initial' | 'edit' | 'personas' | 'reingest' | 'rollback';
+
+export interface DocumentSnapshot {
+  raw_content: string;
+  personas: string[];
+}
+
+export interface DocumentVersion extends DocumentSnapshot {
+  id: string;
+  doc_id: string;
+  version: number;
+  frontmatter: Record<string, any>;
+  change_type: DocumentChangeType;
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface DocumentVersionSummary {
+  version: number;
+  change_type: DocumentChangeType;
+  restored_from: number | null;
+  title: string | null;
+  personas: string[];
+  size: number; // Characters of raw content
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface RecordVersionOptions {
+  changeType: Exclude<DocumentChangeType, 'initial'>;
+  createdBy?: string | null;
+  restoredFrom?: number;
+  previous?: DocumentSnapshot; // State before the change; stored as the first version if the document has no history yet
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Larger changed regions are shown as a whole block removed and added
+const MAX_DIFF_CELLS = 4_000_000;
+
+function parseFrontmatter(rawContent: string): Record<string, any> {
+  try {
+    // Round-trip through JSON so YAML dates are stored as strings
+    return JSON.parse(JSON.stringify(matter(rawContent).data));
+  } catch {
+    return {};
+  }
+}
+
+function isSameSnapshot(a: DocumentSnapshot, b: DocumentSnapshot): boolean {
+  return (
+    a.raw_content === b.raw_content &&
+    JSON.stringify(a.personas || []) === JSON.stringify(b.personas || [])
+  );
+}
+
+/**
+ * Record a snapshot of a document after a change
+ * Skipped when identical to the latest version. Failures are logged and not
+ * thrown: history must not block the edit or ingestion that triggered it.
+ *
+ * @returns The new version number, or null if nothing was recorded
+ */
+export async function recordDocumentVersion(
+  supabase: SupabaseClient,
+  docId: string,
+  snapshot: DocumentSnapshot,
+  options: RecordVersionOptions
+): Promise<number | null> {
+  try {
+    const { data: latest, error: latestError } = await supabase
+      .from('document_versions')
+      .select('version, raw_content, personas')
+      .eq('doc_id', docId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+    if (latest && isSameSnapshot(latest, snapshot)) return null;
+
+    const rows: Array<Record<string, unknown>> = [];
+    let version = (latest?.version ?? 0) + 1;
+
+    // First recorded change: keep the state it replaced
+    if (!latest && options.previous && !isSameSnapshot(options.previous, snapshot)) {
+      rows.push({
+        doc_id: docId,
+        version: version++,
+        raw_content: options.previous.raw_content,
+        frontmatter: parseFrontmatter(options.previous.raw_content),
+        personas: options.previous.personas || [],
+        change_type: 'initial',
+      });
+    }
+
+    rows.push({
+      doc_id: docId,
+      version,
+      raw_content: snapshot.raw_content,
+      frontmatter: parseFrontmatter(snapshot.raw_content),
+      personas: snapshot.personas || [],
+      change_type: options.changeType,
+      restored_from: options.restoredFrom ?? null,
+      created_by: options.createdBy ?? null,
+    });
+
+    const { error } = await supabase.from('document_versions').insert(rows);
+    if (error) throw error;
+
+    return version;
+  } catch (error) {
+    console.error(`Failed to record version of document ${docId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Document fields derived from frontmatter, as written by the metadata editor
+ */
+export function docFieldsFromContent(rawContent: string) {
+  const { data: meta } = matter(rawContent);
+
+  return {
+    title: meta.title,
+    type: meta.type || 'other',
+    date: meta.dates?.created || meta.dates?.published || meta.date || null,
+    source_url: meta.identifiers?.source_url || meta.source_url || null,
+    tags: Array.isArray(meta.tags) ? meta.tags : [],
+    summary: meta.summary || null,
+    license: meta.license || null,
+    identifiers: meta.identifiers || {},
+    dates_structured: meta.dates || {},
+    actors: meta.actors || [],
+  };
+}
+
+/**
+ * Line diff from one text to another (LCS over the changed region)
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  // Common prefix and suffix need no alignment
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle: DiffLine[] = [];
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    middle.push(
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text }))
+    );
+  } else {
+    // lengths[i][j] = LCS length of midA[i:] and midB[j:]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        middle.push({ type: 'same', text: midA[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        middle.push({ type: 'removed', text: midA[i++] });
+      } else {
+        middle.push({ type: 'added', text: midB[j++] });
+      }
+    }
+    while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+  }
+
+  return [
+    ...a.slice(0, start).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ type: 'same' as const, text })),
+  ];
+}
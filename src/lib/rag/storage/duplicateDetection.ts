@@ -0,0 +1,282 @@
+/**
+ * Duplicate Detection
+ * Flags newly extracted documents that duplicate an existing one, either by a
+ * shared normalized identifier (patent number, DOI, arXiv ID, source URL) or
+ * by near-identical content (MinHash over word shingles of the body).
+ *
+ * Detection only records candidates in document_duplicates; an admin decides
+ * whether to merge, replace or keep both.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import matter from 'gray-matter';
+import { analyzeUrl, normalizeIdentifier } from '../extraction/urlRouter';
+
+export type DuplicateReason = 'identifier' | 'content';
+export type DuplicateStatus = 'pending' | 'kept';
+export type DuplicateAction = 'merge' | 'replace' | 'keep';
+
+export interface DocumentFingerprint {
+  identifierKeys: string[]; // e.g. "patent:us10838134", "doi:10.1145/3442188.3445922", "arxiv:2405.10314"
+  minhash: number[] | null; // null when the body is too short to compare
+}
+
+export interface DuplicateMatch {
+  duplicateOf: string; // Existing document ID
+  title: string;
+  reason: DuplicateReason;
+  similarity: number; // 1 for identifier matches, estimated Jaccard for content matches
+  matchedIdentifiers: string[];
+}
+
+// Estimated Jaccard similarity above which two bodies are treated as the same document
+export const CONTENT_SIMILARITY_THRESHOLD = 0.8;
+
+const NUM_HASHES = 64;
+const SHINGLE_SIZE = 5; // Words per shingle
+const MIN_WORDS = 50; // Shorter bodies give unreliable estimates
+const PAGE_SIZE = 1000;
+
+// Fixed seeds so signatures stay comparable across runs
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(0x9e3779b9 * (i + 1)));
+
+/**
+ * Identifier keys for a document's frontmatter
+ * Patent kind codes, arXiv versions and DOI resolver prefixes are dropped so
+ * the same work extracted from different sources yields the same key.
+ */
+export function identifierKeys(frontmatter: Record<string, any>): string[] {
+  const ids = frontmatter.identifiers || {};
+  const keys = new Set<string>();
+
+  const addAnalyzed = (value: unknown) => {
+    if (typeof value !== 'string' || !value.trim()) return;
+    const analysis = analyzeUrl(value);
+    if (analysis.type === 'patent' && analysis.identifier) {
+      // US10838134B2 and US10838134 are the same publication
+      analysis.identifier = analysis.identifier.replace(/(\d)[A-Z]\d?$/i, '$1');
+    }
+    keys.add(`${analysis.type === 'generic' ? 'url' : analysis.type}:${normalizeIdentifier(analysis)}`);
+  };
+
+  const addArxiv = (value: unknown) => {
+    if (typeof value !== 'string') return;
+    const match = value.match(/(\d{4}\.\d{4,5})(?:v\d+)?/);
+    if (match) addAnalyzed(match[1]);
+  };
+
+  addAnalyzed(ids.patent_number || frontmatter.patent_number);
+  addAnalyzed(ids.publication_number);
+  addArxiv(ids.arxiv_id || frontmatter.arxiv_id);
+
+  const doi = ids.doi || frontmatter.doi;
+  if (typeof doi === 'string' && doi.trim()) {
+    const normalized = doi.trim().toLowerCase().replace(/^(?:https?:\/\/)?(?:dx\.)?doi\.org\//, '').replace(/^doi:/, '');
+    // arXiv-issued DOIs name the same paper as the arXiv ID
+    const arxivDoi = normalized.match(/^10\.48550\/arxiv\.(.+)$/);
+    if (arxivDoi) {
+      addArxiv(arxivDoi[1]);
+    } else {
+      keys.add(`doi:${normalized}`);
+    }
+  }
+
+  const applicationNumber = ids.application_number;
+  if (typeof applicationNumber === 'string' && applicationNumber.trim()) {
+    keys.add(`application:${applicationNumber.toLowerCase().replace(/[^a-z0-9]/g, '')}`);
+  }
+
+  const sourceUrl = ids.source_url || frontmatter.source_url;
+  if (typeof sourceUrl === 'string' && /^https?:\/\//i.test(sourceUrl.trim())) {
+    addAnalyzed(sourceUrl);
+  }
+
+  return [...keys];
+}
+
+/**
+ * MinHash signature of a markdown body
+ * Markdown syntax and case are ignored; the signature estimates Jaccard
+ * similarity of the documents' 5-word shingles.
+ */
+export function computeMinHash(body: string): number[] | null {
+  const words = body
+    .toLowerCase()
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Keep link text, drop targets
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  if (words.length < MIN_WORDS) return null;
+
+  const signature = new Array<number>(NUM_HASHES).fill(0x7fffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let h = 0; h < NUM_HASHES; h++) {
+      // Non-negative so signatures fit Postgres integer[]
+      const value = fmix32(shingle ^ SEEDS[h]) >>> 1;
+      if (value < signature[h]) signature[h] = value;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two MinHash signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Identifier keys and MinHash signature for a stored markdown document
+ */
+export function fingerprintDocument(markdown: string): DocumentFingerprint {
+  const { data: frontmatter, content } = matter(markdown);
+  return {
+    identifierKeys: identifierKeys(frontmatter),
+    minhash: computeMinHash(content),
+  };
+}
+
+/**
+ * Find existing documents that duplicate the given one
+ * The document itself is excluded, so re-extracting a document under its own
+ * ID is not reported.
+ */
+export async function findDuplicates(
+  supabase: SupabaseClient,
+  docId: string,
+  fingerprint: DocumentFingerprint
+): Promise<DuplicateMatch[]> {
+  const matches = new Map<string, DuplicateMatch>();
+
+  if (fingerprint.identifierKeys.length > 0) {
+    const { data, error } = await supabase
+      .from('docs')
+      .select('id, title, identifier_keys')
+      .overlaps('identifier_keys', fingerprint.identifierKeys)
+      .neq('id', docId);
+
+    if (error) throw error;
+
+    for (const doc of data || []) {
+      matches.set(doc.id, {
+        duplicateOf: doc.id,
+        title: doc.title,
+        reason: 'identifier',
+        similarity: 1,
+        matchedIdentifiers: (doc.identifier_keys || []).filter((key: string) =>
+          fingerprint.identifierKeys.includes(key)
+        ),
+      });
+    }
+  }
+
+  if (fingerprint.minhash) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('docs')
+        .select('id, title, minhash')
+        .not('minhash', 'is', null)
+        .neq('id', docId)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const doc of data || []) {
+        if (matches.has(doc.id)) continue;
+        const similarity = estimateSimilarity(fingerprint.minhash, doc.minhash);
+        if (similarity >= CONTENT_SIMILARITY_THRESHOLD) {
+          matches.set(doc.id, {
+            duplicateOf: doc.id,
+            title: doc.title,
+            reason: 'content',
+            similarity,
+            matchedIdentifiers: [],
+          });
+        }
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return [...matches.values()];
+}
+
+/**
+ * Detect duplicates of a stored document and record them for review
+ * Pairs an admin chose to keep are not reported again when the document is
+ * re-extracted. Failures are
+ * logged and not thrown: detection must not block extraction.
+ */
+export async function detectDuplicates(
+  supabase: SupabaseClient,
+  docId: string,
+  fingerprint: DocumentFingerprint
+): Promise<DuplicateMatch[]> {
+  try {
+    const { data: kept, error: keptError } = await supabase
+      .from('document_duplicates')
+      .select('duplicate_of')
+      .eq('doc_id', docId)
+      .eq('status', 'kept');
+
+    if (keptError) throw keptError;
+
+    const keptIds = new Set((kept || []).map(row => row.duplicate_of));
+    const matches = (await findDuplicates(supabase, docId, fingerprint)).filter(
+      match => !keptIds.has(match.duplicateOf)
+    );
+    if (matches.length === 0) return [];
+
+    const { error } = await supabase.from('document_duplicates').upsert(
+      matches.map(match => ({
+        doc_id: docId,
+        duplicate_of: match.duplicateOf,
+        reason: match.reason,
+        similarity: match.similarity,
+        matched_identifiers: match.matchedIdentifiers,
+      })),
+      { onConflict: 'doc_id,duplicate_of', ignoreDuplicates: true }
+    );
+
+    if (error) throw error;
+
+    console.log(
+      `⚠️  Possible duplicate: ${docId} matches ${matches.map(m => `${m.duplicateOf} (${m.reason})`).join(', ')}`
+    );
+
+    return matches;
+  } catch (error) {
+    console.error(`Duplicate detection failed for document ${docId}:`, error);
+    return [];
+  }
+}
+
+// FNV-1a 32-bit string hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer: spreads seeded shingle hashes into independent permutations
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
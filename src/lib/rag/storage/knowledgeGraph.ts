@@ -0,0 +1,551 @@
+/**
+ * Knowledge Graph Storage
+ * Writes the entities, aliases and edges extracted from a document at
+ * ingestion, and looks entities up for chat ("who", "which products").
+ *
+ * Persona permissions: persona_entity_kind_permissions and
+ * persona_relationship_type_permissions restrict which entity kinds and
+ * relationship types a persona works with. A persona with no rows in a table
+ * is unrestricted. Ingestion writes what at least one of the document's
+ * personas allows; lookups return what the asking persona allows, evidenced
+ * by documents assigned to it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import matter from 'gray-matter';
+import {
+  extractDocumentEntities,
+  type EntityKind,
+  type ExtractedEntity,
+  type GraphNodeRef,
+  type RelationshipType,
+} from '../ingestion/entityExtraction';
+import { getPersonaRetrievalConfig } from '../search/searchConfig';
+
+export interface GraphPermissions {
+  kinds: Set<string> | null; // null = all kinds
+  relationships: Set<string> | null; // null = all relationship types
+}
+
+export interface GraphSyncResult {
+  entities: number;
+  edges: number;
+}
+
+export interface GraphLookupQuery {
+  personaSlug: string;
+  name: string; // Entity name or alias (case-insensitive substring)
+  kind?: EntityKind;
+  relatedKind?: EntityKind; // Only list related entities of this kind
+  limit?: number; // Entities to return
+}
+
+export interface GraphNeighbor {
+  relationship: RelationshipType;
+  direction: 'outgoing' | 'incoming';
+  type: 'entity' | 'document';
+  id: string;
+  name: string;
+  kind?: EntityKind;
+}
+
+export interface GraphLookupResult {
+  id: string;
+  name: string;
+  kind: EntityKind;
+  aliases: string[];
+  relations: GraphNeighbor[];
+  // Entities linked to the same documents, most shared documents first
+  related: Array<{ id: string; name: string; kind: EntityKind; sharedDocuments: number }>;
+}
+
+interface EdgeRow {
+  src_id: string;
+  src_type: 'entity' | 'document';
+  dst_id: string;
+  dst_type: 'entity' | 'document';
+  relationship_type_id: number;
+  evidence_doc_id: string | null;
+}
+
+const DEFAULT_LOOKUP_LIMIT = 5;
+const MAX_EDGES = 500;
+const MAX_RELATED = 20;
+
+/**
+ * Entity kinds and relationship types the given personas may use
+ * The union over personas; unrestricted if any persona has no rows.
+ */
+export async function loadGraphPermissions(
+  supabase: SupabaseClient,
+  personaSlugs: string[]
+): Promise<GraphPermissions> {
+  const { data: personas, error } = await supabase
+    .from('personas')
+    .select('id')
+    .in('slug', personaSlugs);
+
+  if (error) throw error;
+
+  const personaIds = (personas || []).map(p => p.id as string);
+  if (personaIds.length === 0) return { kinds: null, relationships: null };
+
+  const [{ data: kindRows, error: kindError }, { data: relationshipRows, error: relationshipError }] = await Promise.all([
+    supabase
+      .from('persona_entity_kind_permissions')
+      .select('persona_id, entity_kinds(name)')
+      .in('persona_id', personaIds),
+    supabase
+      .from('persona_relationship_type_permissions')
+      .select('persona_id, relationship_types(name)')
+      .in('persona_id', personaIds),
+  ]);
+
+  if (kindError) throw kindError;
+  if (relationshipError) throw relationshipError;
+
+  return {
+    kinds: allowedNames(personaIds, kindRows || [], 'entity_kinds'),
+    relationships: allowedNames(personaIds, relationshipRows || [], 'relationship_types'),
+  };
+}
+
+/**
+ * Replace the graph edges evidenced by a document
+ * Entities are shared across documents and upserted by canonical key; the
+ * document's previous edges are removed first, so re-ingesting is idempotent.
+ * Key terms naming a persona topic become one technology with the topic's aliases.
+ * Citation edges link to documents already in the knowledge base through
+ * patent_relations (which must be synced first). Failures are logged and not
+ * thrown: the graph must not block ingestion.
+ */
+export async function syncDocumentGraph(
+  supabase: SupabaseClient,
+  docId: string,
+  rawContent: string,
+  personaSlugs: string[]
+): Promise<GraphSyncResult> {
+  try {
+    // Persona topics name technologies and their aliases
+    const configs = await Promise.all(personaSlugs.map(slug => getPersonaRetrievalConfig(slug, supabase)));
+    const topics = configs.flatMap(config => config.topics);
+
+    const { data: frontmatter, content } = matter(rawContent);
+    const extracted = extractDocumentEntities(docId, frontmatter, content, topics);
+    const permissions = await loadGraphPermissions(supabase, personaSlugs);
+    const [kindIds, relationshipIds] = await Promise.all([
+      loadIds(supabase, 'entity_kinds'),
+      loadIds(supabase, 'relationship_types'),
+    ]);
+
+    const entities = extracted.entities.filter(e => allows(permissions.kinds, e.kind) && kindIds.has(e.kind));
+    const entityIds = await upsertEntities(supabase, entities, kindIds);
+
+    const resolve = (ref: GraphNodeRef) => ref.type === 'document'
+      ? { id: ref.id, type: 'document' as const }
+      : entityIds.has(ref.key) ? { id: entityIds.get(ref.key)!, type: 'entity' as const } : null;
+
+    const rows: Array<Record<string, unknown>> = [];
+    for (const edge of extracted.edges) {
+      const src = resolve(edge.src);
+      const dst = resolve(edge.dst);
+      const relationshipTypeId = relationshipIds.get(edge.relationship);
+      if (!src || !dst || !relationshipTypeId || !allows(permissions.relationships, edge.relationship)) continue;
+
+      rows.push({
+        src_id: src.id,
+        src_type: src.type,
+        dst_id: dst.id,
+        dst_type: dst.type,
+        relationship_type_id: relationshipTypeId,
+        evidence_doc_id: docId,
+        evidence_text: edge.evidenceText ?? null,
+      });
+    }
+
+    const citesId = relationshipIds.get('cites');
+    if (citesId && allows(permissions.relationships, 'cites')) {
+      for (const [citing, cited] of await findCitationLinks(supabase, docId)) {
+        rows.push({
+          src_id: citing,
+          src_type: 'document',
+          dst_id: cited,
+          dst_type: 'document',
+          relationship_type_id: citesId,
+          evidence_doc_id: docId,
+          evidence_text: null,
+        });
+      }
+    }
+
+    const { error: deleteError } = await supabase.from('edges').delete().eq('evidence_doc_id', docId);
+    if (deleteError) throw deleteError;
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('edges').insert(rows);
+      if (error) throw error;
+    }
+
+    return { entities: entityIds.size, edges: rows.length };
+  } catch (error) {
+    console.error(`Failed to update knowledge graph for document ${docId}:`, error);
+    return { entities: 0, edges: 0 };
+  }
+}
+
+/**
+ * Look up entities by name or alias with their relations
+ * Only edges evidenced by the persona's documents, and kinds and relationship
+ * types the persona is permitted, are returned.
+ */
+export async function lookupGraphEntities(
+  supabase: SupabaseClient,
+  query: GraphLookupQuery
+): Promise<GraphLookupResult[]> {
+  const permissions = await loadGraphPermissions(supabase, [query.personaSlug]);
+  if (query.kind && !allows(permissions.kinds, query.kind)) return [];
+
+  const pattern = `%${query.name.replace(/[%_\\]/g, '\\$&')}%`;
+  const [{ data: byAlias, error: aliasError }, { data: byName, error: nameError }] = await Promise.all([
+    supabase.from('aliases').select('entity_id').ilike('alias', pattern).limit(100),
+    supabase.from('entities').select('id').ilike('name', pattern).limit(100),
+  ]);
+
+  if (aliasError) throw aliasError;
+  if (nameError) throw nameError;
+
+  const candidateIds = [...new Set([
+    ...(byName || []).map(row => row.id as string),
+    ...(byAlias || []).map(row => row.entity_id as string),
+  ])];
+  if (candidateIds.length === 0) return [];
+
+  const relationshipNames = await loadNames(supabase, 'relationship_types');
+  const candidates = (await loadEntities(supabase, candidateIds))
+    .filter(e => allows(permissions.kinds, e.kind) && (!query.kind || e.kind === query.kind));
+  if (candidates.length === 0) return [];
+
+  // Edges touching the candidates, kept when evidenced by the persona's documents
+  const ids = candidates.map(e => e.id);
+  const edges = await loadVisibleEdges(
+    supabase,
+    query.personaSlug,
+    `src_id.in.(${quoteList(ids)}),dst_id.in.(${quoteList(ids)})`,
+    permissions,
+    relationshipNames
+  );
+
+  // Rank by how many distinct documents evidence the entity
+  const evidence = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    for (const id of [edge.src_id, edge.dst_id]) {
+      if (!ids.includes(id) || !edge.evidence_doc_id) continue;
+      evidence.set(id, (evidence.get(id) ?? new Set()).add(edge.evidence_doc_id));
+    }
+  }
+  const matched = candidates
+    .filter(e => evidence.has(e.id))
+    .sort((a, b) => evidence.get(b.id)!.size - evidence.get(a.id)!.size)
+    .slice(0, query.limit ?? DEFAULT_LOOKUP_LIMIT);
+  if (matched.length === 0) return [];
+
+  // Entities sharing documents with the matches
+  const docIds = [...new Set(edges.flatMap(edge => [
+    edge.src_type === 'document' ? edge.src_id : null,
+    edge.dst_type === 'document' ? edge.dst_id : null,
+  ]).filter((id): id is string => id !== null))];
+  const docEdges = docIds.length > 0
+    ? await loadVisibleEdges(
+        supabase,
+        query.personaSlug,
+        `src_id.in.(${quoteList(docIds)}),dst_id.in.(${quoteList(docIds)})`,
+        permissions,
+        relationshipNames
+      )
+    : [];
+
+  const neighborEntityIds = [...new Set([...edges, ...docEdges].flatMap(edge => [
+    edge.src_type === 'entity' ? edge.src_id : null,
+    edge.dst_type === 'entity' ? edge.dst_id : null,
+  ]).filter((id): id is string => id !== null && !ids.includes(id)))];
+  const neighborEntities = new Map(
+    (await loadEntities(supabase, neighborEntityIds))
+      .filter(e => allows(permissions.kinds, e.kind))
+      .map(e => [e.id, e])
+  );
+  const docTitles = await loadDocTitles(supabase, query.personaSlug, docIds);
+
+  const { data: aliasRows, error: aliasesError } = await supabase
+    .from('aliases')
+    .select('entity_id, alias')
+    .in('entity_id', matched.map(e => e.id));
+
+  if (aliasesError) throw aliasesError;
+
+  return matched.map(entity => {
+    const relations: GraphNeighbor[] = [];
+    const seen = new Set<string>();
+    const entityDocs = new Set<string>();
+
+    for (const edge of edges) {
+      const outgoing = edge.src_id === entity.id;
+      if (!outgoing && edge.dst_id !== entity.id) continue;
+
+      const otherId = outgoing ? edge.dst_id : edge.src_id;
+      const otherType = outgoing ? edge.dst_type : edge.src_type;
+      const other = otherType === 'entity' ? neighborEntities.get(otherId) : undefined;
+      const title = otherType === 'document' ? docTitles.get(otherId) : undefined;
+      if (otherType === 'entity' ? !other : title === undefined) continue;
+      if (otherType === 'document') entityDocs.add(otherId);
+
+      const relationship = relationshipNames.get(edge.relationship_type_id) as RelationshipType;
+      const key = `${relationship}|${outgoing}|${otherId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      relations.push({
+        relationship,
+        direction: outgoing ? 'outgoing' : 'incoming',
+        type: otherType,
+        id: otherId,
+        name: other?.name ?? title ?? otherId,
+        ...(other && { kind: other.kind }),
+      });
+    }
+
+    // Count documents each other entity shares with this one
+    const shared = new Map<string, Set<string>>();
+    for (const edge of docEdges) {
+      const docId = edge.src_type === 'document' ? edge.src_id : edge.dst_id;
+      const otherId = edge.src_type === 'entity' ? edge.src_id : edge.dst_id;
+      if (!entityDocs.has(docId) || otherId === entity.id || !neighborEntities.has(otherId)) continue;
+      shared.set(otherId, (shared.get(otherId) ?? new Set()).add(docId));
+    }
+
+    const related = [...shared.entries()]
+      .map(([id, docs]) => ({ ...neighborEntities.get(id)!, sharedDocuments: docs.size }))
+      .filter(e => !query.relatedKind || e.kind === query.relatedKind)
+      .sort((a, b) => b.sharedDocuments - a.sharedDocuments || a.name.localeCompare(b.name))
+      .slice(0, MAX_RELATED)
+      .map(({ id, name, kind, sharedDocuments }) => ({ id, name, kind, sharedDocuments }));
+
+    return {
+      id: entity.id,
+      name: entity.name,
+      kind: entity.kind,
+      aliases: (aliasRows || [])
+        .filter(row => row.entity_id === entity.id && row.alias !== entity.name)
+        .map(row => row.alias as string),
+      relations,
+      related,
+    };
+  });
+}
+
+/**
+ * Upsert entities by canonical key and add their aliases
+ * @returns Entity IDs by canonical key
+ */
+async function upsertEntities(
+  supabase: SupabaseClient,
+  entities: ExtractedEntity[],
+  kindIds: Map<string, number>
+): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  if (entities.length === 0) return ids;
+
+  // Existing entities keep their name; new ones take the first surface form seen
+  const { error: upsertError } = await supabase.from('entities').upsert(
+    entities.map(entity => ({
+      canonical_key: entity.key,
+      name: entity.name,
+      entity_kind_id: kindIds.get(entity.kind),
+    })),
+    { onConflict: 'canonical_key', ignoreDuplicates: true }
+  );
+
+  if (upsertError) throw upsertError;
+
+  const { data, error } = await supabase
+    .from('entities')
+    .select('id, canonical_key')
+    .in('canonical_key', entities.map(entity => entity.key));
+
+  if (error) throw error;
+
+  for (const row of data || []) ids.set(row.canonical_key, row.id);
+
+  const aliases = entities.flatMap(entity =>
+    ids.has(entity.key)
+      ? entity.aliases.map((alias, i) => ({ entity_id: ids.get(entity.key), alias, is_primary: i === 0 }))
+      : []
+  );
+
+  if (aliases.length > 0) {
+    const { error: aliasError } = await supabase
+      .from('aliases')
+      .upsert(aliases, { onConflict: 'entity_id,alias', ignoreDuplicates: true });
+
+    if (aliasError) throw aliasError;
+  }
+
+  return ids;
+}
+
+/**
+ * Citing → cited document pairs involving the document, from patent_relations
+ * Covers the document's own citation lists and other documents' lists that
+ * name it.
+ */
+async function findCitationLinks(supabase: SupabaseClient, docId: string): Promise<Array<[string, string]>> {
+  const { data: doc, error: docError } = await supabase
+    .from('docs')
+    .select('identifier_keys')
+    .eq('id', docId)
+    .maybeSingle();
+
+  if (docError) throw docError;
+
+  const ownKeys: string[] = doc?.identifier_keys || [];
+  const { data: own, error: ownError } = await supabase
+    .from('patent_relations')
+    .select('relation, target_key')
+    .eq('doc_id', docId)
+    .in('relation', ['cites', 'cited_by']);
+
+  if (ownError) throw ownError;
+
+  const links = new Map<string, [string, string]>();
+  const add = (citing: string, cited: string) => {
+    if (citing !== cited) links.set(`${citing}|${cited}`, [citing, cited]);
+  };
+
+  const targetKeys = [...new Set((own || []).map(row => row.target_key as string))];
+  if (targetKeys.length > 0) {
+    const { data: targets, error } = await supabase
+      .from('docs')
+      .select('id, identifier_keys')
+      .overlaps('identifier_keys', targetKeys);
+
+    if (error) throw error;
+
+    for (const row of own || []) {
+      for (const target of targets || []) {
+        if (!(target.identifier_keys || []).includes(row.target_key)) continue;
+        if (row.relation === 'cites') add(docId, target.id);
+        else add(target.id, docId);
+      }
+    }
+  }
+
+  if (ownKeys.length > 0) {
+    const { data: citing, error } = await supabase
+      .from('patent_relations')
+      .select('doc_id')
+      .eq('relation', 'cites')
+      .in('target_key', ownKeys);
+
+    if (error) throw error;
+
+    for (const row of citing || []) add(row.doc_id, docId);
+  }
+
+  return [...links.values()];
+}
+
+async function loadVisibleEdges(
+  supabase: SupabaseClient,
+  personaSlug: string,
+  filter: string,
+  permissions: GraphPermissions,
+  relationshipNames: Map<number, string>
+): Promise<EdgeRow[]> {
+  const { data, error } = await supabase
+    .from('edges')
+    .select('src_id, src_type, dst_id, dst_type, relationship_type_id, evidence_doc_id, docs!inner(personas)')
+    .or(filter)
+    .contains('docs.personas', [personaSlug])
+    .limit(MAX_EDGES);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as EdgeRow[]).filter(edge =>
+    allows(permissions.relationships, relationshipNames.get(edge.relationship_type_id))
+  );
+}
+
+async function loadEntities(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<Array<{ id: string; name: string; kind: EntityKind }>> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('entities')
+    .select('id, name, entity_kinds(name)')
+    .in('id', ids);
+
+  if (error) throw error;
+
+  return (data || []).map(row => {
+    const kind = row.entity_kinds as unknown as { name: string } | Array<{ name: string }> | null;
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      kind: (Array.isArray(kind) ? kind[0]?.name : kind?.name) as EntityKind,
+    };
+  });
+}
+
+async function loadDocTitles(supabase: SupabaseClient, personaSlug: string, ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('docs')
+    .select('id, title')
+    .in('id', ids)
+    .contains('personas', [personaSlug]);
+
+  if (error) throw error;
+
+  return new Map((data || []).map(row => [row.id as string, (row.title as string) || (row.id as string)]));
+}
+
+// Global (persona-independent) kinds or relationship types by name
+async function loadIds(supabase: SupabaseClient, table: 'entity_kinds' | 'relationship_types'): Promise<Map<string, number>> {
+  const { data, error } = await supabase.from(table).select('id, name').is('persona_id', null);
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.name as string, row.id as number]));
+}
+
+async function loadNames(supabase: SupabaseClient, table: 'entity_kinds' | 'relationship_types'): Promise<Map<number, string>> {
+  const { data, error } = await supabase.from(table).select('id, name');
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.id as number, row.name as string]));
+}
+
+function allowedNames(
+  personaIds: string[],
+  rows: Array<Record<string, any>>,
+  relation: 'entity_kinds' | 'relationship_types'
+): Set<string> | null {
+  const byPersona = new Map<string, string[]>();
+  for (const row of rows) {
+    const related = Array.isArray(row[relation]) ? row[relation][0] : row[relation];
+    if (!related?.name) continue;
+    byPersona.set(row.persona_id, [...(byPersona.get(row.persona_id) ?? []), related.name]);
+  }
+
+  // Any persona without rows is unrestricted
+  if (personaIds.some(id => !byPersona.has(id))) return null;
+  return new Set([...byPersona.values()].flat());
+}
+
+function allows(allowed: Set<string> | null, name: string | undefined): boolean {
+  return name !== undefined && (allowed === null || allowed.has(name));
+}
+
+// PostgREST in-list with each value quoted (document IDs may contain punctuation)
+function quoteList(values: string[]): string {
+  return values.map(value => `"${value.replace(/["\\]/g, '\\$&')}"`).join(',');
+}
@@ -0,0 +1,234 @@
+/**
+ * Patent Relations Storage
+ * Mirrors a patent document's family, priority claims, citations and CPC
+ * classifications (written to frontmatter at extraction) into patent_relations,
+ * so citation questions can be answered across documents without reading them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizePatentRef } from '../search/diversification';
+
+export type PatentRelationType = 'family_member' | 'priority_claim' | 'cites' | 'cited_by' | 'cpc';
+export type CitationDirection = 'cites' | 'cited_by';
+
+export interface PatentRelationRow {
+  doc_id: string;
+  relation: PatentRelationType;
+  target: string;
+  target_key: string;
+  title: string | null;
+  assignee: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface PatentCitationQuery {
+  personaSlug: string;
+  direction: CitationDirection; // 'cites': documents citing the target; 'cited_by': documents cited by the target
+  patentNumber?: string; // Target publication number, any kind code
+  assignee?: string; // Case-insensitive substring of the target's assignee
+  titleContains?: string; // Case-insensitive substring of the target's title
+  limit?: number;
+}
+
+export interface PatentCitationMatch {
+  docId: string;
+  docTitle: string;
+  target: string;
+  title: string | null;
+  assignee: string | null;
+  examinerCited: boolean;
+  familyCitation: boolean;
+  targetDocIds: string[]; // Knowledge base documents for the target, if any
+}
+
+const DEFAULT_CITATION_LIMIT = 50;
+
+/**
+ * Key for matching a patent reference against docs.identifier_keys
+ */
+export function patentKey(ref: string): string {
+  return `patent:${normalizePatentRef(ref).toLowerCase()}`;
+}
+
+/**
+ * Relation rows for a document's frontmatter (empty for non-patents)
+ */
+export function patentRelationRows(docId: string, frontmatter: Record<string, any>): PatentRelationRow[] {
+  const rows = new Map<string, PatentRelationRow>();
+  const add = (
+    relation: PatentRelationType,
+    target: unknown,
+    targetKey: string,
+    fields: { title?: unknown; assignee?: unknown; details?: Record<string, unknown> } = {}
+  ) => {
+    if (typeof target !== 'string' || !target.trim()) return;
+    const key = `${relation}:${targetKey}`;
+    if (rows.has(key)) return;
+    rows.set(key, {
+      doc_id: docId,
+      relation,
+      target: target.trim(),
+      target_key: targetKey,
+      title: typeof fields.title === 'string' ? fields.title : null,
+      assignee: typeof fields.assignee === 'string' ? fields.assignee : null,
+      details: fields.details ?? {},
+    });
+  };
+
+  const family = frontmatter.identifiers?.patent_family;
+  for (const ref of Array.isArray(family) ? family : []) {
+    if (typeof ref === 'string') add('family_member', ref, patentKey(ref));
+  }
+
+  for (const claim of asList(frontmatter.priority_claims)) {
+    const application = claim.application_number;
+    if (typeof application !== 'string') continue;
+    add('priority_claim', application, `application:${application.toLowerCase().replace(/[^a-z0-9]/g, '')}`, {
+      title: claim.title,
+      details: definedFields({
+        publication_number: claim.publication_number,
+        priority_date: claim.priority_date,
+        filing_date: claim.filing_date,
+      }),
+    });
+  }
+
+  for (const direction of ['cites', 'cited_by'] as const) {
+    for (const citation of asList(frontmatter.citations?.[direction])) {
+      if (typeof citation.number !== 'string') continue;
+      add(direction, citation.number, patentKey(citation.number), {
+        title: citation.title,
+        assignee: citation.assignee,
+        details: definedFields({
+          priority_date: citation.priority_date,
+          publication_date: citation.publication_date,
+          examiner_cited: citation.examiner_cited === true || undefined,
+          family_citation: citation.family_citation === true || undefined,
+        }),
+      });
+    }
+  }
+
+  for (const cpc of asList(frontmatter.classifications?.cpc)) {
+    if (typeof cpc.code !== 'string') continue;
+    add('cpc', cpc.code, `cpc:${cpc.code.toLowerCase().replace(/\s+/g, '')}`, {
+      details: definedFields({ description: cpc.description }),
+    });
+  }
+
+  return [...rows.values()];
+}
+
+/**
+ * Replace a document's stored relations with those in its frontmatter
+ * Failures are logged and not thrown: relations must not block extraction or
+ * ingestion.
+ *
+ * @returns Number of relations stored
+ */
+export async function syncPatentRelations(
+  supabase: SupabaseClient,
+  docId: string,
+  frontmatter: Record<string, any>
+): Promise<number> {
+  try {
+    const rows = patentRelationRows(docId, frontmatter);
+
+    const { error: deleteError } = await supabase.from('patent_relations').delete().eq('doc_id', docId);
+    if (deleteError) throw deleteError;
+    if (rows.length === 0) return 0;
+
+    const { error } = await supabase.from('patent_relations').insert(rows);
+    if (error) throw error;
+
+    return rows.length;
+  } catch (error) {
+    console.error(`Failed to store patent relations of document ${docId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Citations between the persona's patents and other patents
+ * Filters apply to the other patent (the target). Targets that are themselves
+ * in the persona's knowledge base are linked by their identifier keys.
+ */
+export async function findPatentCitations(
+  supabase: SupabaseClient,
+  query: PatentCitationQuery
+): Promise<PatentCitationMatch[]> {
+  let request = supabase
+    .from('patent_relations')
+    .select('doc_id, target, target_key, title, assignee, details, docs!inner(title, personas)')
+    .eq('relation', query.direction)
+    .contains('docs.personas', [query.personaSlug]);
+
+  if (query.patentNumber) request = request.eq('target_key', patentKey(query.patentNumber));
+  if (query.assignee) request = request.ilike('assignee', `%${escapeLike(query.assignee)}%`);
+  if (query.titleContains) request = request.ilike('title', `%${escapeLike(query.titleContains)}%`);
+
+  const { data, error } = await request
+    .order('doc_id')
+    .limit(query.limit ?? DEFAULT_CITATION_LIMIT);
+
+  if (error) throw error;
+
+  const rows = (data || []) as Array<{
+    doc_id: string;
+    target: string;
+    target_key: string;
+    title: string | null;
+    assignee: string | null;
+    details: Record<string, unknown> | null;
+    docs: { title: string | null } | Array<{ title: string | null }>;
+  }>;
+
+  const targetDocs = new Map<string, string[]>();
+  const targetKeys = [...new Set(rows.map(row => row.target_key))];
+  if (targetKeys.length > 0) {
+    const { data: docs, error: docsError } = await supabase
+      .from('docs')
+      .select('id, identifier_keys')
+      .overlaps('identifier_keys', targetKeys)
+      .contains('personas', [query.personaSlug]);
+
+    if (docsError) throw docsError;
+
+    for (const doc of docs || []) {
+      for (const key of (doc.identifier_keys || []) as string[]) {
+        targetDocs.set(key, [...(targetDocs.get(key) ?? []), doc.id]);
+      }
+    }
+  }
+
+  return rows.map(row => {
+    const doc = Array.isArray(row.docs) ? row.docs[0] : row.docs;
+    return {
+      docId: row.doc_id,
+      docTitle: doc?.title || row.doc_id,
+      target: row.target,
+      title: row.title,
+      assignee: row.assignee,
+      examinerCited: row.details?.examiner_cited === true,
+      familyCitation: row.details?.family_citation === true,
+      targetDocIds: targetDocs.get(row.target_key) ?? [],
+    };
+  });
+}
+
+function asList(value: unknown): Array<Record<string, any>> {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+// YAML may parse unquoted dates as Date objects; store them as ISO dates
+function definedFields(fields: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, value instanceof Date ? value.toISOString().split('T')[0] : value])
+  );
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[%_\\]/g, '\\$&');
+}
@@ -262,23 +262,33 @@ export async function storeMessage(
 ): Promise<void> {
   const supabase = createOptimizedAdminClient();
 
-  const { error } = await supabase
+  // Threads are linear: each message replies to the previous one
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('active_message_id')
+    .eq('id', conversationId)
+    .single();
+
+  const { data: message, error } = await supabase
     .from('messages')
     .insert({
       conversation_id: conversationId,
       role,
       content,
-    });
+      parent_id: conversation?.active_message_id ?? null,
+    })
+    .select('id')
+    .single();
 
-  if (error) {
+  if (error || !message) {
     console.error('[Slack] Failed to store message:', error);
     throw new Error('Failed to store message');
   }
 
-  // Update last_message_at timestamp
+  // Update last_message_at timestamp and the end of the thread
   await supabase
     .from('conversations')
-    .update({ last_message_at: new Date().toISOString() })
+    .update({ last_message_at: new Date().toISOString(), active_message_id: message.id })
     .eq('id', conversationId);
 
   console.log('[Slack] Stored message:', role);
@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
+import { getDefaultLanguageModel } from "@/lib/llm/models";
 import { createOptimizedAdminClient } from "@/lib/supabase/server";
 import { broadcastTitleUpdate } from "@/lib/sse-broadcaster";
 
@@ -16,9 +16,9 @@ export async function generateConversationTitle(
       return { success: true, title: "New Conversation" };
     }
 
-    console.log(`🤖 Calling OpenAI for title generation...`);
+    console.log(`🤖 Calling LLM for title generation...`);
     const result = await generateText({
-      model: openai("gpt-4o-mini"),
+      model: getDefaultLanguageModel("fast"),
       prompt: `Generate a concise, descriptive title (max 6 words) for this conversation:\n\nuser: ${firstMessage}`,
       temperature: 0.3,
       maxTokens: 20,
@@ -18,17 +18,26 @@ export interface Conversation {
   title?: string
   last_message_at: string
   context_summary?: string
+  context_summary_message_count?: number
+  context_summary_updated_at?: string
+  history_tokens?: number
+  active_message_id?: string
   created_at: string
   updated_at: string
 }
 
+export type TurnType = 'new-topic' | 'drill-down' | 'compare' | 'same-sources'
+export type ResponseMode = 'FACT' | 'EXPLAIN' | 'CONFLICTS'
+
 export interface Message {
   id: string
   conversation_id: string
   role: 'user' | 'assistant'
   content: string
-  turn_type?: 'new-topic' | 'drill-down' | 'compare' | 'same-sources'
-  response_mode?: 'FACT' | 'EXPLAIN' | 'CONFLICTS'
+  parent_id?: string | null
+  branch_index?: number
+  turn_type?: TurnType
+  response_mode?: ResponseMode
   processing_time_ms?: number
   sources_used?: number
   created_at: string
@@ -42,6 +51,21 @@ export interface Message {
   metadata?: any
 }
 
+export type FeedbackRating = 1 | -1
+export type FeedbackReason = 'incorrect' | 'incomplete' | 'outdated' | 'bad_citation' | 'missing_source' | 'not_relevant' | 'other'
+
+export interface MessageFeedback {
+  id: string
+  message_id: string
+  user_id: string
+  rating: FeedbackRating
+  reason?: FeedbackReason | null
+  correction?: string | null
+  missing_source_url?: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface MessageCitation {
   id: string
   message_id: string
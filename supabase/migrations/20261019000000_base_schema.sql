@@ -0,0 +1,102 @@
+-- Base schema
+-- The core tables were created from the SQL editor before migrations were tracked, so a
+-- fresh database (supabase start / supabase db reset) had nothing for the later ALTERs to
+-- apply to. This creates the tables and columns the application and the following
+-- migrations rely on; every statement is IF NOT EXISTS, so existing databases are untouched.
+-- Columns added by later migrations are left to those migrations.
+-- The search RPCs follow in 20261019080000_search_rpcs_baseline.sql.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+DO $$ BEGIN
+  CREATE TYPE user_role AS ENUM ('admin', 'member', 'guest');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  display_name text,
+  role user_role NOT NULL DEFAULT 'member',
+  last_active_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS personas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE,
+  name text NOT NULL,
+  persona_type text DEFAULT 'fictional_character',
+  expertise text,
+  content text,
+  example_questions text[],
+  config_json jsonb DEFAULT '{}'::jsonb,
+  metadata jsonb DEFAULT '{}'::jsonb,
+  avatar_url text,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Documents: id is the stable slug from frontmatter; personas, tags and actors are JSON arrays
+CREATE TABLE IF NOT EXISTS docs (
+  id text PRIMARY KEY,
+  title text NOT NULL,
+  type text,
+  date date,
+  source_url text,
+  summary text,
+  license text,
+  personas jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tags jsonb DEFAULT '[]'::jsonb,
+  identifiers jsonb DEFAULT '{}'::jsonb,
+  dates_structured jsonb DEFAULT '{}'::jsonb,
+  actors jsonb DEFAULT '[]'::jsonb,
+  raw_content text,
+  ingestion_status text DEFAULT 'pending',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id text NOT NULL REFERENCES docs(id) ON DELETE CASCADE,
+  section_path text,
+  text text NOT NULL,
+  token_count integer,
+  embedding vector(3072),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  persona_id uuid REFERENCES personas(id) ON DELETE SET NULL,
+  title text,
+  context_summary text,
+  last_message_at timestamptz,
+  mcp_session_id text,
+  slack_channel_id text,
+  slack_thread_ts text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  content text NOT NULL,
+  metadata jsonb DEFAULT '{}'::jsonb,
+  response_mode text,
+  turn_type text,
+  sources_used integer,
+  processing_time_ms integer,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_docs_personas ON docs USING gin (personas);
+CREATE INDEX IF NOT EXISTS idx_chunks_doc_id ON chunks(doc_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at);
@@ -0,0 +1,119 @@
+-- Search RPCs as deployed before metadata filters (20261019090000_search_metadata_filters.sql)
+-- The functions were created from the SQL editor and were never committed; this file puts
+-- them under version control so later changes to them are reviewable diffs. Applying it
+-- to a database that already has them replaces them with the same definitions.
+--
+-- Keep this file identical to production. To compare, run against the production database:
+--   psql "$DATABASE_URL" -At -c "SELECT pg_get_functiondef(p.oid) FROM pg_proc p
+--     WHERE p.proname IN ('vector_search_chunks', 'bm25_search_chunks') ORDER BY p.proname"
+
+CREATE OR REPLACE FUNCTION vector_search_chunks(
+  query_embedding vector(3072),
+  persona_slug text,
+  match_threshold float DEFAULT 0.35,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  doc_id text,
+  section_path text,
+  text text,
+  similarity float,
+  doc_title text,
+  doc_type text,
+  source_url text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id AS chunk_id,
+    c.doc_id,
+    c.section_path,
+    c.text,
+    -- Cosine distance (0-2) converted to similarity (0-1)
+    1 - ((c.embedding <=> query_embedding) / 2) AS similarity,
+    d.title AS doc_title,
+    d.type AS doc_type,
+    d.source_url
+  FROM chunks c
+  INNER JOIN docs d ON c.doc_id = d.id
+  WHERE d.personas @> to_jsonb(persona_slug::text)
+    AND 1 - ((c.embedding <=> query_embedding) / 2) >= match_threshold
+  ORDER BY c.embedding <=> query_embedding, c.doc_id, c.section_path
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION bm25_search_chunks(
+  query_text text,
+  persona_slug text,
+  min_score float DEFAULT 0.1,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  doc_id text,
+  section_path text,
+  text text,
+  score float,
+  doc_title text,
+  doc_type text,
+  source_url text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS tsq
+  ),
+  -- Specific keywords for metadata chunk matching (generic terms excluded to avoid false positives)
+  keywords AS (
+    SELECT DISTINCT lower(word) AS word
+    FROM regexp_split_to_table(query_text, '[^A-Za-z0-9.:/-]+') AS word
+    WHERE length(word) >= 3
+      AND lower(word) NOT IN (
+        'the', 'and', 'for', 'with', 'about', 'what', 'which', 'who', 'how', 'are', 'was',
+        'paper', 'papers', 'published', 'all', 'know', 'document', 'documents', 'patent', 'patents'
+      )
+  ),
+  scored AS (
+    SELECT
+      c.id AS chunk_id,
+      c.doc_id,
+      c.section_path,
+      c.text,
+      ts_rank_cd(to_tsvector('english', c.text), query.tsq)::float AS rank,
+      d.title AS doc_title,
+      d.type AS doc_type,
+      d.source_url,
+      (
+        c.section_path = 'Metadata'
+        AND EXISTS (
+          SELECT 1
+          FROM keywords k
+          WHERE lower(COALESCE(d.tags::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.actors::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.identifiers::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.dates_structured::text, '')) LIKE '%' || k.word || '%'
+        )
+      ) AS metadata_match
+    FROM chunks c
+    INNER JOIN docs d ON c.doc_id = d.id
+    CROSS JOIN query
+    WHERE d.personas @> to_jsonb(persona_slug::text)
+  )
+  SELECT
+    chunk_id,
+    doc_id,
+    section_path,
+    text,
+    -- Metadata chunks matching specific keywords get a small base score instead of 0
+    CASE WHEN rank = 0 AND metadata_match THEN 0.01 ELSE rank END AS score,
+    doc_title,
+    doc_type,
+    source_url
+  FROM scored
+  WHERE rank >= min_score OR metadata_match
+  ORDER BY score DESC, doc_id ASC, section_path ASC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,176 @@
+-- Metadata-filtered retrieval
+-- Adds an optional `filter` argument to vector_search_chunks and bm25_search_chunks so
+-- performSearch can scope results by doc type, date range, tags and identifiers.
+--
+-- Filter shape (all keys optional, omitted/NULL filter = no filtering):
+--   {
+--     "doc_types":   ["patent", "arxiv"],       -- docs.type IN (...)
+--     "date_from":   "2020-01-01",              -- docs.date >= date_from
+--     "date_to":     "2023-12-31",              -- docs.date <= date_to
+--     "tags":        ["LC lens"],               -- any docs.tags entry (case-insensitive)
+--     "identifiers": {"patent_number": "US..."} -- every key must match (case-insensitive)
+--   }
+
+CREATE OR REPLACE FUNCTION doc_matches_search_filter(d docs, filter jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    filter IS NULL
+    OR (
+      (
+        filter->'doc_types' IS NULL
+        OR jsonb_array_length(filter->'doc_types') = 0
+        OR d.type IN (SELECT jsonb_array_elements_text(filter->'doc_types'))
+      )
+      AND (filter->>'date_from' IS NULL OR (d.date IS NOT NULL AND d.date >= (filter->>'date_from')::date))
+      AND (filter->>'date_to' IS NULL OR (d.date IS NOT NULL AND d.date <= (filter->>'date_to')::date))
+      AND (
+        filter->'tags' IS NULL
+        OR jsonb_array_length(filter->'tags') = 0
+        OR EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(COALESCE(d.tags, '[]'::jsonb)) AS doc_tag(value)
+          JOIN jsonb_array_elements_text(filter->'tags') AS wanted(value)
+            ON lower(doc_tag.value) = lower(wanted.value)
+        )
+      )
+      AND (
+        filter->'identifiers' IS NULL
+        OR NOT EXISTS (
+          SELECT 1
+          FROM jsonb_each_text(filter->'identifiers') AS wanted(key, value)
+          WHERE lower(COALESCE(d.identifiers->>wanted.key, '')) <> lower(wanted.value)
+        )
+      )
+    );
+$$;
+
+-- Replace the search RPCs (drop first: adding an argument would otherwise create an overload)
+-- Previous definitions: 20261019080000_search_rpcs_baseline.sql
+DROP FUNCTION IF EXISTS vector_search_chunks(vector, text, float, int);
+DROP FUNCTION IF EXISTS bm25_search_chunks(text, text, float, int);
+
+-- Full-text index for BM25: the query matches chunks with the same expression, so only
+-- matching chunks are ranked instead of parsing every persona chunk per query
+CREATE INDEX IF NOT EXISTS idx_chunks_text_tsv ON chunks USING gin (to_tsvector('english', text));
+-- Metadata chunks are also candidates (identifier and tag keyword matches)
+CREATE INDEX IF NOT EXISTS idx_chunks_metadata ON chunks(doc_id) WHERE section_path = 'Metadata';
+
+CREATE OR REPLACE FUNCTION vector_search_chunks(
+  query_embedding vector(3072),
+  persona_slug text,
+  match_threshold float DEFAULT 0.35,
+  match_count int DEFAULT 20,
+  filter jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  doc_id text,
+  section_path text,
+  text text,
+  similarity float,
+  doc_title text,
+  doc_type text,
+  source_url text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id AS chunk_id,
+    c.doc_id,
+    c.section_path,
+    c.text,
+    -- Cosine distance (0-2) converted to similarity (0-1)
+    1 - ((c.embedding <=> query_embedding) / 2) AS similarity,
+    d.title AS doc_title,
+    d.type AS doc_type,
+    d.source_url
+  FROM chunks c
+  INNER JOIN docs d ON c.doc_id = d.id
+  WHERE d.personas @> to_jsonb(persona_slug::text)
+    AND doc_matches_search_filter(d, filter)
+    AND 1 - ((c.embedding <=> query_embedding) / 2) >= match_threshold
+  ORDER BY c.embedding <=> query_embedding, c.doc_id, c.section_path
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION bm25_search_chunks(
+  query_text text,
+  persona_slug text,
+  min_score float DEFAULT 0.1,
+  match_count int DEFAULT 20,
+  filter jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  doc_id text,
+  section_path text,
+  text text,
+  score float,
+  doc_title text,
+  doc_type text,
+  source_url text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS tsq
+  ),
+  -- Specific keywords for metadata chunk matching (generic terms excluded to avoid false positives)
+  keywords AS (
+    SELECT DISTINCT lower(word) AS word
+    FROM regexp_split_to_table(query_text, '[^A-Za-z0-9.:/-]+') AS word
+    WHERE length(word) >= 3
+      AND lower(word) NOT IN (
+        'the', 'and', 'for', 'with', 'about', 'what', 'which', 'who', 'how', 'are', 'was',
+        'paper', 'papers', 'published', 'all', 'know', 'document', 'documents', 'patent', 'patents'
+      )
+  ),
+  scored AS (
+    SELECT
+      c.id AS chunk_id,
+      c.doc_id,
+      c.section_path,
+      c.text,
+      ts_rank_cd(to_tsvector('english', c.text), query.tsq)::float AS rank,
+      d.title AS doc_title,
+      d.type AS doc_type,
+      d.source_url,
+      (
+        c.section_path = 'Metadata'
+        AND EXISTS (
+          SELECT 1
+          FROM keywords k
+          WHERE lower(COALESCE(d.tags::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.actors::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.identifiers::text, '')) LIKE '%' || k.word || '%'
+             OR lower(COALESCE(d.dates_structured::text, '')) LIKE '%' || k.word || '%'
+        )
+      ) AS metadata_match
+    FROM chunks c
+    INNER JOIN docs d ON c.doc_id = d.id
+    CROSS JOIN query
+    WHERE d.personas @> to_jsonb(persona_slug::text)
+      AND doc_matches_search_filter(d, filter)
+      -- Candidates: text matches (idx_chunks_text_tsv) and metadata chunks
+      AND (to_tsvector('english', c.text) @@ query.tsq OR c.section_path = 'Metadata')
+  )
+  SELECT
+    chunk_id,
+    doc_id,
+    section_path,
+    text,
+    -- Metadata chunks matching specific keywords get a small base score instead of 0
+    CASE WHEN rank = 0 AND metadata_match THEN 0.01 ELSE rank END AS score,
+    doc_title,
+    doc_type,
+    source_url
+  FROM scored
+  WHERE rank >= min_score OR metadata_match
+  ORDER BY score DESC, doc_id ASC, section_path ASC
+  LIMIT match_count;
+$$;
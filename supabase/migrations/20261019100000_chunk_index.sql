@@ -0,0 +1,19 @@
+-- Chunk ordering for neighbouring-chunk context expansion
+-- chunk_index is the position of the chunk within its document (0 = metadata chunk).
+-- New ingestions write it explicitly; existing rows are backfilled from insertion order.
+
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS chunk_index integer;
+
+WITH ordered AS (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY doc_id ORDER BY created_at, id) - 1 AS position
+  FROM chunks
+  WHERE chunk_index IS NULL
+)
+UPDATE chunks c
+SET chunk_index = ordered.position
+FROM ordered
+WHERE c.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS chunks_doc_id_chunk_index_idx ON chunks (doc_id, chunk_index);
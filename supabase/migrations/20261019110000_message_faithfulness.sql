@@ -0,0 +1,9 @@
+-- Answer faithfulness scoring, stored next to rag_weight
+-- faithfulness_score: share of cited claims supported by their cited chunks (0-1, NULL when nothing was cited)
+-- faithfulness_breakdown: claim counts (supported / unsupported / contradicted / uncited), judge method and per-claim verdicts
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS faithfulness_score numeric(3, 2);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS faithfulness_breakdown jsonb DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS messages_faithfulness_score_idx ON messages (faithfulness_score)
+  WHERE faithfulness_score IS NOT NULL;
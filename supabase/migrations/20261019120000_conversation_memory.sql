@@ -0,0 +1,8 @@
+-- Rolling conversation memory for long threads
+-- context_summary: summary of the earlier part of the thread (fed to the system prompt and query reformulation)
+-- context_summary_message_count: number of leading messages the summary covers (later messages are sent verbatim)
+-- history_tokens: estimated tokens of the full transcript after the latest turn (cost the summary avoids)
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS context_summary_message_count integer NOT NULL DEFAULT 0;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS context_summary_updated_at timestamptz;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS history_tokens integer;
@@ -0,0 +1,8 @@
+-- Scope guard verdicts
+-- off_topic: the question (and the refusal answering it) fell outside the persona's scope, so no retrieval ran
+-- The similarity scores behind the verdict are kept in metadata.scope
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS off_topic boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS messages_off_topic_idx ON messages (conversation_id)
+  WHERE off_topic;
@@ -0,0 +1,35 @@
+-- Branching conversations
+-- parent_id: the message this one replies to (NULL for the first message of a thread)
+-- branch_index: position among the replies to the same parent (0 = original; regenerated
+--   answers and edited questions are added as 1, 2, ...)
+-- conversations.active_message_id: last message of the branch the user is viewing
+--   (the active branch is the path from it back to the first message)
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS branch_index integer NOT NULL DEFAULT 0;
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS active_message_id uuid REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS messages_parent_idx ON messages (conversation_id, parent_id);
+
+-- Existing threads are linear: each message replies to the one before it
+WITH ordered AS (
+  SELECT id, lag(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+)
+UPDATE messages m
+SET parent_id = ordered.previous_id
+FROM ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE conversations c
+SET active_message_id = latest.id
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, id
+  FROM messages
+  ORDER BY conversation_id, created_at DESC, id DESC
+) latest
+WHERE c.id = latest.conversation_id
+  AND c.active_message_id IS NULL;
@@ -0,0 +1,51 @@
+-- Per-message feedback from users
+-- rating: 1 (helpful) or -1 (wrong / not helpful)
+-- reason: category for negative ratings (see FEEDBACK_REASONS in src/lib/chat/feedback.ts)
+-- correction: what the answer should have said, in the user's words
+-- missing_source_url: a document the answer should have used (ingestion candidate for gap analysis)
+
+CREATE TABLE IF NOT EXISTS message_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating smallint NOT NULL CHECK (rating IN (-1, 1)),
+  reason text CHECK (reason IN ('incorrect', 'incomplete', 'outdated', 'bad_citation', 'missing_source', 'not_relevant', 'other')),
+  correction text,
+  missing_source_url text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_feedback_message_idx ON message_feedback (message_id);
+CREATE INDEX IF NOT EXISTS message_feedback_negative_idx ON message_feedback (created_at)
+  WHERE rating < 0;
+
+ALTER TABLE message_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Users rate answers in their own conversations
+CREATE POLICY "Users manage feedback on their conversations" ON message_feedback
+  FOR ALL
+  USING (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_feedback.message_id AND c.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_feedback.message_id AND c.user_id = auth.uid()
+    )
+  );
+
+-- Admins read all feedback for analytics
+CREATE POLICY "Admins read all feedback" ON message_feedback
+  FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
@@ -0,0 +1,29 @@
+-- Shareable read-only links to conversations
+-- token: unguessable value in the public URL (/share/<token>)
+-- revoked_at: set when the owner revokes the link; revoked tokens stop resolving
+-- The public share route reads through the service role after checking the token,
+-- so no public policies on conversations or messages are needed.
+
+CREATE TABLE IF NOT EXISTS conversation_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS conversation_shares_conversation_idx ON conversation_shares (conversation_id);
+
+ALTER TABLE conversation_shares ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage the links to their own conversations
+CREATE POLICY "Owners manage conversation shares" ON conversation_shares
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM conversations c WHERE c.id = conversation_shares.conversation_id AND c.user_id = auth.uid())
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM conversations c WHERE c.id = conversation_shares.conversation_id AND c.user_id = auth.uid())
+  );
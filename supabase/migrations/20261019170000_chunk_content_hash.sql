@@ -0,0 +1,9 @@
+-- Chunk content hashes for incremental re-ingestion
+-- content_hash: sha256 of the chunk's embedding input (embedding model, context method,
+-- section path and text). Re-ingestion keeps chunks whose hash is unchanged, together
+-- with their embedding, and only embeds new or changed chunks.
+-- Existing rows have no hash and are regenerated the first time their document is re-ingested.
+
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS chunks_doc_id_content_hash_idx ON chunks (doc_id, content_hash);
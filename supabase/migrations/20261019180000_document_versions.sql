@@ -0,0 +1,33 @@
+-- Document version history
+-- Every edit, persona change, re-ingest and rollback snapshots the document's raw markdown,
+-- parsed frontmatter and persona assignments. Consecutive identical snapshots are not stored
+-- (a re-ingest of unchanged content records nothing new).
+-- version: 1, 2, ... per document; version 1 is the state before the first recorded change
+-- change_type: what produced the snapshot
+-- restored_from: for rollbacks, the version that was restored
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id text NOT NULL REFERENCES docs(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  raw_content text NOT NULL,
+  frontmatter jsonb NOT NULL DEFAULT '{}'::jsonb,
+  personas jsonb NOT NULL DEFAULT '[]'::jsonb,
+  change_type text NOT NULL CHECK (change_type IN ('initial', 'edit', 'personas', 'reingest', 'rollback')),
+  restored_from integer,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (doc_id, version)
+);
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins edit documents, so only admins see and write their history
+CREATE POLICY "Admins manage document versions" ON document_versions
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
@@ -0,0 +1,44 @@
+-- Duplicate detection at extraction time
+-- identifier_keys: normalized identifiers from frontmatter (e.g. 'patent:us10838134', 'doi:10.1145/...',
+--   'arxiv:2405.10314', 'url:example.com-path'); documents sharing a key are the same work
+-- minhash: 64-value MinHash signature of the body's 5-word shingles, for near-identical content
+--   from different sources (NULL for bodies too short to compare)
+
+ALTER TABLE docs
+  ADD COLUMN IF NOT EXISTS identifier_keys text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS minhash integer[];
+
+CREATE INDEX IF NOT EXISTS idx_docs_identifier_keys ON docs USING gin (identifier_keys);
+
+-- Candidate duplicates awaiting (or after) admin review
+-- doc_id: the newly extracted document; duplicate_of: the existing document it matches
+-- reason: 'identifier' (shared key, similarity 1) or 'content' (estimated Jaccard similarity)
+-- status: pending until reviewed; 'kept' when the admin keeps both documents. Merging or
+--   replacing deletes the new document, which removes its rows with it
+CREATE TABLE IF NOT EXISTS document_duplicates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id text NOT NULL REFERENCES docs(id) ON DELETE CASCADE,
+  duplicate_of text NOT NULL REFERENCES docs(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('identifier', 'content')),
+  similarity real NOT NULL,
+  matched_identifiers text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'kept')),
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (doc_id, duplicate_of)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_duplicates_pending
+  ON document_duplicates(doc_id) WHERE status = 'pending';
+
+ALTER TABLE document_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage document duplicates" ON document_duplicates
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
@@ -0,0 +1,44 @@
+-- Patent family, priority, citation and classification relations
+-- One row per relation read from a patent document's frontmatter (identifiers.patent_family,
+-- priority_claims, citations.cites / citations.cited_by, classifications.cpc); rewritten
+-- whenever the document is extracted or ingested.
+-- relation: 'family_member', 'priority_claim', 'cites' (this patent cites target),
+--   'cited_by' (target cites this patent) or 'cpc'
+-- target: the publication/application number or CPC code as shown on the page
+-- target_key: normalized form for matching, e.g. 'patent:us6064424' (same keys as
+--   docs.identifier_keys, so targets already in the knowledge base can be found) or 'cpc:h04n13/305'
+-- details: remaining fields (dates, examiner_cited, family_citation, description)
+
+CREATE TABLE IF NOT EXISTS patent_relations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id text NOT NULL REFERENCES docs(id) ON DELETE CASCADE,
+  relation text NOT NULL CHECK (relation IN ('family_member', 'priority_claim', 'cites', 'cited_by', 'cpc')),
+  target text NOT NULL,
+  target_key text NOT NULL,
+  title text,
+  assignee text,
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (doc_id, relation, target_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patent_relations_target_key ON patent_relations(target_key);
+CREATE INDEX IF NOT EXISTS idx_patent_relations_doc_relation ON patent_relations(doc_id, relation);
+
+ALTER TABLE patent_relations ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the document itself is readable
+CREATE POLICY "Relations of readable documents are readable" ON patent_relations
+  FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM docs d WHERE d.id = patent_relations.doc_id)
+  );
+
+CREATE POLICY "Admins manage patent relations" ON patent_relations
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
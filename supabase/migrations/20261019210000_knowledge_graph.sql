@@ -0,0 +1,233 @@
+-- Knowledge graph populated at ingestion
+-- entities: people, organizations, products and technologies named in document metadata
+-- aliases: surface forms an entity is known by (name variants, persona topic aliases)
+-- edges: typed relations between entities and documents; evidence_doc_id is the document
+--   whose ingestion produced the edge, so re-ingesting it replaces its edges
+-- The tables predate the docs table (edges pointed at the legacy documents table); they are
+-- created if missing and evidence is re-pointed at docs. Legacy edges whose evidence has no
+-- docs row are kept with evidence_doc_id NULL (evidence_text is preserved). Policies are
+-- dropped before being recreated so the migration can be re-run.
+
+CREATE TABLE IF NOT EXISTS entity_kinds (
+  id serial PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS relationship_types (
+  id serial PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS entities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  entity_kind_id integer NOT NULL REFERENCES entity_kinds(id),
+  description text,
+  authority_score real,
+  mention_count integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_id uuid NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  alias text NOT NULL,
+  is_primary boolean DEFAULT false,
+  confidence real,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$ BEGIN
+  CREATE TYPE source_type AS ENUM ('entity', 'document');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS edges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  src_id text NOT NULL,
+  src_type source_type NOT NULL,
+  dst_id text NOT NULL,
+  dst_type source_type NOT NULL,
+  relationship_type_id integer NOT NULL REFERENCES relationship_types(id),
+  weight real,
+  evidence_doc_id text,
+  evidence_text text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS persona_entity_kind_permissions (
+  persona_id uuid NOT NULL REFERENCES personas(id) ON DELETE CASCADE,
+  entity_kind_id integer NOT NULL REFERENCES entity_kinds(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (persona_id, entity_kind_id)
+);
+
+CREATE TABLE IF NOT EXISTS persona_relationship_type_permissions (
+  persona_id uuid NOT NULL REFERENCES personas(id) ON DELETE CASCADE,
+  relationship_type_id integer NOT NULL REFERENCES relationship_types(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (persona_id, relationship_type_id)
+);
+
+-- Policies are (re)created below; drop them first, since policies on edges and entities
+-- reference the columns retyped here
+DROP POLICY IF EXISTS "Edges of readable documents are readable" ON edges;
+DROP POLICY IF EXISTS "Entities with readable edges are readable" ON entities;
+DROP POLICY IF EXISTS "Aliases of readable entities are readable" ON aliases;
+DROP POLICY IF EXISTS "Authenticated users read entity kinds" ON entity_kinds;
+DROP POLICY IF EXISTS "Authenticated users read relationship types" ON relationship_types;
+DROP POLICY IF EXISTS "Authenticated users read entity kind permissions" ON persona_entity_kind_permissions;
+DROP POLICY IF EXISTS "Authenticated users read relationship type permissions" ON persona_relationship_type_permissions;
+DROP POLICY IF EXISTS "Admins manage entities" ON entities;
+DROP POLICY IF EXISTS "Admins manage aliases" ON aliases;
+DROP POLICY IF EXISTS "Admins manage edges" ON edges;
+DROP POLICY IF EXISTS "Admins manage entity kind permissions" ON persona_entity_kind_permissions;
+DROP POLICY IF EXISTS "Admins manage relationship type permissions" ON persona_relationship_type_permissions;
+
+-- Document endpoints and evidence are docs IDs (text)
+ALTER TABLE edges DROP CONSTRAINT IF EXISTS edges_evidence_doc_id_fkey;
+ALTER TABLE edges
+  ALTER COLUMN src_id TYPE text USING src_id::text,
+  ALTER COLUMN dst_id TYPE text USING dst_id::text,
+  ALTER COLUMN evidence_doc_id TYPE text USING evidence_doc_id::text;
+UPDATE edges e SET evidence_doc_id = NULL
+WHERE e.evidence_doc_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM docs d WHERE d.id = e.evidence_doc_id);
+ALTER TABLE edges
+  ADD CONSTRAINT edges_evidence_doc_id_fkey FOREIGN KEY (evidence_doc_id) REFERENCES docs(id) ON DELETE CASCADE;
+
+-- canonical_key: '<kind>:<normalized name>' (e.g. 'organization:leia'); one entity per key
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS canonical_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entities_canonical_key ON entities(canonical_key);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_aliases_entity_alias ON aliases(entity_id, alias);
+CREATE INDEX IF NOT EXISTS idx_aliases_alias_lower ON aliases(lower(alias));
+CREATE INDEX IF NOT EXISTS idx_edges_src ON edges(src_id);
+CREATE INDEX IF NOT EXISTS idx_edges_dst ON edges(dst_id);
+CREATE INDEX IF NOT EXISTS idx_edges_evidence_doc ON edges(evidence_doc_id);
+
+-- Global kinds and relationship types written by ingestion
+INSERT INTO entity_kinds (name, description)
+SELECT v.name, v.description
+FROM (VALUES
+  ('person', 'Inventors, authors and other people'),
+  ('organization', 'Companies, universities and other organizations'),
+  ('product', 'Products and product lines'),
+  ('technology', 'Technologies and techniques')
+) AS v(name, description)
+WHERE NOT EXISTS (SELECT 1 FROM entity_kinds k WHERE k.name = v.name AND k.persona_id IS NULL);
+
+INSERT INTO relationship_types (name, description)
+SELECT v.name, v.description
+FROM (VALUES
+  ('inventor_of', 'Person is an inventor of a patent'),
+  ('author_of', 'Person is an author of a document'),
+  ('assignee_of', 'Organization is an assignee of a patent'),
+  ('cites', 'Document cites another document'),
+  ('part_of', 'Person or product belongs to an organization'),
+  ('mentions', 'Document names a product or technology as a key term')
+) AS v(name, description)
+WHERE NOT EXISTS (SELECT 1 FROM relationship_types t WHERE t.name = v.name AND t.persona_id IS NULL);
+
+-- Persona permissions: a persona with no rows in a permission table may see every kind
+-- (or relationship type); otherwise only the listed ones. Enforced by the application.
+
+ALTER TABLE entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE edges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entity_kinds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE relationship_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE persona_entity_kind_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE persona_relationship_type_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Edges are readable wherever their evidence document is readable
+CREATE POLICY "Edges of readable documents are readable" ON edges
+  FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM docs d WHERE d.id = edges.evidence_doc_id)
+  );
+
+-- Entities (and their aliases) are readable when a readable edge references them
+CREATE POLICY "Entities with readable edges are readable" ON entities
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM edges e JOIN docs d ON d.id = e.evidence_doc_id
+      WHERE e.src_id = entities.id::text OR e.dst_id = entities.id::text
+    )
+  );
+
+CREATE POLICY "Aliases of readable entities are readable" ON aliases
+  FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM entities en WHERE en.id = aliases.entity_id)
+  );
+
+CREATE POLICY "Authenticated users read entity kinds" ON entity_kinds
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users read relationship types" ON relationship_types
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users read entity kind permissions" ON persona_entity_kind_permissions
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users read relationship type permissions" ON persona_relationship_type_permissions
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins manage entities" ON entities
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
+
+CREATE POLICY "Admins manage aliases" ON aliases
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
+
+CREATE POLICY "Admins manage edges" ON edges
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
+
+CREATE POLICY "Admins manage entity kind permissions" ON persona_entity_kind_permissions
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );
+
+CREATE POLICY "Admins manage relationship type permissions" ON persona_relationship_type_permissions
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  );